@@ -9,6 +9,7 @@ declare namespace Cloudflare {
 		EMAIL_REPLY_TO: "support@agenticdev.agency";
 		NEXTJS_ENV: string;
 		NEXT_CACHE_DO_QUEUE: DurableObjectNamespace<import("./.open-next/worker").DOQueueHandler>;
+		MARKETPLACE_BUCKET: R2Bucket;
 		NEXT_TAG_CACHE_D1: D1Database;
 		WORKER_SELF_REFERENCE: Fetcher /* cloudflare-workers-nextjs-saas-template */;
 		ASSETS: Fetcher;
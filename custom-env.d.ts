@@ -6,4 +6,6 @@ interface CloudflareEnv {
   BREVO_API_KEY?: string;
   GOOGLE_CLIENT_ID?: string;
   GOOGLE_CLIENT_SECRET?: string;
+  // Authenticates the Cron Trigger requests of custom-worker.ts
+  CRON_SECRET?: string;
 }
@@ -0,0 +1,40 @@
+/**
+ * Wraps the worker generated by OpenNext to add the handler of Cron Triggers.
+ * Docs: https://opennext.js.org/cloudflare/howtos/custom-worker
+ */
+import { default as handler } from "./.open-next/worker.js";
+
+// Scheduled jobs run as route handlers, where the app code has access to the Cloudflare context
+const CRON_ROUTES: Record<string, string> = {
+  "0 3 * * *": "/api/cron/credits",
+};
+
+export default {
+  fetch: handler.fetch,
+
+  async scheduled(controller, env, ctx) {
+    const path = CRON_ROUTES[controller.cron];
+
+    if (!path) {
+      console.error(`No route for cron "${controller.cron}"`);
+      return;
+    }
+
+    const response = await handler.fetch(
+      new Request(new URL(path, "https://localhost"), {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${env.CRON_SECRET}`,
+        },
+      }),
+      env,
+      ctx,
+    );
+
+    if (!response.ok) {
+      throw new Error(`Cron route ${path} failed with status ${response.status}`);
+    }
+  },
+} satisfies ExportedHandler<CloudflareEnv>;
+
+export { DOQueueHandler } from "./.open-next/worker.js";
@@ -10,6 +10,10 @@ initOpenNextCloudflareForDev();
 const nextConfig = {
   experimental: {
     typedRoutes: true,
+    serverActions: {
+      // Source files of marketplace items are uploaded through a server action
+      bodySizeLimit: '11mb',
+    },
   },
   eslint: {
     ignoreDuringBuilds: process.env.SKIP_LINTER === 'true'
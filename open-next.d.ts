@@ -0,0 +1,11 @@
+// Types of `.open-next/worker.js`, which is generated by `opennextjs-cloudflare build` and imported by custom-worker.ts
+declare module "*/.open-next/worker.js" {
+  export { DOQueueHandler } from "@opennextjs/cloudflare/durable-objects/queue";
+
+  const handler: {
+    // Takes any request, the cron handler sends its own without the `cf` properties of incoming requests
+    fetch(request: Request, env: CloudflareEnv, ctx: ExecutionContext): Promise<Response>;
+  };
+
+  export default handler;
+}
@@ -0,0 +1,55 @@
+/**
+ * Sends a signed Stripe webhook fixture to the local dev server, so the webhook
+ * handler can be tested without the Stripe CLI or a live Stripe account.
+ *
+ * Usage:
+ *   STRIPE_WEBHOOK_SECRET=whsec_... node scripts/send-stripe-webhook.mjs <event> <userId> [paymentIntentId]
+ *
+ * <event> is the name of a fixture in scripts/fixtures/stripe (e.g. payment_intent.succeeded)
+ */
+import { createHmac } from 'node:crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'stripe');
+const WEBHOOK_URL = process.env.WEBHOOK_URL || 'http://localhost:3000/api/webhooks/stripe';
+
+const [eventName, userId, paymentIntentId = 'pi_local_fixture'] = process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+
+if (!eventName || !userId) {
+  console.error('Usage: node scripts/send-stripe-webhook.mjs <event> <userId> [paymentIntentId]');
+  console.error(`Available events: ${fs.readdirSync(FIXTURES_DIR).map((file) => path.basename(file, '.json')).join(', ')}`);
+  process.exit(1);
+}
+
+if (!secret) {
+  console.error('STRIPE_WEBHOOK_SECRET is not set');
+  process.exit(1);
+}
+
+try {
+  const payload = fs.readFileSync(path.join(FIXTURES_DIR, `${eventName}.json`), 'utf-8')
+    .replaceAll('{{USER_ID}}', userId)
+    .replaceAll('{{PAYMENT_INTENT_ID}}', paymentIntentId);
+
+  // Same scheme as Stripe: HMAC-SHA256 of "<timestamp>.<payload>" with the endpoint secret
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+
+  const response = await fetch(WEBHOOK_URL, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'stripe-signature': `t=${timestamp},v1=${signature}`,
+    },
+    body: payload,
+  });
+
+  console.log(response.status, await response.text());
+  process.exit(response.ok ? 0 : 1);
+} catch (error) {
+  console.error(error.message);
+  process.exit(1);
+}
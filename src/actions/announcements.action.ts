@@ -0,0 +1,75 @@
+"use server";
+
+import { createServerAction, ZSAError } from "zsa";
+import { cookies } from "next/headers";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import { announcementDismissalTable, announcementTable } from "@/db/schema";
+import { getSessionFromCookie } from "@/utils/auth";
+import {
+  parseDismissedAnnouncementsCookie,
+  serializeDismissedAnnouncementsCookie,
+} from "@/utils/announcements";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { announcementIdSchema } from "@/schemas/announcement.schema";
+import { DISMISSED_ANNOUNCEMENTS_COOKIE_NAME } from "@/constants";
+import isProd from "@/utils/is-prod";
+
+export const dismissAnnouncementAction = createServerAction()
+  .input(announcementIdSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => {
+        const db = getDB();
+
+        const announcement = await db.query.announcementTable.findFirst({
+          where: eq(announcementTable.id, input.announcementId),
+          columns: {
+            id: true,
+            dismissible: true,
+          },
+        });
+
+        if (!announcement) {
+          throw new ZSAError("NOT_FOUND", "Announcement not found");
+        }
+
+        if (!announcement.dismissible) {
+          throw new ZSAError("FORBIDDEN", "This announcement can't be closed");
+        }
+
+        const session = await getSessionFromCookie();
+
+        if (session) {
+          await db.insert(announcementDismissalTable)
+            .values({
+              announcementId: announcement.id,
+              userId: session.user.id,
+            })
+            .onConflictDoNothing();
+
+          return { success: true };
+        }
+
+        const cookieStore = await cookies();
+        const dismissedIds = parseDismissedAnnouncementsCookie(
+          cookieStore.get(DISMISSED_ANNOUNCEMENTS_COOKIE_NAME)?.value
+        ).filter((announcementId) => announcementId !== announcement.id);
+
+        cookieStore.set(
+          DISMISSED_ANNOUNCEMENTS_COOKIE_NAME,
+          serializeDismissedAnnouncementsCookie([...dismissedIds, announcement.id]),
+          {
+            httpOnly: true,
+            sameSite: "lax",
+            secure: isProd,
+            maxAge: 60 * 60 * 24 * 365, // 1 year
+            path: "/",
+          }
+        );
+
+        return { success: true };
+      },
+      RATE_LIMITS.DISMISS_ANNOUNCEMENT
+    );
+  });
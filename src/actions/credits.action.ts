@@ -1,34 +1,79 @@
 'use server';
 
+import { ZSAError } from "zsa";
 import { requireVerifiedEmail } from "@/utils/auth";
 import {
   getCreditTransactions,
-  updateUserCredits,
-  logTransaction,
+  addPurchasedCredits,
   getCreditPackage,
 } from "@/utils/credits";
-import { CREDIT_TRANSACTION_TYPE } from "@/db/schema";
+import type Stripe from "stripe";
 import { getStripe } from "@/lib/stripe";
-import { MAX_TRANSACTIONS_PER_PAGE, CREDITS_EXPIRATION_YEARS } from "@/constants";
-import ms from "ms";
+import { completeCreditPurchase } from "@/utils/credit-purchases";
+import { getOrCreateStripeCustomer } from "@/utils/subscriptions";
+import {
+  setLowBalanceSettings,
+  shouldSavePaymentMethod,
+} from "@/utils/low-balance";
+import {
+  getDiscountedPrice,
+  claimDiscountPromoCode,
+  attachPromoCodeClaim,
+  releasePromoCodeClaim,
+  redeemCreditsPromoCode,
+  getRedeemablePromoCode,
+  PromoCodeError,
+} from "@/utils/promo-codes";
+import { sendCredits, CreditTransferError } from "@/utils/credit-transfers";
+import { MAX_TRANSACTIONS_PER_PAGE } from "@/constants";
 import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { requireTeamPermission } from "@/utils/team-auth";
+import { PROMO_CODE_TYPE, TEAM_PERMISSIONS } from "@/db/schema";
 
 // Action types
+// Actions that take a teamId operate on the team's wallet instead of the user's
 type GetTransactionsInput = {
   page: number;
   limit?: number;
+  teamId?: string;
 };
 
 type CreatePaymentIntentInput = {
   packageId: string;
+  teamId?: string;
+  // A DISCOUNT promo code applied to the package
+  promoCode?: string;
 };
 
 type PurchaseCreditsInput = {
   packageId: string;
   paymentIntentId: string;
+  teamId?: string;
+};
+
+type RedeemPromoCodeInput = {
+  code: string;
+  teamId?: string;
+};
+
+type TransferCreditsInput = {
+  amount: number;
+  // Either the email of a teammate or the ID of a team of the user
+  recipientEmail?: string;
+  recipientTeamId?: string;
+  note?: string;
+  // Sends the credits of this team instead of the user's
+  teamId?: string;
+};
+
+type UpdateLowBalanceSettingsInput = {
+  // null turns the alert and auto top-up off
+  lowBalanceThreshold: number | null;
+  autoTopUpPackageId: string | null;
+  teamId?: string;
 };
 
-export async function getTransactions({ page, limit = MAX_TRANSACTIONS_PER_PAGE }: GetTransactionsInput) {
+export async function getTransactions({ page, limit = MAX_TRANSACTIONS_PER_PAGE, teamId }: GetTransactionsInput) {
   return withRateLimit(async () => {
     if (page < 1 || limit < 1) {
       throw new Error("Invalid page or limit");
@@ -48,8 +93,13 @@ export async function getTransactions({ page, limit = MAX_TRANSACTIONS_PER_PAGE
       throw new Error("Unauthorized");
     }
 
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
     const result = await getCreditTransactions({
       userId: session.user.id,
+      teamId,
       page,
       limit,
     });
@@ -65,48 +115,102 @@ export async function getTransactions({ page, limit = MAX_TRANSACTIONS_PER_PAGE
   }, RATE_LIMITS.PURCHASE);
 }
 
-export async function createPaymentIntent({ packageId }: CreatePaymentIntentInput) {
+export async function createPaymentIntent({ packageId, teamId, promoCode }: CreatePaymentIntentInput) {
   return withRateLimit(async () => {
     const session = await requireVerifiedEmail();
     if (!session) {
       throw new Error("Unauthorized");
     }
 
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
     try {
       const creditPackage = getCreditPackage(packageId);
       if (!creditPackage) {
         throw new Error("Invalid package");
       }
 
-      const paymentIntent = await getStripe().paymentIntents.create({
-        amount: creditPackage.price * 100,
-        currency: 'usd',
-        automatic_payment_methods: {
-          enabled: true,
-          allow_redirects: 'never',
-        },
-        metadata: {
-          userId: session.user.id,
-          packageId: creditPackage.id,
-          credits: creditPackage.credits.toString(),
-        },
-      });
+      // Holds a redemption of the code until the payment intent is paid, canceled or expires
+      const claim = promoCode
+        ? await claimDiscountPromoCode({ code: promoCode, userId: session.user.id, teamId })
+        : undefined;
+      const discountPromoCode = claim?.promoCode;
+      const price = creditPackage.price * 100;
+      const amount = discountPromoCode?.discountPercent
+        ? getDiscountedPrice(creditPackage, discountPromoCode.discountPercent)
+        : price;
+
+      let paymentIntent: Stripe.PaymentIntent;
+
+      try {
+        // With auto top-up enabled, the card is saved so that it can be charged when the balance is low
+        const savePaymentMethod = await shouldSavePaymentMethod({ userId: session.user.id, teamId });
+
+        paymentIntent = await getStripe().paymentIntents.create({
+          amount,
+          currency: 'usd',
+          automatic_payment_methods: {
+            enabled: true,
+            allow_redirects: 'never',
+          },
+          ...(savePaymentMethod ? {
+            customer: await getOrCreateStripeCustomer({ userId: session.user.id, teamId }),
+            setup_future_usage: 'off_session',
+          } : {}),
+          metadata: {
+            userId: session.user.id,
+            packageId: creditPackage.id,
+            credits: creditPackage.credits.toString(),
+            ...(teamId ? { teamId } : {}),
+            ...(savePaymentMethod ? { savePaymentMethod: "true" } : {}),
+            ...(discountPromoCode ? {
+              promoCodeId: discountPromoCode.id,
+              discountAmount: (price - amount).toString(),
+            } : {}),
+          },
+        });
+      } catch (error) {
+        if (claim) {
+          await releasePromoCodeClaim(claim.redemptionId);
+        }
+
+        throw error;
+      }
+
+      if (claim) {
+        await attachPromoCodeClaim({
+          redemptionId: claim.redemptionId,
+          paymentIntentId: paymentIntent.id,
+          discountAmount: price - amount,
+        });
+      }
 
-      return { clientSecret: paymentIntent.client_secret };
+      return { clientSecret: paymentIntent.client_secret, amount };
     } catch (error) {
+      // Tells the user why the promo code can't be used, e.g. because it expired
+      if (error instanceof PromoCodeError) {
+        throw new ZSAError("PRECONDITION_FAILED", error.message);
+      }
+
       console.error("Payment intent creation error:", error);
       throw new Error("Failed to create payment intent");
     }
   }, RATE_LIMITS.PURCHASE);
 }
 
-export async function confirmPayment({ packageId, paymentIntentId }: PurchaseCreditsInput) {
+export async function confirmPayment({ packageId, paymentIntentId, teamId }: PurchaseCreditsInput) {
   return withRateLimit(async () => {
     const session = await requireVerifiedEmail();
     if (!session) {
       throw new Error("Unauthorized");
     }
 
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
     try {
       const creditPackage = getCreditPackage(packageId);
       if (!creditPackage) {
@@ -124,22 +228,24 @@ export async function confirmPayment({ packageId, paymentIntentId }: PurchaseCre
       if (
         paymentIntent.metadata.userId !== session.user.id ||
         paymentIntent.metadata.packageId !== packageId ||
+        (paymentIntent.metadata.teamId || undefined) !== teamId ||
         parseInt(paymentIntent.metadata.credits) !== creditPackage.credits
       ) {
         throw new Error("Invalid payment intent");
       }
 
-      // Add credits and log transaction
-      await updateUserCredits(session.user.id, creditPackage.credits);
-      await logTransaction({
+      // Add credits and log transaction. The Stripe webhook may have already done this.
+      await addPurchasedCredits({
         userId: session.user.id,
-        amount: creditPackage.credits,
-        description: `Purchased ${creditPackage.credits} credits`,
-        type: CREDIT_TRANSACTION_TYPE.PURCHASE,
-        expirationDate: new Date(Date.now() + ms(`${CREDITS_EXPIRATION_YEARS} years`)),
-        paymentIntentId: paymentIntent?.id
+        teamId,
+        creditPackage,
+        paymentIntentId: paymentIntent.id,
+        amountPaid: paymentIntent.amount_received,
       });
 
+      // The credits were granted, failed steps are logged and retried by the webhook
+      await completeCreditPurchase(paymentIntent, { fromWebhook: false });
+
       return { success: true };
     } catch (error) {
       console.error("Purchase error:", error);
@@ -147,3 +253,112 @@ export async function confirmPayment({ packageId, paymentIntentId }: PurchaseCre
     }
   }, RATE_LIMITS.PURCHASE);
 }
+
+/**
+ * Grants the credits of a CREDITS promo code. DISCOUNT promo codes are only
+ * validated here and applied when a package is bought.
+ */
+export async function redeemPromoCode({ code, teamId }: RedeemPromoCodeInput) {
+  return withRateLimit(async () => {
+    const session = await requireVerifiedEmail();
+    if (!session) {
+      throw new Error("Unauthorized");
+    }
+
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
+    try {
+      const { promoCode } = await getRedeemablePromoCode({ code, userId: session.user.id });
+
+      if (promoCode.type === PROMO_CODE_TYPE.DISCOUNT) {
+        return {
+          success: true as const,
+          code: promoCode.code,
+          type: PROMO_CODE_TYPE.DISCOUNT,
+          discountPercent: promoCode.discountPercent ?? 0,
+        };
+      }
+
+      await redeemCreditsPromoCode({ userId: session.user.id, teamId, code });
+
+      return {
+        success: true as const,
+        code: promoCode.code,
+        type: PROMO_CODE_TYPE.CREDITS,
+        credits: promoCode.credits ?? 0,
+      };
+    } catch (error) {
+      // Server action errors are masked in production, so the reason is returned instead
+      if (error instanceof PromoCodeError) {
+        return { success: false as const, error: error.message };
+      }
+
+      throw error;
+    }
+  }, RATE_LIMITS.PURCHASE);
+}
+
+export async function transferCredits({ amount, recipientEmail, recipientTeamId, note, teamId }: TransferCreditsInput) {
+  return withRateLimit(async () => {
+    const session = await requireVerifiedEmail();
+    if (!session) {
+      throw new Error("Unauthorized");
+    }
+
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
+    try {
+      const balance = await sendCredits({
+        userId: session.user.id,
+        teamId,
+        recipientEmail,
+        recipientTeamId,
+        amount,
+        note: note?.trim() || null,
+      });
+
+      return { success: true as const, balance };
+    } catch (error) {
+      // Server action errors are masked in production, so the reason is returned instead
+      if (error instanceof CreditTransferError) {
+        return { success: false as const, error: error.message };
+      }
+
+      throw error;
+    }
+  }, RATE_LIMITS.CREDIT_TRANSFER);
+}
+
+export async function updateLowBalanceSettings({ lowBalanceThreshold, autoTopUpPackageId, teamId }: UpdateLowBalanceSettingsInput) {
+  return withRateLimit(async () => {
+    const session = await requireVerifiedEmail();
+    if (!session) {
+      throw new Error("Unauthorized");
+    }
+
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
+    if (lowBalanceThreshold !== null && (!Number.isInteger(lowBalanceThreshold) || lowBalanceThreshold < 1)) {
+      throw new Error("The threshold must be a positive number of credits");
+    }
+
+    if (autoTopUpPackageId !== null && !getCreditPackage(autoTopUpPackageId)) {
+      throw new Error("Invalid package");
+    }
+
+    await setLowBalanceSettings({
+      userId: session.user.id,
+      teamId,
+      lowBalanceThreshold,
+      autoTopUpPackageId,
+    });
+
+    return { success: true };
+  }, RATE_LIMITS.SETTINGS);
+}
@@ -0,0 +1,21 @@
+"use server";
+
+import { createServerAction, ZSAError } from "zsa";
+import { getSessionFromCookie, stopImpersonating } from "@/utils/auth";
+
+export const stopImpersonatingAction = createServerAction()
+  .handler(async () => {
+    const session = await getSessionFromCookie();
+
+    if (!session) {
+      throw new ZSAError("NOT_AUTHORIZED", "Not authenticated");
+    }
+
+    const adminSession = await stopImpersonating(session);
+
+    return {
+      userId: session.userId,
+      // False when the admin's own session expired while they were impersonating
+      isAdminSignedIn: Boolean(adminSession),
+    };
+  });
@@ -3,7 +3,8 @@
 import {
   deleteSessionTokenCookie,
   getSessionFromCookie,
-  invalidateSession
+  invalidateSession,
+  stopImpersonating
 } from "@/utils/auth";
 import { RATE_LIMITS, withRateLimit } from "@/utils/with-rate-limit";
 
@@ -14,6 +15,12 @@ export const signOutAction = async () => {
 
       if (!session) return;
 
+      // Signing out of an impersonated session returns the admin to their own session
+      if (session.impersonation) {
+        await stopImpersonating(session);
+        return;
+      }
+
       await invalidateSession(
         session.id,
         session.userId
@@ -0,0 +1,136 @@
+'use server';
+
+import { eq } from "drizzle-orm";
+import { requireVerifiedEmail } from "@/utils/auth";
+import { requireTeamPermission } from "@/utils/team-auth";
+import { getActivePlan, getPlan, getPlanStripePriceId } from "@/utils/plans";
+import { getOrCreateStripeCustomer } from "@/utils/subscriptions";
+import { getStripe } from "@/lib/stripe";
+import { getDB } from "@/db";
+import { TEAM_PERMISSIONS, teamTable, userTable } from "@/db/schema";
+import { DEFAULT_PLAN_ID, SITE_URL } from "@/constants";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+
+// Actions that take a teamId manage the team's subscription instead of the user's
+type CreateCheckoutSessionInput = {
+  planId: string;
+  teamId?: string;
+};
+
+type CreateBillingPortalSessionInput = {
+  teamId?: string;
+};
+
+async function getSubscriptionOwner({ userId, teamId }: { userId: string; teamId?: string }) {
+  const db = getDB();
+
+  if (teamId) {
+    const team = await db.query.teamTable.findFirst({
+      where: eq(teamTable.id, teamId),
+    });
+
+    if (!team) {
+      throw new Error("Team not found");
+    }
+
+    return {
+      ...team,
+      billingUrl: `${SITE_URL}/dashboard/teams/${team.slug}/billing`,
+    };
+  }
+
+  const user = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+  });
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  return {
+    ...user,
+    billingUrl: `${SITE_URL}/dashboard/billing`,
+  };
+}
+
+export async function createCheckoutSession({ planId, teamId }: CreateCheckoutSessionInput) {
+  return withRateLimit(async () => {
+    const session = await requireVerifiedEmail();
+    if (!session) {
+      throw new Error("Unauthorized");
+    }
+
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
+    const plan = getPlan(planId);
+    const priceId = getPlanStripePriceId(planId);
+
+    if (!plan || !priceId) {
+      throw new Error("Invalid plan");
+    }
+
+    const owner = await getSubscriptionOwner({ userId: session.userId, teamId });
+
+    // Plan changes of an existing subscription go through the Customer Portal
+    if (owner.stripeSubscriptionId && getActivePlan(owner).id !== DEFAULT_PLAN_ID) {
+      throw new Error("Already subscribed");
+    }
+
+    try {
+      const customer = await getOrCreateStripeCustomer({ userId: session.userId, teamId });
+
+      const checkoutSession = await getStripe().checkout.sessions.create({
+        mode: "subscription",
+        customer,
+        line_items: [{ price: priceId, quantity: 1 }],
+        success_url: `${owner.billingUrl}?checkout=success`,
+        cancel_url: owner.billingUrl,
+        subscription_data: {
+          metadata: {
+            userId: session.userId,
+            planId: plan.id,
+            ...(teamId ? { teamId } : {}),
+          },
+        },
+      });
+
+      return { url: checkoutSession.url };
+    } catch (error) {
+      console.error("Checkout session creation error:", error);
+      throw new Error("Failed to create checkout session");
+    }
+  }, RATE_LIMITS.PURCHASE);
+}
+
+export async function createBillingPortalSession({ teamId }: CreateBillingPortalSessionInput) {
+  return withRateLimit(async () => {
+    const session = await requireVerifiedEmail();
+    if (!session) {
+      throw new Error("Unauthorized");
+    }
+
+    if (teamId) {
+      await requireTeamPermission(teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+    }
+
+    const owner = await getSubscriptionOwner({ userId: session.userId, teamId });
+
+    if (!owner.stripeCustomerId) {
+      throw new Error("No subscription found");
+    }
+
+    try {
+      const portalSession = await getStripe().billingPortal.sessions.create({
+        customer: owner.stripeCustomerId,
+        return_url: owner.billingUrl,
+      });
+
+      return { url: portalSession.url };
+    } catch (error) {
+      console.error("Billing portal session creation error:", error);
+      throw new Error("Failed to create billing portal session");
+    }
+  }, RATE_LIMITS.PURCHASE);
+}
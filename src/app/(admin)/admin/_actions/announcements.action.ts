@@ -0,0 +1,96 @@
+"use server"
+
+import { createServerAction, ZSAError } from "zsa"
+import { eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { getDB } from "@/db"
+import { requireAdmin } from "@/utils/auth"
+import { announcementDismissalTable, announcementTable, ANNOUNCEMENT_AUDIENCE } from "@/db/schema"
+import { invalidateAnnouncementsCache } from "@/utils/announcements"
+import { getPlan } from "@/utils/plans"
+import { announcementIdSchema, createAnnouncementSchema } from "@/schemas/announcement.schema"
+
+async function getAnnouncement(announcementId: string) {
+  const announcement = await getDB().query.announcementTable.findFirst({
+    where: eq(announcementTable.id, announcementId),
+    columns: { id: true, endsAt: true },
+  })
+
+  if (!announcement) {
+    throw new ZSAError("NOT_FOUND", "Announcement not found")
+  }
+
+  return announcement
+}
+
+// The banners are read from the KV cache, so every change has to drop it
+async function onAnnouncementsChanged() {
+  await invalidateAnnouncementsCache()
+  revalidatePath("/admin/announcements")
+}
+
+export const createAnnouncementAction = createServerAction()
+  .input(createAnnouncementSchema)
+  .handler(async ({ input }) => {
+    const session = await requireAdmin()
+
+    if (input.audience === ANNOUNCEMENT_AUDIENCE.PLAN && !getPlan(input.planId ?? "")) {
+      throw new ZSAError("INPUT_PARSE_ERROR", "The plan doesn't exist")
+    }
+
+    const [announcement] = await getDB().insert(announcementTable).values({
+      type: input.type,
+      title: input.title,
+      message: input.message || null,
+      audience: input.audience,
+      teamIds: input.audience === ANNOUNCEMENT_AUDIENCE.TEAMS ? [...new Set(input.teamIds)] : null,
+      planId: input.audience === ANNOUNCEMENT_AUDIENCE.PLAN ? input.planId : null,
+      startsAt: input.startsAt,
+      endsAt: input.endsAt,
+      dismissible: input.dismissible ? 1 : 0,
+      createdBy: session?.user.id,
+    }).returning()
+
+    await onAnnouncementsChanged()
+
+    return { announcement }
+  })
+
+export const endAnnouncementAction = createServerAction()
+  .input(announcementIdSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+    const announcement = await getAnnouncement(input.announcementId)
+    const now = new Date()
+
+    if (announcement.endsAt && announcement.endsAt <= now) {
+      throw new ZSAError("CONFLICT", "The announcement already ended")
+    }
+
+    await getDB()
+      .update(announcementTable)
+      .set({ endsAt: now })
+      .where(eq(announcementTable.id, announcement.id))
+
+    await onAnnouncementsChanged()
+
+    return { success: true }
+  })
+
+export const deleteAnnouncementAction = createServerAction()
+  .input(announcementIdSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+    const announcement = await getAnnouncement(input.announcementId)
+    const db = getDB()
+
+    // Dismissals reference the announcement
+    await db.batch([
+      db.delete(announcementDismissalTable).where(eq(announcementDismissalTable.announcementId, announcement.id)),
+      db.delete(announcementTable).where(eq(announcementTable.id, announcement.id)),
+    ])
+
+    await onAnnouncementsChanged()
+
+    return { success: true }
+  })
@@ -0,0 +1,26 @@
+"use server"
+
+import { createServerAction } from "zsa"
+import { z } from "zod"
+import { requireAdmin } from "@/utils/auth"
+import { getAuditLogs, type AuditLogAction } from "@/utils/audit-log"
+import { AUDIT_LOG_ACTION } from "@/db/schema"
+import { PAGE_SIZE_OPTIONS } from "../admin-constants"
+
+const getAuditLogsSchema = z.object({
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(1).max(Math.max(...PAGE_SIZE_OPTIONS)).default(10),
+  action: z.enum(Object.values(AUDIT_LOG_ACTION) as [AuditLogAction, ...AuditLogAction[]]).optional(),
+  actorEmail: z.string().trim().max(255).optional(),
+  teamId: z.string().trim().max(255).optional(),
+  createdFrom: z.string().date().optional(),
+  createdTo: z.string().date().optional(),
+})
+
+export const getAuditLogsAction = createServerAction()
+  .input(getAuditLogsSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+
+    return getAuditLogs(input)
+  })
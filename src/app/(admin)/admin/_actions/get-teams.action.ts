@@ -0,0 +1,76 @@
+"use server"
+
+import { createServerAction } from "zsa"
+import { getDB } from "@/db"
+import { requireAdmin } from "@/utils/auth"
+import { z } from "zod"
+import { count, desc, eq, sql } from "drizzle-orm"
+import { teamMembershipTable, teamTable } from "@/db/schema"
+import { PAGE_SIZE_OPTIONS } from "../admin-constants"
+
+const getTeamsSchema = z.object({
+  page: z.number().min(1).default(1),
+  pageSize: z.number().min(1).max(Math.max(...PAGE_SIZE_OPTIONS)).default(10),
+  search: z.string().optional(),
+})
+
+export const getTeamsAction = createServerAction()
+  .input(getTeamsSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+
+    const db = getDB()
+    const { page, pageSize, search } = input
+
+    const offset = (page - 1) * pageSize
+
+    // Deleted teams are listed too, so they can be restored
+    const whereClause = search
+      ? sql`(${teamTable.name} LIKE ${`%${search}%`} OR ${teamTable.slug} LIKE ${`%${search}%`})`
+      : undefined
+
+    const [{ totalCount }] = await db
+      .select({ totalCount: count() })
+      .from(teamTable)
+      .where(whereClause)
+
+    const teams = await db
+      .select({
+        id: teamTable.id,
+        name: teamTable.name,
+        slug: teamTable.slug,
+        planId: teamTable.planId,
+        creditBalance: teamTable.creditBalance,
+        limitsLiftedAt: teamTable.limitsLiftedAt,
+        deletedAt: teamTable.deletedAt,
+        createdAt: teamTable.createdAt,
+        memberCount: count(teamMembershipTable.id),
+      })
+      .from(teamTable)
+      .leftJoin(teamMembershipTable, eq(teamMembershipTable.teamId, teamTable.id))
+      .where(whereClause)
+      .groupBy(teamTable.id)
+      .orderBy(desc(teamTable.createdAt))
+      .limit(pageSize)
+      .offset(offset)
+
+    const transformedTeams = teams.map(team => ({
+      id: team.id,
+      name: team.name,
+      slug: team.slug,
+      plan: team.planId,
+      memberCount: team.memberCount,
+      creditBalance: team.creditBalance,
+      limitsLifted: !!team.limitsLiftedAt,
+      status: team.deletedAt ? "deleted" as const : "active" as const,
+      createdAt: team.createdAt,
+    }))
+
+    return {
+      teams: transformedTeams,
+      totalCount,
+      page,
+      pageSize,
+      totalPages: Math.ceil(totalCount / pageSize),
+    }
+  })
@@ -3,15 +3,16 @@
 import { createServerAction } from "zsa"
 import { getDB } from "@/db"
 import { requireAdmin } from "@/utils/auth"
+import { getUserFiltersOrderBy, getUserFiltersWhere } from "@/utils/admin-users"
 import { z } from "zod"
 import { sql } from "drizzle-orm"
 import { userTable } from "@/db/schema"
+import { userFiltersSchema } from "@/schemas/admin-user-filters.schema"
 import { PAGE_SIZE_OPTIONS } from "../admin-constants"
 
-const getUsersSchema = z.object({
+const getUsersSchema = userFiltersSchema.extend({
   page: z.number().min(1).default(1),
   pageSize: z.number().min(1).max(Math.max(...PAGE_SIZE_OPTIONS)).default(10),
-  emailFilter: z.string().optional(),
 })
 
 export const getUsersAction = createServerAction()
@@ -20,15 +21,13 @@ export const getUsersAction = createServerAction()
     await requireAdmin()
 
     const db = getDB()
-    const { page, pageSize, emailFilter } = input
+    const { page, pageSize, ...filters } = input
 
     // Calculate offset
     const offset = (page - 1) * pageSize
 
     // Build where clause
-    const whereClause = emailFilter
-      ? sql`${userTable.email} LIKE ${`%${emailFilter}%`}`
-      : undefined
+    const whereClause = getUserFiltersWhere(filters)
 
     // Fetch total count
     const [{ count }] = await db
@@ -37,21 +36,23 @@ export const getUsersAction = createServerAction()
       .where(whereClause)
 
     // Fetch paginated users
-    const users = await db.query.userTable.findMany({
-      columns: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        role: true,
-        emailVerified: true,
-        createdAt: true,
-      },
-      where: whereClause,
-      orderBy: (users, { desc }) => [desc(users.createdAt)],
-      limit: pageSize,
-      offset,
-    })
+    const users = await db
+      .select({
+        id: userTable.id,
+        email: userTable.email,
+        firstName: userTable.firstName,
+        lastName: userTable.lastName,
+        role: userTable.role,
+        emailVerified: userTable.emailVerified,
+        bannedAt: userTable.bannedAt,
+        currentCredits: userTable.currentCredits,
+        createdAt: userTable.createdAt,
+      })
+      .from(userTable)
+      .where(whereClause)
+      .orderBy(...getUserFiltersOrderBy(filters))
+      .limit(pageSize)
+      .offset(offset)
 
     // Transform the data to match our table's expected format
     const transformedUsers = users.map(user => ({
@@ -61,7 +62,10 @@ export const getUsersAction = createServerAction()
         ? `${user.firstName} ${user.lastName}`
         : null,
       role: user.role,
-      status: user.emailVerified ? "active" as const : "inactive" as const,
+      status: user.bannedAt
+        ? "banned" as const
+        : user.emailVerified ? "active" as const : "inactive" as const,
+      credits: user.currentCredits,
       createdAt: user.createdAt,
     }))
 
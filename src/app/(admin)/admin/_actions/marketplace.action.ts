@@ -0,0 +1,276 @@
+"use server"
+
+import { createServerAction, ZSAError } from "zsa"
+import { and, eq, inArray, sql } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { getCloudflareContext } from "@opennextjs/cloudflare"
+import { getDB } from "@/db"
+import { requireAdmin } from "@/utils/auth"
+import { getMarketplaceItem } from "@/utils/marketplace"
+import { deleteMarketplaceItemSource, uploadMarketplaceItemSource } from "@/utils/marketplace-sources"
+import { notifyWishlistPriceDrop } from "@/utils/wishlist"
+import {
+  marketplaceBundleTable,
+  marketplaceBundleItemTable,
+  marketplaceItemTable,
+  marketplaceItemPriceTable,
+  marketplaceReviewTable,
+  purchasedItemsTable,
+  wishlistItemTable,
+} from "@/db/schema"
+import {
+  createMarketplaceBundleSchema,
+  createMarketplaceItemSchema,
+  deleteMarketplaceBundleSchema,
+  deleteMarketplaceItemSchema,
+  updateMarketplaceBundleSchema,
+  updateMarketplaceItemSchema,
+  uploadMarketplaceItemSourceSchema,
+} from "@/schemas/marketplace-item.schema"
+import { setMarketplaceReviewHiddenSchema } from "@/schemas/marketplace-review.schema"
+
+function revalidateMarketplace() {
+  revalidatePath("/admin/marketplace")
+  revalidatePath("/dashboard/marketplace")
+}
+
+export const createMarketplaceItemAction = createServerAction()
+  .input(createMarketplaceItemSchema)
+  .handler(async ({ input }) => {
+    const session = await requireAdmin()
+    const db = getDB()
+
+    if (await getMarketplaceItem({ type: input.type, slug: input.slug })) {
+      throw new ZSAError("CONFLICT", `An item with the slug ${input.slug} already exists`)
+    }
+
+    // The item gets its ID when it's inserted, so its first price looks it up by slug
+    await db.batch([
+      db.insert(marketplaceItemTable).values(input),
+      db.insert(marketplaceItemPriceTable).values({
+        itemId: sql`(SELECT ${marketplaceItemTable.id} FROM ${marketplaceItemTable} WHERE ${marketplaceItemTable.type} = ${input.type} AND ${marketplaceItemTable.slug} = ${input.slug})`,
+        credits: input.credits,
+        createdBy: session?.user.id,
+      }),
+    ])
+
+    revalidateMarketplace()
+
+    return { success: true }
+  })
+
+export const updateMarketplaceItemAction = createServerAction()
+  .input(updateMarketplaceItemSchema)
+  .handler(async ({ input }) => {
+    const session = await requireAdmin()
+    const db = getDB()
+    const { itemId, ...values } = input
+
+    const item = await db.query.marketplaceItemTable.findFirst({
+      where: eq(marketplaceItemTable.id, itemId),
+    })
+
+    if (!item) {
+      throw new ZSAError("NOT_FOUND", "Item not found")
+    }
+
+    await db.batch([
+      db.update(marketplaceItemTable).set(values).where(eq(marketplaceItemTable.id, itemId)),
+      // Past purchases keep referencing the price they were made at
+      ...(values.credits !== item.credits
+        ? [db.insert(marketplaceItemPriceTable).values({
+          itemId,
+          credits: values.credits,
+          createdBy: session?.user.id,
+        })]
+        : []),
+    ])
+
+    // The emails are sent after the response, so a failed email never fails the save
+    if (values.credits < item.credits) {
+      getCloudflareContext().ctx.waitUntil(
+        notifyWishlistPriceDrop({ ...item, ...values }).catch((error) => {
+          console.error(`Failed to notify the wishlists of item ${itemId} about its price drop:`, error)
+        })
+      )
+    }
+
+    revalidateMarketplace()
+
+    return { success: true }
+  })
+
+export const deleteMarketplaceItemAction = createServerAction()
+  .input(deleteMarketplaceItemSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+    const db = getDB()
+
+    const item = await db.query.marketplaceItemTable.findFirst({
+      where: eq(marketplaceItemTable.id, input.itemId),
+    })
+
+    if (!item) {
+      throw new ZSAError("NOT_FOUND", "Item not found")
+    }
+
+    const purchase = await db.query.purchasedItemsTable.findFirst({
+      where: and(
+        eq(purchasedItemsTable.itemType, item.type),
+        eq(purchasedItemsTable.itemId, item.slug),
+      ),
+      columns: { id: true },
+    })
+
+    if (purchase) {
+      throw new ZSAError("CONFLICT", "This item has been purchased and can only be archived")
+    }
+
+    await db.batch([
+      db.delete(marketplaceBundleItemTable).where(eq(marketplaceBundleItemTable.itemId, item.id)),
+      db.delete(wishlistItemTable).where(eq(wishlistItemTable.itemId, item.id)),
+      db.delete(marketplaceItemPriceTable).where(eq(marketplaceItemPriceTable.itemId, item.id)),
+      db.delete(marketplaceItemTable).where(eq(marketplaceItemTable.id, item.id)),
+    ])
+
+    await deleteMarketplaceItemSource(item)
+
+    revalidateMarketplace()
+
+    return { success: true }
+  })
+
+export const uploadMarketplaceItemSourceAction = createServerAction()
+  .input(uploadMarketplaceItemSourceSchema, { type: "formData" })
+  .handler(async ({ input }) => {
+    await requireAdmin()
+
+    const item = await getDB().query.marketplaceItemTable.findFirst({
+      where: eq(marketplaceItemTable.id, input.itemId),
+    })
+
+    if (!item) {
+      throw new ZSAError("NOT_FOUND", "Item not found")
+    }
+
+    await uploadMarketplaceItemSource(item, input.file)
+
+    revalidateMarketplace()
+    revalidatePath(`/admin/marketplace/${item.id}`)
+
+    return { success: true }
+  })
+
+async function requireMarketplaceItems(itemIds: string[]) {
+  const items = await getDB().query.marketplaceItemTable.findMany({
+    where: inArray(marketplaceItemTable.id, itemIds),
+    columns: { id: true },
+  })
+
+  if (items.length !== new Set(itemIds).size) {
+    throw new ZSAError("NOT_FOUND", "Some of the items don't exist anymore")
+  }
+}
+
+export const createMarketplaceBundleAction = createServerAction()
+  .input(createMarketplaceBundleSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+    const db = getDB()
+    const { itemIds, ...values } = input
+
+    const existingBundle = await db.query.marketplaceBundleTable.findFirst({
+      where: eq(marketplaceBundleTable.slug, input.slug),
+      columns: { id: true },
+    })
+
+    if (existingBundle) {
+      throw new ZSAError("CONFLICT", `A bundle with the slug ${input.slug} already exists`)
+    }
+
+    await requireMarketplaceItems(itemIds)
+
+    // The bundle gets its ID when it's inserted, so its items look it up by slug
+    const bundleId = sql`(SELECT ${marketplaceBundleTable.id} FROM ${marketplaceBundleTable} WHERE ${marketplaceBundleTable.slug} = ${input.slug})`
+
+    await db.batch([
+      db.insert(marketplaceBundleTable).values(values),
+      ...[...new Set(itemIds)].map((itemId) => db.insert(marketplaceBundleItemTable).values({ bundleId, itemId })),
+    ])
+
+    revalidateMarketplace()
+
+    return { success: true }
+  })
+
+export const updateMarketplaceBundleAction = createServerAction()
+  .input(updateMarketplaceBundleSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+    const db = getDB()
+    const { bundleId, itemIds, ...values } = input
+
+    const bundle = await db.query.marketplaceBundleTable.findFirst({
+      where: eq(marketplaceBundleTable.id, bundleId),
+      columns: { id: true },
+    })
+
+    if (!bundle) {
+      throw new ZSAError("NOT_FOUND", "Bundle not found")
+    }
+
+    await requireMarketplaceItems(itemIds)
+
+    await db.batch([
+      db.update(marketplaceBundleTable).set(values).where(eq(marketplaceBundleTable.id, bundleId)),
+      db.delete(marketplaceBundleItemTable).where(eq(marketplaceBundleItemTable.bundleId, bundleId)),
+      ...[...new Set(itemIds)].map((itemId) => db.insert(marketplaceBundleItemTable).values({ bundleId, itemId })),
+    ])
+
+    revalidateMarketplace()
+
+    return { success: true }
+  })
+
+export const deleteMarketplaceBundleAction = createServerAction()
+  .input(deleteMarketplaceBundleSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+    const db = getDB()
+
+    const purchase = await db.query.purchasedItemsTable.findFirst({
+      where: eq(purchasedItemsTable.bundleId, input.bundleId),
+      columns: { id: true },
+    })
+
+    if (purchase) {
+      throw new ZSAError("CONFLICT", "This bundle has been purchased and can only be archived")
+    }
+
+    await db.batch([
+      db.delete(marketplaceBundleItemTable).where(eq(marketplaceBundleItemTable.bundleId, input.bundleId)),
+      db.delete(marketplaceBundleTable).where(eq(marketplaceBundleTable.id, input.bundleId)),
+    ])
+
+    revalidateMarketplace()
+
+    return { success: true }
+  })
+
+export const setMarketplaceReviewHiddenAction = createServerAction()
+  .input(setMarketplaceReviewHiddenSchema)
+  .handler(async ({ input }) => {
+    const session = await requireAdmin()
+
+    await getDB()
+      .update(marketplaceReviewTable)
+      .set(input.isHidden
+        ? { hiddenAt: new Date(), hiddenBy: session?.user.id }
+        : { hiddenAt: null, hiddenBy: null })
+      .where(eq(marketplaceReviewTable.id, input.reviewId))
+
+    revalidatePath("/admin/marketplace/reviews")
+    revalidatePath("/dashboard/marketplace")
+
+    return { success: true }
+  })
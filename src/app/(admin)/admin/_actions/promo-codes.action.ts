@@ -0,0 +1,57 @@
+"use server"
+
+import { createServerAction, ZSAError } from "zsa"
+import { eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { getDB } from "@/db"
+import { requireAdmin } from "@/utils/auth"
+import { promoCodeTable, PROMO_CODE_TYPE } from "@/db/schema"
+import { normalizePromoCode } from "@/utils/promo-codes"
+import { createPromoCodeSchema, setPromoCodeActiveSchema } from "@/schemas/promo-code.schema"
+
+export const createPromoCodeAction = createServerAction()
+  .input(createPromoCodeSchema)
+  .handler(async ({ input }) => {
+    const session = await requireAdmin()
+    const db = getDB()
+    const code = normalizePromoCode(input.code)
+
+    const existingPromoCode = await db.query.promoCodeTable.findFirst({
+      where: eq(promoCodeTable.code, code),
+      columns: { id: true },
+    })
+
+    if (existingPromoCode) {
+      throw new ZSAError("CONFLICT", `The promo code ${code} already exists`)
+    }
+
+    const [promoCode] = await db.insert(promoCodeTable).values({
+      code,
+      type: input.type,
+      credits: input.type === PROMO_CODE_TYPE.CREDITS ? input.credits : null,
+      discountPercent: input.type === PROMO_CODE_TYPE.DISCOUNT ? input.discountPercent : null,
+      maxRedemptions: input.maxRedemptions,
+      maxRedemptionsPerUser: input.maxRedemptionsPerUser,
+      expiresAt: input.expiresAt,
+      createdBy: session?.user.id,
+    }).returning()
+
+    revalidatePath("/admin/promo-codes")
+
+    return { promoCode }
+  })
+
+export const setPromoCodeActiveAction = createServerAction()
+  .input(setPromoCodeActiveSchema)
+  .handler(async ({ input }) => {
+    await requireAdmin()
+
+    await getDB()
+      .update(promoCodeTable)
+      .set({ isActive: input.isActive ? 1 : 0 })
+      .where(eq(promoCodeTable.id, input.promoCodeId))
+
+    revalidatePath("/admin/promo-codes")
+
+    return { success: true }
+  })
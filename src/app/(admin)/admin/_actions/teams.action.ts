@@ -0,0 +1,199 @@
+"use server"
+
+import { createServerAction, ZSAError } from "zsa"
+import { and, eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { getDB } from "@/db"
+import { requireAdmin } from "@/utils/auth"
+import { updateAllSessionsOfUser } from "@/utils/kv-session"
+import { getActivePlan } from "@/utils/plans"
+import { DEFAULT_PLAN_ID } from "@/constants"
+import { logAuditEvent, type AuditLogAction } from "@/utils/audit-log"
+import {
+  AUDIT_LOG_ACTION,
+  AUDIT_LOG_TARGET_TYPE,
+  SYSTEM_ROLES_ENUM,
+  teamMembershipTable,
+  teamTable,
+  type AuditLogMetadata,
+  type Team,
+} from "@/db/schema"
+import {
+  adminTeamSchema,
+  setTeamLimitsLiftedSchema,
+  transferTeamOwnershipSchema,
+} from "@/schemas/admin-team.schema"
+
+function revalidateTeam(teamId: string) {
+  revalidatePath("/admin/teams")
+  revalidatePath(`/admin/teams/${teamId}`)
+}
+
+async function getTargetTeam(teamId: string) {
+  const session = await requireAdmin()
+
+  if (!session) {
+    throw new ZSAError("FORBIDDEN", "Not authorized")
+  }
+
+  const team = await getDB().query.teamTable.findFirst({
+    where: eq(teamTable.id, teamId),
+  })
+
+  if (!team) {
+    throw new ZSAError("NOT_FOUND", "Team not found")
+  }
+
+  return { session, team }
+}
+
+function logTeamEvent(action: AuditLogAction, adminUserId: string, team: Team, metadata?: AuditLogMetadata) {
+  return logAuditEvent({
+    action,
+    actorUserId: adminUserId,
+    targetType: AUDIT_LOG_TARGET_TYPE.TEAM,
+    targetId: team.id,
+    teamId: team.id,
+    metadata: { name: team.name, ...metadata },
+  })
+}
+
+/**
+ * The teams of the members are kept in their sessions
+ */
+async function updateSessionsOfTeamMembers(teamId: string) {
+  const memberships = await getDB().query.teamMembershipTable.findMany({
+    where: eq(teamMembershipTable.teamId, teamId),
+    columns: { userId: true },
+  })
+
+  for (const userId of new Set(memberships.map((membership) => membership.userId))) {
+    await updateAllSessionsOfUser(userId)
+  }
+}
+
+export const transferTeamOwnershipAction = createServerAction()
+  .input(transferTeamOwnershipSchema)
+  .handler(async ({ input }) => {
+    const { session, team } = await getTargetTeam(input.teamId)
+    const db = getDB()
+
+    const memberships = await db.query.teamMembershipTable.findMany({
+      where: eq(teamMembershipTable.teamId, team.id),
+      with: {
+        user: { columns: { bannedAt: true } },
+      },
+    })
+    const newOwner = memberships.find((membership) => membership.userId === input.userId)
+
+    if (!newOwner) {
+      throw new ZSAError("NOT_FOUND", "The new owner must be a member of the team")
+    }
+
+    if (newOwner.isSystemRole && newOwner.roleId === SYSTEM_ROLES_ENUM.OWNER) {
+      throw new ZSAError("CONFLICT", "The member already owns the team")
+    }
+
+    if (newOwner.user.bannedAt) {
+      throw new ZSAError("FORBIDDEN", "Banned users can't own a team")
+    }
+
+    const previousOwners = memberships.filter((membership) => (
+      membership.isSystemRole && membership.roleId === SYSTEM_ROLES_ENUM.OWNER
+    ))
+
+    // Previous owners stay in the team as admins
+    await db.batch([
+      db.update(teamMembershipTable)
+        .set({ roleId: SYSTEM_ROLES_ENUM.ADMIN })
+        .where(and(
+          eq(teamMembershipTable.teamId, team.id),
+          eq(teamMembershipTable.roleId, SYSTEM_ROLES_ENUM.OWNER),
+          eq(teamMembershipTable.isSystemRole, 1),
+        )),
+      db.update(teamMembershipTable)
+        .set({ roleId: SYSTEM_ROLES_ENUM.OWNER, isSystemRole: 1 })
+        .where(eq(teamMembershipTable.id, newOwner.id)),
+    ])
+
+    for (const { userId } of [newOwner, ...previousOwners]) {
+      await updateAllSessionsOfUser(userId)
+    }
+
+    await logTeamEvent(AUDIT_LOG_ACTION.ADMIN_TEAM_OWNERSHIP_TRANSFERRED, session.userId, team, {
+      previousOwnerUserIds: previousOwners.map(({ userId }) => userId),
+      ownerUserId: newOwner.userId,
+    })
+
+    revalidateTeam(team.id)
+
+    return { success: true }
+  })
+
+export const setTeamLimitsLiftedAction = createServerAction()
+  .input(setTeamLimitsLiftedSchema)
+  .handler(async ({ input }) => {
+    const { session, team } = await getTargetTeam(input.teamId)
+
+    await getDB()
+      .update(teamTable)
+      .set({ limitsLiftedAt: input.lifted ? new Date() : null })
+      .where(eq(teamTable.id, team.id))
+
+    await logTeamEvent(AUDIT_LOG_ACTION.ADMIN_TEAM_LIMITS_UPDATED, session.userId, team, { lifted: input.lifted })
+
+    revalidateTeam(team.id)
+
+    return { success: true }
+  })
+
+export const deleteTeamAction = createServerAction()
+  .input(adminTeamSchema)
+  .handler(async ({ input }) => {
+    const { session, team } = await getTargetTeam(input.teamId)
+
+    if (team.deletedAt) {
+      throw new ZSAError("CONFLICT", "The team is already deleted")
+    }
+
+    // Its members couldn't manage a subscription that keeps renewing
+    if (team.stripeSubscriptionId && getActivePlan(team).id !== DEFAULT_PLAN_ID) {
+      throw new ZSAError("CONFLICT", "The team has an active subscription. Cancel it in Stripe first.")
+    }
+
+    await getDB()
+      .update(teamTable)
+      .set({ deletedAt: new Date() })
+      .where(eq(teamTable.id, team.id))
+
+    await updateSessionsOfTeamMembers(team.id)
+
+    await logTeamEvent(AUDIT_LOG_ACTION.ADMIN_TEAM_DELETED, session.userId, team)
+
+    revalidateTeam(team.id)
+
+    return { success: true }
+  })
+
+export const restoreTeamAction = createServerAction()
+  .input(adminTeamSchema)
+  .handler(async ({ input }) => {
+    const { session, team } = await getTargetTeam(input.teamId)
+
+    if (!team.deletedAt) {
+      throw new ZSAError("CONFLICT", "The team isn't deleted")
+    }
+
+    await getDB()
+      .update(teamTable)
+      .set({ deletedAt: null })
+      .where(eq(teamTable.id, team.id))
+
+    await updateSessionsOfTeamMembers(team.id)
+
+    await logTeamEvent(AUDIT_LOG_ACTION.ADMIN_TEAM_RESTORED, session.userId, team)
+
+    revalidateTeam(team.id)
+
+    return { success: true }
+  })
@@ -0,0 +1,224 @@
+"use server"
+
+import { createServerAction, ZSAError } from "zsa"
+import { eq } from "drizzle-orm"
+import { revalidatePath } from "next/cache"
+import { getDB } from "@/db"
+import { impersonateUser, requireAdmin } from "@/utils/auth"
+import { adjustCredits } from "@/utils/credits"
+import { deleteUser } from "@/utils/delete-user"
+import { deleteAllSessionsOfUser, updateAllSessionsOfUser } from "@/utils/kv-session"
+import { logAuditEvent, type AuditLogAction } from "@/utils/audit-log"
+import {
+  AUDIT_LOG_ACTION,
+  AUDIT_LOG_TARGET_TYPE,
+  ROLES_ENUM,
+  userTable,
+  type AuditLogMetadata,
+  type User,
+} from "@/db/schema"
+import {
+  adminUserSchema,
+  banUserSchema,
+  impersonateUserSchema,
+  setUserRoleSchema,
+} from "@/schemas/admin-user.schema"
+
+function revalidateUser(userId: string) {
+  revalidatePath("/admin")
+  revalidatePath(`/admin/users/${userId}`)
+}
+
+// The email is kept with the event, since the user may be deleted
+function logUserEvent(action: AuditLogAction, adminUserId: string, user: User, metadata?: AuditLogMetadata) {
+  return logAuditEvent({
+    action,
+    actorUserId: adminUserId,
+    targetType: AUDIT_LOG_TARGET_TYPE.USER,
+    targetId: user.id,
+    metadata: { email: user.email, ...metadata },
+  })
+}
+
+/**
+ * The user an admin acts on. Admins can't act on their own account, so they can't lock themselves out.
+ */
+async function getTargetUser(userId: string) {
+  const session = await requireAdmin()
+
+  if (!session) {
+    throw new ZSAError("FORBIDDEN", "Not authorized")
+  }
+
+  if (session.userId === userId) {
+    throw new ZSAError("FORBIDDEN", "You can't do this to your own account")
+  }
+
+  const user = await getDB().query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+  })
+
+  if (!user) {
+    throw new ZSAError("NOT_FOUND", "User not found")
+  }
+
+  return { session, user }
+}
+
+export const impersonateUserAction = createServerAction()
+  .input(impersonateUserSchema)
+  .handler(async ({ input }) => {
+    const { session, user } = await getTargetUser(input.userId)
+
+    // An impersonated admin session could be used to impersonate others without a trace of the first admin
+    if (user.role === ROLES_ENUM.ADMIN) {
+      throw new ZSAError("FORBIDDEN", "Admins can't be impersonated")
+    }
+
+    const impersonation = await impersonateUser({
+      admin: session,
+      userId: user.id,
+      reason: input.reason,
+    })
+
+    await logUserEvent(AUDIT_LOG_ACTION.ADMIN_USER_IMPERSONATED, session.userId, user, {
+      impersonationId: impersonation.id,
+      reason: input.reason,
+    })
+
+    return { success: true }
+  })
+
+export const banUserAction = createServerAction()
+  .input(banUserSchema)
+  .handler(async ({ input }) => {
+    const { session, user } = await getTargetUser(input.userId)
+
+    if (user.role === ROLES_ENUM.ADMIN) {
+      throw new ZSAError("FORBIDDEN", "Admins can't be banned, change their role first")
+    }
+
+    await getDB()
+      .update(userTable)
+      .set({ bannedAt: new Date(), banReason: input.reason })
+      .where(eq(userTable.id, user.id))
+
+    // Signing in again is blocked by createAndStoreSession
+    await deleteAllSessionsOfUser(user.id)
+
+    await logUserEvent(AUDIT_LOG_ACTION.ADMIN_USER_BANNED, session.userId, user, { reason: input.reason })
+
+    revalidateUser(user.id)
+
+    return { success: true }
+  })
+
+export const unbanUserAction = createServerAction()
+  .input(adminUserSchema)
+  .handler(async ({ input }) => {
+    const { session, user } = await getTargetUser(input.userId)
+
+    await getDB()
+      .update(userTable)
+      .set({ bannedAt: null, banReason: null })
+      .where(eq(userTable.id, user.id))
+
+    await logUserEvent(AUDIT_LOG_ACTION.ADMIN_USER_UNBANNED, session.userId, user)
+
+    revalidateUser(user.id)
+
+    return { success: true }
+  })
+
+export const verifyUserEmailAction = createServerAction()
+  .input(adminUserSchema)
+  .handler(async ({ input }) => {
+    const { session, user } = await getTargetUser(input.userId)
+
+    if (user.emailVerified) {
+      throw new ZSAError("CONFLICT", "The email is already verified")
+    }
+
+    await getDB()
+      .update(userTable)
+      .set({ emailVerified: new Date() })
+      .where(eq(userTable.id, user.id))
+
+    await updateAllSessionsOfUser(user.id)
+
+    await logUserEvent(AUDIT_LOG_ACTION.ADMIN_USER_EMAIL_VERIFIED, session.userId, user)
+
+    revalidateUser(user.id)
+
+    return { success: true }
+  })
+
+export const setUserRoleAction = createServerAction()
+  .input(setUserRoleSchema)
+  .handler(async ({ input }) => {
+    const { session, user } = await getTargetUser(input.userId)
+
+    if (user.bannedAt && input.role === ROLES_ENUM.ADMIN) {
+      throw new ZSAError("FORBIDDEN", "Banned users can't be made admins")
+    }
+
+    await getDB()
+      .update(userTable)
+      .set({ role: input.role })
+      .where(eq(userTable.id, user.id))
+
+    // The role is read from the session, so it takes effect without signing in again
+    await updateAllSessionsOfUser(user.id)
+
+    await logUserEvent(AUDIT_LOG_ACTION.ADMIN_USER_ROLE_UPDATED, session.userId, user, {
+      previousRole: user.role,
+      role: input.role,
+    })
+
+    revalidateUser(user.id)
+
+    return { success: true }
+  })
+
+export const resetUserCreditsAction = createServerAction()
+  .input(adminUserSchema)
+  .handler(async ({ input }) => {
+    const { session, user } = await getTargetUser(input.userId)
+
+    if (user.currentCredits <= 0) {
+      throw new ZSAError("CONFLICT", "The user has no credits to reset")
+    }
+
+    // Deducted from the buckets like usage, so the ledger keeps matching the balance
+    await adjustCredits({
+      userId: user.id,
+      amount: -user.currentCredits,
+      description: "Credits reset by an admin",
+    })
+
+    await logUserEvent(AUDIT_LOG_ACTION.ADMIN_USER_CREDITS_RESET, session.userId, user, {
+      resetCredits: user.currentCredits,
+    })
+
+    revalidateUser(user.id)
+
+    return { success: true, resetCredits: user.currentCredits }
+  })
+
+export const deleteUserAction = createServerAction()
+  .input(adminUserSchema)
+  .handler(async ({ input }) => {
+    const { session, user } = await getTargetUser(input.userId)
+
+    if (user.role === ROLES_ENUM.ADMIN) {
+      throw new ZSAError("FORBIDDEN", "Admins can't be deleted, change their role first")
+    }
+
+    await deleteUser(user.id)
+
+    await logUserEvent(AUDIT_LOG_ACTION.ADMIN_USER_DELETED, session.userId, user)
+
+    revalidatePath("/admin")
+
+    return { success: true }
+  })
@@ -5,6 +5,12 @@ import type { Route } from 'next'
 import {
   Users,
   Shield,
+  Ticket,
+  Store,
+  Building2,
+  BarChart3,
+  ScrollText,
+  Megaphone,
 } from "lucide-react"
 
 import { NavMain } from "@/components/nav-main"
@@ -38,6 +44,36 @@ const adminNavItems: NavMainItem[] = [
     icon: Users,
     isActive: true,
   },
+  {
+    title: "Analytics",
+    url: "/admin/analytics",
+    icon: BarChart3,
+  },
+  {
+    title: "Teams",
+    url: "/admin/teams",
+    icon: Building2,
+  },
+  {
+    title: "Audit Log",
+    url: "/admin/audit-log",
+    icon: ScrollText,
+  },
+  {
+    title: "Announcements",
+    url: "/admin/announcements",
+    icon: Megaphone,
+  },
+  {
+    title: "Promo Codes",
+    url: "/admin/promo-codes",
+    icon: Ticket,
+  },
+  {
+    title: "Marketplace",
+    url: "/admin/marketplace",
+    icon: Store,
+  },
 ]
 
 export function AdminSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
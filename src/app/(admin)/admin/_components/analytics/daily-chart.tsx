@@ -0,0 +1,99 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { format } from "date-fns"
+
+export interface DailyChartSeries {
+  name: string
+  color: string
+  // Values by UTC day, days without a value count as 0
+  values: Map<string, number>
+}
+
+interface DailyChartProps {
+  title: string
+  description: string
+  days: string[]
+  series: DailyChartSeries[]
+  // Stacked bars add up to a total, the others are shown next to each other
+  stacked?: boolean
+  formatValue?: (value: number) => string
+}
+
+export const CHART_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+]
+
+export function DailyChart({
+  title,
+  description,
+  days,
+  series,
+  stacked,
+  formatValue = (value) => value.toLocaleString(),
+}: DailyChartProps) {
+  const dailyValues = days.map((day) => ({
+    day,
+    values: series.map((entry) => ({ ...entry, value: entry.values.get(day) ?? 0 })),
+  }))
+  const totals = series.map((entry) => ({
+    ...entry,
+    total: days.reduce((sum, day) => sum + (entry.values.get(day) ?? 0), 0),
+  }))
+  const maxValue = Math.max(
+    ...dailyValues.map(({ values }) => stacked
+      ? values.reduce((sum, { value }) => sum + value, 0)
+      : Math.max(...values.map(({ value }) => value))),
+    1,
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {totals.every(({ total }) => total === 0) ? (
+          <p className="text-sm text-muted-foreground">No data in this period.</p>
+        ) : (
+          <div className="flex h-40 items-end gap-1">
+            {dailyValues.map(({ day, values }) => (
+              <div
+                key={day}
+                className={stacked
+                  ? "flex h-full flex-1 flex-col-reverse overflow-hidden rounded-sm bg-muted"
+                  : "flex h-full flex-1 items-end gap-px overflow-hidden rounded-sm bg-muted"}
+                title={`${format(new Date(`${day}T00:00:00Z`), "MMM d")}: ${values.map(({ name, value }) => `${name} ${formatValue(value)}`).join(", ")}`}
+              >
+                {values.filter(({ value }) => value > 0 || !stacked).map(({ name, color, value }) => (
+                  <div
+                    key={name}
+                    className={stacked ? undefined : "flex-1"}
+                    style={{
+                      height: `${(value / maxValue) * 100}%`,
+                      backgroundColor: color,
+                    }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="grid gap-2 sm:grid-cols-3">
+          {totals.map(({ name, color, total }) => (
+            <div key={name} className="flex items-start gap-2 text-sm">
+              <span className="mt-1 h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: color }} />
+              <div>
+                <div className="font-medium">{name}</div>
+                <div className="text-muted-foreground">{formatValue(total)}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
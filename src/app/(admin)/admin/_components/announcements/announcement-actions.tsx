@@ -0,0 +1,67 @@
+"use client"
+
+import { useState } from "react"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { deleteAnnouncementAction, endAnnouncementAction } from "../../_actions/announcements.action"
+import { ConfirmDialog } from "../confirm-dialog"
+
+type AnnouncementDialog = "end" | "delete"
+
+interface AnnouncementActionsProps {
+  announcement: {
+    id: string
+    title: string
+    hasEnded: boolean
+  }
+}
+
+export function AnnouncementActions({ announcement }: AnnouncementActionsProps) {
+  const [openDialog, setOpenDialog] = useState<AnnouncementDialog | null>(null)
+
+  const dialogProps = (dialog: AnnouncementDialog) => ({
+    open: openDialog === dialog,
+    onOpenChange: (open: boolean) => setOpenDialog(open ? dialog : null),
+  })
+
+  const callbacks = (successMessage: string, errorMessage: string) => ({
+    onError: ({ err }: { err: { message?: string } }) => {
+      toast.error(err.message || errorMessage)
+    },
+    onSuccess: () => {
+      toast.success(successMessage)
+      setOpenDialog(null)
+    },
+  })
+
+  const endAnnouncement = useServerAction(endAnnouncementAction, callbacks("Announcement ended", "Failed to end the announcement"))
+  const deleteAnnouncement = useServerAction(deleteAnnouncementAction, callbacks("Announcement deleted", "Failed to delete the announcement"))
+
+  return (
+    <div className="flex justify-end gap-2">
+      {!announcement.hasEnded && (
+        <ConfirmDialog
+          {...dialogProps("end")}
+          trigger={<Button variant="outline" size="sm">End now</Button>}
+          title="End announcement"
+          description={`"${announcement.title}" will no longer be shown. It stays in the list, so you can see when it ran.`}
+          confirmLabel="End announcement"
+          isPending={endAnnouncement.isPending}
+          onConfirm={() => endAnnouncement.execute({ announcementId: announcement.id })}
+        />
+      )}
+
+      <ConfirmDialog
+        {...dialogProps("delete")}
+        trigger={<Button variant="destructive" size="sm">Delete</Button>}
+        title="Delete announcement"
+        description={`"${announcement.title}" and the record of who closed it will be deleted. This can't be undone.`}
+        confirmLabel="Delete announcement"
+        destructive
+        isPending={deleteAnnouncement.isPending}
+        onConfirm={() => deleteAnnouncement.execute({ announcementId: announcement.id })}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { createAnnouncementAction } from "../../_actions/announcements.action"
+import {
+  ANNOUNCEMENT_AUDIENCES,
+  ANNOUNCEMENT_AUDIENCE_LABELS,
+  ANNOUNCEMENT_TYPES,
+} from "@/schemas/announcement.schema"
+import { PLANS } from "@/constants"
+
+// The inputs hold strings, they are converted to the values of createAnnouncementSchema on submit
+const formSchema = z.object({
+  type: z.enum(ANNOUNCEMENT_TYPES),
+  title: z.string().min(1, "Title is required").max(255, "Title is too long"),
+  message: z.string().max(1000, "Message is too long"),
+  audience: z.enum(ANNOUNCEMENT_AUDIENCES),
+  teamIds: z.string(),
+  planId: z.string(),
+  startsAt: z.string(),
+  endsAt: z.string(),
+  dismissible: z.boolean(),
+})
+
+type FormValues = z.infer<typeof formSchema>
+
+// Team IDs can be separated by commas, spaces or new lines
+const parseTeamIds = (value: string) => value.split(/[\s,]+/).filter(Boolean)
+
+export function CreateAnnouncementDialog() {
+  const [open, setOpen] = useState(false)
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      type: "info",
+      title: "",
+      message: "",
+      audience: "all",
+      teamIds: "",
+      planId: "",
+      startsAt: "",
+      endsAt: "",
+      dismissible: true,
+    },
+  })
+
+  const audience = form.watch("audience")
+
+  const { execute, isPending } = useServerAction(createAnnouncementAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to create the announcement")
+    },
+    onSuccess: () => {
+      toast.success("Announcement created")
+      form.reset()
+      setOpen(false)
+    },
+  })
+
+  const onSubmit = (data: FormValues) => {
+    execute({
+      type: data.type,
+      title: data.title,
+      message: data.message || undefined,
+      audience: data.audience,
+      teamIds: data.audience === "teams" ? parseTeamIds(data.teamIds) : undefined,
+      planId: data.audience === "plan" ? data.planId : undefined,
+      // The inputs are in the admin's local time
+      startsAt: data.startsAt ? new Date(data.startsAt) : new Date(),
+      endsAt: data.endsAt ? new Date(data.endsAt) : undefined,
+      dismissible: data.dismissible,
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="mr-2 h-4 w-4" />
+          Create announcement
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Create Announcement</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="info">Info</SelectItem>
+                        <SelectItem value="warning">Warning</SelectItem>
+                        <SelectItem value="maintenance">Maintenance</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="audience"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Shown to</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ANNOUNCEMENT_AUDIENCES.map((value) => (
+                          <SelectItem key={value} value={value}>{ANNOUNCEMENT_AUDIENCE_LABELS[value]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {audience === "teams" && (
+              <FormField
+                control={form.control}
+                name="teamIds"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Team IDs</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="team_..., team_..." rows={2} {...field} />
+                    </FormControl>
+                    <FormDescription>Separated by commas. Shown to every member of these teams.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {audience === "plan" && (
+              <FormField
+                control={form.control}
+                name="planId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Plan</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a plan" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {PLANS.map((plan) => (
+                          <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Based on the user&apos;s own plan, not the plans of their teams.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <FormField
+              control={form.control}
+              name="title"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Title</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Scheduled maintenance on Sunday" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="message"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Message</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to start now.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="endsAt"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave empty to end it manually.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="dismissible"
+              render={({ field }) => (
+                <FormItem>
+                  <label className="flex items-center gap-3 text-sm cursor-pointer">
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 accent-primary"
+                        checked={field.value}
+                        onChange={(event) => field.onChange(event.target.checked)}
+                      />
+                    </FormControl>
+                    Users can close it
+                  </label>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2 pt-2">
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Creating..." : "Create"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
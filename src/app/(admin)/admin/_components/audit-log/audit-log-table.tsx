@@ -0,0 +1,156 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { DataTable } from "@/components/data-table"
+import { columns } from "./columns"
+import { getAuditLogsAction } from "../../_actions/get-audit-logs.action"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { AUDIT_LOG_ACTION_LABELS } from "@/components/audit-log-details"
+import type { AuditLogAction, AuditLogFilters } from "@/utils/audit-log"
+import { PAGE_SIZE_OPTIONS } from "../../admin-constants"
+
+// Select items can't have an empty value
+const ANY = "any"
+
+const AUDIT_LOG_ACTIONS = Object.keys(AUDIT_LOG_ACTION_LABELS) as AuditLogAction[]
+
+interface AuditLogTableProps {
+  // Set when the page is opened from a team, e.g. /admin/audit-log?teamId=team_...
+  initialTeamId?: string
+}
+
+export function AuditLogTable({ initialTeamId }: AuditLogTableProps) {
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(20)
+  const [filters, setFilters] = useState<AuditLogFilters>({ teamId: initialTeamId })
+
+  const { execute: fetchAuditLogs, data, error, status } = useServerAction(getAuditLogsAction, {
+    onError: () => {
+      toast.error("Failed to fetch the audit log")
+    },
+  })
+
+  useEffect(() => {
+    fetchAuditLogs({ page, pageSize, ...filters })
+  }, [fetchAuditLogs, page, pageSize, filters])
+
+  const handlePageChange = (newPage: number) => {
+    setPage(newPage + 1) // Convert from 0-based to 1-based
+  }
+
+  const handleFilterChange = <K extends keyof AuditLogFilters>(key: K, value: AuditLogFilters[K] | typeof ANY | "") => {
+    setFilters((current) => ({ ...current, [key]: value === ANY || value === "" ? undefined : value }))
+    setPage(1)
+  }
+
+  return (
+    <div className="container mx-auto py-10 px-6">
+      <h1 className="text-3xl font-bold">Audit log</h1>
+      <p className="text-sm text-muted-foreground mt-1">
+        Security and billing relevant changes made by users, admins and Stripe webhooks.
+      </p>
+      <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="audit-log-action">Action</Label>
+          <Select value={filters.action ?? ANY} onValueChange={(value) => handleFilterChange("action", value as AuditLogAction)}>
+            <SelectTrigger id="audit-log-action">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any action</SelectItem>
+              {AUDIT_LOG_ACTIONS.map((action) => (
+                <SelectItem key={action} value={action}>{AUDIT_LOG_ACTION_LABELS[action]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-log-actor">Actor email</Label>
+          <Input
+            id="audit-log-actor"
+            placeholder="Filter actors..."
+            type="search"
+            value={filters.actorEmail ?? ""}
+            onChange={(event) => handleFilterChange("actorEmail", event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-log-team">Team ID</Label>
+          <Input
+            id="audit-log-team"
+            placeholder="team_..."
+            type="search"
+            value={filters.teamId ?? ""}
+            onChange={(event) => handleFilterChange("teamId", event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="audit-log-created-from">Date (UTC)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="audit-log-created-from"
+              type="date"
+              value={filters.createdFrom ?? ""}
+              onChange={(event) => handleFilterChange("createdFrom", event.target.value)}
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              aria-label="Until"
+              type="date"
+              value={filters.createdTo ?? ""}
+              onChange={(event) => handleFilterChange("createdTo", event.target.value)}
+            />
+          </div>
+        </div>
+      </div>
+      <div className="mt-4">
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setFilters({})
+            setPage(1)
+          }}
+          disabled={Object.values(filters).every((value) => value === undefined)}
+        >
+          Reset filters
+        </Button>
+      </div>
+      <div className="mt-4">
+        <div className="space-y-4">
+          {status === 'pending' || status === 'idle' ? (
+            <div>Loading...</div>
+          ) : error ? (
+            <div>Error: Failed to fetch the audit log</div>
+          ) : !data ? (
+            <div>No events found</div>
+          ) : (
+            <DataTable
+              columns={columns}
+              data={data.events}
+              pageCount={data.totalPages}
+              pageIndex={page - 1}
+              pageSize={pageSize}
+              onPageChange={handlePageChange}
+              onPageSizeChange={setPageSize}
+              totalCount={data.totalCount}
+              itemNameSingular="event"
+              itemNamePlural="events"
+              pageSizeOptions={PAGE_SIZE_OPTIONS}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,134 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+import { formatDistanceToNow, format } from "date-fns"
+import Link from "next/link"
+import type { Route } from "next"
+
+import { Badge } from "@/components/ui/badge"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+import { AUDIT_LOG_ACTION_LABELS, AuditLogMetadataList } from "@/components/audit-log-details"
+import type { AuditLogEvent } from "@/utils/audit-log"
+
+export const columns: ColumnDef<AuditLogEvent>[] = [
+  {
+    accessorKey: "createdAt",
+    header: "Time",
+    cell: ({ row }) => {
+      const date = new Date(row.original.createdAt)
+      return (
+        <Tooltip>
+          <TooltipTrigger className="whitespace-nowrap">
+            {formatDistanceToNow(date, { addSuffix: true })}
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{format(date, "PPpp")}</p>
+          </TooltipContent>
+        </Tooltip>
+      )
+    },
+  },
+  {
+    accessorKey: "action",
+    header: "Action",
+    cell: ({ row }) => (
+      <Badge variant={row.original.action.startsWith("admin.") ? "default" : "secondary"} className="whitespace-nowrap">
+        {AUDIT_LOG_ACTION_LABELS[row.original.action] ?? row.original.action}
+      </Badge>
+    ),
+  },
+  {
+    accessorKey: "actorEmail",
+    header: "Actor",
+    cell: ({ row }) => {
+      const { actorUserId, actorEmail } = row.original
+
+      if (!actorUserId) {
+        return <span className="text-muted-foreground">System</span>
+      }
+
+      // The actor may have been deleted since
+      return actorEmail ? (
+        <Link href={`/admin/users/${actorUserId}` as Route} className="hover:underline">
+          {actorEmail}
+        </Link>
+      ) : (
+        <span className="font-mono text-xs text-muted-foreground">{actorUserId}</span>
+      )
+    },
+  },
+  {
+    accessorKey: "targetId",
+    header: "Target",
+    cell: ({ row }) => {
+      const { targetType, targetId, targetUserEmail } = row.original
+
+      if (!targetType || !targetId) {
+        return <span className="text-muted-foreground">-</span>
+      }
+
+      if (targetUserEmail) {
+        return (
+          <Link href={`/admin/users/${targetId}` as Route} className="hover:underline">
+            {targetUserEmail}
+          </Link>
+        )
+      }
+
+      return (
+        <div>
+          <div className="text-xs text-muted-foreground">{targetType}</div>
+          <div className="font-mono text-xs break-all">{targetId}</div>
+        </div>
+      )
+    },
+  },
+  {
+    accessorKey: "teamName",
+    header: "Team",
+    cell: ({ row }) => {
+      const { teamId, teamName } = row.original
+
+      if (!teamId) {
+        return <span className="text-muted-foreground">-</span>
+      }
+
+      return teamName ? (
+        <Link href={`/admin/teams/${teamId}` as Route} className="hover:underline">
+          {teamName}
+        </Link>
+      ) : (
+        <span className="font-mono text-xs text-muted-foreground">{teamId}</span>
+      )
+    },
+  },
+  {
+    accessorKey: "metadata",
+    header: "Details",
+    cell: ({ row }) => <AuditLogMetadataList metadata={row.original.metadata} />,
+  },
+  {
+    accessorKey: "ipAddress",
+    header: "Request",
+    cell: ({ row }) => {
+      const { ipAddress, userAgent } = row.original
+
+      if (!ipAddress && !userAgent) {
+        return <span className="text-muted-foreground">-</span>
+      }
+
+      return (
+        <Tooltip>
+          <TooltipTrigger className="font-mono text-xs">{ipAddress ?? "Unknown IP"}</TooltipTrigger>
+          <TooltipContent>
+            <p className="max-w-xs break-words">{userAgent ?? "Unknown user agent"}</p>
+          </TooltipContent>
+        </Tooltip>
+      )
+    },
+  },
+]
@@ -0,0 +1,72 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+
+interface ConfirmDialogProps {
+  trigger: React.ReactNode
+  title: string
+  description: React.ReactNode
+  confirmLabel: string
+  isPending: boolean
+  onConfirm: () => void
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  destructive?: boolean
+  confirmDisabled?: boolean
+  children?: React.ReactNode
+}
+
+/**
+ * Asks before running an admin action. It's controlled, so it can stay open until the action succeeds.
+ */
+export function ConfirmDialog({
+  trigger,
+  title,
+  description,
+  confirmLabel,
+  isPending,
+  onConfirm,
+  open,
+  onOpenChange,
+  destructive,
+  confirmDisabled,
+  children,
+}: ConfirmDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogTrigger asChild>
+        {trigger}
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        {children}
+        <DialogFooter className="mt-4 flex flex-col gap-4 sm:flex-row">
+          <DialogClose asChild>
+            <Button variant="outline" className="sm:w-auto w-full">Cancel</Button>
+          </DialogClose>
+          <Button
+            variant={destructive ? "destructive" : "default"}
+            onClick={onConfirm}
+            disabled={isPending || confirmDisabled}
+            className="sm:w-auto w-full"
+          >
+            {isPending ? "Please wait..." : confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
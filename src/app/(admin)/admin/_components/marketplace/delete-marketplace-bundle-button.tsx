@@ -0,0 +1,74 @@
+"use client"
+
+import { useRef } from "react"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { TrashIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { deleteMarketplaceBundleAction } from "../../_actions/marketplace.action"
+
+interface DeleteMarketplaceBundleButtonProps {
+  bundleId: string
+  name: string
+}
+
+export function DeleteMarketplaceBundleButton({ bundleId, name }: DeleteMarketplaceBundleButtonProps) {
+  const dialogCloseRef = useRef<HTMLButtonElement>(null)
+
+  const { execute, isPending } = useServerAction(deleteMarketplaceBundleAction, {
+    onError: ({ err }) => {
+      toast.error(err.message || "Failed to delete the bundle")
+      dialogCloseRef.current?.click()
+    },
+    onSuccess: () => {
+      toast.success("Bundle deleted")
+      dialogCloseRef.current?.click()
+    },
+  })
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20"
+        >
+          <TrashIcon className="h-4 w-4" />
+          <span className="sr-only">Delete bundle</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete marketplace bundle</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to delete {name}? Bundles that have been purchased can only be archived. The items stay in the marketplace.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="mt-4 flex flex-col gap-4 sm:flex-row">
+          <DialogClose ref={dialogCloseRef} asChild>
+            <Button variant="outline" className="sm:w-auto w-full">Cancel</Button>
+          </DialogClose>
+          <Button
+            variant="destructive"
+            onClick={() => execute({ bundleId })}
+            disabled={isPending}
+            className="sm:w-auto w-full"
+          >
+            {isPending ? "Deleting..." : "Delete bundle"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,74 @@
+"use client"
+
+import { useRef } from "react"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { TrashIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { deleteMarketplaceItemAction } from "../../_actions/marketplace.action"
+
+interface DeleteMarketplaceItemButtonProps {
+  itemId: string
+  name: string
+}
+
+export function DeleteMarketplaceItemButton({ itemId, name }: DeleteMarketplaceItemButtonProps) {
+  const dialogCloseRef = useRef<HTMLButtonElement>(null)
+
+  const { execute, isPending } = useServerAction(deleteMarketplaceItemAction, {
+    onError: ({ err }) => {
+      toast.error(err.message || "Failed to delete the item")
+      dialogCloseRef.current?.click()
+    },
+    onSuccess: () => {
+      toast.success("Item deleted")
+      dialogCloseRef.current?.click()
+    },
+  })
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 text-red-500 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-950/20"
+        >
+          <TrashIcon className="h-4 w-4" />
+          <span className="sr-only">Delete item</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Delete marketplace item</DialogTitle>
+          <DialogDescription>
+            Are you sure you want to delete {name}? Items that have been purchased can only be archived.
+          </DialogDescription>
+        </DialogHeader>
+        <DialogFooter className="mt-4 flex flex-col gap-4 sm:flex-row">
+          <DialogClose ref={dialogCloseRef} asChild>
+            <Button variant="outline" className="sm:w-auto w-full">Cancel</Button>
+          </DialogClose>
+          <Button
+            variant="destructive"
+            onClick={() => execute({ itemId })}
+            disabled={isPending}
+            className="sm:w-auto w-full"
+          >
+            {isPending ? "Deleting..." : "Delete item"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,226 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  createMarketplaceBundleSchema,
+  MARKETPLACE_ITEM_STATUSES,
+  type CreateMarketplaceBundleSchema,
+} from "@/schemas/marketplace-item.schema"
+import { createMarketplaceBundleAction, updateMarketplaceBundleAction } from "../../_actions/marketplace.action"
+
+interface MarketplaceBundleFormProps {
+  // The items that can be added to the bundle
+  items: {
+    id: string
+    type: string
+    name: string
+    credits: number
+  }[]
+  // Edits the bundle instead of creating a new one
+  bundle?: CreateMarketplaceBundleSchema & { id: string }
+}
+
+export function MarketplaceBundleForm({ items, bundle }: MarketplaceBundleFormProps) {
+  const router = useRouter()
+
+  const form = useForm<CreateMarketplaceBundleSchema>({
+    resolver: zodResolver(createMarketplaceBundleSchema),
+    defaultValues: bundle ?? {
+      slug: "",
+      name: "",
+      description: "",
+      status: "DRAFT",
+      itemIds: [],
+    },
+  })
+
+  const selectedItemIds = form.watch("itemIds")
+  const regularPrice = items
+    .filter((item) => selectedItemIds.includes(item.id))
+    .reduce((total, item) => total + item.credits, 0)
+
+  const onSuccess = () => {
+    toast.success(bundle ? "Bundle saved" : "Bundle created")
+    router.push("/admin/marketplace")
+  }
+
+  const onError = ({ err }: { err: { message: string } }) => {
+    toast.error(err.message || "Failed to save the bundle")
+  }
+
+  const createAction = useServerAction(createMarketplaceBundleAction, { onSuccess, onError })
+  const updateAction = useServerAction(updateMarketplaceBundleAction, { onSuccess, onError })
+  const isPending = createAction.isPending || updateAction.isPending
+
+  const onSubmit = ({ slug, ...values }: CreateMarketplaceBundleSchema) => {
+    if (bundle) {
+      updateAction.execute({ bundleId: bundle.id, ...values })
+    } else {
+      createAction.execute({ slug, ...values })
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="max-w-2xl space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="slug"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Slug</FormLabel>
+                <FormControl>
+                  <Input placeholder="starter-pack" disabled={Boolean(bundle)} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="itemIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Items</FormLabel>
+              <div className="rounded-md border divide-y">
+                {items.map((item) => (
+                  <label key={item.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={field.value.includes(item.id)}
+                      onChange={(e) => field.onChange(
+                        e.target.checked
+                          ? [...field.value, item.id]
+                          : field.value.filter((itemId) => itemId !== item.id)
+                      )}
+                    />
+                    <span className="flex-1">{item.name}</span>
+                    <span className="text-muted-foreground capitalize">{item.type.toLowerCase()}</span>
+                    <span className="w-24 text-right text-muted-foreground">{item.credits.toLocaleString()} credits</span>
+                  </label>
+                ))}
+              </div>
+              <FormDescription>
+                Bought one by one, the selected items cost {regularPrice.toLocaleString()} credits.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="credits"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Price (credits)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormDescription>Owners of some of the items pay a prorated part of it.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {MARKETPLACE_ITEM_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status} className="capitalize">
+                        {status.toLowerCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : bundle ? "Save" : "Create bundle"}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => router.push("/admin/marketplace")}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
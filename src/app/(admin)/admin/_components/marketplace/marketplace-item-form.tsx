@@ -0,0 +1,222 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  createMarketplaceItemSchema,
+  MARKETPLACE_ITEM_STATUSES,
+  MARKETPLACE_ITEM_TYPES,
+  type CreateMarketplaceItemSchema,
+} from "@/schemas/marketplace-item.schema"
+import { createMarketplaceItemAction, updateMarketplaceItemAction } from "../../_actions/marketplace.action"
+
+interface MarketplaceItemFormProps {
+  // Edits the item instead of creating a new one
+  item?: CreateMarketplaceItemSchema & { id: string }
+}
+
+export function MarketplaceItemForm({ item }: MarketplaceItemFormProps) {
+  const router = useRouter()
+
+  const form = useForm<CreateMarketplaceItemSchema>({
+    resolver: zodResolver(createMarketplaceItemSchema),
+    defaultValues: item ?? {
+      type: "COMPONENT",
+      slug: "",
+      name: "",
+      description: "",
+      status: "DRAFT",
+      version: "1.0.0",
+    },
+  })
+
+  const onSuccess = () => {
+    toast.success(item ? "Item saved" : "Item created")
+    router.push("/admin/marketplace")
+  }
+
+  const onError = ({ err }: { err: { message: string } }) => {
+    toast.error(err.message || "Failed to save the item")
+  }
+
+  const createAction = useServerAction(createMarketplaceItemAction, { onSuccess, onError })
+  const updateAction = useServerAction(updateMarketplaceItemAction, { onSuccess, onError })
+  const isPending = createAction.isPending || updateAction.isPending
+
+  const onSubmit = ({ type, slug, ...values }: CreateMarketplaceItemSchema) => {
+    if (item) {
+      updateAction.execute({ itemId: item.id, ...values })
+    } else {
+      createAction.execute({ type, slug, ...values })
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="max-w-2xl space-y-6">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="type"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Type</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value} disabled={Boolean(item)}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {MARKETPLACE_ITEM_TYPES.map((type) => (
+                      <SelectItem key={type} value={type} className="capitalize">
+                        {type.toLowerCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="slug"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Slug</FormLabel>
+                <FormControl>
+                  <Input placeholder="team-switcher" disabled={Boolean(item)} {...field} />
+                </FormControl>
+                <FormDescription>The preview is registered under this slug. It can&apos;t be changed later.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Textarea rows={3} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField
+            control={form.control}
+            name="credits"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Price (credits)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    {...field}
+                    value={field.value ?? ""}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {MARKETPLACE_ITEM_STATUSES.map((status) => (
+                      <SelectItem key={status} value={status} className="capitalize">
+                        {status.toLowerCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="version"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Version</FormLabel>
+                <FormControl>
+                  <Input placeholder="1.0.0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isPending}>
+            {isPending ? "Saving..." : item ? "Save" : "Create item"}
+          </Button>
+          <Button type="button" variant="outline" onClick={() => router.push("/admin/marketplace")}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
@@ -0,0 +1,46 @@
+"use client"
+
+import { useRef } from "react"
+import { useRouter } from "next/navigation"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { uploadMarketplaceItemSourceAction } from "../../_actions/marketplace.action"
+
+interface MarketplaceSourceUploadProps {
+  itemId: string
+}
+
+export function MarketplaceSourceUpload({ itemId }: MarketplaceSourceUploadProps) {
+  const router = useRouter()
+  const formRef = useRef<HTMLFormElement>(null)
+
+  const { execute, isPending } = useServerAction(uploadMarketplaceItemSourceAction, {
+    onError: ({ err }) => {
+      toast.error(err.message || "Failed to upload the file")
+    },
+    onSuccess: () => {
+      toast.success("File uploaded")
+      formRef.current?.reset()
+      router.refresh()
+    },
+  })
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+
+    const formData = new FormData(e.currentTarget)
+    formData.set("itemId", itemId)
+    execute(formData)
+  }
+
+  return (
+    <form ref={formRef} onSubmit={handleSubmit} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+      <Input name="file" type="file" required className="sm:max-w-xs" />
+      <Button type="submit" variant="outline" disabled={isPending}>
+        {isPending ? "Uploading..." : "Upload file"}
+      </Button>
+    </form>
+  )
+}
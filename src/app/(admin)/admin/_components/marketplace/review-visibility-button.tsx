@@ -0,0 +1,33 @@
+"use client"
+
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { setMarketplaceReviewHiddenAction } from "../../_actions/marketplace.action"
+
+interface ReviewVisibilityButtonProps {
+  reviewId: string
+  isHidden: boolean
+}
+
+export function ReviewVisibilityButton({ reviewId, isHidden }: ReviewVisibilityButtonProps) {
+  const { execute, isPending } = useServerAction(setMarketplaceReviewHiddenAction, {
+    onError: ({ err }) => {
+      toast.error(err.message || "Failed to update the review")
+    },
+    onSuccess: () => {
+      toast.success(isHidden ? "Review shown" : "Review hidden")
+    },
+  })
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={isPending}
+      onClick={() => execute({ reviewId, isHidden: !isHidden })}
+    >
+      {isHidden ? "Show" : "Hide"}
+    </Button>
+  )
+}
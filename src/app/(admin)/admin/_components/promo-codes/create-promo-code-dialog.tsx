@@ -0,0 +1,231 @@
+"use client"
+
+import { useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { createPromoCodeAction } from "../../_actions/promo-codes.action"
+import { MAX_PROMO_CODE_DISCOUNT_PERCENT } from "@/schemas/promo-code.schema"
+
+const optionalNumber = z.string().regex(/^\d*$/, "Must be a whole number")
+
+// The inputs hold strings, they are converted to the numbers of createPromoCodeSchema on submit
+const formSchema = z.object({
+  code: z.string().min(3, "Code must be at least 3 characters"),
+  type: z.enum(["CREDITS", "DISCOUNT"]),
+  value: z.string().regex(/^\d+$/, "Enter a whole number"),
+  maxRedemptions: optionalNumber,
+  maxRedemptionsPerUser: z.string().regex(/^\d+$/, "Enter a whole number"),
+  expiresAt: z.string(),
+})
+
+type FormValues = z.infer<typeof formSchema>
+
+const toNumber = (value: string) => value ? parseInt(value, 10) : undefined
+
+export function CreatePromoCodeDialog() {
+  const [open, setOpen] = useState(false)
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      code: "",
+      type: "CREDITS",
+      value: "",
+      maxRedemptions: "",
+      maxRedemptionsPerUser: "1",
+      expiresAt: "",
+    },
+  })
+
+  const type = form.watch("type")
+
+  const { execute, isPending } = useServerAction(createPromoCodeAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to create the promo code")
+    },
+    onSuccess: () => {
+      toast.success("Promo code created")
+      form.reset()
+      setOpen(false)
+    },
+  })
+
+  const onSubmit = (data: FormValues) => {
+    const value = toNumber(data.value)
+
+    execute({
+      code: data.code,
+      type: data.type,
+      credits: data.type === "CREDITS" ? value : undefined,
+      discountPercent: data.type === "DISCOUNT" ? value : undefined,
+      maxRedemptions: toNumber(data.maxRedemptions),
+      maxRedemptionsPerUser: toNumber(data.maxRedemptionsPerUser),
+      // The code stays valid until the end of the selected day
+      expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59`) : undefined,
+    })
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <Plus className="mr-2 h-4 w-4" />
+          Create promo code
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Create Promo Code</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 pt-4">
+            <FormField
+              control={form.control}
+              name="code"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Code</FormLabel>
+                  <FormControl>
+                    <Input placeholder="WELCOME50" className="uppercase" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="CREDITS">Free credits</SelectItem>
+                        <SelectItem value="DISCOUNT">Purchase discount</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{type === "CREDITS" ? "Credits" : "Discount (%)"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={type === "DISCOUNT" ? MAX_PROMO_CODE_DISCOUNT_PERCENT : undefined}
+                        {...field}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="maxRedemptions"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Max redemptions</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} placeholder="Unlimited" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="maxRedemptionsPerUser"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Per user</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="expiresAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expires on</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>Leave empty for a code that never expires.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2 pt-2">
+              <DialogClose asChild>
+                <Button type="button" variant="outline">
+                  Cancel
+                </Button>
+              </DialogClose>
+
+              <Button type="submit" disabled={isPending}>
+                {isPending ? "Creating..." : "Create"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
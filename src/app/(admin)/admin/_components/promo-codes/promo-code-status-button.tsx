@@ -0,0 +1,33 @@
+"use client"
+
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { setPromoCodeActiveAction } from "../../_actions/promo-codes.action"
+
+interface PromoCodeStatusButtonProps {
+  promoCodeId: string
+  isActive: boolean
+}
+
+export function PromoCodeStatusButton({ promoCodeId, isActive }: PromoCodeStatusButtonProps) {
+  const { execute, isPending } = useServerAction(setPromoCodeActiveAction, {
+    onError: ({ err }) => {
+      toast.error(err.message || "Failed to update the promo code")
+    },
+    onSuccess: () => {
+      toast.success(isActive ? "Promo code disabled" : "Promo code enabled")
+    },
+  })
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      disabled={isPending}
+      onClick={() => execute({ promoCodeId, isActive: !isActive })}
+    >
+      {isActive ? "Disable" : "Enable"}
+    </Button>
+  )
+}
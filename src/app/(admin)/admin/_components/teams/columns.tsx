@@ -0,0 +1,131 @@
+"use client"
+
+import { ColumnDef } from "@tanstack/react-table"
+import { MoreHorizontal } from "lucide-react"
+import { formatDistanceToNow, format } from "date-fns"
+import Link from "next/link"
+import type { Route } from "next"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Badge } from "@/components/ui/badge"
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip"
+
+export type Team = {
+  id: string
+  name: string
+  slug: string
+  plan: string | null
+  memberCount: number
+  creditBalance: number
+  limitsLifted: boolean
+  status: "active" | "deleted"
+  createdAt: Date
+}
+
+export const columns: ColumnDef<Team>[] = [
+  {
+    accessorKey: "name",
+    header: "Name",
+    cell: ({ row }) => (
+      <Link href={`/admin/teams/${row.original.id}` as Route} className="font-medium hover:underline">
+        {row.original.name}
+      </Link>
+    ),
+  },
+  {
+    accessorKey: "slug",
+    header: "Slug",
+    cell: ({ row }) => <span className="font-mono text-xs">{row.original.slug}</span>,
+  },
+  {
+    accessorKey: "plan",
+    header: "Plan",
+    cell: ({ row }) => row.original.plan ?? "None",
+  },
+  {
+    accessorKey: "memberCount",
+    header: "Members",
+    cell: ({ row }) => (
+      <span>
+        {row.original.memberCount}
+        {row.original.limitsLifted && (
+          <Badge variant="outline" className="ml-2">no limits</Badge>
+        )}
+      </span>
+    ),
+  },
+  {
+    accessorKey: "creditBalance",
+    header: "Credits",
+    cell: ({ row }) => row.original.creditBalance.toLocaleString(),
+  },
+  {
+    accessorKey: "status",
+    header: "Status",
+    cell: ({ row }) => {
+      const status = row.getValue("status") as string
+      return (
+        <Badge variant={status === "active" ? "default" : "destructive"}>
+          {status}
+        </Badge>
+      )
+    },
+  },
+  {
+    accessorKey: "createdAt",
+    header: "Created",
+    cell: ({ row }) => {
+      const date = row.getValue("createdAt") as Date
+      const formattedDate = format(new Date(date), "PPpp")
+      return (
+        <Tooltip>
+          <TooltipTrigger>
+            {formatDistanceToNow(new Date(date), { addSuffix: true })}
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{formattedDate}</p>
+          </TooltipContent>
+        </Tooltip>
+      )
+    },
+  },
+  {
+    id: "actions",
+    cell: ({ row }) => {
+      const team = row.original
+
+      return (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" className="h-8 w-8 p-0">
+              <span className="sr-only">Open menu</span>
+              <MoreHorizontal className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Actions</DropdownMenuLabel>
+            <DropdownMenuItem asChild>
+              <Link href={`/admin/teams/${team.id}` as Route}>View details</Link>
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={() => navigator.clipboard.writeText(team.id)}
+            >
+              Copy team ID
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )
+    },
+  },
+]
@@ -0,0 +1,133 @@
+"use client"
+
+import { useState } from "react"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Crown, Gauge, RotateCcw, TrashIcon } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  deleteTeamAction,
+  restoreTeamAction,
+  setTeamLimitsLiftedAction,
+  transferTeamOwnershipAction,
+} from "../../_actions/teams.action"
+import { ConfirmDialog } from "../confirm-dialog"
+
+type TeamDialog = "transfer" | "limits" | "delete" | "restore"
+
+interface TeamManagementActionsProps {
+  team: {
+    id: string
+    name: string
+    isDeleted: boolean
+    limitsLifted: boolean
+  }
+  // Members who can become the owner
+  members: {
+    userId: string
+    label: string
+  }[]
+}
+
+export function TeamManagementActions({ team, members }: TeamManagementActionsProps) {
+  const [openDialog, setOpenDialog] = useState<TeamDialog | null>(null)
+  const [newOwnerId, setNewOwnerId] = useState("")
+
+  const dialogProps = (dialog: TeamDialog) => ({
+    open: openDialog === dialog,
+    onOpenChange: (open: boolean) => setOpenDialog(open ? dialog : null),
+  })
+
+  const callbacks = (successMessage: string, errorMessage: string) => ({
+    onError: ({ err }: { err: { message?: string } }) => {
+      toast.error(err.message || errorMessage)
+    },
+    onSuccess: () => {
+      toast.success(successMessage)
+      setOpenDialog(null)
+    },
+  })
+
+  const transferOwnership = useServerAction(transferTeamOwnershipAction, callbacks("Ownership transferred", "Failed to transfer the ownership"))
+  const setLimitsLifted = useServerAction(setTeamLimitsLiftedAction, callbacks(
+    team.limitsLifted ? "Plan limits restored" : "Plan limits lifted",
+    "Failed to change the limits",
+  ))
+  const deleteTeam = useServerAction(deleteTeamAction, callbacks("Team deleted", "Failed to delete the team"))
+  const restoreTeam = useServerAction(restoreTeamAction, callbacks("Team restored", "Failed to restore the team"))
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <ConfirmDialog
+        {...dialogProps("transfer")}
+        trigger={<Button variant="outline" disabled={!members.length}><Crown className="mr-2 h-4 w-4" />Transfer ownership</Button>}
+        title="Transfer ownership"
+        description={`The member gets full control of ${team.name}, including its billing. The current owner stays in the team as an admin.`}
+        confirmLabel="Transfer ownership"
+        destructive
+        isPending={transferOwnership.isPending}
+        confirmDisabled={!newOwnerId}
+        onConfirm={() => transferOwnership.execute({ teamId: team.id, userId: newOwnerId })}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="new-owner">New owner</Label>
+          <Select value={newOwnerId} onValueChange={setNewOwnerId}>
+            <SelectTrigger id="new-owner">
+              <SelectValue placeholder="Select a member" />
+            </SelectTrigger>
+            <SelectContent>
+              {members.map((member) => (
+                <SelectItem key={member.userId} value={member.userId}>
+                  {member.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </ConfirmDialog>
+
+      <ConfirmDialog
+        {...dialogProps("limits")}
+        trigger={<Button variant="outline"><Gauge className="mr-2 h-4 w-4" />{team.limitsLifted ? "Restore plan limits" : "Lift plan limits"}</Button>}
+        title={team.limitsLifted ? "Restore plan limits" : "Lift plan limits"}
+        description={team.limitsLifted
+          ? `${team.name} will be limited by its plan again. Existing members stay, but no one can join while the team is over the limit.`
+          : `${team.name} can grow past the member limit of its plan, and users can join it even when they reached the limit of teams they can join.`}
+        confirmLabel={team.limitsLifted ? "Restore limits" : "Lift limits"}
+        isPending={setLimitsLifted.isPending}
+        onConfirm={() => setLimitsLifted.execute({ teamId: team.id, lifted: !team.limitsLifted })}
+      />
+
+      {team.isDeleted ? (
+        <ConfirmDialog
+          {...dialogProps("restore")}
+          trigger={<Button variant="outline"><RotateCcw className="mr-2 h-4 w-4" />Restore</Button>}
+          title="Restore team"
+          description={`${team.name} will be available to its members again.`}
+          confirmLabel="Restore team"
+          isPending={restoreTeam.isPending}
+          onConfirm={() => restoreTeam.execute({ teamId: team.id })}
+        />
+      ) : (
+        <ConfirmDialog
+          {...dialogProps("delete")}
+          trigger={<Button variant="destructive"><TrashIcon className="mr-2 h-4 w-4" />Delete</Button>}
+          title="Delete team"
+          description={`${team.name} will be hidden from its members and its invitations can't be accepted. Its data is kept, so the team can be restored later.`}
+          confirmLabel="Delete team"
+          destructive
+          isPending={deleteTeam.isPending}
+          onConfirm={() => deleteTeam.execute({ teamId: team.id })}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { DataTable } from "@/components/data-table"
+import { columns } from "./columns"
+import { getTeamsAction } from "../../_actions/get-teams.action"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Input } from "@/components/ui/input"
+import { PAGE_SIZE_OPTIONS } from "../../admin-constants"
+
+export function TeamsTable() {
+  const [page, setPage] = useState(1)
+  const [pageSize, setPageSize] = useState(10)
+  const [search, setSearch] = useState("")
+
+  const { execute: fetchTeams, data, error, status } = useServerAction(getTeamsAction, {
+    onError: () => {
+      toast.error("Failed to fetch teams")
+    },
+  })
+
+  useEffect(() => {
+    fetchTeams({ page, pageSize, search })
+  }, [fetchTeams, page, pageSize, search])
+
+  const handlePageChange = (newPage: number) => {
+    setPage(newPage + 1) // Convert from 0-based to 1-based
+  }
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value)
+    setPage(1)
+  }
+
+  return (
+    <div className="container mx-auto py-10 px-6">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <h1 className="text-3xl font-bold">Teams</h1>
+        <Input
+          placeholder="Search names or slugs..."
+          type="search"
+          value={search}
+          onChange={(event) => handleSearchChange(event.target.value)}
+          className="max-w-sm"
+        />
+      </div>
+      <div className="mt-8">
+        <div className="space-y-4">
+          {status === 'pending' || status === 'idle' ? (
+            <div>Loading...</div>
+          ) : error ? (
+            <div>Error: Failed to fetch teams</div>
+          ) : !data ? (
+            <div>No teams found</div>
+          ) : (
+            <DataTable
+              columns={columns}
+              data={data.teams}
+              pageCount={data.totalPages}
+              pageIndex={page - 1}
+              pageSize={pageSize}
+              onPageChange={handlePageChange}
+              onPageSizeChange={setPageSize}
+              totalCount={data.totalCount}
+              itemNameSingular="team"
+              itemNamePlural="teams"
+              pageSizeOptions={PAGE_SIZE_OPTIONS}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,8 @@
 import { ColumnDef } from "@tanstack/react-table"
 import { MoreHorizontal } from "lucide-react"
 import { formatDistanceToNow, format } from "date-fns"
+import Link from "next/link"
+import type { Route } from "next"
 
 import { Button } from "@/components/ui/button"
 import {
@@ -13,6 +15,7 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { Badge } from "@/components/ui/badge"
+import { DataTableColumnHeader } from "@/components/data-table"
 import {
   Tooltip,
   TooltipContent,
@@ -24,22 +27,54 @@ export type User = {
   email: string | null
   name: string | null
   role: string
-  status: "active" | "inactive"
+  status: "active" | "inactive" | "banned"
+  credits: number
   createdAt: Date
 }
 
 export const columns: ColumnDef<User>[] = [
+  {
+    id: "select",
+    header: ({ table }) => (
+      <input
+        type="checkbox"
+        className="h-4 w-4 accent-primary"
+        aria-label="Select all users on this page"
+        checked={table.getIsAllPageRowsSelected()}
+        ref={(input) => {
+          if (input) input.indeterminate = table.getIsSomePageRowsSelected()
+        }}
+        onChange={(event) => table.toggleAllPageRowsSelected(event.target.checked)}
+      />
+    ),
+    cell: ({ row }) => (
+      <input
+        type="checkbox"
+        className="h-4 w-4 accent-primary"
+        aria-label="Select user"
+        checked={row.getIsSelected()}
+        onChange={(event) => row.toggleSelected(event.target.checked)}
+      />
+    ),
+    enableSorting: false,
+    enableHiding: false,
+  },
   {
     accessorKey: "email",
-    header: "Email",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Email" />,
+    cell: ({ row }) => (
+      <Link href={`/admin/users/${row.original.id}` as Route} className="font-medium hover:underline">
+        {row.original.email}
+      </Link>
+    ),
   },
   {
     accessorKey: "name",
-    header: "Name",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Name" />,
   },
   {
     accessorKey: "role",
-    header: "Role",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Role" />,
     cell: ({ row }) => {
       const role = row.getValue("role") as string
       return (
@@ -52,18 +87,24 @@ export const columns: ColumnDef<User>[] = [
   {
     accessorKey: "status",
     header: "Status",
+    enableSorting: false,
     cell: ({ row }) => {
       const status = row.getValue("status") as string
       return (
-        <Badge variant={status === "active" ? "default" : "destructive"}>
+        <Badge variant={status === "active" ? "default" : status === "banned" ? "outline" : "destructive"}>
           {status}
         </Badge>
       )
     },
   },
+  {
+    accessorKey: "credits",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Credits" />,
+    cell: ({ row }) => row.original.credits.toLocaleString(),
+  },
   {
     accessorKey: "createdAt",
-    header: "Created",
+    header: ({ column }) => <DataTableColumnHeader column={column} title="Created" />,
     cell: ({ row }) => {
       const date = row.getValue("createdAt") as Date
       const formattedDate = format(new Date(date), "PPpp")
@@ -94,6 +135,9 @@ export const columns: ColumnDef<User>[] = [
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
             <DropdownMenuLabel>Actions</DropdownMenuLabel>
+            <DropdownMenuItem asChild>
+              <Link href={`/admin/users/${user.id}` as Route}>View details</Link>
+            </DropdownMenuItem>
             <DropdownMenuItem
               onClick={() => navigator.clipboard.writeText(user.id)}
             >
@@ -0,0 +1,107 @@
+"use client"
+
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { UserCog } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogClose,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form"
+import { useSessionStore } from "@/state/session"
+import { IMPERSONATION_SESSION_LENGTH_MINUTES } from "@/constants"
+import { impersonateUserAction } from "../../_actions/users.action"
+import { impersonateUserSchema, type ImpersonateUserSchema } from "@/schemas/admin-user.schema"
+
+interface ImpersonateUserDialogProps {
+  userId: string
+  email: string | null
+  // Admins and the current admin can't be impersonated
+  disabled?: boolean
+}
+
+export function ImpersonateUserDialog({ userId, email, disabled }: ImpersonateUserDialogProps) {
+  const { clearSession } = useSessionStore()
+
+  const form = useForm<ImpersonateUserSchema>({
+    resolver: zodResolver(impersonateUserSchema),
+    defaultValues: {
+      userId,
+      reason: "",
+    },
+  })
+
+  const { execute, isPending } = useServerAction(impersonateUserAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to impersonate the user")
+    },
+    onSuccess: () => {
+      clearSession()
+      // A full navigation loads the impersonated session everywhere
+      window.location.assign("/dashboard")
+    },
+  })
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <UserCog className="mr-2 h-4 w-4" />
+          Impersonate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Impersonate user</DialogTitle>
+          <DialogDescription>
+            You will be signed in as {email ?? "this user"} until you exit from the banner at the top of the page,
+            for at most {IMPERSONATION_SESSION_LENGTH_MINUTES} minutes. The reason is kept in the impersonation history of the user.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => execute(data))} className="space-y-4 pt-2">
+            <FormField
+              control={form.control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Reproducing the billing issue from ticket #123" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="flex flex-col gap-4 sm:flex-row">
+              <DialogClose asChild>
+                <Button type="button" variant="outline" className="sm:w-auto w-full">Cancel</Button>
+              </DialogClose>
+              <Button type="submit" disabled={isPending} className="sm:w-auto w-full">
+                {isPending ? "Signing in..." : "Sign in as user"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
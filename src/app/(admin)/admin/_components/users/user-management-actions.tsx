@@ -0,0 +1,173 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { Ban, BadgeCheck, Coins, ShieldCheck, ShieldOff, TrashIcon, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  banUserAction,
+  deleteUserAction,
+  resetUserCreditsAction,
+  setUserRoleAction,
+  unbanUserAction,
+  verifyUserEmailAction,
+} from "../../_actions/users.action"
+import { ConfirmDialog } from "../confirm-dialog"
+
+type UserDialog = "ban" | "unban" | "verify" | "role" | "credits" | "delete"
+
+interface UserManagementActionsProps {
+  user: {
+    id: string
+    email: string | null
+    isAdmin: boolean
+    isBanned: boolean
+    isEmailVerified: boolean
+    credits: number
+  }
+  // Admins can't act on their own account
+  isCurrentUser: boolean
+}
+
+export function UserManagementActions({ user, isCurrentUser }: UserManagementActionsProps) {
+  const router = useRouter()
+  const [openDialog, setOpenDialog] = useState<UserDialog | null>(null)
+  const [banReason, setBanReason] = useState("")
+  const [deleteConfirmation, setDeleteConfirmation] = useState("")
+
+  const dialogProps = (dialog: UserDialog) => ({
+    open: openDialog === dialog,
+    onOpenChange: (open: boolean) => setOpenDialog(open ? dialog : null),
+  })
+
+  const callbacks = (successMessage: string, errorMessage: string) => ({
+    onError: ({ err }: { err: { message?: string } }) => {
+      toast.error(err.message || errorMessage)
+    },
+    onSuccess: () => {
+      toast.success(successMessage)
+      setOpenDialog(null)
+    },
+  })
+
+  const ban = useServerAction(banUserAction, callbacks("User banned and signed out", "Failed to ban the user"))
+  const unban = useServerAction(unbanUserAction, callbacks("User unbanned", "Failed to unban the user"))
+  const verify = useServerAction(verifyUserEmailAction, callbacks("Email marked as verified", "Failed to verify the email"))
+  const setRole = useServerAction(setUserRoleAction, callbacks("Role changed", "Failed to change the role"))
+  const resetCredits = useServerAction(resetUserCreditsAction, callbacks("Credits reset", "Failed to reset the credits"))
+  const deleteUser = useServerAction(deleteUserAction, {
+    onError: ({ err }) => {
+      toast.error(err.message || "Failed to delete the user")
+    },
+    onSuccess: () => {
+      toast.success("User deleted")
+      router.push("/admin")
+    },
+  })
+
+  const name = user.email ?? "this user"
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {user.isBanned ? (
+        <ConfirmDialog
+          {...dialogProps("unban")}
+          trigger={<Button variant="outline" disabled={isCurrentUser}><Undo2 className="mr-2 h-4 w-4" />Unban</Button>}
+          title="Unban user"
+          description={`${name} will be able to sign in again.`}
+          confirmLabel="Unban user"
+          isPending={unban.isPending}
+          onConfirm={() => unban.execute({ userId: user.id })}
+        />
+      ) : (
+        <ConfirmDialog
+          {...dialogProps("ban")}
+          trigger={<Button variant="outline" disabled={isCurrentUser || user.isAdmin}><Ban className="mr-2 h-4 w-4" />Ban</Button>}
+          title="Ban user"
+          description={`${name} will be signed out of all sessions and won't be able to sign in until they are unbanned.`}
+          confirmLabel="Ban user"
+          destructive
+          isPending={ban.isPending}
+          confirmDisabled={banReason.trim().length < 3}
+          onConfirm={() => ban.execute({ userId: user.id, reason: banReason })}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="ban-reason">Reason</Label>
+            <Textarea
+              id="ban-reason"
+              value={banReason}
+              onChange={(event) => setBanReason(event.target.value)}
+              placeholder="Abusing the free credits with multiple accounts"
+            />
+          </div>
+        </ConfirmDialog>
+      )}
+
+      <ConfirmDialog
+        {...dialogProps("verify")}
+        trigger={<Button variant="outline" disabled={isCurrentUser || user.isEmailVerified}><BadgeCheck className="mr-2 h-4 w-4" />Verify email</Button>}
+        title="Mark email as verified"
+        description={`${name} will be treated as verified without confirming the email themselves.`}
+        confirmLabel="Mark as verified"
+        isPending={verify.isPending}
+        onConfirm={() => verify.execute({ userId: user.id })}
+      />
+
+      <ConfirmDialog
+        {...dialogProps("role")}
+        trigger={
+          <Button variant="outline" disabled={isCurrentUser || (!user.isAdmin && user.isBanned)}>
+            {user.isAdmin ? <ShieldOff className="mr-2 h-4 w-4" /> : <ShieldCheck className="mr-2 h-4 w-4" />}
+            {user.isAdmin ? "Remove admin" : "Make admin"}
+          </Button>
+        }
+        title={user.isAdmin ? "Remove admin role" : "Make admin"}
+        description={user.isAdmin
+          ? `${name} will lose access to the admin area.`
+          : `${name} will get full access to the admin area, including all users and their data.`}
+        confirmLabel={user.isAdmin ? "Remove admin role" : "Make admin"}
+        destructive={!user.isAdmin}
+        isPending={setRole.isPending}
+        onConfirm={() => setRole.execute({ userId: user.id, role: user.isAdmin ? "user" : "admin" })}
+      />
+
+      <ConfirmDialog
+        {...dialogProps("credits")}
+        trigger={<Button variant="outline" disabled={isCurrentUser || user.credits <= 0}><Coins className="mr-2 h-4 w-4" />Reset credits</Button>}
+        title="Reset credits"
+        description={`All ${user.credits.toLocaleString()} credits of ${name} will be removed with an admin adjustment in their ledger. Team credits aren't affected.`}
+        confirmLabel="Reset credits"
+        destructive
+        isPending={resetCredits.isPending}
+        onConfirm={() => resetCredits.execute({ userId: user.id })}
+      />
+
+      <ConfirmDialog
+        {...dialogProps("delete")}
+        trigger={<Button variant="destructive" disabled={isCurrentUser || user.isAdmin}><TrashIcon className="mr-2 h-4 w-4" />Delete</Button>}
+        title="Delete user"
+        description={`${name} will be deleted permanently with their passkeys, team memberships, credit ledger and purchases. This can't be undone.`}
+        confirmLabel="Delete user"
+        destructive
+        isPending={deleteUser.isPending}
+        confirmDisabled={deleteConfirmation !== (user.email ?? user.id)}
+        onConfirm={() => deleteUser.execute({ userId: user.id })}
+      >
+        <div className="space-y-2">
+          <Label htmlFor="delete-confirmation">Type <span className="font-mono">{user.email ?? user.id}</span> to confirm</Label>
+          <Input
+            id="delete-confirmation"
+            value={deleteConfirmation}
+            onChange={(event) => setDeleteConfirmation(event.target.value)}
+            autoComplete="off"
+          />
+        </div>
+      </ConfirmDialog>
+    </div>
+  )
+}
@@ -1,17 +1,62 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import type { RowSelectionState, SortingState } from "@tanstack/react-table"
 import { DataTable } from "@/components/data-table"
 import { columns } from "./columns"
 import { getUsersAction } from "../../_actions/get-users.action"
 import { useServerAction } from "zsa-react"
 import { toast } from "sonner"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { USER_ROLES } from "@/schemas/admin-user.schema"
+import {
+  USER_AUTH_METHODS,
+  USER_AUTH_METHOD_NAMES,
+  USER_SORT_COLUMNS,
+  USER_VERIFICATION_FILTERS,
+  type UserFilters,
+} from "@/schemas/admin-user-filters.schema"
 import { PAGE_SIZE_OPTIONS } from "../../admin-constants"
+
+// Select items can't have an empty value
+const ANY = "any"
+
+const DEFAULT_SORTING: SortingState = [{ id: "createdAt", desc: true }]
+
+type UserFilterInputs = Omit<UserFilters, "sortBy" | "sortOrder">
+
+function getExportUrl(params: Record<string, string | number | undefined>) {
+  const searchParams = new URLSearchParams()
+
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== "") {
+      searchParams.set(key, String(value))
+    }
+  }
+
+  return `/api/admin/users/export?${searchParams.toString()}`
+}
+
 export function UsersTable() {
   const [page, setPage] = useState(1)
   const [pageSize, setPageSize] = useState(10)
-  const [emailFilter, setEmailFilter] = useState("")
+  const [filters, setFilters] = useState<UserFilterInputs>({})
+  const [sorting, setSorting] = useState<SortingState>(DEFAULT_SORTING)
+  const [rowSelection, setRowSelection] = useState<RowSelectionState>({})
+
+  const sortBy = USER_SORT_COLUMNS.find((column) => column === sorting[0]?.id) ?? "createdAt"
+  const sortOrder = sorting[0]?.desc === false ? "asc" : "desc"
+  const selectedUserIds = Object.keys(rowSelection).filter((id) => rowSelection[id])
 
   const { execute: fetchUsers, data, error, status } = useServerAction(getUsersAction, {
     onError: () => {
@@ -20,24 +65,154 @@ export function UsersTable() {
   })
 
   useEffect(() => {
-    fetchUsers({ page, pageSize, emailFilter })
-  }, [fetchUsers, page, pageSize, emailFilter])
+    fetchUsers({ page, pageSize, sortBy, sortOrder, ...filters })
+  }, [fetchUsers, page, pageSize, sortBy, sortOrder, filters])
 
   const handlePageChange = (newPage: number) => {
     setPage(newPage + 1) // Convert from 0-based to 1-based
   }
 
+  const handleFilterChange = <K extends keyof UserFilterInputs>(key: K, value: UserFilterInputs[K] | typeof ANY | "") => {
+    setFilters((current) => ({ ...current, [key]: value === ANY || value === "" ? undefined : value }))
+    setPage(1)
+  }
+
+  const handleSortingChange = (nextSorting: SortingState) => {
+    setSorting(nextSorting.length ? nextSorting : DEFAULT_SORTING)
+    setPage(1)
+  }
+
   return (
     <div className="container mx-auto py-10 px-6">
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <h1 className="text-3xl font-bold">Users</h1>
-        <Input
-          placeholder="Filter emails..."
-          type="search"
-          value={emailFilter}
-          onChange={(event) => setEmailFilter(event.target.value)}
-          className="max-w-sm"
-        />
+        <div className="flex flex-wrap gap-2">
+          {selectedUserIds.length > 0 && (
+            <>
+              <Button variant="outline" onClick={() => setRowSelection({})}>
+                Clear selection
+              </Button>
+              <Button variant="outline" asChild>
+                <a href={getExportUrl({ ids: selectedUserIds.join(","), sortBy, sortOrder })} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Export {selectedUserIds.length} selected
+                </a>
+              </Button>
+            </>
+          )}
+          <Button variant="outline" asChild>
+            <a href={getExportUrl({ ...filters, sortBy, sortOrder })} download>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+      </div>
+      <div className="mt-6 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="users-email">Email</Label>
+          <Input
+            id="users-email"
+            placeholder="Filter emails..."
+            type="search"
+            value={filters.emailFilter ?? ""}
+            onChange={(event) => handleFilterChange("emailFilter", event.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="users-role">Role</Label>
+          <Select value={filters.role ?? ANY} onValueChange={(value) => handleFilterChange("role", value as UserFilters["role"])}>
+            <SelectTrigger id="users-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any role</SelectItem>
+              {USER_ROLES.map((role) => (
+                <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="users-verification">Email verification</Label>
+          <Select value={filters.verification ?? ANY} onValueChange={(value) => handleFilterChange("verification", value as UserFilters["verification"])}>
+            <SelectTrigger id="users-verification">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Verified or not</SelectItem>
+              {USER_VERIFICATION_FILTERS.map((verification) => (
+                <SelectItem key={verification} value={verification} className="capitalize">{verification}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="users-auth-method">Sign-in method</Label>
+          <Select value={filters.authMethod ?? ANY} onValueChange={(value) => handleFilterChange("authMethod", value as UserFilters["authMethod"])}>
+            <SelectTrigger id="users-auth-method">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any method</SelectItem>
+              {USER_AUTH_METHODS.map((method) => (
+                <SelectItem key={method} value={method}>{USER_AUTH_METHOD_NAMES[method]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="users-min-credits">Credits</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="users-min-credits"
+              type="number"
+              min={0}
+              placeholder="Min"
+              value={filters.minCredits ?? ""}
+              onChange={(event) => handleFilterChange("minCredits", event.target.value === "" ? "" : Number(event.target.value))}
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              aria-label="Maximum credits"
+              type="number"
+              min={0}
+              placeholder="Max"
+              value={filters.maxCredits ?? ""}
+              onChange={(event) => handleFilterChange("maxCredits", event.target.value === "" ? "" : Number(event.target.value))}
+            />
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="users-created-from">Signed up (UTC)</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="users-created-from"
+              type="date"
+              value={filters.createdFrom ?? ""}
+              onChange={(event) => handleFilterChange("createdFrom", event.target.value)}
+            />
+            <span className="text-muted-foreground">-</span>
+            <Input
+              aria-label="Signed up until"
+              type="date"
+              value={filters.createdTo ?? ""}
+              onChange={(event) => handleFilterChange("createdTo", event.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex items-end">
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setFilters({})
+              setPage(1)
+            }}
+            disabled={Object.values(filters).every((value) => value === undefined)}
+          >
+            Reset filters
+          </Button>
+        </div>
       </div>
       <div className="mt-8">
         <div className="space-y-4">
@@ -60,6 +235,11 @@ export function UsersTable() {
               itemNameSingular="user"
               itemNamePlural="users"
               pageSizeOptions={PAGE_SIZE_OPTIONS}
+              sorting={sorting}
+              onSortingChange={handleSortingChange}
+              rowSelection={rowSelection}
+              onRowSelectionChange={setRowSelection}
+              getRowId={(user) => user.id}
             />
           )}
         </div>
@@ -0,0 +1,186 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata, Route } from "next"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import {
+  ANALYTICS_RANGES,
+  getAdminAnalytics,
+  type AnalyticsRange,
+} from "@/utils/analytics"
+import { USER_AUTH_METHODS, USER_AUTH_METHOD_NAMES } from "@/schemas/admin-user-filters.schema"
+import { formatReceiptAmount } from "@/utils/receipts"
+import { getTotalUsers } from "@/utils/stats"
+import { CHART_COLORS, DailyChart } from "../_components/analytics/daily-chart"
+
+export const metadata: Metadata = {
+  title: "Analytics",
+  description: "Sign ups, revenue and credit flows",
+}
+
+interface AnalyticsPageProps {
+  searchParams: Promise<{
+    range?: string
+  }>
+}
+
+const DEFAULT_RANGE: AnalyticsRange = 30
+
+function getDays(since: string, days: number) {
+  const start = new Date(`${since}T00:00:00Z`)
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(start)
+    date.setUTCDate(start.getUTCDate() + index)
+    return date.toISOString().slice(0, 10)
+  })
+}
+
+function toValues<T extends { day: string }>(rows: T[], getValue: (row: T) => number) {
+  const values = new Map<string, number>()
+
+  for (const row of rows) {
+    values.set(row.day, (values.get(row.day) ?? 0) + getValue(row))
+  }
+
+  return values
+}
+
+export default async function AnalyticsPage({ searchParams }: AnalyticsPageProps) {
+  const { range: rangeParam } = await searchParams
+  const range = ANALYTICS_RANGES.find((days) => String(days) === rangeParam) ?? DEFAULT_RANGE
+  const analytics = await getAdminAnalytics(range)
+  const totalUsers = await getTotalUsers()
+  const days = getDays(analytics.since, range)
+  const formatRevenue = (cents: number) => formatReceiptAmount(cents, "usd")
+
+  const sum = (values: Map<string, number>) => [...values.values()].reduce((total, value) => total + value, 0)
+  const signUps = toValues(analytics.signUps, (row) => row.count)
+  const revenue = toValues(analytics.revenue, (row) => row.revenue)
+  const purchases = toValues(analytics.revenue, (row) => row.purchases)
+  const teamsCreated = toValues(analytics.teamsCreated, (row) => row.count)
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/analytics", label: "Analytics" },
+        ]}
+      />
+      <div className="container mx-auto py-10 px-6 space-y-8">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Analytics</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              UTC days since {analytics.since}. The numbers are refreshed every 15 minutes.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {ANALYTICS_RANGES.map((days) => (
+              <Button key={days} variant={days === range ? "default" : "outline"} size="sm" asChild>
+                <Link href={`/admin/analytics?range=${days}` as Route}>{days} days</Link>
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {[
+            { label: "Total users", value: totalUsers.toLocaleString() },
+            { label: "Sign ups", value: sum(signUps).toLocaleString() },
+            { label: "Revenue", value: `${formatRevenue(sum(revenue))} from ${sum(purchases).toLocaleString()} purchases` },
+            { label: "Teams created", value: sum(teamsCreated).toLocaleString() },
+          ].map(({ label, value }) => (
+            <div key={label} className="rounded-md border p-4">
+              <dt className="text-sm text-muted-foreground">{label}</dt>
+              <dd className="mt-1 text-2xl font-semibold">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <DailyChart
+            title="Sign ups"
+            description="New users by the method they can sign in with"
+            days={days}
+            stacked
+            series={USER_AUTH_METHODS.map((method, index) => ({
+              name: USER_AUTH_METHOD_NAMES[method],
+              color: CHART_COLORS[index],
+              values: toValues(analytics.signUps.filter((row) => row.method === method), (row) => row.count),
+            }))}
+          />
+          <DailyChart
+            title="Revenue"
+            description="Credit packages bought, after promo code discounts and before refunds"
+            days={days}
+            formatValue={formatRevenue}
+            series={[{ name: "Revenue", color: CHART_COLORS[0], values: revenue }]}
+          />
+          <DailyChart
+            title="Credit flows"
+            description="Credits issued to wallets, spent on usage net of refunds, and expired"
+            days={days}
+            series={[
+              { name: "Issued", color: CHART_COLORS[1], values: toValues(analytics.creditFlows, (row) => row.issued) },
+              { name: "Consumed", color: CHART_COLORS[2], values: toValues(analytics.creditFlows, (row) => row.consumed) },
+              { name: "Expired", color: CHART_COLORS[4], values: toValues(analytics.creditFlows, (row) => row.expired) },
+            ]}
+          />
+          <DailyChart
+            title="Teams created"
+            description="New teams, including the ones deleted since"
+            days={days}
+            series={[{ name: "Teams", color: CHART_COLORS[3], values: teamsCreated }]}
+          />
+        </div>
+
+        <div>
+          <h2 className="text-xl font-semibold">Marketplace top sellers</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Items bought in the last {range} days, on their own or in a bundle.
+          </p>
+          <div className="mt-4 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                  <TableHead className="text-right">Credits</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {analytics.topSellers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="h-16 text-center text-muted-foreground">
+                      No marketplace sales in this period.
+                    </TableCell>
+                  </TableRow>
+                ) : analytics.topSellers.map((item) => (
+                  <TableRow key={`${item.type}:${item.slug}`}>
+                    <TableCell>
+                      <div className="font-medium">{item.name ?? "Deleted item"}</div>
+                      <div className="font-mono text-xs text-muted-foreground">{item.slug}</div>
+                    </TableCell>
+                    <TableCell className="capitalize">{item.type.toLowerCase()}</TableCell>
+                    <TableCell className="text-right">{item.sales.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{item.credits.toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
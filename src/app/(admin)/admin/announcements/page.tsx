@@ -0,0 +1,135 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import { count, desc } from "drizzle-orm"
+import { getDB } from "@/db"
+import { announcementDismissalTable, announcementTable, ANNOUNCEMENT_AUDIENCE, ANNOUNCEMENT_TYPE } from "@/db/schema"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatDateTime } from "@/utils/format-date"
+import { getPlan } from "@/utils/plans"
+import { ANNOUNCEMENT_AUDIENCE_LABELS, type AnnouncementAudience } from "@/schemas/announcement.schema"
+import { CreateAnnouncementDialog } from "../_components/announcements/create-announcement-dialog"
+import { AnnouncementActions } from "../_components/announcements/announcement-actions"
+
+export const metadata: Metadata = {
+  title: "Announcements",
+  description: "Manage announcement and maintenance banners",
+}
+
+export default async function AnnouncementsPage() {
+  const db = getDB()
+
+  const [announcements, dismissalCounts] = await Promise.all([
+    db.query.announcementTable.findMany({
+      orderBy: [desc(announcementTable.startsAt)],
+    }),
+    db
+      .select({
+        announcementId: announcementDismissalTable.announcementId,
+        count: count(),
+      })
+      .from(announcementDismissalTable)
+      .groupBy(announcementDismissalTable.announcementId),
+  ])
+
+  const dismissalCountById = new Map(dismissalCounts.map((row) => [row.announcementId, row.count]))
+  const now = new Date()
+
+  return (
+    <>
+      <PageHeader items={[{ href: "/admin", label: "Admin" }, { href: "/admin/announcements", label: "Announcements" }]} />
+      <div className="container mx-auto py-10 px-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">Announcements</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Banners shown above the dashboard and the marketing pages. Changes can take a few seconds to show up.
+            </p>
+          </div>
+          <CreateAnnouncementDialog />
+        </div>
+        <div className="mt-8 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Announcement</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Shown to</TableHead>
+                <TableHead>Starts</TableHead>
+                <TableHead>Ends</TableHead>
+                <TableHead>Closed by</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {announcements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={8} className="h-24 text-center">
+                    No announcements yet.
+                  </TableCell>
+                </TableRow>
+              ) : announcements.map((announcement) => {
+                const hasEnded = Boolean(announcement.endsAt && announcement.endsAt <= now)
+                const isScheduled = !hasEnded && announcement.startsAt > now
+
+                return (
+                  <TableRow key={announcement.id}>
+                    <TableCell className="max-w-sm">
+                      <div className="font-medium">{announcement.title}</div>
+                      {announcement.message && (
+                        <div className="text-sm text-muted-foreground line-clamp-2">{announcement.message}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={announcement.type === ANNOUNCEMENT_TYPE.INFO ? "secondary" : "destructive"}>
+                        {announcement.type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {announcement.audience === ANNOUNCEMENT_AUDIENCE.TEAMS
+                        ? `${announcement.teamIds?.length ?? 0} teams`
+                        : announcement.audience === ANNOUNCEMENT_AUDIENCE.PLAN
+                          ? `${getPlan(announcement.planId ?? "")?.name ?? announcement.planId} plan`
+                          : ANNOUNCEMENT_AUDIENCE_LABELS[announcement.audience as AnnouncementAudience]}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(announcement.startsAt)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {announcement.endsAt ? formatDateTime(announcement.endsAt) : "When ended"}
+                    </TableCell>
+                    <TableCell>
+                      {announcement.dismissible
+                        ? `${(dismissalCountById.get(announcement.id) ?? 0).toLocaleString()} users`
+                        : "Can't be closed"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={hasEnded || isScheduled ? "secondary" : "default"}>
+                        {hasEnded ? "ended" : isScheduled ? "scheduled" : "running"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <AnnouncementActions
+                        announcement={{
+                          id: announcement.id,
+                          title: announcement.title,
+                          hasEnded,
+                        }}
+                      />
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,30 @@
+import { PageHeader } from "@/components/page-header"
+import { AuditLogTable } from "../_components/audit-log/audit-log-table"
+import type { Metadata } from "next"
+
+export const metadata: Metadata = {
+  title: "Audit Log",
+  description: "Security and billing relevant events",
+}
+
+interface AuditLogPageProps {
+  searchParams: Promise<{
+    teamId?: string
+  }>
+}
+
+export default async function AdminAuditLogPage({ searchParams }: AuditLogPageProps) {
+  const { teamId } = await searchParams
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/audit-log", label: "Audit Log" },
+        ]}
+      />
+      <AuditLogTable initialTeamId={teamId} />
+    </>
+  )
+}
@@ -0,0 +1,119 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { and, desc, eq, sum } from "drizzle-orm"
+import { getDB } from "@/db"
+import { marketplaceItemTable, marketplaceItemPriceTable, purchasedItemsTable } from "@/db/schema"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatDate } from "@/utils/format-date"
+import type { CreateMarketplaceItemSchema } from "@/schemas/marketplace-item.schema"
+import { MarketplaceItemForm } from "../../_components/marketplace/marketplace-item-form"
+import { MarketplaceSourceUpload } from "../../_components/marketplace/marketplace-source-upload"
+
+export const metadata: Metadata = {
+  title: "Edit Marketplace Item",
+  description: "Edit a marketplace item",
+}
+
+interface EditMarketplaceItemPageProps {
+  params: Promise<{
+    itemId: string
+  }>
+}
+
+export default async function EditMarketplaceItemPage({ params }: EditMarketplaceItemPageProps) {
+  const { itemId } = await params
+  const db = getDB()
+
+  const item = await db.query.marketplaceItemTable.findFirst({
+    where: eq(marketplaceItemTable.id, itemId),
+    with: {
+      prices: {
+        orderBy: [desc(marketplaceItemPriceTable.createdAt)],
+      },
+    },
+  })
+
+  if (!item) {
+    notFound()
+  }
+
+  const [downloads] = await db
+    .select({ count: sum(purchasedItemsTable.downloadCount).mapWith(Number) })
+    .from(purchasedItemsTable)
+    .where(and(
+      eq(purchasedItemsTable.itemType, item.type),
+      eq(purchasedItemsTable.itemId, item.slug),
+    ))
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/marketplace", label: "Marketplace" },
+          { href: `/admin/marketplace/${item.id}`, label: item.name },
+        ]}
+      />
+      <div className="container mx-auto py-10 px-6 space-y-10">
+        <div>
+          <h1 className="text-3xl font-bold mb-8">{item.name}</h1>
+          <MarketplaceItemForm
+            item={{
+              id: item.id,
+              type: item.type as CreateMarketplaceItemSchema["type"],
+              slug: item.slug,
+              name: item.name,
+              description: item.description,
+              credits: item.credits,
+              status: item.status as CreateMarketplaceItemSchema["status"],
+              version: item.version,
+            }}
+          />
+        </div>
+        <div className="max-w-2xl">
+          <h2 className="text-xl font-semibold">Source file</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            {item.sourceKey
+              ? `${item.sourceFileName} (${((item.sourceSize ?? 0) / 1024).toFixed(1)} KB), downloaded ${(downloads?.count ?? 0).toLocaleString()} times. Uploading a new file replaces it.`
+              : "Owners of the item can download the file uploaded here."}
+          </p>
+          <div className="mt-4">
+            <MarketplaceSourceUpload itemId={item.id} />
+          </div>
+        </div>
+        <div className="max-w-2xl">
+          <h2 className="text-xl font-semibold">Price history</h2>
+          <p className="text-sm text-muted-foreground mt-1">
+            Purchases keep the price they were made at.
+          </p>
+          <div className="mt-4 rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Price</TableHead>
+                  <TableHead className="text-right">Since</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {item.prices.map((price) => (
+                  <TableRow key={price.id}>
+                    <TableCell>{price.credits.toLocaleString()} credits</TableCell>
+                    <TableCell className="text-right">{formatDate(price.createdAt)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
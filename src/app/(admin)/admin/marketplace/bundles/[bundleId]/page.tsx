@@ -0,0 +1,69 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import { asc, eq } from "drizzle-orm"
+import { getDB } from "@/db"
+import { marketplaceBundleTable, marketplaceItemTable } from "@/db/schema"
+import type { CreateMarketplaceBundleSchema } from "@/schemas/marketplace-item.schema"
+import { MarketplaceBundleForm } from "../../../_components/marketplace/marketplace-bundle-form"
+
+export const metadata: Metadata = {
+  title: "Edit Marketplace Bundle",
+  description: "Edit a marketplace bundle",
+}
+
+interface EditMarketplaceBundlePageProps {
+  params: Promise<{
+    bundleId: string
+  }>
+}
+
+export default async function EditMarketplaceBundlePage({ params }: EditMarketplaceBundlePageProps) {
+  const { bundleId } = await params
+  const db = getDB()
+
+  const bundle = await db.query.marketplaceBundleTable.findFirst({
+    where: eq(marketplaceBundleTable.id, bundleId),
+    with: {
+      bundleItems: {
+        columns: { itemId: true },
+      },
+    },
+  })
+
+  if (!bundle) {
+    notFound()
+  }
+
+  const items = await db.query.marketplaceItemTable.findMany({
+    orderBy: [asc(marketplaceItemTable.createdAt)],
+    columns: { id: true, type: true, name: true, credits: true },
+  })
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/marketplace", label: "Marketplace" },
+          { href: `/admin/marketplace/bundles/${bundle.id}`, label: bundle.name },
+        ]}
+      />
+      <div className="container mx-auto py-10 px-6">
+        <h1 className="text-3xl font-bold mb-8">{bundle.name}</h1>
+        <MarketplaceBundleForm
+          items={items}
+          bundle={{
+            id: bundle.id,
+            slug: bundle.slug,
+            name: bundle.name,
+            description: bundle.description,
+            credits: bundle.credits,
+            status: bundle.status as CreateMarketplaceBundleSchema["status"],
+            itemIds: bundle.bundleItems.map(({ itemId }) => itemId),
+          }}
+        />
+      </div>
+    </>
+  )
+}
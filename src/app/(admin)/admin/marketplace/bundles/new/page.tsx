@@ -0,0 +1,34 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import { asc } from "drizzle-orm"
+import { getDB } from "@/db"
+import { marketplaceItemTable } from "@/db/schema"
+import { MarketplaceBundleForm } from "../../../_components/marketplace/marketplace-bundle-form"
+
+export const metadata: Metadata = {
+  title: "New Marketplace Bundle",
+  description: "Add a bundle to the marketplace",
+}
+
+export default async function NewMarketplaceBundlePage() {
+  const items = await getDB().query.marketplaceItemTable.findMany({
+    orderBy: [asc(marketplaceItemTable.createdAt)],
+    columns: { id: true, type: true, name: true, credits: true },
+  })
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/marketplace", label: "Marketplace" },
+          { href: "/admin/marketplace/bundles/new", label: "New bundle" },
+        ]}
+      />
+      <div className="container mx-auto py-10 px-6">
+        <h1 className="text-3xl font-bold mb-8">New bundle</h1>
+        <MarketplaceBundleForm items={items} />
+      </div>
+    </>
+  )
+}
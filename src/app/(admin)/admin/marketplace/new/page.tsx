@@ -0,0 +1,26 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import { MarketplaceItemForm } from "../../_components/marketplace/marketplace-item-form"
+
+export const metadata: Metadata = {
+  title: "New Marketplace Item",
+  description: "Add an item to the marketplace",
+}
+
+export default function NewMarketplaceItemPage() {
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/marketplace", label: "Marketplace" },
+          { href: "/admin/marketplace/new", label: "New item" },
+        ]}
+      />
+      <div className="container mx-auto py-10 px-6">
+        <h1 className="text-3xl font-bold mb-8">New item</h1>
+        <MarketplaceItemForm />
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,176 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import type { Route } from "next"
+import Link from "next/link"
+import { asc } from "drizzle-orm"
+import { MessageSquare, Pencil, Plus } from "lucide-react"
+import { getDB } from "@/db"
+import { marketplaceBundleTable, marketplaceItemTable, MARKETPLACE_ITEM_STATUS } from "@/db/schema"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatDate } from "@/utils/format-date"
+import { DeleteMarketplaceItemButton } from "../_components/marketplace/delete-marketplace-item-button"
+import { DeleteMarketplaceBundleButton } from "../_components/marketplace/delete-marketplace-bundle-button"
+
+export const metadata: Metadata = {
+  title: "Marketplace",
+  description: "Manage the marketplace catalog",
+}
+
+export default async function AdminMarketplacePage() {
+  const db = getDB()
+  const items = await db.query.marketplaceItemTable.findMany({
+    orderBy: [asc(marketplaceItemTable.createdAt)],
+  })
+  const bundles = await db.query.marketplaceBundleTable.findMany({
+    orderBy: [asc(marketplaceBundleTable.createdAt)],
+    with: {
+      bundleItems: {
+        columns: { id: true },
+      },
+    },
+  })
+
+  return (
+    <>
+      <PageHeader items={[{ href: "/admin", label: "Admin" }, { href: "/admin/marketplace", label: "Marketplace" }]} />
+      <div className="container mx-auto py-10 px-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <h1 className="text-3xl font-bold">Marketplace</h1>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/admin/marketplace/reviews">
+                <MessageSquare className="mr-2 h-4 w-4" />
+                Reviews
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link href="/admin/marketplace/new">
+                <Plus className="mr-2 h-4 w-4" />
+                New item
+              </Link>
+            </Button>
+          </div>
+        </div>
+        <div className="mt-8 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Version</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    No items yet.
+                  </TableCell>
+                </TableRow>
+              ) : items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <div className="font-medium">{item.name}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{item.slug}</div>
+                  </TableCell>
+                  <TableCell className="capitalize">{item.type.toLowerCase()}</TableCell>
+                  <TableCell>{item.credits.toLocaleString()} credits</TableCell>
+                  <TableCell>{item.version}</TableCell>
+                  <TableCell>
+                    <Badge variant={item.status === MARKETPLACE_ITEM_STATUS.PUBLISHED ? "default" : "secondary"}>
+                      {item.status.toLowerCase()}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{formatDate(item.updatedAt)}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button asChild variant="ghost" size="icon" className="h-8 w-8">
+                        <Link href={`/admin/marketplace/${item.id}` as Route}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit item</span>
+                        </Link>
+                      </Button>
+                      <DeleteMarketplaceItemButton itemId={item.id} name={item.name} />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="mt-12 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <h2 className="text-2xl font-semibold">Bundles</h2>
+          <Button asChild variant="outline">
+            <Link href="/admin/marketplace/bundles/new">
+              <Plus className="mr-2 h-4 w-4" />
+              New bundle
+            </Link>
+          </Button>
+        </div>
+        <div className="mt-6 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bundle</TableHead>
+                <TableHead>Items</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Updated</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {bundles.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-24 text-center">
+                    No bundles yet.
+                  </TableCell>
+                </TableRow>
+              ) : bundles.map((bundle) => (
+                <TableRow key={bundle.id}>
+                  <TableCell>
+                    <div className="font-medium">{bundle.name}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{bundle.slug}</div>
+                  </TableCell>
+                  <TableCell>{bundle.bundleItems.length}</TableCell>
+                  <TableCell>{bundle.credits.toLocaleString()} credits</TableCell>
+                  <TableCell>
+                    <Badge variant={bundle.status === MARKETPLACE_ITEM_STATUS.PUBLISHED ? "default" : "secondary"}>
+                      {bundle.status.toLowerCase()}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>{formatDate(bundle.updatedAt)}</TableCell>
+                  <TableCell>
+                    <div className="flex justify-end gap-1">
+                      <Button asChild variant="ghost" size="icon" className="h-8 w-8">
+                        <Link href={`/admin/marketplace/bundles/${bundle.id}` as Route}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit bundle</span>
+                        </Link>
+                      </Button>
+                      <DeleteMarketplaceBundleButton bundleId={bundle.id} name={bundle.name} />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,93 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import { desc } from "drizzle-orm"
+import { getDB } from "@/db"
+import { marketplaceReviewTable } from "@/db/schema"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatDate } from "@/utils/format-date"
+import { ReviewVisibilityButton } from "../../_components/marketplace/review-visibility-button"
+
+export const metadata: Metadata = {
+  title: "Marketplace Reviews",
+  description: "Moderate the reviews of marketplace items",
+}
+
+export default async function AdminMarketplaceReviewsPage() {
+  const reviews = await getDB().query.marketplaceReviewTable.findMany({
+    orderBy: [desc(marketplaceReviewTable.createdAt)],
+    with: {
+      item: {
+        columns: { name: true },
+      },
+      user: {
+        columns: { email: true },
+      },
+    },
+  })
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/marketplace", label: "Marketplace" },
+          { href: "/admin/marketplace/reviews", label: "Reviews" },
+        ]}
+      />
+      <div className="container mx-auto py-10 px-6">
+        <h1 className="text-3xl font-bold">Reviews</h1>
+        <p className="text-muted-foreground mt-2">
+          Hidden reviews are only visible to their authors and don&apos;t count towards the rating of the item.
+        </p>
+        <div className="mt-8 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Author</TableHead>
+                <TableHead>Rating</TableHead>
+                <TableHead>Review</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {reviews.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    No reviews yet.
+                  </TableCell>
+                </TableRow>
+              ) : reviews.map((review) => (
+                <TableRow key={review.id}>
+                  <TableCell className="font-medium">{review.item.name}</TableCell>
+                  <TableCell>{review.user.email}</TableCell>
+                  <TableCell>{review.rating} / 5</TableCell>
+                  <TableCell className="max-w-md whitespace-pre-line">{review.body}</TableCell>
+                  <TableCell>{formatDate(review.createdAt)}</TableCell>
+                  <TableCell>
+                    <Badge variant={review.hiddenAt ? "secondary" : "default"}>
+                      {review.hiddenAt ? "hidden" : "visible"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <ReviewVisibilityButton reviewId={review.id} isHidden={Boolean(review.hiddenAt)} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,91 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata } from "next"
+import { desc } from "drizzle-orm"
+import { getDB } from "@/db"
+import { promoCodeTable, PROMO_CODE_TYPE } from "@/db/schema"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { formatDate } from "@/utils/format-date"
+import { CreatePromoCodeDialog } from "../_components/promo-codes/create-promo-code-dialog"
+import { PromoCodeStatusButton } from "../_components/promo-codes/promo-code-status-button"
+
+export const metadata: Metadata = {
+  title: "Promo Codes",
+  description: "Manage promo codes",
+}
+
+export default async function PromoCodesPage() {
+  const promoCodes = await getDB().query.promoCodeTable.findMany({
+    orderBy: [desc(promoCodeTable.createdAt)],
+  })
+
+  return (
+    <>
+      <PageHeader items={[{ href: "/admin", label: "Admin" }, { href: "/admin/promo-codes", label: "Promo Codes" }]} />
+      <div className="container mx-auto py-10 px-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <h1 className="text-3xl font-bold">Promo Codes</h1>
+          <CreatePromoCodeDialog />
+        </div>
+        <div className="mt-8 rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Reward</TableHead>
+                <TableHead>Redemptions</TableHead>
+                <TableHead>Per user</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {promoCodes.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    No promo codes yet.
+                  </TableCell>
+                </TableRow>
+              ) : promoCodes.map((promoCode) => {
+                const isExpired = Boolean(promoCode.expiresAt && promoCode.expiresAt < new Date())
+
+                return (
+                  <TableRow key={promoCode.id}>
+                    <TableCell className="font-mono font-medium">{promoCode.code}</TableCell>
+                    <TableCell>
+                      {promoCode.type === PROMO_CODE_TYPE.CREDITS
+                        ? `${promoCode.credits?.toLocaleString()} credits`
+                        : `${promoCode.discountPercent}% off credit packages`}
+                    </TableCell>
+                    <TableCell>
+                      {promoCode.redemptionCount.toLocaleString()}
+                      {promoCode.maxRedemptions !== null && ` / ${promoCode.maxRedemptions.toLocaleString()}`}
+                    </TableCell>
+                    <TableCell>{promoCode.maxRedemptionsPerUser}</TableCell>
+                    <TableCell>{promoCode.expiresAt ? formatDate(promoCode.expiresAt) : "Never"}</TableCell>
+                    <TableCell>
+                      <Badge variant={promoCode.isActive && !isExpired ? "default" : "secondary"}>
+                        {!promoCode.isActive ? "disabled" : isExpired ? "expired" : "active"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <PromoCodeStatusButton promoCodeId={promoCode.id} isActive={Boolean(promoCode.isActive)} />
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </>
+  )
+}
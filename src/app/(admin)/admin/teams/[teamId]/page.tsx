@@ -0,0 +1,288 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata, Route } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { and, desc, eq, gt, isNull } from "drizzle-orm"
+import { getDB } from "@/db"
+import {
+  teamInvitationTable,
+  teamMembershipTable,
+  teamRoleTable,
+  teamTable,
+  SYSTEM_ROLES_ENUM,
+} from "@/db/schema"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { getActivePlan } from "@/utils/plans"
+import { formatDate, formatDateTime } from "@/utils/format-date"
+import { MAX_TEAMS_JOINED_PER_USER } from "@/constants"
+import { TeamManagementActions } from "../../_components/teams/team-management-actions"
+
+export const metadata: Metadata = {
+  title: "Team Details",
+  description: "Details of a team",
+}
+
+interface TeamDetailsPageProps {
+  params: Promise<{
+    teamId: string
+  }>
+}
+
+function Section({ title, description, children }: { title: string; description?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h2 className="text-xl font-semibold">{title}</h2>
+      {description && (
+        <p className="text-sm text-muted-foreground mt-1">{description}</p>
+      )}
+      <div className="mt-4 rounded-md border">
+        {children}
+      </div>
+    </div>
+  )
+}
+
+function EmptyRow({ colSpan, children }: { colSpan: number; children: React.ReactNode }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="h-16 text-center text-muted-foreground">
+        {children}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+export default async function TeamDetailsPage({ params }: TeamDetailsPageProps) {
+  const { teamId } = await params
+  const db = getDB()
+
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.id, teamId),
+  })
+
+  if (!team) {
+    notFound()
+  }
+
+  const memberships = await db.query.teamMembershipTable.findMany({
+    where: eq(teamMembershipTable.teamId, team.id),
+    orderBy: [desc(teamMembershipTable.joinedAt)],
+    with: {
+      user: {
+        columns: { id: true, email: true, firstName: true, lastName: true, bannedAt: true },
+      },
+    },
+  })
+  const roles = await db.query.teamRoleTable.findMany({
+    where: eq(teamRoleTable.teamId, team.id),
+  })
+  const invitations = await db.query.teamInvitationTable.findMany({
+    where: and(
+      eq(teamInvitationTable.teamId, team.id),
+      isNull(teamInvitationTable.acceptedAt),
+      gt(teamInvitationTable.expiresAt, new Date()),
+    ),
+    orderBy: [desc(teamInvitationTable.createdAt)],
+    with: {
+      invitedByUser: { columns: { email: true } },
+    },
+  })
+
+  const plan = getActivePlan(team)
+  const roleNames = new Map(roles.map((role) => [role.id, role.name]))
+  const getRoleName = ({ roleId, isSystemRole }: { roleId: string; isSystemRole: number }) => (
+    isSystemRole ? roleId : roleNames.get(roleId) ?? "Deleted role"
+  )
+  const isOwner = (membership: { roleId: string; isSystemRole: number }) => (
+    !!membership.isSystemRole && membership.roleId === SYSTEM_ROLES_ENUM.OWNER
+  )
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/teams", label: "Teams" },
+          { href: `/admin/teams/${team.id}`, label: team.name },
+        ]}
+      />
+      <div className="container mx-auto py-10 px-6 space-y-10">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">{team.name}</h1>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <span className="font-mono">{team.slug}</span>
+              <Badge variant="secondary">{plan.name}</Badge>
+              {team.limitsLiftedAt && <Badge variant="outline">no limits</Badge>}
+              {team.deletedAt && <Badge variant="destructive">deleted</Badge>}
+            </div>
+            {team.description && (
+              <p className="mt-2 text-sm text-muted-foreground">{team.description}</p>
+            )}
+          </div>
+          <Button variant="outline" asChild>
+            <Link href={`/admin/audit-log?teamId=${team.id}` as Route}>Audit log</Link>
+          </Button>
+        </div>
+
+        <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {[
+            { label: "Team ID", value: <span className="font-mono text-xs">{team.id}</span> },
+            { label: "Created", value: formatDateTime(team.createdAt) },
+            { label: "Credits", value: team.creditBalance.toLocaleString() },
+            { label: "Plan", value: team.planExpiresAt ? `${plan.name} until ${formatDate(team.planExpiresAt)}` : plan.name },
+            {
+              label: "Members",
+              value: team.limitsLiftedAt
+                ? `${memberships.length} (limits lifted on ${formatDate(team.limitsLiftedAt)})`
+                : `${memberships.length} of ${plan.limits.maxTeamMembers}`,
+            },
+            { label: "Billing email", value: team.billingEmail ?? "None" },
+            { label: "Stripe customer", value: <span className="font-mono text-xs">{team.stripeCustomerId ?? "None"}</span> },
+            { label: "Deleted", value: team.deletedAt ? formatDateTime(team.deletedAt) : "No" },
+          ].map(({ label, value }) => (
+            <div key={label} className="rounded-md border p-4">
+              <dt className="text-sm text-muted-foreground">{label}</dt>
+              <dd className="mt-1 font-medium break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <Section
+          title="Manage team"
+          description={`Lifting the limits also lets users join the team past the limit of ${MAX_TEAMS_JOINED_PER_USER} teams per user.`}
+        >
+          <div className="p-4">
+            <TeamManagementActions
+              team={{
+                id: team.id,
+                name: team.name,
+                isDeleted: !!team.deletedAt,
+                limitsLifted: !!team.limitsLiftedAt,
+              }}
+              members={memberships
+                .filter((membership) => !isOwner(membership) && !membership.user.bannedAt)
+                .map((membership) => ({
+                  userId: membership.userId,
+                  label: membership.user.email ?? membership.userId,
+                }))}
+            />
+          </div>
+        </Section>
+
+        <Section title="Members">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead>Invited</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {memberships.length === 0 ? (
+                <EmptyRow colSpan={4}>The team has no members.</EmptyRow>
+              ) : memberships.map((membership) => {
+                const name = [membership.user.firstName, membership.user.lastName].filter(Boolean).join(" ")
+
+                return (
+                  <TableRow key={membership.id}>
+                    <TableCell>
+                      <Link href={`/admin/users/${membership.userId}` as Route} className="font-medium hover:underline">
+                        {membership.user.email ?? membership.userId}
+                      </Link>
+                      {name && <div className="text-xs text-muted-foreground">{name}</div>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={isOwner(membership) ? "default" : "secondary"} className="capitalize">
+                        {getRoleName(membership)}
+                      </Badge>
+                      {membership.user.bannedAt && (
+                        <Badge variant="destructive" className="ml-2">banned</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{membership.joinedAt ? formatDateTime(membership.joinedAt) : "Not yet"}</TableCell>
+                    <TableCell>{membership.invitedAt ? formatDate(membership.invitedAt) : "-"}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </Section>
+
+        <Section title="Custom roles" description="Members with a system role get its default permissions.">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Role</TableHead>
+                <TableHead>Permissions</TableHead>
+                <TableHead className="text-right">Members</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {roles.length === 0 ? (
+                <EmptyRow colSpan={3}>The team has no custom roles.</EmptyRow>
+              ) : roles.map((role) => (
+                <TableRow key={role.id}>
+                  <TableCell>
+                    <div className="font-medium">{role.name}</div>
+                    {role.description && <div className="text-xs text-muted-foreground">{role.description}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {role.permissions.map((permission) => (
+                        <Badge key={permission} variant="outline">{permission.replace(/_/g, " ")}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {memberships.filter((membership) => !membership.isSystemRole && membership.roleId === role.id).length}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Section>
+
+        <Section title="Pending invitations">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Invited by</TableHead>
+                <TableHead>Expires</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invitations.length === 0 ? (
+                <EmptyRow colSpan={4}>No pending invitations.</EmptyRow>
+              ) : invitations.map((invitation) => (
+                <TableRow key={invitation.id}>
+                  <TableCell className="font-medium">{invitation.email}</TableCell>
+                  <TableCell className="capitalize">{getRoleName(invitation)}</TableCell>
+                  <TableCell>
+                    <Link href={`/admin/users/${invitation.invitedBy}` as Route} className="hover:underline">
+                      {invitation.invitedByUser.email ?? invitation.invitedBy}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{formatDateTime(invitation.expiresAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Section>
+      </div>
+    </>
+  )
+}
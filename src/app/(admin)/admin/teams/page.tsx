@@ -0,0 +1,22 @@
+import { PageHeader } from "@/components/page-header"
+import { TeamsTable } from "../_components/teams/teams-table"
+import type { Metadata } from "next"
+
+export const metadata: Metadata = {
+  title: "Team Management",
+  description: "Manage all teams",
+}
+
+export default function AdminTeamsPage() {
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: "/admin/teams", label: "Teams" },
+        ]}
+      />
+      <TeamsTable />
+    </>
+  )
+}
@@ -0,0 +1,403 @@
+import { PageHeader } from "@/components/page-header"
+import type { Metadata, Route } from "next"
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { and, desc, eq, isNull } from "drizzle-orm"
+import { UAParser } from "ua-parser-js"
+import { getDB } from "@/db"
+import {
+  creditTransactionTable,
+  passKeyCredentialTable,
+  purchasedItemsTable,
+  userImpersonationTable,
+  userTable,
+  ROLES_ENUM,
+} from "@/db/schema"
+import { Badge } from "@/components/ui/badge"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table"
+import { getSessionFromCookie, getUserTeamsWithPermissions } from "@/utils/auth"
+import { getAllSessionsOfUser } from "@/utils/kv-session"
+import { formatDate, formatDateTime } from "@/utils/format-date"
+import { IMPERSONATION_SESSION_LENGTH_MINUTES } from "@/constants"
+import { ImpersonateUserDialog } from "../../_components/users/impersonate-user-dialog"
+import { UserManagementActions } from "../../_components/users/user-management-actions"
+
+export const metadata: Metadata = {
+  title: "User Details",
+  description: "Details of a user",
+}
+
+interface UserDetailsPageProps {
+  params: Promise<{
+    userId: string
+  }>
+}
+
+// How many entries of the credit ledger are shown
+const LEDGER_LIMIT = 50
+
+function Section({ title, description, children }: { title: string; description?: string; children: React.ReactNode }) {
+  return (
+    <div>
+      <h2 className="text-xl font-semibold">{title}</h2>
+      {description && (
+        <p className="text-sm text-muted-foreground mt-1">{description}</p>
+      )}
+      <div className="mt-4 rounded-md border">
+        {children}
+      </div>
+    </div>
+  )
+}
+
+function EmptyRow({ colSpan, children }: { colSpan: number; children: React.ReactNode }) {
+  return (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="h-16 text-center text-muted-foreground">
+        {children}
+      </TableCell>
+    </TableRow>
+  )
+}
+
+export default async function UserDetailsPage({ params }: UserDetailsPageProps) {
+  const { userId } = await params
+  const db = getDB()
+  const session = await getSessionFromCookie()
+
+  const user = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    with: {
+      passkeys: {
+        orderBy: [desc(passKeyCredentialTable.createdAt)],
+      },
+    },
+  })
+
+  if (!user) {
+    notFound()
+  }
+
+  const sessions = await getAllSessionsOfUser(user.id)
+  const teams = await getUserTeamsWithPermissions(user.id)
+  const transactions = await db.query.creditTransactionTable.findMany({
+    where: and(
+      eq(creditTransactionTable.userId, user.id),
+      isNull(creditTransactionTable.teamId),
+    ),
+    orderBy: [desc(creditTransactionTable.createdAt)],
+    limit: LEDGER_LIMIT,
+  })
+  // Purchases made by the user, including the ones made for their teams
+  const purchases = await db.query.purchasedItemsTable.findMany({
+    where: eq(purchasedItemsTable.userId, user.id),
+    orderBy: [desc(purchasedItemsTable.purchasedAt)],
+    with: {
+      team: { columns: { name: true } },
+      price: { columns: { credits: true } },
+      bundle: { columns: { name: true } },
+    },
+  })
+  const items = await db.query.marketplaceItemTable.findMany({
+    columns: { type: true, slug: true, name: true },
+  })
+  const itemNames = new Map(items.map((item) => [`${item.type}:${item.slug}`, item.name]))
+  const impersonations = await db.query.userImpersonationTable.findMany({
+    where: eq(userImpersonationTable.userId, user.id),
+    orderBy: [desc(userImpersonationTable.createdAt)],
+    with: {
+      admin: { columns: { email: true } },
+    },
+  })
+
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ")
+  const isAdmin = user.role === ROLES_ENUM.ADMIN
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          { href: "/admin", label: "Admin" },
+          { href: `/admin/users/${user.id}`, label: user.email ?? user.id },
+        ]}
+      />
+      <div className="container mx-auto py-10 px-6 space-y-10">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+          <div>
+            <h1 className="text-3xl font-bold">{name || user.email}</h1>
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              {name && <span>{user.email}</span>}
+              <Badge variant={isAdmin ? "default" : "secondary"}>{user.role}</Badge>
+              <Badge variant={user.emailVerified ? "default" : "destructive"}>
+                {user.emailVerified ? "verified" : "unverified"}
+              </Badge>
+              {user.bannedAt && <Badge variant="destructive">banned</Badge>}
+            </div>
+          </div>
+          <ImpersonateUserDialog
+            userId={user.id}
+            email={user.email}
+            disabled={isAdmin || user.id === session?.userId}
+          />
+        </div>
+
+        <dl className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {[
+            { label: "User ID", value: <span className="font-mono text-xs">{user.id}</span> },
+            { label: "Signed up", value: formatDateTime(user.createdAt) },
+            { label: "Sign up IP", value: user.signUpIpAddress ?? "Unknown" },
+            { label: "Credits", value: user.currentCredits.toLocaleString() },
+            { label: "Plan", value: user.planId ?? "None" },
+            { label: "Email verified", value: user.emailVerified ? formatDateTime(user.emailVerified) : "No" },
+            { label: "Stripe customer", value: <span className="font-mono text-xs">{user.stripeCustomerId ?? "None"}</span> },
+          ].map(({ label, value }) => (
+            <div key={label} className="rounded-md border p-4">
+              <dt className="text-sm text-muted-foreground">{label}</dt>
+              <dd className="mt-1 font-medium break-all">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {user.bannedAt && (
+          <div className="rounded-md border border-destructive p-4 text-sm">
+            <p className="font-medium text-destructive">Banned on {formatDateTime(user.bannedAt)}</p>
+            {user.banReason && <p className="mt-1 text-muted-foreground">{user.banReason}</p>}
+          </div>
+        )}
+
+        <Section title="Manage user" description="Every action asks for a confirmation first.">
+          <div className="p-4">
+            <UserManagementActions
+              user={{
+                id: user.id,
+                email: user.email,
+                isAdmin,
+                isBanned: !!user.bannedAt,
+                isEmailVerified: !!user.emailVerified,
+                credits: user.currentCredits,
+              }}
+              isCurrentUser={user.id === session?.userId}
+            />
+          </div>
+        </Section>
+
+        <Section title="Sign-in methods">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Method</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead className="text-right">Added</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell>Password</TableCell>
+                <TableCell>{user.passwordHash ? "Set" : "Not set"}</TableCell>
+                <TableCell className="text-right">-</TableCell>
+              </TableRow>
+              <TableRow>
+                <TableCell>Google</TableCell>
+                <TableCell>{user.googleAccountId ? "Connected" : "Not connected"}</TableCell>
+                <TableCell className="text-right">-</TableCell>
+              </TableRow>
+              {user.passkeys.map((passkey) => {
+                const { browser, os } = new UAParser(passkey.userAgent ?? "").getResult()
+
+                return (
+                  <TableRow key={passkey.id}>
+                    <TableCell>Passkey</TableCell>
+                    <TableCell>
+                      {[browser.name, os.name].filter(Boolean).join(" on ") || "Unknown device"}
+                      {passkey.ipAddress && <span className="text-muted-foreground"> ({passkey.ipAddress})</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatDate(passkey.createdAt)}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </Section>
+
+        <Section title="Active sessions">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>Location</TableHead>
+                <TableHead>Sign-in method</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Expires</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.length === 0 ? (
+                <EmptyRow colSpan={5}>No active sessions.</EmptyRow>
+              ) : sessions.map((kvSession) => {
+                const { browser, os } = new UAParser(kvSession.userAgent ?? "").getResult()
+
+                return (
+                  <TableRow key={kvSession.id}>
+                    <TableCell>
+                      {[browser.name, os.name].filter(Boolean).join(" on ") || "Unknown device"}
+                      {kvSession.impersonation && (
+                        <Badge variant="outline" className="ml-2">
+                          impersonated by {kvSession.impersonation.adminEmail ?? kvSession.impersonation.adminUserId}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {[kvSession.city, kvSession.country].filter(Boolean).join(", ") || "Unknown"}
+                      {kvSession.ip && <div className="text-xs text-muted-foreground">{kvSession.ip}</div>}
+                    </TableCell>
+                    <TableCell>{kvSession.authenticationType ?? "-"}</TableCell>
+                    <TableCell>{formatDateTime(kvSession.createdAt)}</TableCell>
+                    <TableCell className="text-right">{formatDateTime(kvSession.expiresAt)}</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </Section>
+
+        <Section title="Teams">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Team</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead className="text-right">Permissions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {teams.length === 0 ? (
+                <EmptyRow colSpan={3}>Not a member of any team.</EmptyRow>
+              ) : teams.map((team) => (
+                <TableRow key={team.id}>
+                  <TableCell>
+                    <Link href={`/admin/teams/${team.id}` as Route} className="font-medium hover:underline">
+                      {team.name}
+                    </Link>
+                    <div className="font-mono text-xs text-muted-foreground">{team.slug}</div>
+                  </TableCell>
+                  <TableCell className="capitalize">{team.role.name}</TableCell>
+                  <TableCell className="text-right">{team.permissions.length}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Section>
+
+        <Section
+          title="Credit ledger"
+          description={`The latest ${LEDGER_LIMIT} transactions of the user's own wallet.`}
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transactions.length === 0 ? (
+                <EmptyRow colSpan={5}>No transactions yet.</EmptyRow>
+              ) : transactions.map((transaction) => (
+                <TableRow key={transaction.id}>
+                  <TableCell>{formatDateTime(transaction.createdAt)}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{transaction.type.toLowerCase().replace(/_/g, " ")}</Badge>
+                  </TableCell>
+                  <TableCell>{transaction.description}</TableCell>
+                  <TableCell className={`text-right ${transaction.amount < 0 ? "text-red-500" : "text-green-500"}`}>
+                    {transaction.amount > 0 ? "+" : ""}{transaction.amount.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right">{transaction.remainingAmount.toLocaleString()}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Section>
+
+        <Section title="Purchases">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead>Owner</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Downloads</TableHead>
+                <TableHead className="text-right">Purchased</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {purchases.length === 0 ? (
+                <EmptyRow colSpan={5}>No purchases yet.</EmptyRow>
+              ) : purchases.map((purchase) => (
+                <TableRow key={purchase.id}>
+                  <TableCell>
+                    <div className="font-medium">{itemNames.get(`${purchase.itemType}:${purchase.itemId}`) ?? purchase.itemId}</div>
+                    <div className="text-xs text-muted-foreground capitalize">
+                      {purchase.itemType.toLowerCase()}
+                      {purchase.bundle && ` in bundle ${purchase.bundle.name}`}
+                    </div>
+                  </TableCell>
+                  <TableCell>{purchase.team?.name ?? "Personal"}</TableCell>
+                  <TableCell>{purchase.price ? `${purchase.price.credits.toLocaleString()} credits` : "-"}</TableCell>
+                  <TableCell>{purchase.downloadCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatDate(purchase.purchasedAt)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Section>
+
+        <Section
+          title="Impersonation history"
+          description="Every time an admin signed in as this user."
+        >
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Admin</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>IP</TableHead>
+                <TableHead>Started</TableHead>
+                <TableHead className="text-right">Ended</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {impersonations.length === 0 ? (
+                <EmptyRow colSpan={5}>This user was never impersonated.</EmptyRow>
+              ) : impersonations.map((impersonation) => (
+                <TableRow key={impersonation.id}>
+                  <TableCell>{impersonation.admin ? impersonation.admin.email ?? impersonation.adminUserId : "Deleted admin"}</TableCell>
+                  <TableCell className="max-w-xs">{impersonation.reason}</TableCell>
+                  <TableCell>{impersonation.ipAddress ?? "Unknown"}</TableCell>
+                  <TableCell>{formatDateTime(impersonation.createdAt)}</TableCell>
+                  <TableCell className="text-right">
+                    {impersonation.endedAt
+                      ? formatDateTime(impersonation.endedAt)
+                      : impersonation.createdAt.getTime() + IMPERSONATION_SESSION_LENGTH_MINUTES * 60 * 1000 < Date.now()
+                        ? "Session expired"
+                        : "Active"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Section>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,80 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CREDITS_EXPIRATION_WARNING_DAYS } from "@/constants";
+import type { CreditTransaction } from "@/db/schema";
+import { formatDate } from "@/utils/format-date";
+import { differenceInCalendarDays } from "date-fns";
+
+interface CreditExpirationsProps {
+  expirations: Pick<CreditTransaction, "id" | "type" | "description" | "amount" | "remainingAmount" | "expirationDate" | "createdAt">[];
+}
+
+export function CreditExpirations({ expirations }: CreditExpirationsProps) {
+  const now = new Date();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upcoming expirations</CardTitle>
+        <CardDescription>
+          Credits are used in the order they expire. Remaining credits are removed on their expiration date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {expirations.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No credits are set to expire.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Credits</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead className="text-right">Expires</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {expirations.map((bucket) => {
+                const daysLeft = differenceInCalendarDays(bucket.expirationDate!, now);
+
+                return (
+                  <TableRow key={bucket.id}>
+                    <TableCell className="font-medium">
+                      {bucket.remainingAmount.toLocaleString()}
+                      {bucket.remainingAmount !== bucket.amount && (
+                        <span className="text-muted-foreground font-normal"> of {bucket.amount.toLocaleString()}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div>{bucket.description}</div>
+                      <div className="text-xs text-muted-foreground capitalize">
+                        {bucket.type.toLowerCase().replaceAll("_", " ")}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatDate(bucket.createdAt)}</TableCell>
+                    <TableCell className="text-right">
+                      <div>{formatDate(bucket.expirationDate!)}</div>
+                      {daysLeft <= CREDITS_EXPIRATION_WARNING_DAYS && (
+                        <Badge variant="destructive" className="mt-1">
+                          {daysLeft <= 0 ? "Today" : `In ${daysLeft} day${daysLeft === 1 ? "" : "s"}`}
+                        </Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
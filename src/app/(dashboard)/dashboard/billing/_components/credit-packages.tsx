@@ -3,10 +3,10 @@
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { CREDIT_PACKAGES, FREE_MONTHLY_CREDITS } from "@/constants";
+import { CREDIT_PACKAGES, DEFAULT_PLAN_ID } from "@/constants";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { StripePaymentForm } from "./stripe-payment-form";
-import { createPaymentIntent } from "@/actions/credits.action";
+import { createPaymentIntent, redeemPromoCode } from "@/actions/credits.action";
 import { Coins, Sparkles, Zap } from "lucide-react";
 import { useSessionStore } from "@/state/session";
 import { useTransactionStore } from "@/state/transaction";
@@ -14,9 +14,15 @@ import { Separator } from "@/components/ui/separator";
 import { useRouter } from "next/navigation";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
 type CreditPackage = typeof CREDIT_PACKAGES[number];
 
+interface PromoCodeDiscount {
+  code: string;
+  discountPercent: number;
+}
+
 export const getPackageIcon = (index: number) => {
   if (index === 2) return <Zap className="h-6 w-6 text-yellow-500" />;
   if (index === 1) return <Sparkles className="h-6 w-6 text-blue-500" />;
@@ -32,25 +38,46 @@ const calculateSavings = (pkg: CreditPackage) => {
   return Math.round(savings);
 };
 
-export function CreditPackages() {
+interface CreditPackagesProps {
+  plan: {
+    id: string;
+    name: string;
+    monthlyCredits: number;
+  };
+  // Buys the credits for the team instead of the user
+  team?: {
+    id: string;
+    creditBalance: number;
+  };
+}
+
+export function CreditPackages({ plan, team }: CreditPackagesProps) {
   const router = useRouter();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedPackage, setSelectedPackage] = useState<CreditPackage | null>(null);
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [chargedAmount, setChargedAmount] = useState<number | null>(null);
+  const [promoCode, setPromoCode] = useState("");
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [discount, setDiscount] = useState<PromoCodeDiscount | null>(null);
   const session = useSessionStore((state) => state);
   const transactionsRefresh = useTransactionStore((state) => state.triggerRefresh);
   const sessionIsLoading = session?.isLoading;
 
   const handlePurchase = async (pkg: CreditPackage) => {
     try {
-      const { clientSecret } = await createPaymentIntent({
+      const { clientSecret, amount } = await createPaymentIntent({
         packageId: pkg.id,
+        teamId: team?.id,
+        promoCode: discount?.code,
       });
       setClientSecret(clientSecret);
+      setChargedAmount(amount);
       setSelectedPackage(pkg);
       setIsDialogOpen(true);
     } catch (error) {
       console.error("Error creating payment intent:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to start the payment");
     }
   };
 
@@ -58,10 +85,41 @@ export function CreditPackages() {
     setIsDialogOpen(false);
     setSelectedPackage(null);
     setClientSecret(null);
+    setDiscount(null);
     router.refresh();
     transactionsRefresh();
   };
 
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsRedeeming(true);
+
+    try {
+      const result = await redeemPromoCode({ code: promoCode, teamId: team?.id });
+
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      setPromoCode("");
+
+      if (result.type === "DISCOUNT") {
+        setDiscount({ code: result.code, discountPercent: result.discountPercent });
+        toast.success(`${result.discountPercent}% off applied to your next purchase`);
+      } else {
+        toast.success(`${result.credits.toLocaleString()} credits added`);
+        router.refresh();
+        transactionsRefresh();
+      }
+    } catch (error) {
+      console.error("Error redeeming promo code:", error);
+      toast.error("Failed to redeem the promo code");
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
   return (
     <>
       <Card>
@@ -71,7 +129,11 @@ export function CreditPackages() {
         <CardContent className="space-y-8">
           <div className="space-y-2">
             <div className="flex items-baseline gap-2">
-              {sessionIsLoading ? (
+              {team ? (
+                <div className="text-3xl font-bold">
+                  {team.creditBalance.toLocaleString()} credits
+                </div>
+              ) : sessionIsLoading ? (
                 <>
                   <Skeleton className="h-9 w-16" />
                   <Skeleton className="h-9 w-24" />
@@ -83,7 +145,11 @@ export function CreditPackages() {
               )}
             </div>
             <div className="text-sm text-muted-foreground">
-              You get {FREE_MONTHLY_CREDITS} free credits every month.
+              {team
+                ? plan.id === DEFAULT_PLAN_ID
+                  ? "Team credits are shared by all members. Subscribe to a paid plan to get monthly credits for your team."
+                  : `Team credits are shared by all members. Your team gets ${plan.monthlyCredits} credits every month on the ${plan.name} plan.`
+                : `You get ${plan.monthlyCredits} credits every month on the ${plan.name} plan.`}
             </div>
           </div>
 
@@ -91,7 +157,9 @@ export function CreditPackages() {
 
           <div className="space-y-4">
             <div>
-              <h2 className="text-xl sm:text-2xl font-semibold">Top up your credits</h2>
+              <h2 className="text-xl sm:text-2xl font-semibold">
+                {team ? "Top up your team's credits" : "Top up your credits"}
+              </h2>
               <p className="text-sm text-muted-foreground mt-2 sm:mt-3">
                 Purchase additional credits to use our services. The more credits you buy, the better the value.
               </p>
@@ -115,7 +183,12 @@ export function CreditPackages() {
                       </div>
                       <div className="flex flex-col items-end">
                         <div className="text-xl sm:text-2xl font-bold text-primary">
-                          ${pkg.price}
+                          {discount && (
+                            <span className="mr-2 text-base font-normal text-muted-foreground line-through">
+                              ${pkg.price}
+                            </span>
+                          )}
+                          ${discount ? (pkg.price * (100 - discount.discountPercent) / 100).toFixed(2) : pkg.price}
                         </div>
                         <div className="text-xs sm:text-sm text-muted-foreground">
                           one-time payment
@@ -146,6 +219,27 @@ export function CreditPackages() {
                 </Card>
               ))}
             </div>
+
+            <form onSubmit={handleRedeem} className="flex flex-col gap-2 sm:flex-row sm:items-center">
+              <Input
+                placeholder="Promo code"
+                value={promoCode}
+                onChange={(e) => setPromoCode(e.target.value)}
+                className="sm:max-w-xs"
+              />
+              <Button type="submit" variant="outline" disabled={isRedeeming || !promoCode.trim()}>
+                {isRedeeming ? "Applying..." : "Apply"}
+              </Button>
+              {discount && (
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Badge variant="secondary">{discount.code}</Badge>
+                  {discount.discountPercent}% off
+                  <Button type="button" variant="link" size="sm" className="px-0" onClick={() => setDiscount(null)}>
+                    Remove
+                  </Button>
+                </div>
+              )}
+            </form>
           </div>
         </CardContent>
       </Card>
@@ -162,7 +256,8 @@ export function CreditPackages() {
               onSuccess={handleSuccess}
               onCancel={() => setIsDialogOpen(false)}
               credits={selectedPackage.credits}
-              price={selectedPackage.price}
+              price={chargedAmount !== null ? chargedAmount / 100 : selectedPackage.price}
+              teamId={team?.id}
             />
           )}
         </DialogContent>
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { transferCredits } from "@/actions/credits.action";
+import { useTransactionStore } from "@/state/transaction";
+import { toast } from "sonner";
+
+const TEAMMATE_RECIPIENT = "teammate";
+
+interface CreditTransferProps {
+  // Teams of the user that can receive the credits
+  teams: {
+    id: string;
+    name: string;
+  }[];
+  // Sends the team's credits instead of the user's
+  teamId?: string;
+}
+
+export function CreditTransfer({ teams, teamId }: CreditTransferProps) {
+  const router = useRouter();
+  const transactionsRefresh = useTransactionStore((state) => state.triggerRefresh);
+  const [recipient, setRecipient] = useState(TEAMMATE_RECIPIENT);
+  const [email, setEmail] = useState("");
+  const [amount, setAmount] = useState("");
+  const [note, setNote] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSending(true);
+
+    try {
+      const result = await transferCredits({
+        amount: Number(amount),
+        recipientEmail: recipient === TEAMMATE_RECIPIENT ? email : undefined,
+        recipientTeamId: recipient === TEAMMATE_RECIPIENT ? undefined : recipient,
+        note,
+        teamId,
+      });
+
+      if (!result.success) {
+        toast.error(result.error);
+        return;
+      }
+
+      toast.success(`${Number(amount).toLocaleString()} credits sent`);
+      setEmail("");
+      setAmount("");
+      setNote("");
+      router.refresh();
+      transactionsRefresh();
+    } catch (error) {
+      console.error("Error transferring credits:", error);
+      toast.error("Failed to transfer the credits");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Transfer credits</CardTitle>
+        <CardDescription>
+          {teamId
+            ? "Send your team's credits to a team member or to another of your teams."
+            : "Send your credits to a teammate or to one of your teams."}
+          {" "}Transferred credits keep their expiration date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleTransfer} className="grid gap-4 sm:grid-cols-2 sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="transfer-recipient">Send to</Label>
+            <Select value={recipient} onValueChange={setRecipient}>
+              <SelectTrigger id="transfer-recipient">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={TEAMMATE_RECIPIENT}>
+                  {teamId ? "A team member" : "A teammate"}
+                </SelectItem>
+                {teams.map((team) => (
+                  <SelectItem key={team.id} value={team.id}>
+                    Team {team.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {recipient === TEAMMATE_RECIPIENT && (
+            <div className="space-y-2">
+              <Label htmlFor="transfer-email">Email</Label>
+              <Input
+                id="transfer-email"
+                type="email"
+                placeholder="colleague@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="transfer-amount">Credits</Label>
+            <Input
+              id="transfer-amount"
+              type="number"
+              min={1}
+              step={1}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="transfer-note">Note</Label>
+            <Input
+              id="transfer-note"
+              placeholder="Optional"
+              maxLength={255}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <div className="sm:col-span-2">
+            <Button type="submit" disabled={isSending || !amount}>
+              {isSending ? "Sending..." : "Send credits"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { CREDIT_PACKAGES } from "@/constants";
+import { updateLowBalanceSettings } from "@/actions/credits.action";
+import { toast } from "sonner";
+
+const NO_AUTO_TOP_UP = "none";
+
+interface LowBalanceSettingsProps {
+  lowBalanceThreshold: number | null;
+  autoTopUpPackageId: string | null;
+  // Whether a card was saved by a previous purchase
+  hasSavedPaymentMethod: boolean;
+  // Changes the settings of the team's credits instead of the user's
+  teamId?: string;
+}
+
+export function LowBalanceSettings({
+  lowBalanceThreshold,
+  autoTopUpPackageId,
+  hasSavedPaymentMethod,
+  teamId,
+}: LowBalanceSettingsProps) {
+  const router = useRouter();
+  const [threshold, setThreshold] = useState(lowBalanceThreshold?.toString() ?? "");
+  const [packageId, setPackageId] = useState(autoTopUpPackageId ?? NO_AUTO_TOP_UP);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+
+    try {
+      await updateLowBalanceSettings({
+        lowBalanceThreshold: threshold ? Number(threshold) : null,
+        autoTopUpPackageId: threshold && packageId !== NO_AUTO_TOP_UP ? packageId : null,
+        teamId,
+      });
+      toast.success("Low balance settings saved");
+      router.refresh();
+    } catch (error) {
+      console.error("Error saving low balance settings:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save low balance settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Low balance alert</CardTitle>
+        <CardDescription>
+          Get an email when {teamId ? "your team's" : "your"} balance drops below a number of credits,
+          and optionally buy more credits automatically.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="grid gap-4 sm:grid-cols-2 sm:items-end">
+          <div className="space-y-2">
+            <Label htmlFor="low-balance-threshold">Alert threshold (credits)</Label>
+            <Input
+              id="low-balance-threshold"
+              type="number"
+              min={1}
+              step={1}
+              placeholder="Off"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auto-top-up-package">Auto top-up</Label>
+            <Select value={packageId} onValueChange={setPackageId} disabled={!threshold}>
+              <SelectTrigger id="auto-top-up-package">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_AUTO_TOP_UP}>Off</SelectItem>
+                {CREDIT_PACKAGES.map((pkg) => (
+                  <SelectItem key={pkg.id} value={pkg.id}>
+                    {pkg.credits.toLocaleString()} credits for ${pkg.price}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <p className="text-sm text-muted-foreground sm:col-span-2">
+            {packageId === NO_AUTO_TOP_UP || !threshold
+              ? "Leave the threshold empty to turn the alert off."
+              : hasSavedPaymentMethod
+                ? "The card of your last purchase is charged when the balance drops below the threshold."
+                : "The card of your next credit purchase will be saved and charged when the balance drops below the threshold."}
+          </p>
+          <div className="sm:col-span-2">
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
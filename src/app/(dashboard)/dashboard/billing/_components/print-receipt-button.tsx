@@ -0,0 +1,14 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+
+// The print styles in globals.css limit the printout to the receipt, so "Save as PDF" produces a clean document
+export function PrintReceiptButton() {
+  return (
+    <Button variant="outline" onClick={() => window.print()}>
+      <Printer className="h-4 w-4 mr-2" />
+      Print / Save as PDF
+    </Button>
+  );
+}
@@ -23,9 +23,10 @@ interface StripePaymentFormProps {
   onCancel: () => void;
   credits: number;
   price: number;
+  teamId?: string;
 }
 
-function PaymentForm({ packageId, clientSecret, onSuccess, onCancel, credits, price }: StripePaymentFormProps) {
+function PaymentForm({ packageId, clientSecret, onSuccess, onCancel, credits, price, teamId }: StripePaymentFormProps) {
   const stripe = useStripe();
   const elements = useElements();
   const [isProcessing, setIsProcessing] = useState(false);
@@ -54,6 +55,7 @@ function PaymentForm({ packageId, clientSecret, onSuccess, onCancel, credits, pr
           const { success } = await confirmPayment({
             packageId,
             paymentIntentId: paymentIntent.paymentIntent.id,
+            teamId,
           });
 
           if (success) {
@@ -101,7 +103,7 @@ function PaymentForm({ packageId, clientSecret, onSuccess, onCancel, credits, pr
                 For your security, your payment details are handled directly by Stripe and never touch our servers.
               </p>
               <p>
-                Credits will be added to your account immediately after successful payment and will be valid for {CREDITS_EXPIRATION_YEARS} years from the purchase date.
+                Credits will be added to {teamId ? "your team's" : "your"} account immediately after successful payment and will be valid for {CREDITS_EXPIRATION_YEARS} years from the purchase date.
               </p>
             </div>
           </div>
@@ -0,0 +1,109 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DEFAULT_PLAN_ID, PLANS } from "@/constants";
+import { createBillingPortalSession, createCheckoutSession } from "@/actions/subscription.action";
+import { format } from "date-fns";
+import { toast } from "sonner";
+
+interface SubscriptionPlansProps {
+  currentPlanId: string;
+  planExpiresAt: Date | null;
+  // Whether there is a Stripe customer whose subscription can be managed in the portal
+  hasBillingAccount: boolean;
+  // Manages the team's subscription instead of the user's
+  teamId?: string;
+}
+
+export function SubscriptionPlans({ currentPlanId, planExpiresAt, hasBillingAccount, teamId }: SubscriptionPlansProps) {
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const isSubscribed = currentPlanId !== DEFAULT_PLAN_ID;
+
+  const redirectTo = async (action: string, createSession: () => Promise<{ url: string | null }>) => {
+    setPendingAction(action);
+
+    try {
+      const { url } = await createSession();
+
+      if (!url) {
+        throw new Error("No redirect URL");
+      }
+
+      window.location.href = url;
+    } catch (error) {
+      console.error("Error creating billing session:", error);
+      toast.error("Something went wrong with our payment provider. Please try again later.");
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Plan</CardTitle>
+          {hasBillingAccount && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={pendingAction !== null}
+              onClick={() => redirectTo("portal", () => createBillingPortalSession({ teamId }))}
+            >
+              {pendingAction === "portal" ? "Redirecting..." : "Manage subscription"}
+            </Button>
+          )}
+        </div>
+        {isSubscribed && planExpiresAt && (
+          <p className="text-sm text-muted-foreground">
+            Your current billing period ends on {format(new Date(planExpiresAt), "MMM d, yyyy")}.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-4 xl:grid-cols-3">
+          {PLANS.map((plan) => (
+            <Card key={plan.id} className="relative overflow-hidden bg-muted dark:bg-background">
+              <CardContent className="flex flex-col h-full pt-4 gap-4">
+                <div className="flex items-center justify-between">
+                  <div className="text-xl sm:text-2xl font-bold">{plan.name}</div>
+                  {plan.id === currentPlanId && (
+                    <Badge variant="secondary">Current plan</Badge>
+                  )}
+                </div>
+                <div>
+                  <span className="text-xl sm:text-2xl font-bold text-primary">${plan.price}</span>
+                  <span className="text-xs sm:text-sm text-muted-foreground"> / month</span>
+                </div>
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  <li>
+                    {teamId && plan.id === DEFAULT_PLAN_ID
+                      ? "No monthly credits"
+                      : `${plan.monthlyCredits.toLocaleString()} credits every month`}
+                  </li>
+                  {!teamId && <li>Up to {plan.limits.maxTeamsCreated} teams</li>}
+                  <li>Up to {plan.limits.maxTeamMembers} members per team</li>
+                </ul>
+                <div className="flex-grow" />
+                {plan.price > 0 && plan.id !== currentPlanId && (
+                  <Button
+                    className="w-full text-sm sm:text-base"
+                    disabled={pendingAction !== null}
+                    onClick={() => isSubscribed
+                      // Switching between paid plans updates the existing subscription
+                      ? redirectTo(plan.id, () => createBillingPortalSession({ teamId }))
+                      : redirectTo(plan.id, () => createCheckoutSession({ planId: plan.id, teamId }))}
+                  >
+                    {pendingAction === plan.id ? "Redirecting..." : isSubscribed ? "Switch plan" : "Subscribe"}
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,14 +17,57 @@ import { ChevronLeft, ChevronRight } from "lucide-react";
 import { format, isPast } from "date-fns";
 import { Badge } from "@/components/ui/badge";
 import { useTransactionStore } from "@/state/transaction";
+import type { CREDIT_TRANSACTION_TYPE } from "@/db/schema";
+import Link from "next/link";
+import type { Route } from "next";
 
 type TransactionData = Awaited<ReturnType<typeof getTransactions>>
 
+const PURCHASE_TYPE = 'PURCHASE' as const satisfies keyof typeof CREDIT_TRANSACTION_TYPE;
+
+function isDebit(transaction: TransactionData["transactions"][number]): boolean {
+  return transaction.amount < 0;
+}
+
+function hasReceipt(transaction: TransactionData["transactions"][number]): boolean {
+  return transaction.type === PURCHASE_TYPE && Boolean(transaction.paymentIntentId);
+}
+
+function ReceiptLink({ transactionId }: { transactionId: string }) {
+  return (
+    <Link
+      href={`/dashboard/billing/receipts/${transactionId}` as Route}
+      className="text-sm underline underline-offset-4 text-muted-foreground hover:text-foreground"
+    >
+      Receipt
+    </Link>
+  );
+}
+
+// What a usage transaction paid for when it covered several items, like a marketplace bundle
+function LineItems({ lineItems }: { lineItems: NonNullable<TransactionData["transactions"][number]["lineItems"]> }) {
+  return (
+    <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+      {lineItems.map((lineItem, index) => (
+        <li key={index} className="flex justify-between gap-4">
+          <span className="capitalize">{lineItem.description}</span>
+          <span>{lineItem.amount}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 function isTransactionExpired(transaction: TransactionData["transactions"][number]): boolean {
   return transaction.expirationDate ? isPast(new Date(transaction.expirationDate)) : false;
 }
 
-export function TransactionHistory() {
+interface TransactionHistoryProps {
+  // Shows the transactions of the team's wallet instead of the user's
+  teamId?: string;
+}
+
+export function TransactionHistory({ teamId }: TransactionHistoryProps = {}) {
   const [data, setData] = useState<TransactionData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [page, setPage] = useState(1);
@@ -34,7 +77,7 @@ export function TransactionHistory() {
     const fetchTransactions = async () => {
       setIsLoading(true);
       try {
-        const result = await getTransactions({ page });
+        const result = await getTransactions({ page, teamId });
         setData(result);
       } catch (error) {
         console.error("Failed to fetch transactions:", error);
@@ -44,7 +87,7 @@ export function TransactionHistory() {
     };
 
     fetchTransactions();
-  }, [page, refreshTrigger]);
+  }, [page, refreshTrigger, teamId]);
 
   if (isLoading) {
     return (
@@ -90,23 +133,23 @@ export function TransactionHistory() {
                       {format(new Date(transaction.createdAt), "MMM d, yyyy")}
                     </TableCell>
                     <TableCell className="capitalize">
-                      {transaction.type.toLowerCase().replace("_", " ")}
+                      {transaction.type.toLowerCase().replaceAll("_", " ")}
                     </TableCell>
                     <TableCell
                       className={
-                        transaction.type === "USAGE"
+                        isDebit(transaction)
                           ? "text-red-500"
                           : isTransactionExpired(transaction)
                             ? "text-orange-500"
                             : "text-green-500"
                       }
                     >
-                      {transaction.type === "USAGE" ? "-" : "+"}
+                      {isDebit(transaction) ? "-" : "+"}
                       {Math.abs(transaction.amount)}
                     </TableCell>
                     <TableCell>
                       {transaction.description}
-                      {transaction.type !== "USAGE" && transaction.expirationDate && (
+                      {!isDebit(transaction) && transaction.expirationDate && (
                         <Badge
                           variant="secondary"
                           className={`mt-1 ml-3 font-normal text-[0.75rem] leading-[1rem] ${isTransactionExpired(transaction)
@@ -118,6 +161,14 @@ export function TransactionHistory() {
                           {format(new Date(transaction.expirationDate), "MMM d, yyyy")}
                         </Badge>
                       )}
+                      {hasReceipt(transaction) && (
+                        <span className="ml-3">
+                          <ReceiptLink transactionId={transaction.id} />
+                        </span>
+                      )}
+                      {Boolean(transaction.lineItems?.length) && (
+                        <LineItems lineItems={transaction.lineItems!} />
+                      )}
                     </TableCell>
                   </TableRow>
                 )) : (
@@ -142,7 +193,7 @@ export function TransactionHistory() {
                   {format(new Date(transaction.createdAt), "MMM d, yyyy")}
                 </span>
                 <span className="capitalize text-sm">
-                  {transaction.type.toLowerCase().replace("_", " ")}
+                  {transaction.type.toLowerCase().replaceAll("_", " ")}
                 </span>
               </div>
               <div className="flex items-center justify-between">
@@ -151,18 +202,18 @@ export function TransactionHistory() {
                 </span>
                 <span
                   className={
-                    transaction.type === "USAGE"
+                    isDebit(transaction)
                       ? "text-red-500"
                       : isTransactionExpired(transaction)
                         ? "text-orange-500"
                         : "text-green-500"
                   }
                 >
-                  {transaction.type === "USAGE" ? "-" : "+"}
+                  {isDebit(transaction) ? "-" : "+"}
                   {Math.abs(transaction.amount)}
                 </span>
               </div>
-              {transaction.type !== "USAGE" && transaction.expirationDate && (
+              {!isDebit(transaction) && transaction.expirationDate && (
                 <Badge
                   variant="secondary"
                   className={`self-start font-normal text-[0.75rem] leading-[1rem] ${isTransactionExpired(transaction)
@@ -174,6 +225,12 @@ export function TransactionHistory() {
                   {format(new Date(transaction.expirationDate), "MMM d, yyyy")}
                 </Badge>
               )}
+              {hasReceipt(transaction) && (
+                <ReceiptLink transactionId={transaction.id} />
+              )}
+              {Boolean(transaction.lineItems?.length) && (
+                <LineItems lineItems={transaction.lineItems!} />
+              )}
             </div>
           )) : (
             <div className="text-center py-8 text-muted-foreground">
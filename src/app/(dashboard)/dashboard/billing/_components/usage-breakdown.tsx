@@ -0,0 +1,102 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { USAGE_METERS } from "@/constants";
+import type { UsageDaily } from "@/db/schema";
+import { format } from "date-fns";
+
+interface UsageBreakdownProps {
+  usage: Pick<UsageDaily, "day" | "meterId" | "units" | "credits">[];
+  days: number;
+}
+
+const METER_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+];
+
+function getLastDays(days: number) {
+  const today = new Date();
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1 - index)));
+    return date.toISOString().slice(0, 10);
+  });
+}
+
+export function UsageBreakdown({ usage, days }: UsageBreakdownProps) {
+  const meters = USAGE_METERS.map((meter, index) => ({
+    ...meter,
+    color: METER_COLORS[index % METER_COLORS.length],
+    units: usage.filter((row) => row.meterId === meter.id).reduce((sum, row) => sum + row.units, 0),
+    credits: usage.filter((row) => row.meterId === meter.id).reduce((sum, row) => sum + row.credits, 0),
+  }));
+
+  const dailyUsage = getLastDays(days).map((day) => {
+    const rows = usage.filter((row) => row.day === day);
+
+    return {
+      day,
+      credits: rows.reduce((sum, row) => sum + row.credits, 0),
+      meters: meters
+        .map((meter) => ({
+          ...meter,
+          credits: rows.filter((row) => row.meterId === meter.id).reduce((sum, row) => sum + row.credits, 0),
+        }))
+        .filter((meter) => meter.credits > 0),
+    };
+  });
+
+  const maxDailyCredits = Math.max(...dailyUsage.map(({ credits }) => credits), 1);
+  const totalCredits = meters.reduce((sum, meter) => sum + meter.credits, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Usage</CardTitle>
+        <CardDescription>
+          {totalCredits.toLocaleString()} credits used in the last {days} days
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {totalCredits === 0 ? (
+          <p className="text-sm text-muted-foreground">No usage in this period.</p>
+        ) : (
+          <div className="flex h-40 items-end gap-1">
+            {dailyUsage.map(({ day, credits, meters: dayMeters }) => (
+              <div
+                key={day}
+                className="flex h-full flex-1 flex-col-reverse overflow-hidden rounded-sm bg-muted"
+                title={`${format(new Date(`${day}T00:00:00Z`), "MMM d")}: ${credits.toLocaleString()} credits`}
+              >
+                {dayMeters.map((meter) => (
+                  <div
+                    key={meter.id}
+                    style={{
+                      height: `${(meter.credits / maxDailyCredits) * 100}%`,
+                      backgroundColor: meter.color,
+                    }}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="grid gap-2 sm:grid-cols-3">
+          {meters.map((meter) => (
+            <div key={meter.id} className="flex items-start gap-2 text-sm">
+              <span className="mt-1 h-3 w-3 shrink-0 rounded-sm" style={{ backgroundColor: meter.color }} />
+              <div>
+                <div className="font-medium">{meter.name}</div>
+                <div className="text-muted-foreground">
+                  {meter.units.toLocaleString()} {meter.unit}{meter.units === 1 ? "" : "s"} · {meter.credits.toLocaleString()} credits
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
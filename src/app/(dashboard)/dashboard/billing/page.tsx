@@ -3,6 +3,18 @@ import { redirect } from "next/navigation";
 import { PageHeader } from "@/components/page-header";
 import { TransactionHistory } from "./_components/transaction-history";
 import { CreditPackages } from "./_components/credit-packages";
+import { SubscriptionPlans } from "./_components/subscription-plans";
+import { UsageBreakdown } from "./_components/usage-breakdown";
+import { LowBalanceSettings } from "./_components/low-balance-settings";
+import { CreditExpirations } from "./_components/credit-expirations";
+import { CreditTransfer } from "./_components/credit-transfer";
+import { getDB } from "@/db";
+import { userTable } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { getActivePlan } from "@/utils/plans";
+import { getDailyUsage } from "@/utils/metering";
+import { getUpcomingCreditExpirations } from "@/utils/credits";
+import { USAGE_BREAKDOWN_DAYS } from "@/constants";
 
 export default async function BillingPage() {
   const session = await getSessionFromCookie();
@@ -11,6 +23,25 @@ export default async function BillingPage() {
     redirect("/auth/login");
   }
 
+  const user = await getDB().query.userTable.findFirst({
+    where: eq(userTable.id, session.userId),
+    columns: {
+      planId: true,
+      planExpiresAt: true,
+      stripeCustomerId: true,
+      lowBalanceThreshold: true,
+      autoTopUpPackageId: true,
+      stripePaymentMethodId: true,
+    },
+  });
+
+  const usage = await getDailyUsage({ walletId: session.userId, days: USAGE_BREAKDOWN_DAYS });
+  const expirations = await getUpcomingCreditExpirations({ userId: session.userId });
+  const plan = getActivePlan({
+    planId: user?.planId ?? null,
+    planExpiresAt: user?.planExpiresAt ?? null,
+  });
+
   return (
     <>
       <PageHeader
@@ -26,7 +57,20 @@ export default async function BillingPage() {
         ]}
       />
       <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
-        <CreditPackages />
+        <SubscriptionPlans
+          currentPlanId={plan.id}
+          planExpiresAt={user?.planExpiresAt ?? null}
+          hasBillingAccount={Boolean(user?.stripeCustomerId)}
+        />
+        <CreditPackages plan={plan} />
+        <LowBalanceSettings
+          lowBalanceThreshold={user?.lowBalanceThreshold ?? null}
+          autoTopUpPackageId={user?.autoTopUpPackageId ?? null}
+          hasSavedPaymentMethod={Boolean(user?.stripePaymentMethodId)}
+        />
+        <CreditTransfer teams={session.teams?.map(({ id, name }) => ({ id, name })) ?? []} />
+        <UsageBreakdown usage={usage} days={USAGE_BREAKDOWN_DAYS} />
+        <CreditExpirations expirations={expirations} />
         <div className="mt-4">
           <TransactionHistory />
         </div>
@@ -0,0 +1,157 @@
+import { getDB } from "@/db";
+import { creditTransactionTable, TEAM_PERMISSIONS } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { notFound, redirect } from "next/navigation";
+import { getSessionFromCookie } from "@/utils/auth";
+import { hasTeamPermission } from "@/utils/team-auth";
+import { formatReceiptAmount, getCreditPurchaseReceipt } from "@/utils/receipts";
+import { formatDate } from "@/utils/format-date";
+import { PageHeader } from "@/components/page-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PrintReceiptButton } from "../../_components/print-receipt-button";
+
+interface ReceiptPageProps {
+  params: Promise<{
+    transactionId: string;
+  }>;
+}
+
+export const metadata = {
+  title: "Receipt",
+};
+
+export default async function ReceiptPage({ params }: ReceiptPageProps) {
+  const { transactionId } = await params;
+  const session = await getSessionFromCookie();
+
+  if (!session) {
+    redirect("/auth/login");
+  }
+
+  const transaction = await getDB().query.creditTransactionTable.findFirst({
+    where: eq(creditTransactionTable.id, transactionId),
+    columns: {
+      userId: true,
+      teamId: true,
+    },
+  });
+
+  // Receipts of team purchases are available to every member who manages the team's billing
+  const canViewReceipt = transaction?.teamId
+    ? await hasTeamPermission(transaction.teamId, TEAM_PERMISSIONS.ACCESS_BILLING)
+    : transaction?.userId === session.userId;
+
+  if (!transaction || !canViewReceipt) {
+    notFound();
+  }
+
+  const receipt = await getCreditPurchaseReceipt(transactionId);
+
+  if (!receipt) {
+    notFound();
+  }
+
+  return (
+    <>
+      <PageHeader
+        items={[
+          {
+            href: "/dashboard",
+            label: "Dashboard"
+          },
+          {
+            href: "/dashboard/billing",
+            label: "Billing"
+          },
+          {
+            href: `/dashboard/billing/receipts/${transactionId}`,
+            label: "Receipt"
+          }
+        ]}
+      />
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-0 max-w-3xl">
+        <div className="flex justify-end">
+          <PrintReceiptButton />
+        </div>
+        <Card data-printable>
+          <CardHeader>
+            <div className="flex justify-between items-start gap-4">
+              <div>
+                <CardTitle className="text-2xl">Receipt</CardTitle>
+                <p className="text-sm text-muted-foreground mt-1">#{receipt.receiptNumber}</p>
+              </div>
+              <div className="text-right text-sm">
+                <div className="font-semibold">{receipt.seller.name}</div>
+                {receipt.seller.taxId && (
+                  <div className="text-muted-foreground">Tax ID: {receipt.seller.taxId}</div>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <div className="text-muted-foreground">Billed to</div>
+                <div className="font-medium">{receipt.billedTo.name}</div>
+                {receipt.billedTo.email && <div>{receipt.billedTo.email}</div>}
+              </div>
+              <div className="text-right">
+                <div className="text-muted-foreground">Date paid</div>
+                <div className="font-medium">{formatDate(receipt.issuedAt)}</div>
+                {receipt.paymentIntentId && (
+                  <div className="text-muted-foreground break-all">Payment {receipt.paymentIntentId}</div>
+                )}
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Unit price</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {receipt.lineItems.map((item) => (
+                  <TableRow key={item.description}>
+                    <TableCell>{item.description}</TableCell>
+                    <TableCell className="text-right">{item.quantity}</TableCell>
+                    <TableCell className="text-right">{formatReceiptAmount(item.unitPrice, receipt.currency)}</TableCell>
+                    <TableCell className="text-right">{formatReceiptAmount(item.amount, receipt.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="ml-auto w-full max-w-xs space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Subtotal</span>
+                <span>{formatReceiptAmount(receipt.subtotal, receipt.currency)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Tax ({receipt.taxRatePercent}%)</span>
+                <span>{formatReceiptAmount(receipt.taxAmount, receipt.currency)}</span>
+              </div>
+              <Separator />
+              <div className="flex justify-between font-semibold text-base">
+                <span>Total paid</span>
+                <span>{formatReceiptAmount(receipt.total, receipt.currency)}</span>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </>
+  );
+}
@@ -5,12 +5,10 @@ import SeparatorWithText from "@/components/separator-with-text"
 import { NavUser } from "@/components/nav-user"
 import { Button } from "@/components/ui/button"
 import { PageHeader } from "@/components/page-header"
+import { Badge } from "@/components/ui/badge"
+import type { PURCHASABLE_ITEM_TYPE } from "@/db/schema"
 
-interface MarketplaceComponent {
-  id: string
-  name: string
-  description: string
-  credits: number
+interface ItemPreview {
   containerClass?: string
   preview: () => React.ReactNode
 }
@@ -34,12 +32,8 @@ const demoTeams: Team[] = [
   },
 ]
 
-export const COMPONENTS: MarketplaceComponent[] = [
-  {
-    id: "team-switcher",
-    name: "Team Switcher",
-    description: "A sleek dropdown menu for switching between teams with custom logos and plans",
-    credits: 4,
+const COMPONENT_PREVIEWS: Record<string, ItemPreview> = {
+  "team-switcher": {
     containerClass: "w-[300px]",
     preview: () => {
       const teams = demoTeams.map(team => ({
@@ -49,18 +43,10 @@ export const COMPONENTS: MarketplaceComponent[] = [
       return <TeamSwitcher teams={teams} />
     },
   },
-  {
-    id: "theme-switch",
-    name: "Theme Switch",
-    description: "An animated theme switcher with system, light, and dark mode options",
-    credits: 4,
+  "theme-switch": {
     preview: () => <ThemeSwitch />,
   },
-  {
-    id: "separator-with-text",
-    name: "Separator With Text",
-    description: "A clean separator component with customizable text and styling",
-    credits: 3,
+  "separator-with-text": {
     containerClass: "w-full",
     preview: () => (
       <SeparatorWithText>
@@ -68,19 +54,11 @@ export const COMPONENTS: MarketplaceComponent[] = [
       </SeparatorWithText>
     ),
   },
-  {
-    id: "nav-user",
-    name: "User Navigation Dropdown",
-    description: "A professional user navigation dropdown with avatar, user info, and action items",
-    credits: 10,
+  "nav-user": {
     containerClass: "w-[300px]",
     preview: () => <NavUser />,
   },
-  {
-    id: "page-header",
-    name: "Page Header with Breadcrumbs",
-    description: "A responsive page header with collapsible sidebar trigger and breadcrumb navigation",
-    credits: 12,
+  "page-header": {
     containerClass: "w-full",
     preview: () => (
       <PageHeader
@@ -91,12 +69,84 @@ export const COMPONENTS: MarketplaceComponent[] = [
       />
     ),
   },
-  {
-    id: 'button',
-    name: "Button",
-    description: "A button component with customizable text and styling",
-    credits: 8,
+  "button": {
     containerClass: "w-full flex justify-center",
     preview: () => <Button>Click me</Button>,
-  }
-]
+  },
+}
+
+const TEMPLATE_PREVIEWS: Record<string, ItemPreview> = {
+  "landing-page": {
+    containerClass: "w-full",
+    preview: () => (
+      <div className="rounded-md border bg-background p-4 space-y-3 text-center">
+        <div className="text-sm font-semibold">Ship your SaaS this weekend</div>
+        <div className="text-xs text-muted-foreground">Auth, billing and teams out of the box</div>
+        <Button size="sm">Get started</Button>
+        <div className="grid grid-cols-3 gap-2 pt-2">
+          {["Free", "Pro", "Enterprise"].map((plan) => (
+            <div key={plan} className="rounded border p-2 text-xs">{plan}</div>
+          ))}
+        </div>
+      </div>
+    ),
+  },
+  "admin-dashboard": {
+    containerClass: "w-full",
+    preview: () => (
+      <div className="flex h-32 rounded-md border bg-background overflow-hidden">
+        <div className="w-16 border-r bg-muted p-2 space-y-2">
+          {[1, 2, 3].map((item) => (
+            <div key={item} className="h-2 rounded bg-muted-foreground/30" />
+          ))}
+        </div>
+        <div className="flex-1 p-2 grid grid-cols-3 gap-2 content-start">
+          {["Users", "Revenue", "Active"].map((stat) => (
+            <div key={stat} className="rounded border p-2 text-[10px] text-muted-foreground">{stat}</div>
+          ))}
+          <div className="col-span-3 h-12 rounded border" />
+        </div>
+      </div>
+    ),
+  },
+}
+
+const PLUGIN_PREVIEWS: Record<string, ItemPreview> = {
+  "usage-analytics": {
+    containerClass: "w-full",
+    preview: () => (
+      <div className="flex h-24 items-end gap-1 rounded-md border bg-background p-3">
+        {[40, 65, 30, 80, 55, 90, 70].map((height, index) => (
+          <div
+            key={index}
+            className="flex-1 rounded-t bg-primary/70"
+            style={{ height: `${height}%` }}
+          />
+        ))}
+      </div>
+    ),
+  },
+  "outgoing-webhooks": {
+    containerClass: "w-full",
+    preview: () => (
+      <div className="rounded-md border bg-background divide-y text-xs">
+        {["user.created", "team.updated", "payment.succeeded"].map((event, index) => (
+          <div key={event} className="flex items-center justify-between p-2">
+            <span className="font-mono">{event}</span>
+            <Badge variant={index === 1 ? "destructive" : "secondary"}>
+              {index === 1 ? "retrying" : "delivered"}
+            </Badge>
+          </div>
+        ))}
+      </div>
+    ),
+  },
+}
+
+// The names, descriptions and prices of the items are stored in the marketplace_item table.
+// An item is previewed with the renderer registered under its type and slug.
+export const ITEM_PREVIEWS: Record<keyof typeof PURCHASABLE_ITEM_TYPE, Record<string, ItemPreview>> = {
+  COMPONENT: COMPONENT_PREVIEWS,
+  TEMPLATE: TEMPLATE_PREVIEWS,
+  PLUGIN: PLUGIN_PREVIEWS,
+}
@@ -1,13 +1,87 @@
 import { PageHeader } from "@/components/page-header"
 import { Alert } from "@heroui/react"
-import { COMPONENTS } from "./components-catalog"
 import { MarketplaceCard } from "@/components/marketplace-card"
+import { MarketplaceBundleCard } from "@/components/marketplace-bundle-card"
 import { getSessionFromCookie } from "@/utils/auth"
-import { getUserPurchasedItems } from "@/utils/credits"
+import { getTeamPurchasedItems, getUserPurchasedItems } from "@/utils/credits"
+import { getWishlistItemIds } from "@/utils/wishlist"
+import {
+  getMarketplaceBundles,
+  getMarketplaceItemRatings,
+  getMarketplaceItems,
+  type PurchasableItemType,
+} from "@/utils/marketplace"
+import { PURCHASABLE_ITEM_TYPE, TEAM_PERMISSIONS } from "@/db/schema"
+import { marketplaceFiltersSchema, type MarketplaceFilters } from "@/schemas/marketplace-filters.schema"
+import { MarketplaceFilterBar } from "@/components/marketplace-filter-bar"
+import { Button } from "@/components/ui/button"
+import Link from "next/link"
+import { Heart } from "lucide-react"
+import type { Route } from "next"
 
-export default async function MarketplacePage() {
+interface MarketplacePageProps {
+  searchParams: Promise<{
+    team?: string
+    type?: string
+    q?: string
+    minPrice?: string
+    maxPrice?: string
+    owned?: string
+    sort?: string
+    view?: string
+  }>
+}
+
+const ITEM_TYPE_FILTERS: { type?: PurchasableItemType; label: string }[] = [
+  { label: "All" },
+  { type: PURCHASABLE_ITEM_TYPE.COMPONENT, label: "Components" },
+  { type: PURCHASABLE_ITEM_TYPE.TEMPLATE, label: "Templates" },
+  { type: PURCHASABLE_ITEM_TYPE.PLUGIN, label: "Plugins" },
+]
+
+function getMarketplaceParams({ teamSlug, filters }: { teamSlug?: string; filters: Partial<MarketplaceFilters> }) {
+  const params = new URLSearchParams();
+
+  if (teamSlug) params.set("team", teamSlug);
+  if (filters.type) params.set("type", filters.type.toLowerCase());
+  if (filters.q) params.set("q", filters.q);
+  if (filters.minPrice !== undefined) params.set("minPrice", filters.minPrice.toString());
+  if (filters.maxPrice !== undefined) params.set("maxPrice", filters.maxPrice.toString());
+  if (filters.owned) params.set("owned", filters.owned);
+  if (filters.sort && filters.sort !== "featured") params.set("sort", filters.sort);
+  if (filters.view) params.set("view", filters.view);
+
+  return params;
+}
+
+function getMarketplaceHref(options: { teamSlug?: string; filters: Partial<MarketplaceFilters> }) {
+  const params = getMarketplaceParams(options);
+
+  return (params.size ? `/dashboard/marketplace?${params}` : "/dashboard/marketplace") as Route;
+}
+
+export default async function MarketplacePage({ searchParams }: MarketplacePageProps) {
+  const { team: teamSlug, ...params } = await searchParams;
+  const filters = marketplaceFiltersSchema.parse(params);
   const session = await getSessionFromCookie();
-  const purchasedItems = session ? await getUserPurchasedItems(session.userId) : new Set();
+
+  // Teams whose credits the user can spend
+  const billingTeams = session?.teams?.filter((team) => team.permissions.includes(TEAM_PERMISSIONS.ACCESS_BILLING)) ?? [];
+  const selectedTeam = billingTeams.find((team) => team.slug === teamSlug);
+
+  const purchasedItems = selectedTeam
+    ? await getTeamPurchasedItems(selectedTeam.id)
+    : session ? await getUserPurchasedItems(session.userId) : new Set<string>();
+
+  // The wishlist is personal, so it's only available when paying with the user's own credits
+  const wishlistItemIds = session && !selectedTeam ? await getWishlistItemIds(session.userId) : undefined;
+  const view = wishlistItemIds ? filters.view : undefined;
+
+  const items = await getMarketplaceItems({ purchasedItems, wishlistItemIds, filters: { ...filters, view } });
+  const ratings = await getMarketplaceItemRatings();
+  const isFiltered = Boolean(filters.type || filters.q || filters.minPrice !== undefined || filters.maxPrice !== undefined || filters.owned);
+  // Bundles mix item types and prices, so they are only shown in the unfiltered marketplace
+  const bundles = isFiltered || view ? [] : await getMarketplaceBundles({ purchasedItems });
 
   return (
     <>
@@ -21,9 +95,9 @@ export default async function MarketplacePage() {
       />
       <div className="container mx-auto px-5 pb-12">
         <div className="mb-8">
-          <h1 className="text-4xl font-bold mt-4">Component Marketplace</h1>
+          <h1 className="text-4xl font-bold mt-4">Marketplace</h1>
           <p className="text-muted-foreground mt-2">
-            Purchase and use our premium components using your credits
+            Purchase and use our premium components, templates and plugins using your credits
           </p>
         </div>
 
@@ -34,16 +108,106 @@ export default async function MarketplacePage() {
           className="mb-6"
         />
 
+        {billingTeams.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <span className="text-sm text-muted-foreground mr-2">Pay with:</span>
+            <Button asChild size="sm" variant={selectedTeam ? "outline" : "default"}>
+              <Link href={getMarketplaceHref({ filters })}>Personal credits</Link>
+            </Button>
+            {billingTeams.map((team) => (
+              <Button key={team.id} asChild size="sm" variant={selectedTeam?.id === team.id ? "default" : "outline"}>
+                <Link href={getMarketplaceHref({ teamSlug: team.slug, filters: { ...filters, view: undefined } })}>{team.name}</Link>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {wishlistItemIds && (
+          <div className="flex flex-wrap items-center gap-2 mb-6 border-b pb-4">
+            <Button asChild size="sm" variant={view ? "ghost" : "secondary"}>
+              <Link href={getMarketplaceHref({ filters: { ...filters, view: undefined } })}>All items</Link>
+            </Button>
+            <Button asChild size="sm" variant={view === "wishlist" ? "secondary" : "ghost"}>
+              <Link href={getMarketplaceHref({ filters: { ...filters, view: "wishlist" } })}>
+                <Heart className="h-4 w-4 mr-2" />
+                Wishlist ({wishlistItemIds.size})
+              </Link>
+            </Button>
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          {ITEM_TYPE_FILTERS.map((filter) => (
+            <Button key={filter.label} asChild size="sm" variant={filters.type === filter.type ? "secondary" : "ghost"}>
+              <Link href={getMarketplaceHref({ teamSlug: selectedTeam?.slug, filters: { ...filters, view, type: filter.type } })}>{filter.label}</Link>
+            </Button>
+          ))}
+        </div>
+
+        <MarketplaceFilterBar
+          key={getMarketplaceParams({ filters }).toString()}
+          filters={filters}
+          preservedParams={Object.fromEntries(getMarketplaceParams({ teamSlug: selectedTeam?.slug, filters: { type: filters.type, view } }))}
+          isTeam={Boolean(selectedTeam)}
+        />
+
+        {bundles.length > 0 && (
+          <div className="mb-10">
+            <h2 className="text-2xl font-semibold mb-4">Bundles</h2>
+            <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {bundles.map((bundle) => (
+                <MarketplaceBundleCard
+                  key={bundle.id}
+                  id={bundle.id}
+                  name={bundle.name}
+                  description={bundle.description}
+                  items={bundle.price.items.map((item) => ({
+                    id: item.id,
+                    type: item.type as PurchasableItemType,
+                    name: item.name,
+                    isPurchased: purchasedItems.has(`${item.type}:${item.slug}`),
+                  }))}
+                  regularPrice={bundle.price.regularPrice}
+                  credits={bundle.price.credits}
+                  teamId={selectedTeam?.id}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isFiltered && (
+          <div className="flex items-center gap-2 mb-4 text-sm text-muted-foreground">
+            {items.length === 1 ? "1 item" : `${items.length} items`}
+            <Button asChild variant="link" size="sm" className="px-0">
+              <Link href={getMarketplaceHref({ teamSlug: selectedTeam?.slug, filters: { sort: filters.sort, view } })}>Clear filters</Link>
+            </Button>
+          </div>
+        )}
+
+        {items.length === 0 && (
+          <div className="rounded-md border py-16 text-center text-muted-foreground">
+            {view === "wishlist" && !isFiltered
+              ? "Your wishlist is empty. Save items with the heart to get an email when they get cheaper or you can afford them."
+              : "No items match your filters."}
+          </div>
+        )}
+
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
-          {COMPONENTS.map((component) => (
+          {items.map((item) => (
             <MarketplaceCard
-              key={component.id}
-              id={component.id}
-              name={component.name}
-              description={component.description}
-              credits={component.credits}
-              containerClass={component.containerClass}
-              isPurchased={purchasedItems.has(`COMPONENT:${component.id}`)}
+              key={item.id}
+              id={item.id}
+              type={item.type as PurchasableItemType}
+              slug={item.slug}
+              name={item.name}
+              description={item.description}
+              credits={item.credits}
+              isPurchased={purchasedItems.has(`${item.type}:${item.slug}`)}
+              teamId={selectedTeam?.id}
+              downloadHref={item.sourceKey ? `/api/marketplace/${item.id}/download` : undefined}
+              rating={ratings.get(item.id)}
+              isWishlisted={wishlistItemIds?.has(item.id)}
             />
           ))}
         </div>
@@ -4,15 +4,62 @@ import { createServerAction, ZSAError } from "zsa";
 import { z } from "zod";
 import { getSessionFromCookie } from "@/utils/auth";
 import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
-import { hasEnoughCredits, consumeCredits } from "@/utils/credits";
+import {
+  hasEnoughCredits,
+  consumeCredits,
+  getTransactionByIdempotencyKey,
+  getTeamPurchasedItems,
+  getUserPurchasedItems,
+  refundCreditUsage,
+} from "@/utils/credits";
+import { requireTeamPermission } from "@/utils/team-auth";
 import { getDB } from "@/db";
-import { purchasedItemsTable, PURCHASABLE_ITEM_TYPE } from "@/db/schema";
-import { and, eq } from "drizzle-orm";
-import { COMPONENTS } from "@/app/(dashboard)/dashboard/marketplace/components-catalog";
+import { purchasedItemsTable, MARKETPLACE_ITEM_STATUS, PURCHASABLE_ITEM_TYPE, TEAM_PERMISSIONS } from "@/db/schema";
+import { and, eq, isNull } from "drizzle-orm";
+import {
+  getCurrentMarketplaceItemPrice,
+  getMarketplaceBundle,
+  getMarketplaceBundlePrice,
+  getMarketplaceItem,
+} from "@/utils/marketplace";
+import { removeFromWishlist } from "@/utils/wishlist";
+import { MARKETPLACE_REFUND_WINDOW_DAYS } from "@/constants";
+import ms from "ms";
+import { encodeHexLowerCase } from "@oslojs/encoding";
+
+interface PurchaseOwner {
+  userId: string;
+  teamId?: string;
+}
+
+// Items bought with team credits belong to the team, whichever member bought them
+function getPurchaseIdempotencyKey({ userId, teamId, itemType, itemId }: PurchaseOwner & { itemType: string; itemId: string }) {
+  return `purchase-item:${teamId ?? userId}:${itemType}:${itemId}`;
+}
+
+// A bundle can be bought again once new items were added to it, so the key covers the items that are charged
+async function getBundlePurchaseIdempotencyKey({ userId, teamId, bundleId, itemIds }: PurchaseOwner & { bundleId: string; itemIds: string[] }) {
+  const itemsHash = await crypto.subtle.digest("SHA-256", new TextEncoder().encode([...itemIds].sort().join(",")));
+  return `purchase-bundle:${teamId ?? userId}:${bundleId}:${encodeHexLowerCase(new Uint8Array(itemsHash))}`;
+}
+
+function findPurchasedItem({ userId, teamId, itemType, itemId }: PurchaseOwner & { itemType: string; itemId: string }) {
+  return getDB().query.purchasedItemsTable.findFirst({
+    where: and(
+      teamId
+        ? eq(purchasedItemsTable.teamId, teamId)
+        : and(eq(purchasedItemsTable.userId, userId), isNull(purchasedItemsTable.teamId)),
+      eq(purchasedItemsTable.itemType, itemType),
+      eq(purchasedItemsTable.itemId, itemId)
+    ),
+  });
+}
 
 const purchaseSchema = z.object({
   itemId: z.string(),
-  itemType: z.enum([PURCHASABLE_ITEM_TYPE.COMPONENT]), // Add more types as they become available
+  itemType: z.nativeEnum(PURCHASABLE_ITEM_TYPE),
+  // Buys the item for the team with the team's credits
+  teamId: z.string().optional(),
 });
 
 export const purchaseAction = createServerAction()
@@ -29,69 +76,243 @@ export const purchaseAction = createServerAction()
           );
         }
 
-        // Get item details based on type
-        let itemDetails: { name: string; credits: number } | undefined;
-        switch (input.itemType) {
-          case PURCHASABLE_ITEM_TYPE.COMPONENT:
-            itemDetails = COMPONENTS.find(c => c.id === input.itemId);
-            break;
-          // Add more cases as new item types are added
+        if (input.teamId) {
+          await requireTeamPermission(input.teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
         }
 
-        if (!itemDetails) {
+        const owner = { userId: session.userId, teamId: input.teamId };
+
+        const itemDetails = await getMarketplaceItem({ type: input.itemType, slug: input.itemId });
+
+        if (!itemDetails || itemDetails.status !== MARKETPLACE_ITEM_STATUS.PUBLISHED) {
           throw new ZSAError(
             "NOT_FOUND",
             "Item not found"
           );
         }
 
-        // Check if user has enough credits
+        // The purchase keeps the price it was made at when the price of the item changes later
+        const price = await getCurrentMarketplaceItemPrice(itemDetails);
+
+        // Check if the user or the team has enough credits
         const hasCredits = await hasEnoughCredits({
-          userId: session.userId,
+          ...owner,
           requiredCredits: itemDetails.credits,
         });
 
         if (!hasCredits) {
           throw new ZSAError(
             "INSUFFICIENT_CREDITS",
-            "You don't have enough credits to purchase this item"
+            input.teamId
+              ? "Your team doesn't have enough credits to purchase this item"
+              : "You don't have enough credits to purchase this item"
           );
         }
 
-        const db = getDB();
-
-        // Check if user already owns the item
-        const existingPurchase = await db.query.purchasedItemsTable.findFirst({
-          where: and(
-            eq(purchasedItemsTable.userId, session.userId),
-            eq(purchasedItemsTable.itemType, input.itemType),
-            eq(purchasedItemsTable.itemId, input.itemId)
-          ),
-        });
+        // Check if the user or the team already owns the item
+        const existingPurchase = await findPurchasedItem({ ...owner, ...input });
 
         if (existingPurchase) {
           throw new ZSAError(
             "CONFLICT",
-            "You already own this item"
+            input.teamId ? "Your team already owns this item" : "You already own this item"
           );
         }
 
-        // Use credits first
+        // The item is added to the purchased items of the user or the team in the batch that charges it.
+        // An item can only be bought once, so a retried purchase neither charges nor adds it twice.
         await consumeCredits({
-          userId: session.userId,
+          ...owner,
           amount: itemDetails.credits,
           description: `Purchased ${input.itemType.toLowerCase()}: ${itemDetails.name}`,
+          idempotencyKey: getPurchaseIdempotencyKey({ ...owner, ...input }),
+          purchasedItems: [{
+            ...owner,
+            itemType: input.itemType,
+            itemId: input.itemId,
+            priceId: price?.id,
+          }],
         });
 
-        // Then add item to user's purchased items
-        await db.insert(purchasedItemsTable).values({
-          userId: session.userId,
-          itemType: input.itemType,
-          itemId: input.itemId,
-        });
+        // The buyer doesn't need to be reminded of the item anymore
+        await removeFromWishlist({ userId: session.userId, itemIds: [itemDetails.id] });
 
         return { success: true };
       },
       RATE_LIMITS.PURCHASE
     );
   });
+
+const purchaseBundleSchema = z.object({
+  bundleId: z.string(),
+  // Buys the bundle for the team with the team's credits
+  teamId: z.string().optional(),
+});
+
+export const purchaseBundleAction = createServerAction()
+  .input(purchaseBundleSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => {
+        const session = await getSessionFromCookie();
+
+        if (!session) {
+          throw new ZSAError(
+            "NOT_AUTHORIZED",
+            "You must be logged in to make purchases"
+          );
+        }
+
+        if (input.teamId) {
+          await requireTeamPermission(input.teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+        }
+
+        const owner = { userId: session.userId, teamId: input.teamId };
+
+        const bundle = await getMarketplaceBundle(input.bundleId);
+
+        if (!bundle || bundle.status !== MARKETPLACE_ITEM_STATUS.PUBLISHED) {
+          throw new ZSAError(
+            "NOT_FOUND",
+            "Bundle not found"
+          );
+        }
+
+        const purchasedItems = input.teamId
+          ? await getTeamPurchasedItems(input.teamId)
+          : await getUserPurchasedItems(session.userId);
+
+        // Items that are already owned are skipped and the price is prorated to the rest
+        const { credits, lineItems } = getMarketplaceBundlePrice(bundle, purchasedItems);
+
+        if (!lineItems.length) {
+          throw new ZSAError(
+            "CONFLICT",
+            input.teamId ? "Your team already owns every item of this bundle" : "You already own every item of this bundle"
+          );
+        }
+
+        const hasCredits = await hasEnoughCredits({
+          ...owner,
+          requiredCredits: credits,
+        });
+
+        if (!hasCredits) {
+          throw new ZSAError(
+            "INSUFFICIENT_CREDITS",
+            input.teamId
+              ? "Your team doesn't have enough credits to purchase this bundle"
+              : "You don't have enough credits to purchase this bundle"
+          );
+        }
+
+        const prices = await Promise.all(lineItems.map(({ item }) => getCurrentMarketplaceItemPrice(item)));
+
+        // One usage transaction for the whole bundle, with the share of every item, that adds the items in the same batch
+        await consumeCredits({
+          ...owner,
+          amount: credits,
+          description: `Purchased bundle: ${bundle.name}`,
+          idempotencyKey: await getBundlePurchaseIdempotencyKey({
+            ...owner,
+            bundleId: bundle.id,
+            itemIds: lineItems.map(({ item }) => item.id),
+          }),
+          lineItems: lineItems.map(({ item, credits }) => ({
+            description: `${item.type.toLowerCase()}: ${item.name}`,
+            amount: credits,
+          })),
+          purchasedItems: lineItems.map(({ item }, index) => ({
+            ...owner,
+            itemType: item.type,
+            itemId: item.slug,
+            priceId: prices[index]?.id,
+            bundleId: bundle.id,
+          })),
+        });
+
+        await removeFromWishlist({ userId: session.userId, itemIds: lineItems.map(({ item }) => item.id) });
+
+        return { success: true, credits };
+      },
+      RATE_LIMITS.PURCHASE
+    );
+  });
+
+export const refundPurchaseAction = createServerAction()
+  .input(purchaseSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => {
+        const session = await getSessionFromCookie();
+
+        if (!session) {
+          throw new ZSAError(
+            "NOT_AUTHORIZED",
+            "You must be logged in to request a refund"
+          );
+        }
+
+        if (input.teamId) {
+          await requireTeamPermission(input.teamId, TEAM_PERMISSIONS.ACCESS_BILLING);
+        }
+
+        const owner = { userId: session.userId, teamId: input.teamId };
+
+        const purchasedItem = await findPurchasedItem({ ...owner, ...input });
+
+        if (!purchasedItem) {
+          throw new ZSAError(
+            "NOT_FOUND",
+            input.teamId ? "Your team doesn't own this item" : "You don't own this item"
+          );
+        }
+
+        if (Date.now() - purchasedItem.purchasedAt.getTime() > ms(`${MARKETPLACE_REFUND_WINDOW_DAYS} days`)) {
+          throw new ZSAError(
+            "FORBIDDEN",
+            `Purchases can only be refunded within ${MARKETPLACE_REFUND_WINDOW_DAYS} days`
+          );
+        }
+
+        // The source of the item can't be taken back once it was downloaded
+        if (purchasedItem.downloadCount > 0) {
+          throw new ZSAError(
+            "FORBIDDEN",
+            "Items can't be refunded after they were downloaded"
+          );
+        }
+
+        if (purchasedItem.bundleId) {
+          throw new ZSAError(
+            "FORBIDDEN",
+            "Items bought in a bundle can't be refunded one by one. Please contact support."
+          );
+        }
+
+        const usageTransaction = await getTransactionByIdempotencyKey(
+          getPurchaseIdempotencyKey({ ...owner, ...input })
+        );
+
+        if (!usageTransaction) {
+          throw new ZSAError(
+            "PRECONDITION_FAILED",
+            "This purchase can't be refunded automatically. Please contact support."
+          );
+        }
+
+        const item = await getMarketplaceItem({ type: input.itemType, slug: input.itemId });
+        const itemName = item?.name ?? input.itemId;
+
+        // Returns the credits and removes the item from the purchased items of the user or the team
+        const { refundedCredits } = await refundCreditUsage({
+          usageTransactionId: usageTransaction.id,
+          description: `Refunded ${input.itemType.toLowerCase()}: ${itemName}`,
+          purchasedItemId: purchasedItem.id,
+        });
+
+        return { success: true, refundedCredits };
+      },
+      RATE_LIMITS.PURCHASE
+    );
+  });
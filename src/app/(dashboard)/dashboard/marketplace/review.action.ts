@@ -0,0 +1,106 @@
+'use server'
+
+import { createServerAction, ZSAError } from "zsa";
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { getSessionFromCookie } from "@/utils/auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { getDB } from "@/db";
+import { marketplaceItemTable, marketplaceReviewTable } from "@/db/schema";
+import { getEntitledPurchase, getMarketplaceItemReviews, type PurchasableItemType } from "@/utils/marketplace";
+import { getMarketplaceReviewsSchema, submitMarketplaceReviewSchema } from "@/schemas/marketplace-review.schema";
+
+async function requireSession() {
+  const session = await getSessionFromCookie();
+
+  if (!session) {
+    throw new ZSAError(
+      "NOT_AUTHORIZED",
+      "You must be logged in to use reviews"
+    );
+  }
+
+  return session;
+}
+
+async function findItem(itemId: string) {
+  const item = await getDB().query.marketplaceItemTable.findFirst({
+    where: eq(marketplaceItemTable.id, itemId),
+    columns: { id: true, type: true, slug: true },
+  });
+
+  if (!item) {
+    throw new ZSAError(
+      "NOT_FOUND",
+      "Item not found"
+    );
+  }
+
+  return item;
+}
+
+export const getMarketplaceReviewsAction = createServerAction()
+  .input(getMarketplaceReviewsSchema)
+  .handler(async ({ input }) => {
+    const session = await requireSession();
+    const item = await findItem(input.itemId);
+
+    const reviews = await getMarketplaceItemReviews(item.id);
+    // The author still sees a review that was hidden by an admin
+    const ownReview = await getDB().query.marketplaceReviewTable.findFirst({
+      where: and(
+        eq(marketplaceReviewTable.itemId, item.id),
+        eq(marketplaceReviewTable.userId, session.userId),
+      ),
+      columns: { rating: true, body: true, hiddenAt: true },
+    });
+    const canReview = Boolean(await getEntitledPurchase(session.userId, item.type as PurchasableItemType, item.slug));
+
+    return {
+      reviews: reviews.map(({ userId, ...review }) => ({ ...review, isOwn: userId === session.userId })),
+      ownReview: ownReview ? { ...ownReview, isHidden: Boolean(ownReview.hiddenAt) } : null,
+      canReview,
+    };
+  });
+
+export const submitMarketplaceReviewAction = createServerAction()
+  .input(submitMarketplaceReviewSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => {
+        const session = await requireSession();
+        const item = await findItem(input.itemId);
+
+        // Items owned through a team can be reviewed by every member of the team
+        if (!await getEntitledPurchase(session.userId, item.type as PurchasableItemType, item.slug)) {
+          throw new ZSAError(
+            "FORBIDDEN",
+            "You can only review items you own"
+          );
+        }
+
+        // Editing a review keeps it hidden if an admin hid it
+        await getDB()
+          .insert(marketplaceReviewTable)
+          .values({
+            itemId: item.id,
+            userId: session.userId,
+            rating: input.rating,
+            body: input.body,
+          })
+          .onConflictDoUpdate({
+            target: [marketplaceReviewTable.itemId, marketplaceReviewTable.userId],
+            set: {
+              rating: input.rating,
+              body: input.body,
+              updatedAt: new Date(),
+            },
+          });
+
+        revalidatePath("/dashboard/marketplace");
+
+        return { success: true };
+      },
+      RATE_LIMITS.MARKETPLACE_REVIEW
+    );
+  });
@@ -0,0 +1,70 @@
+'use server'
+
+import { createServerAction, ZSAError } from "zsa";
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { getSessionFromCookie } from "@/utils/auth";
+import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { getDB } from "@/db";
+import { marketplaceItemTable, MARKETPLACE_ITEM_STATUS } from "@/db/schema";
+import { addToWishlist, removeFromWishlist } from "@/utils/wishlist";
+import { wishlistItemSchema } from "@/schemas/wishlist.schema";
+
+async function requireSession() {
+  const session = await getSessionFromCookie();
+
+  if (!session) {
+    throw new ZSAError(
+      "NOT_AUTHORIZED",
+      "You must be logged in to use the wishlist"
+    );
+  }
+
+  return session;
+}
+
+export const addToWishlistAction = createServerAction()
+  .input(wishlistItemSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => {
+        const session = await requireSession();
+
+        const item = await getDB().query.marketplaceItemTable.findFirst({
+          where: eq(marketplaceItemTable.id, input.itemId),
+          columns: { id: true, credits: true, status: true },
+        });
+
+        if (!item || item.status !== MARKETPLACE_ITEM_STATUS.PUBLISHED) {
+          throw new ZSAError(
+            "NOT_FOUND",
+            "Item not found"
+          );
+        }
+
+        await addToWishlist({ userId: session.userId, item });
+
+        revalidatePath("/dashboard/marketplace");
+
+        return { success: true };
+      },
+      RATE_LIMITS.MARKETPLACE_WISHLIST
+    );
+  });
+
+export const removeFromWishlistAction = createServerAction()
+  .input(wishlistItemSchema)
+  .handler(async ({ input }) => {
+    return withRateLimit(
+      async () => {
+        const session = await requireSession();
+
+        await removeFromWishlist({ userId: session.userId, itemIds: [input.itemId] });
+
+        revalidatePath("/dashboard/marketplace");
+
+        return { success: true };
+      },
+      RATE_LIMITS.MARKETPLACE_WISHLIST
+    );
+  });
@@ -0,0 +1,196 @@
+import { getDB } from "@/db";
+import { teamTable, SYSTEM_ROLES_ENUM } from "@/db/schema";
+import { notFound, redirect } from "next/navigation";
+import { eq } from "drizzle-orm";
+import { hasSystemRole } from "@/utils/team-auth";
+import { getSessionFromCookie } from "@/utils/auth";
+import { getTeamAuditLogs } from "@/server/teams";
+import { formatDateTime } from "@/utils/format-date";
+import { PageHeader } from "@/components/page-header";
+import { Alert } from "@heroui/react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AUDIT_LOG_ACTION_LABELS, AuditLogMetadataList } from "@/components/audit-log-details";
+import Link from "next/link";
+import type { Route } from "next";
+
+const TEAM_AUDIT_LOG_PAGE_SIZE = 50;
+
+interface TeamAuditLogPageProps {
+  params: Promise<{
+    teamSlug: string;
+  }>;
+  searchParams: Promise<{
+    page?: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: TeamAuditLogPageProps) {
+  const { teamSlug } = await params;
+  const db = getDB();
+
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.slug, teamSlug),
+  });
+
+  if (!team) {
+    return {
+      title: "Team Not Found",
+    };
+  }
+
+  return {
+    title: `${team.name} - Audit Log`,
+    description: `Security and billing events of ${team.name}`,
+  };
+}
+
+export default async function TeamAuditLogPage({ params, searchParams }: TeamAuditLogPageProps) {
+  const { teamSlug } = await params;
+  const { page: pageParam } = await searchParams;
+  const db = getDB();
+
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.slug, teamSlug),
+  });
+
+  if (!team) {
+    notFound();
+  }
+
+  const session = await getSessionFromCookie();
+  if (!session) {
+    redirect("/auth/login?returnTo=" + encodeURIComponent(`/dashboard/teams/${teamSlug}/audit-log`));
+  }
+
+  const breadcrumbs = [
+    {
+      href: "/dashboard/teams",
+      label: "Teams"
+    },
+    {
+      href: `/dashboard/teams/${teamSlug}`,
+      label: team.name
+    },
+    {
+      href: `/dashboard/teams/${teamSlug}/audit-log`,
+      label: "Audit Log"
+    }
+  ];
+
+  const isOwner = await hasSystemRole(team.id, SYSTEM_ROLES_ENUM.OWNER);
+
+  if (!isOwner) {
+    return (
+      <>
+        <PageHeader items={breadcrumbs} />
+        <div className="container mx-auto px-5 py-12">
+          <Alert
+            color="danger"
+            title="Access Denied"
+            description={`Only the owners of team "${team.name}" can see its audit log.`}
+            className="mb-6"
+          />
+          <Button asChild className="mt-4">
+            <Link href={`/dashboard/teams/${teamSlug}` as Route}>
+              Return to Team
+            </Link>
+          </Button>
+        </div>
+      </>
+    );
+  }
+
+  const page = Math.max(1, parseInt(pageParam ?? "1") || 1);
+  const { events, totalCount, totalPages } = await getTeamAuditLogs({
+    teamId: team.id,
+    page,
+    pageSize: TEAM_AUDIT_LOG_PAGE_SIZE,
+  });
+  const getPageHref = (targetPage: number) => `/dashboard/teams/${teamSlug}/audit-log?page=${targetPage}` as Route;
+
+  return (
+    <>
+      <PageHeader items={breadcrumbs} />
+      <div className="container mx-auto px-5 pb-12">
+        <h1 className="text-4xl font-bold mt-4">Audit Log</h1>
+        <p className="text-muted-foreground mt-2">
+          Role changes, removed members and credit purchases of the team, and the changes admins made to it.
+        </p>
+
+        <div className="mt-8 border rounded-lg p-6 bg-card">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead>Member</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                    No events found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(event.createdAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant={event.action.startsWith("admin.") ? "default" : "secondary"} className="whitespace-nowrap">
+                        {AUDIT_LOG_ACTION_LABELS[event.action] ?? event.action}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {event.action.startsWith("admin.")
+                        ? "An admin"
+                        : event.actorEmail ?? (event.actorUserId ? "Deleted user" : "System")}
+                    </TableCell>
+                    <TableCell>
+                      {event.targetUserEmail ?? <span className="text-muted-foreground">-</span>}
+                    </TableCell>
+                    <TableCell>
+                      <AuditLogMetadataList metadata={event.metadata} />
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          {totalPages > 1 && (
+            <div className="mt-4 flex items-center justify-between gap-4 text-sm text-muted-foreground">
+              <span>
+                Page {page} of {totalPages}, {totalCount.toLocaleString()} events
+              </span>
+              <div className="flex gap-2">
+                {page > 1 && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={getPageHref(page - 1)}>Previous</Link>
+                  </Button>
+                )}
+                {page < totalPages && (
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={getPageHref(page + 1)}>Next</Link>
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
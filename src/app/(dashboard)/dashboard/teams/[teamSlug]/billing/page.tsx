@@ -0,0 +1,139 @@
+import { getDB } from "@/db";
+import { teamTable, TEAM_PERMISSIONS } from "@/db/schema";
+import { notFound, redirect } from "next/navigation";
+import { eq } from "drizzle-orm";
+import { hasTeamPermission } from "@/utils/team-auth";
+import { getSessionFromCookie } from "@/utils/auth";
+import { getTeamCredits, getUpcomingCreditExpirations } from "@/utils/credits";
+import { getActivePlan } from "@/utils/plans";
+import { getDailyUsage } from "@/utils/metering";
+import { USAGE_BREAKDOWN_DAYS } from "@/constants";
+import { PageHeader } from "@/components/page-header";
+import { Alert } from "@heroui/react";
+import { Button } from "@/components/ui/button";
+import Link from "next/link";
+import type { Route } from "next";
+import { CreditPackages } from "@/app/(dashboard)/dashboard/billing/_components/credit-packages";
+import { TransactionHistory } from "@/app/(dashboard)/dashboard/billing/_components/transaction-history";
+import { SubscriptionPlans } from "@/app/(dashboard)/dashboard/billing/_components/subscription-plans";
+import { UsageBreakdown } from "@/app/(dashboard)/dashboard/billing/_components/usage-breakdown";
+import { LowBalanceSettings } from "@/app/(dashboard)/dashboard/billing/_components/low-balance-settings";
+import { CreditExpirations } from "@/app/(dashboard)/dashboard/billing/_components/credit-expirations";
+import { CreditTransfer } from "@/app/(dashboard)/dashboard/billing/_components/credit-transfer";
+
+interface TeamBillingPageProps {
+  params: Promise<{
+    teamSlug: string;
+  }>;
+}
+
+export async function generateMetadata({ params }: TeamBillingPageProps) {
+  const { teamSlug } = await params;
+  const db = getDB();
+
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.slug, teamSlug),
+  });
+
+  if (!team) {
+    return {
+      title: "Team Not Found",
+    };
+  }
+
+  return {
+    title: `${team.name} - Billing`,
+    description: `Credits and billing for ${team.name}`,
+  };
+}
+
+export default async function TeamBillingPage({ params }: TeamBillingPageProps) {
+  const { teamSlug } = await params;
+  const db = getDB();
+
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.slug, teamSlug),
+  });
+
+  if (!team) {
+    notFound();
+  }
+
+  const session = await getSessionFromCookie();
+  if (!session) {
+    redirect("/auth/login?returnTo=" + encodeURIComponent(`/dashboard/teams/${teamSlug}/billing`));
+  }
+
+  const breadcrumbs = [
+    {
+      href: "/dashboard/teams",
+      label: "Teams"
+    },
+    {
+      href: `/dashboard/teams/${teamSlug}`,
+      label: team.name
+    },
+    {
+      href: `/dashboard/teams/${teamSlug}/billing`,
+      label: "Billing"
+    }
+  ];
+
+  const canAccessBilling = await hasTeamPermission(team.id, TEAM_PERMISSIONS.ACCESS_BILLING);
+
+  if (!canAccessBilling) {
+    return (
+      <>
+        <PageHeader items={breadcrumbs} />
+        <div className="container mx-auto px-5 py-12">
+          <Alert
+            color="danger"
+            title="Access Denied"
+            description={`You don't have permission to manage the billing of team "${team.name}". Please contact the team owner to request access.`}
+            className="mb-6"
+          />
+          <Button asChild className="mt-4">
+            <Link href={`/dashboard/teams/${teamSlug}` as Route}>
+              Return to Team
+            </Link>
+          </Button>
+        </div>
+      </>
+    );
+  }
+
+  const creditBalance = await getTeamCredits({ teamId: team.id, userId: session.userId });
+  const usage = await getDailyUsage({ walletId: team.id, days: USAGE_BREAKDOWN_DAYS });
+  const expirations = await getUpcomingCreditExpirations({ userId: session.userId, teamId: team.id });
+  const plan = getActivePlan(team);
+
+  return (
+    <>
+      <PageHeader items={breadcrumbs} />
+      <div className="flex flex-1 flex-col gap-4 p-4 pt-0">
+        <SubscriptionPlans
+          currentPlanId={plan.id}
+          planExpiresAt={team.planExpiresAt}
+          hasBillingAccount={Boolean(team.stripeCustomerId)}
+          teamId={team.id}
+        />
+        <CreditPackages plan={plan} team={{ id: team.id, creditBalance }} />
+        <LowBalanceSettings
+          lowBalanceThreshold={team.lowBalanceThreshold}
+          autoTopUpPackageId={team.autoTopUpPackageId}
+          hasSavedPaymentMethod={Boolean(team.stripePaymentMethodId)}
+          teamId={team.id}
+        />
+        <CreditTransfer
+          teams={session.teams?.filter(({ id }) => id !== team.id).map(({ id, name }) => ({ id, name })) ?? []}
+          teamId={team.id}
+        />
+        <UsageBreakdown usage={usage} days={USAGE_BREAKDOWN_DAYS} />
+        <CreditExpirations expirations={expirations} />
+        <div className="mt-4">
+          <TransactionHistory teamId={team.id} />
+        </div>
+      </div>
+    </>
+  );
+}
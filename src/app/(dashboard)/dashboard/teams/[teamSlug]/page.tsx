@@ -2,8 +2,8 @@ import { getDB } from "@/db";
 import { teamTable } from "@/db/schema";
 import { notFound, redirect } from "next/navigation";
 import { eq } from "drizzle-orm";
-import { hasTeamMembership, hasTeamPermission } from "@/utils/team-auth";
-import { TEAM_PERMISSIONS } from "@/db/schema";
+import { hasSystemRole, hasTeamMembership, hasTeamPermission } from "@/utils/team-auth";
+import { SYSTEM_ROLES_ENUM, TEAM_PERMISSIONS } from "@/db/schema";
 import { PageHeader } from "@/components/page-header";
 import Link from "next/link";
 import { Button } from "@/components/ui/button";
@@ -22,6 +22,7 @@ import {
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { formatDate } from "@/utils/format-date";
 import { RemoveMemberButton } from "@/components/teams/remove-member-button";
+import type { Route } from "next";
 
 interface TeamPageProps {
   params: Promise<{
@@ -104,6 +105,8 @@ export default async function TeamDashboardPage({ params }: TeamPageProps) {
   // Check permissions
   const canInviteMembers = await hasTeamPermission(team.id, TEAM_PERMISSIONS.INVITE_MEMBERS);
   const canRemoveMembers = await hasTeamPermission(team.id, TEAM_PERMISSIONS.REMOVE_MEMBERS);
+  const canAccessBilling = await hasTeamPermission(team.id, TEAM_PERMISSIONS.ACCESS_BILLING);
+  const isOwner = await hasSystemRole(team.id, SYSTEM_ROLES_ENUM.OWNER);
 
   // Fetch team members
   const teamMembers = await getTeamMembers(team.id);
@@ -181,6 +184,27 @@ export default async function TeamDashboardPage({ params }: TeamPageProps) {
 
           {/* Team actions */}
           <div className="col-span-3 flex flex-wrap gap-4">
+            {canAccessBilling && (
+              <>
+                <Button asChild variant="outline">
+                  <Link href={`/dashboard/teams/${teamSlug}/billing` as Route}>
+                    Manage Credits
+                  </Link>
+                </Button>
+                <Button asChild variant="outline">
+                  <Link href={`/dashboard/marketplace?team=${teamSlug}` as Route}>
+                    Shop for Team
+                  </Link>
+                </Button>
+              </>
+            )}
+            {isOwner && (
+              <Button asChild variant="outline">
+                <Link href={`/dashboard/teams/${teamSlug}/audit-log` as Route}>
+                  Audit Log
+                </Link>
+              </Button>
+            )}
           </div>
 
           {/* Team Members Table */}
@@ -1,4 +1,5 @@
 import { AppSidebar } from "@/components/app-sidebar"
+import { AnnouncementBanners } from "@/components/announcement-banners"
 import { getSessionFromCookie } from "@/utils/auth"
 import {
   SidebarInset,
@@ -17,6 +18,7 @@ export default async function DashboardLayout({ children }: { children: React.Re
     <SidebarProvider>
       <AppSidebar />
       <SidebarInset>
+        <AnnouncementBanners />
         {children}
       </SidebarInset>
     </SidebarProvider>
@@ -1,5 +1,11 @@
 import NavFooterLayout from "@/layouts/NavFooterLayout";
+import { AnnouncementBanners } from "@/components/announcement-banners";
 
 export default function MarketingLayout({ children }: { children: React.ReactNode }) {
-  return <NavFooterLayout>{children}</NavFooterLayout>;
+  return (
+    <>
+      <AnnouncementBanners />
+      <NavFooterLayout>{children}</NavFooterLayout>
+    </>
+  );
 }
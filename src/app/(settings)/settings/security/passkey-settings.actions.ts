@@ -8,8 +8,8 @@ import {
   verifyPasskeyAuthentication
 } from "@/utils/webauthn";
 import { getDB } from "@/db";
-import { userTable, passKeyCredentialTable } from "@/db/schema";
-import { eq } from "drizzle-orm";
+import { userTable, passKeyCredentialTable, AUDIT_LOG_ACTION, AUDIT_LOG_TARGET_TYPE } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
 import { createServerAction, ZSAError } from "zsa";
 import { requireVerifiedEmail, createAndStoreSession } from "@/utils/auth";
 import type { User } from "@/db/schema";
@@ -17,6 +17,7 @@ import type { RegistrationResponseJSON, AuthenticationResponseJSON } from "@simp
 import { headers } from "next/headers";
 import { getIP } from "@/utils/get-IP";
 import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
+import { logAuditEvent } from "@/utils/audit-log";
 
 const generateRegistrationOptionsSchema = z.object({
   email: z.string().email(),
@@ -126,6 +127,15 @@ export const deletePasskeyAction = createServerAction()
         .from(passKeyCredentialTable)
         .where(eq(passKeyCredentialTable.userId, session?.user?.id ?? ""));
 
+      const passkey = passkeys.find((passkey) => passkey.credentialId === input.credentialId);
+
+      if (!passkey) {
+        throw new ZSAError(
+          "NOT_FOUND",
+          "Passkey not found"
+        );
+      }
+
       // Get full user data to check password
       const user = await db.query.userTable.findFirst({
         where: eq(userTable.id, session?.user?.id ?? ""),
@@ -141,7 +151,21 @@ export const deletePasskeyAction = createServerAction()
 
       await db
         .delete(passKeyCredentialTable)
-        .where(eq(passKeyCredentialTable.credentialId, input.credentialId));
+        .where(and(
+          eq(passKeyCredentialTable.credentialId, passkey.credentialId),
+          eq(passKeyCredentialTable.userId, passkey.userId),
+        ));
+
+      await logAuditEvent({
+        action: AUDIT_LOG_ACTION.PASSKEY_DELETED,
+        actorUserId: passkey.userId,
+        targetType: AUDIT_LOG_TARGET_TYPE.PASSKEY,
+        targetId: passkey.credentialId,
+        metadata: {
+          aaguid: passkey.aaguid,
+          createdAt: passkey.createdAt.toISOString(),
+        },
+      });
 
       return { success: true };
     }, RATE_LIMITS.SETTINGS);
@@ -7,6 +7,8 @@ import { z } from "zod";
 import { withRateLimit, RATE_LIMITS } from "@/utils/with-rate-limit";
 import { UAParser } from 'ua-parser-js';
 import { SessionWithMeta } from "@/types";
+import { logAuditEvent } from "@/utils/audit-log";
+import { AUDIT_LOG_ACTION, AUDIT_LOG_TARGET_TYPE } from "@/db/schema";
 
 function isValidSession(session: unknown): session is SessionWithMeta {
   if (!session || typeof session !== 'object') return false;
@@ -90,8 +92,24 @@ export const deleteSessionAction = createServerAction()
           );
         }
 
+        const revokedSession = await getKVSession(input.sessionId, session.user.id);
+
         await deleteKVSession(input.sessionId, session.user.id);
 
+        if (revokedSession) {
+          await logAuditEvent({
+            action: AUDIT_LOG_ACTION.SESSION_REVOKED,
+            actorUserId: session.user.id,
+            targetType: AUDIT_LOG_TARGET_TYPE.SESSION,
+            targetId: revokedSession.id,
+            metadata: {
+              ipAddress: revokedSession.ip ?? null,
+              userAgent: revokedSession.userAgent ?? null,
+              authenticationType: revokedSession.authenticationType ?? null,
+            },
+          });
+        }
+
         return { success: true };
       },
       RATE_LIMITS.DELETE_SESSION
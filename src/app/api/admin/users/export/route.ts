@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server"
+import { inArray } from "drizzle-orm"
+import { getDB } from "@/db"
+import { passKeyCredentialTable, userTable, ROLES_ENUM } from "@/db/schema"
+import { getSessionFromCookie } from "@/utils/auth"
+import { getUserFiltersOrderBy, getUserFiltersWhere } from "@/utils/admin-users"
+import { userFiltersSchema, type UserFilters } from "@/schemas/admin-user-filters.schema"
+
+// D1 binds every ID of a batch as a parameter and allows 100 per query
+const EXPORT_BATCH_SIZE = 90
+
+const CSV_HEADER = [
+  "ID",
+  "Email",
+  "First name",
+  "Last name",
+  "Role",
+  "Email verified at",
+  "Banned at",
+  "Sign-in methods",
+  "Credits",
+  "Signed up at",
+]
+
+function toCsvCell(value: string | number | Date | null) {
+  if (value === null) return ""
+
+  let cell = value instanceof Date ? value.toISOString() : String(value)
+
+  // Spreadsheet apps run cells that start like a formula
+  if (/^[=+\-@]/.test(cell)) {
+    cell = `'${cell}`
+  }
+
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+}
+
+function toCsvRow(values: (string | number | Date | null)[]) {
+  return `${values.map(toCsvCell).join(",")}\r\n`
+}
+
+/**
+ * Yields the matching users in batches, or only the selected users when IDs are given
+ */
+async function* getUserBatches(filters: UserFilters, ids?: string[]) {
+  const db = getDB()
+  const query = () => db
+    .select({
+      id: userTable.id,
+      email: userTable.email,
+      firstName: userTable.firstName,
+      lastName: userTable.lastName,
+      role: userTable.role,
+      emailVerified: userTable.emailVerified,
+      bannedAt: userTable.bannedAt,
+      passwordHash: userTable.passwordHash,
+      googleAccountId: userTable.googleAccountId,
+      currentCredits: userTable.currentCredits,
+      createdAt: userTable.createdAt,
+    })
+    .from(userTable)
+    .orderBy(...getUserFiltersOrderBy(filters))
+
+  if (ids) {
+    for (let index = 0; index < ids.length; index += EXPORT_BATCH_SIZE) {
+      yield query().where(inArray(userTable.id, ids.slice(index, index + EXPORT_BATCH_SIZE)))
+    }
+    return
+  }
+
+  const where = getUserFiltersWhere(filters)
+
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const users = await query().where(where).limit(EXPORT_BATCH_SIZE).offset(offset)
+
+    if (!users.length) return
+
+    yield users
+  }
+}
+
+// Streams the users of the admin users table that match its filters as CSV
+export async function GET(request: Request) {
+  const session = await getSessionFromCookie()
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  if (session.user.role !== ROLES_ENUM.ADMIN) {
+    return NextResponse.json({ error: "Forbidden" }, { status: 403 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const filters = userFiltersSchema.parse(Object.fromEntries(searchParams))
+  const ids = searchParams.get("ids")?.split(",").filter(Boolean)
+  const batches = getUserBatches(filters, ids)
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(toCsvRow(CSV_HEADER)))
+    },
+    async pull(controller) {
+      const { value: users, done } = await batches.next()
+
+      if (done) {
+        controller.close()
+        return
+      }
+
+      const passkeys = await getDB()
+        .selectDistinct({ userId: passKeyCredentialTable.userId })
+        .from(passKeyCredentialTable)
+        .where(inArray(passKeyCredentialTable.userId, users.map((user) => user.id)))
+      const usersWithPasskeys = new Set(passkeys.map(({ userId }) => userId))
+
+      controller.enqueue(encoder.encode(users.map((user) => toCsvRow([
+        user.id,
+        user.email,
+        user.firstName,
+        user.lastName,
+        user.role,
+        user.emailVerified,
+        user.bannedAt,
+        [
+          user.passwordHash && "password",
+          user.googleAccountId && "google",
+          usersWithPasskeys.has(user.id) && "passkey",
+        ].filter(Boolean).join(" "),
+        user.currentCredits,
+        user.createdAt,
+      ])).join("")))
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="users-${new Date().toISOString().slice(0, 10)}.csv"`,
+      "Cache-Control": "private, no-store",
+    },
+  })
+}
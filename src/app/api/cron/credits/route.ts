@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server"
+import { tryCatch } from "@/lib/try-catch"
+import { processAllExpiredCredits } from "@/utils/credits"
+import { sendCreditExpiryWarnings } from "@/utils/credit-expiry"
+import { releaseExpiredReservations } from "@/utils/metering"
+import { releaseExpiredPromoCodeClaims } from "@/utils/promo-codes"
+import { sendAffordableWishlistNotifications } from "@/utils/wishlist"
+
+// Called by the Cron Trigger in custom-worker.ts
+export async function POST(request: Request) {
+  if (!process.env.CRON_SECRET || request.headers.get("authorization") !== `Bearer ${process.env.CRON_SECRET}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const { data, error } = await tryCatch((async () => {
+    const expiredWallets = await processAllExpiredCredits()
+    const expiryWarnings = await sendCreditExpiryWarnings()
+    await releaseExpiredReservations()
+    const releasedPromoCodeClaims = await releaseExpiredPromoCodeClaims()
+    const wishlistNotifications = await sendAffordableWishlistNotifications()
+
+    return { expiredWallets, expiryWarnings, releasedPromoCodeClaims, wishlistNotifications }
+  })())
+
+  if (error) {
+    console.error("Credits cron job failed:", error)
+    return NextResponse.json({ error: "Cron job failed" }, { status: 500 })
+  }
+
+  return NextResponse.json(data)
+}
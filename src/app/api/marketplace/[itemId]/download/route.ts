@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server"
+import { eq } from "drizzle-orm"
+import { getDB } from "@/db"
+import { marketplaceItemTable } from "@/db/schema"
+import { getSessionFromCookie } from "@/utils/auth"
+import { getEntitledPurchase, recordMarketplaceItemDownload, type PurchasableItemType } from "@/utils/marketplace"
+import { getMarketplaceItemSource } from "@/utils/marketplace-sources"
+
+interface DownloadRouteContext {
+  params: Promise<{
+    itemId: string
+  }>
+}
+
+// Streams the source file of a marketplace item to a user who owns it
+export async function GET(_request: Request, { params }: DownloadRouteContext) {
+  const { itemId } = await params
+  const session = await getSessionFromCookie()
+
+  if (!session) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  const item = await getDB().query.marketplaceItemTable.findFirst({
+    where: eq(marketplaceItemTable.id, itemId),
+  })
+
+  if (!item) {
+    return NextResponse.json({ error: "Item not found" }, { status: 404 })
+  }
+
+  const purchase = await getEntitledPurchase(session.userId, item.type as PurchasableItemType, item.slug)
+
+  if (!purchase) {
+    return NextResponse.json({ error: "You don't own this item" }, { status: 403 })
+  }
+
+  const source = await getMarketplaceItemSource(item)
+
+  if (!source) {
+    return NextResponse.json({ error: "This item has no download" }, { status: 404 })
+  }
+
+  await recordMarketplaceItemDownload(purchase.id)
+
+  const fileName = item.sourceFileName ?? source.key.split("/").pop()!
+
+  return new Response(source.body, {
+    headers: {
+      "Content-Type": source.httpMetadata?.contentType ?? "application/octet-stream",
+      "Content-Length": source.size.toString(),
+      "Content-Disposition": `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      "Cache-Control": "private, no-store",
+      "ETag": source.httpEtag,
+    },
+  })
+}
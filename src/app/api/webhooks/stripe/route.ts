@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server"
+import { tryCatch } from "@/lib/try-catch"
+import { constructStripeWebhookEvent } from "@/lib/stripe"
+import { handleStripeWebhookEvent } from "@/utils/stripe-webhook"
+
+export async function POST(request: Request) {
+  const signature = request.headers.get("stripe-signature")
+
+  if (!signature) {
+    return NextResponse.json({ error: "Missing stripe-signature header" }, { status: 400 })
+  }
+
+  // The signature is computed over the raw body, so it must be read as text before parsing
+  const payload = await request.text()
+  const { data: event, error: verificationError } = await tryCatch(
+    constructStripeWebhookEvent({ payload, signature })
+  )
+
+  if (verificationError) {
+    console.error("Stripe webhook signature verification failed:", verificationError)
+    return NextResponse.json({ error: "Invalid signature" }, { status: 400 })
+  }
+
+  const { error } = await tryCatch(handleStripeWebhookEvent(event))
+
+  if (error) {
+    console.error(`Failed to handle Stripe event ${event.id} (${event.type}):`, error)
+    // A non-2xx response makes Stripe retry the delivery later
+    return NextResponse.json({ error: "Failed to handle event" }, { status: 500 })
+  }
+
+  return NextResponse.json({ received: true })
+}
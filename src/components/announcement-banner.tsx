@@ -0,0 +1,65 @@
+"use client"
+
+import { useState } from "react"
+import { toast } from "sonner"
+import { useServerAction } from "zsa-react"
+import { Info, TriangleAlert, Wrench, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { dismissAnnouncementAction } from "@/actions/announcements.action"
+
+const ANNOUNCEMENT_STYLES = {
+  info: { icon: Info, className: "bg-blue-600 text-white" },
+  warning: { icon: TriangleAlert, className: "bg-amber-500 text-black" },
+  maintenance: { icon: Wrench, className: "bg-red-600 text-white" },
+} as const
+
+interface AnnouncementBannerProps {
+  announcementId: string
+  type: string
+  title: string
+  message: string | null
+  dismissible: boolean
+}
+
+export function AnnouncementBanner({ announcementId, type, title, message, dismissible }: AnnouncementBannerProps) {
+  const [isDismissed, setIsDismissed] = useState(false)
+  const { icon: Icon, className } = ANNOUNCEMENT_STYLES[type as keyof typeof ANNOUNCEMENT_STYLES] ?? ANNOUNCEMENT_STYLES.info
+
+  const { execute, isPending } = useServerAction(dismissAnnouncementAction, {
+    onError: (error) => {
+      // Show it again, it would come back on the next page anyway
+      setIsDismissed(false)
+      toast.error(error.err?.message || "Failed to close the announcement")
+    },
+  })
+
+  if (isDismissed) {
+    return null
+  }
+
+  return (
+    <div role="status" className={cn("flex items-start justify-center gap-3 px-4 py-2 text-sm", className)}>
+      <Icon className="mt-0.5 h-4 w-4 shrink-0" />
+      <div className="flex-1 text-center sm:flex-none">
+        <span className="font-medium">{title}</span>
+        {message && <span className="ml-2 opacity-90">{message}</span>}
+      </div>
+      {dismissible && (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-5 w-5 shrink-0 text-current hover:bg-black/10 hover:text-current"
+          aria-label="Close announcement"
+          disabled={isPending}
+          onClick={() => {
+            setIsDismissed(true)
+            execute({ announcementId })
+          }}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
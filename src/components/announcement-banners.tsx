@@ -0,0 +1,29 @@
+import "server-only";
+
+import { getAnnouncementsForViewer } from "@/utils/announcements";
+import { tryCatch } from "@/lib/try-catch";
+import { AnnouncementBanner } from "./announcement-banner";
+
+// Announcements created by admins in /admin/announcements, shown above the dashboard and the marketing pages
+export async function AnnouncementBanners() {
+  const { data: announcements } = await tryCatch(getAnnouncementsForViewer());
+
+  if (!announcements?.length) {
+    return null;
+  }
+
+  return (
+    <div className="print:hidden">
+      {announcements.map((announcement) => (
+        <AnnouncementBanner
+          key={announcement.id}
+          announcementId={announcement.id}
+          type={announcement.type}
+          title={announcement.title}
+          message={announcement.message}
+          dismissible={Boolean(announcement.dismissible)}
+        />
+      ))}
+    </div>
+  );
+}
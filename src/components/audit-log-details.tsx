@@ -0,0 +1,44 @@
+import type { AuditLogMetadata } from "@/db/schema"
+import type { AuditLogAction } from "@/utils/audit-log"
+
+export const AUDIT_LOG_ACTION_LABELS: Record<AuditLogAction, string> = {
+  "team.member_role_updated": "Member role changed",
+  "team.member_removed": "Member removed",
+  "team.deleted": "Team deleted",
+  "passkey.deleted": "Passkey deleted",
+  "session.revoked": "Session revoked",
+  "credits.purchased": "Credits purchased",
+  "credits.transferred": "Credits transferred",
+  "admin.user_impersonated": "Admin impersonated user",
+  "admin.user_banned": "Admin banned user",
+  "admin.user_unbanned": "Admin unbanned user",
+  "admin.user_email_verified": "Admin verified email",
+  "admin.user_role_updated": "Admin changed user role",
+  "admin.user_credits_reset": "Admin reset credits",
+  "admin.user_deleted": "Admin deleted user",
+  "admin.team_ownership_transferred": "Admin transferred ownership",
+  "admin.team_limits_updated": "Admin changed team limits",
+  "admin.team_deleted": "Admin deleted team",
+  "admin.team_restored": "Admin restored team",
+}
+
+export function AuditLogMetadataList({ metadata }: { metadata: AuditLogMetadata | null }) {
+  const entries = Object.entries(metadata ?? {})
+
+  if (!entries.length) {
+    return <span className="text-muted-foreground">-</span>
+  }
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-2 text-xs">
+      {entries.map(([key, value]) => (
+        <div key={key} className="contents">
+          <dt className="text-muted-foreground">{key}</dt>
+          <dd className="font-mono break-all">
+            {Array.isArray(value) ? value.join(", ") : value === null ? "-" : String(value)}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
@@ -2,7 +2,10 @@
 
 import * as React from "react"
 import {
+  Column,
   ColumnDef,
+  OnChangeFn,
+  RowSelectionState,
   SortingState,
   VisibilityState,
   flexRender,
@@ -33,7 +36,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ChevronDown } from "lucide-react"
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, ChevronDown } from "lucide-react"
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[]
@@ -47,6 +50,38 @@ interface DataTableProps<TData, TValue> {
   itemNameSingular: string
   itemNamePlural: string
   pageSizeOptions?: number[]
+  // Sorting done by the server, the current page is sorted in the browser otherwise
+  sorting?: SortingState
+  onSortingChange?: (sorting: SortingState) => void
+  // Selected rows by their ID, kept by the parent so the selection survives page changes
+  rowSelection?: RowSelectionState
+  onRowSelectionChange?: (rowSelection: RowSelectionState) => void
+  getRowId?: (row: TData) => string
+}
+
+/**
+ * A column header that toggles the sorting of its column
+ */
+export function DataTableColumnHeader<TData, TValue>({ column, title }: { column: Column<TData, TValue>; title: string }) {
+  const sorted = column.getIsSorted()
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="-ml-3 h-8"
+      onClick={() => column.toggleSorting(sorted === "asc")}
+    >
+      {title}
+      {sorted === "asc" ? (
+        <ArrowUp className="ml-2 h-4 w-4" />
+      ) : sorted === "desc" ? (
+        <ArrowDown className="ml-2 h-4 w-4" />
+      ) : (
+        <ArrowUpDown className="ml-2 h-4 w-4" />
+      )}
+    </Button>
+  )
 }
 
 export function DataTable<TData, TValue>({
@@ -61,21 +96,51 @@ export function DataTable<TData, TValue>({
   itemNameSingular,
   itemNamePlural,
   pageSizeOptions = [10, 20, 100],
+  sorting: controlledSorting,
+  onSortingChange,
+  rowSelection: controlledRowSelection,
+  onRowSelectionChange,
+  getRowId,
 }: DataTableProps<TData, TValue>) {
-  const [sorting, setSorting] = React.useState<SortingState>([])
+  const [localSorting, setLocalSorting] = React.useState<SortingState>([])
   const [columnVisibility, setColumnVisibility] = React.useState<VisibilityState>({})
-  const [rowSelection, setRowSelection] = React.useState({})
+  const [localRowSelection, setLocalRowSelection] = React.useState<RowSelectionState>({})
+
+  const sorting = controlledSorting ?? localSorting
+  const rowSelection = controlledRowSelection ?? localRowSelection
+
+  const handleSortingChange: OnChangeFn<SortingState> = (updater) => {
+    const nextSorting = typeof updater === "function" ? updater(sorting) : updater
+
+    if (onSortingChange) {
+      onSortingChange(nextSorting)
+    } else {
+      setLocalSorting(nextSorting)
+    }
+  }
+
+  const handleRowSelectionChange: OnChangeFn<RowSelectionState> = (updater) => {
+    const nextRowSelection = typeof updater === "function" ? updater(rowSelection) : updater
+
+    if (onRowSelectionChange) {
+      onRowSelectionChange(nextRowSelection)
+    } else {
+      setLocalRowSelection(nextRowSelection)
+    }
+  }
 
   const table = useReactTable({
     data,
     columns,
     pageCount,
     manualPagination: true,
-    onSortingChange: setSorting,
+    manualSorting: !!onSortingChange,
+    onSortingChange: handleSortingChange,
     getCoreRowModel: getCoreRowModel(),
     getSortedRowModel: getSortedRowModel(),
+    getRowId,
     onColumnVisibilityChange: setColumnVisibility,
-    onRowSelectionChange: setRowSelection,
+    onRowSelectionChange: handleRowSelectionChange,
     state: {
       sorting,
       columnVisibility,
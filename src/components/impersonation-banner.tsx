@@ -0,0 +1,30 @@
+import "server-only";
+
+import { UserCog } from "lucide-react";
+import { getSessionFromCookie } from "@/utils/auth";
+import { tryCatch } from "@/lib/try-catch";
+import { StopImpersonatingButton } from "./stop-impersonating-button";
+
+// Shown on every page while an admin is signed in as another user
+export async function ImpersonationBanner() {
+  const { data: session } = await tryCatch(getSessionFromCookie());
+
+  if (!session?.impersonation) {
+    return null;
+  }
+
+  const name = [session.user.firstName, session.user.lastName].filter(Boolean).join(" ");
+
+  return (
+    <div className="sticky top-0 z-[100] flex flex-wrap items-center justify-center gap-x-4 gap-y-2 bg-amber-500 px-4 py-2 text-sm font-medium text-black print:hidden">
+      <div className="flex items-center gap-2">
+        <UserCog className="h-4 w-4" />
+        <span>
+          You are signed in as {name ? `${name} (${session.user.email})` : session.user.email}.
+          Everything you do is done as this user.
+        </span>
+      </div>
+      <StopImpersonatingButton />
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+"use client"
+
+import * as React from "react"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import PurchaseBundleButton from "@/components/purchase-bundle-button"
+import type { PURCHASABLE_ITEM_TYPE } from "@/db/schema"
+import { Badge } from "@/components/ui/badge"
+import { Check } from "lucide-react"
+
+interface MarketplaceBundleCardProps {
+  id: string
+  name: string
+  description: string
+  items: {
+    id: string
+    type: keyof typeof PURCHASABLE_ITEM_TYPE
+    name: string
+    isPurchased: boolean
+  }[]
+  // What the items that aren't owned yet would cost when bought one by one
+  regularPrice: number
+  // The bundle price prorated to the items that aren't owned yet
+  credits: number
+  teamId?: string
+}
+
+export function MarketplaceBundleCard({ id, name, description, items, regularPrice, credits, teamId }: MarketplaceBundleCardProps) {
+  const isPurchased = items.every((item) => item.isPurchased)
+  const savings = regularPrice ? Math.round((1 - credits / regularPrice) * 100) : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>{name}</CardTitle>
+          {isPurchased && (
+            <Badge variant="secondary">Purchased</Badge>
+          )}
+        </div>
+        <Badge variant="outline" className="w-fit">Bundle of {items.length}</Badge>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="bg-muted/50 p-6">
+        <ul className="space-y-2 text-sm">
+          {items.map((item) => (
+            <li key={item.id} className="flex items-center justify-between gap-2">
+              <span className={item.isPurchased ? "text-muted-foreground" : undefined}>{item.name}</span>
+              {item.isPurchased ? (
+                <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Check className="h-3 w-3" />
+                  Owned
+                </span>
+              ) : (
+                <span className="text-xs text-muted-foreground capitalize">{item.type.toLowerCase()}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+      <CardFooter className="flex justify-between mt-4">
+        {isPurchased ? (
+          <div className="text-sm text-muted-foreground">You own every item of this bundle</div>
+        ) : (
+          <>
+            <div>
+              <div className="text-md lg:text-2xl font-bold">{credits} credits</div>
+              {savings > 0 && (
+                <div className="text-xs text-muted-foreground">Save {savings}%</div>
+              )}
+            </div>
+            <PurchaseBundleButton bundleId={id} teamId={teamId} />
+          </>
+        )}
+      </CardFooter>
+    </Card>
+  )
+}
@@ -3,24 +3,37 @@
 import * as React from "react"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
 import PurchaseButton from "@/components/purchase-button"
+import RefundPurchaseButton from "@/components/refund-purchase-button"
 import type { PURCHASABLE_ITEM_TYPE } from "@/db/schema"
 import { Badge } from "@/components/ui/badge"
-import { COMPONENTS } from "@/app/(dashboard)/dashboard/marketplace/components-catalog"
+import { Button } from "@/components/ui/button"
+import { Download } from "lucide-react"
+import { MarketplaceReviewsDialog } from "@/components/marketplace-reviews-dialog"
+import WishlistButton from "@/components/wishlist-button"
+import { ITEM_PREVIEWS } from "@/app/(dashboard)/dashboard/marketplace/components-catalog"
 
 interface MarketplaceCardProps {
   id: string
+  type: keyof typeof PURCHASABLE_ITEM_TYPE
+  slug: string
   name: string
   description: string
   credits: number
-  containerClass?: string
   isPurchased: boolean
+  teamId?: string
+  // Set when the item has a source file the owner can download
+  downloadHref?: string
+  // Unset when the item has no reviews yet
+  rating?: {
+    average: number
+    count: number
+  }
+  // Unset when the wishlist isn't available, like when paying with team credits
+  isWishlisted?: boolean
 }
 
-const ITEM_TYPE = 'COMPONENT' as const satisfies keyof typeof PURCHASABLE_ITEM_TYPE;
-
-export function MarketplaceCard({ id, name, description, credits, containerClass, isPurchased }: MarketplaceCardProps) {
-  const component = COMPONENTS.find(c => c.id === id);
-  if (!component) return null;
+export function MarketplaceCard({ id, type, slug, name, description, credits, isPurchased, teamId, downloadHref, rating, isWishlisted }: MarketplaceCardProps) {
+  const itemPreview = ITEM_PREVIEWS[type]?.[slug];
 
   return (
     <Card>
@@ -30,20 +43,46 @@ export function MarketplaceCard({ id, name, description, credits, containerClass
           {isPurchased && (
             <Badge variant="secondary">Purchased</Badge>
           )}
+          {!isPurchased && isWishlisted !== undefined && (
+            <WishlistButton itemId={id} isWishlisted={isWishlisted} />
+          )}
         </div>
+        <Badge variant="outline" className="w-fit capitalize">{type.toLowerCase()}</Badge>
         <CardDescription>{description}</CardDescription>
+        <MarketplaceReviewsDialog itemId={id} name={name} rating={rating} />
       </CardHeader>
       <CardContent className="flex justify-center bg-muted/50 p-6">
-        <div className={containerClass}>
-          {component.preview()}
-        </div>
+        {itemPreview ? (
+          <div className={itemPreview.containerClass}>
+            {itemPreview.preview()}
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">No preview available</div>
+        )}
       </CardContent>
       <CardFooter className="flex justify-between mt-4">
         <div className="text-md lg:text-2xl font-bold">{credits} credits</div>
-        {!isPurchased && (
+        {isPurchased ? (
+          <div className="flex items-center gap-2">
+            {downloadHref && (
+              <Button asChild variant="outline" size="sm">
+                <a href={downloadHref}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download
+                </a>
+              </Button>
+            )}
+            <RefundPurchaseButton
+              itemId={slug}
+              itemType={type}
+              teamId={teamId}
+            />
+          </div>
+        ) : (
           <PurchaseButton
-            itemId={id}
-            itemType={ITEM_TYPE}
+            itemId={slug}
+            itemType={type}
+            teamId={teamId}
           />
         )}
       </CardFooter>
@@ -0,0 +1,133 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import type { Route } from "next"
+import { Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { MarketplaceFilters, MarketplaceSort } from "@/schemas/marketplace-filters.schema"
+
+const ALL_ITEMS = "all"
+
+const SORT_LABELS: Record<MarketplaceSort, string> = {
+  featured: "Featured",
+  newest: "Newest",
+  "price-asc": "Price: low to high",
+  "price-desc": "Price: high to low",
+  popular: "Most popular",
+}
+
+interface MarketplaceFilterBarProps {
+  filters: MarketplaceFilters
+  // Filters of the page that the bar doesn't change, like the team or the item type
+  preservedParams: Record<string, string>
+  // Filters by what the team owns instead of the user
+  isTeam: boolean
+}
+
+export function MarketplaceFilterBar({ filters, preservedParams, isTeam }: MarketplaceFilterBarProps) {
+  const router = useRouter()
+  const [search, setSearch] = useState(filters.q ?? "")
+  const [minPrice, setMinPrice] = useState(filters.minPrice?.toString() ?? "")
+  const [maxPrice, setMaxPrice] = useState(filters.maxPrice?.toString() ?? "")
+  const [owned, setOwned] = useState<string>(filters.owned ?? ALL_ITEMS)
+  const [sort, setSort] = useState<MarketplaceSort>(filters.sort)
+
+  // Only the filters that are set end up in the URL, so filtered views can be shared
+  const applyFilters = (changes: { owned?: string; sort?: MarketplaceSort } = {}) => {
+    const params = new URLSearchParams(preservedParams)
+    const nextOwned = changes.owned ?? owned
+    const nextSort = changes.sort ?? sort
+
+    if (search.trim()) params.set("q", search.trim())
+    if (minPrice) params.set("minPrice", minPrice)
+    if (maxPrice) params.set("maxPrice", maxPrice)
+    if (nextOwned !== ALL_ITEMS) params.set("owned", nextOwned)
+    if (nextSort !== "featured") params.set("sort", nextSort)
+
+    router.push((params.size ? `/dashboard/marketplace?${params}` : "/dashboard/marketplace") as Route)
+  }
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        applyFilters()
+      }}
+      className="flex flex-col gap-3 lg:flex-row lg:items-center mb-6"
+    >
+      <div className="relative flex-1">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          placeholder="Search the marketplace"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="pl-9"
+          maxLength={100}
+        />
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          step={1}
+          placeholder="Min credits"
+          value={minPrice}
+          onChange={(e) => setMinPrice(e.target.value)}
+          className="w-32"
+        />
+        <span className="text-muted-foreground">-</span>
+        <Input
+          type="number"
+          min={0}
+          step={1}
+          placeholder="Max credits"
+          value={maxPrice}
+          onChange={(e) => setMaxPrice(e.target.value)}
+          className="w-32"
+        />
+      </div>
+      <Select
+        value={owned}
+        onValueChange={(value) => {
+          setOwned(value)
+          applyFilters({ owned: value })
+        }}
+      >
+        <SelectTrigger className="lg:w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_ITEMS}>All items</SelectItem>
+          <SelectItem value="owned">{isTeam ? "Owned by the team" : "Owned"}</SelectItem>
+          <SelectItem value="not-owned">Not owned</SelectItem>
+        </SelectContent>
+      </Select>
+      <Select
+        value={sort}
+        onValueChange={(value) => {
+          setSort(value as MarketplaceSort)
+          applyFilters({ sort: value as MarketplaceSort })
+        }}
+      >
+        <SelectTrigger className="lg:w-48">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(SORT_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button type="submit" variant="secondary">Apply</Button>
+    </form>
+  )
+}
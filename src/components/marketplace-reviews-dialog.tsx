@@ -0,0 +1,164 @@
+"use client"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useServerAction } from "zsa-react"
+import { toast } from "sonner"
+import { format } from "date-fns"
+import { Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import {
+  getMarketplaceReviewsAction,
+  submitMarketplaceReviewAction,
+} from "@/app/(dashboard)/dashboard/marketplace/review.action"
+import { MAX_MARKETPLACE_REVIEW_LENGTH } from "@/schemas/marketplace-review.schema"
+
+function StarRating({ rating, onChange, className }: { rating: number; onChange?: (rating: number) => void; className?: string }) {
+  return (
+    <div className={cn("flex items-center gap-0.5", className)}>
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = (
+          <Star
+            className={cn(
+              "h-4 w-4",
+              star <= Math.round(rating) ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground/40"
+            )}
+          />
+        )
+
+        return onChange ? (
+          <button key={star} type="button" onClick={() => onChange(star)} aria-label={`${star} stars`}>
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        )
+      })}
+    </div>
+  )
+}
+
+interface MarketplaceReviewsDialogProps {
+  itemId: string
+  name: string
+  rating?: {
+    average: number
+    count: number
+  }
+}
+
+export function MarketplaceReviewsDialog({ itemId, name, rating }: MarketplaceReviewsDialogProps) {
+  const router = useRouter()
+  const [newRating, setNewRating] = useState(0)
+  const [body, setBody] = useState("")
+
+  const { execute: loadReviews, data, isPending: isLoading } = useServerAction(getMarketplaceReviewsAction, {
+    onSuccess: ({ data }) => {
+      setNewRating(data.ownReview?.rating ?? 0)
+      setBody(data.ownReview?.body ?? "")
+    },
+    onError: ({ err }) => {
+      toast.error(err.message || "Failed to load the reviews")
+    },
+  })
+
+  const { execute: submitReview, isPending: isSubmitting } = useServerAction(submitMarketplaceReviewAction, {
+    onSuccess: () => {
+      toast.success(data?.ownReview ? "Review updated" : "Thanks for your review!")
+      loadReviews({ itemId })
+      router.refresh()
+    },
+    onError: ({ err }) => {
+      toast.error(err.message || "Failed to save the review")
+    },
+  })
+
+  return (
+    <Dialog onOpenChange={(open) => open && loadReviews({ itemId })}>
+      <DialogTrigger asChild>
+        <button type="button" className="flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <StarRating rating={rating?.average ?? 0} />
+          {rating ? `${rating.average.toFixed(1)} (${rating.count})` : "No reviews yet"}
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reviews of {name}</DialogTitle>
+          <DialogDescription>
+            {rating
+              ? `Rated ${rating.average.toFixed(1)} out of 5 by ${rating.count === 1 ? "1 owner" : `${rating.count} owners`}.`
+              : "Only owners of the item can review it."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && !data ? (
+          <div className="space-y-4">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {data?.canReview && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  submitReview({ itemId, rating: newRating, body })
+                }}
+                className="space-y-3 rounded-md border p-4"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">{data.ownReview ? "Your review" : "Write a review"}</span>
+                  <StarRating rating={newRating} onChange={setNewRating} />
+                </div>
+                {data.ownReview?.isHidden && (
+                  <p className="text-sm text-orange-500">Your review was hidden by an admin.</p>
+                )}
+                <Textarea
+                  rows={3}
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  maxLength={MAX_MARKETPLACE_REVIEW_LENGTH}
+                  placeholder="What did you like or dislike?"
+                />
+                <Button type="submit" size="sm" disabled={isSubmitting || !newRating || !body.trim()}>
+                  {isSubmitting ? "Saving..." : data.ownReview ? "Update review" : "Submit review"}
+                </Button>
+              </form>
+            )}
+
+            {data?.reviews.length ? (
+              <ul className="space-y-4">
+                {data.reviews.map((review) => (
+                  <li key={review.id} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium">
+                        {review.reviewerName}
+                        {review.isOwn && <span className="ml-1 text-muted-foreground font-normal">(you)</span>}
+                      </span>
+                      <StarRating rating={review.rating} />
+                    </div>
+                    <p className="text-sm whitespace-pre-line">{review.body}</p>
+                    <p className="text-xs text-muted-foreground">{format(new Date(review.createdAt), "MMM d, yyyy")}</p>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nobody has reviewed this item yet.</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,44 @@
+"use client"
+
+import { toast } from "sonner"
+import ShinyButton from "@/components/ui/shiny-button"
+import { useServerAction } from "zsa-react"
+import { purchaseBundleAction } from "@/app/(dashboard)/dashboard/marketplace/purchase.action"
+import { useRouter } from "next/navigation"
+
+interface PurchaseBundleButtonProps {
+  bundleId: string
+  // Buys the bundle with the team's credits
+  teamId?: string
+}
+
+export default function PurchaseBundleButton({ bundleId, teamId }: PurchaseBundleButtonProps) {
+  const router = useRouter()
+
+  const { execute: handlePurchase, isPending } = useServerAction(purchaseBundleAction, {
+    onError: (error) => {
+      toast.dismiss();
+      toast.error(error.err?.message || "Failed to purchase bundle")
+    },
+    onStart: () => {
+      toast.loading("Processing purchase...")
+    },
+    onSuccess: ({ data }) => {
+      toast.dismiss()
+      toast.success(`Bundle purchased for ${data.credits} credits!`)
+    },
+  })
+
+  return (
+    <ShinyButton
+      onClick={() => {
+        handlePurchase({ bundleId, teamId }).then(() => {
+          router.refresh()
+        })
+      }}
+      disabled={isPending}
+    >
+      {isPending ? "Processing..." : "Purchase bundle"}
+    </ShinyButton>
+  )
+}
@@ -10,9 +10,11 @@ import { useRouter } from "next/navigation"
 interface PurchaseButtonProps {
   itemId: string
   itemType: keyof typeof PURCHASABLE_ITEM_TYPE
+  // Buys the item with the team's credits
+  teamId?: string
 }
 
-export default function PurchaseButton({ itemId, itemType }: PurchaseButtonProps) {
+export default function PurchaseButton({ itemId, itemType, teamId }: PurchaseButtonProps) {
   const router = useRouter()
 
   const { execute: handlePurchase, isPending } = useServerAction(purchaseAction, {
@@ -32,7 +34,7 @@ export default function PurchaseButton({ itemId, itemType }: PurchaseButtonProps
   return (
     <ShinyButton
       onClick={() => {
-        handlePurchase({ itemId, itemType }).then(() => {
+        handlePurchase({ itemId, itemType, teamId }).then(() => {
           router.refresh()
         })
       }}
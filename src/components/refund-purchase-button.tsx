@@ -0,0 +1,48 @@
+"use client"
+
+import { toast } from "sonner"
+import { Button } from "@/components/ui/button"
+import { useServerAction } from "zsa-react"
+import { refundPurchaseAction } from "@/app/(dashboard)/dashboard/marketplace/purchase.action"
+import type { PURCHASABLE_ITEM_TYPE } from "@/db/schema"
+import { useRouter } from "next/navigation"
+
+interface RefundPurchaseButtonProps {
+  itemId: string
+  itemType: keyof typeof PURCHASABLE_ITEM_TYPE
+  // Refunds an item that was bought with the team's credits
+  teamId?: string
+}
+
+export default function RefundPurchaseButton({ itemId, itemType, teamId }: RefundPurchaseButtonProps) {
+  const router = useRouter()
+
+  const { execute: handleRefund, isPending } = useServerAction(refundPurchaseAction, {
+    onError: (error) => {
+      toast.dismiss()
+      toast.error(error.err?.message || "Failed to refund purchase")
+    },
+    onStart: () => {
+      toast.loading("Processing refund...")
+    },
+    onSuccess: ({ data }) => {
+      toast.dismiss()
+      toast.success(`Refunded ${data.refundedCredits} credits`)
+    },
+  })
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => {
+        handleRefund({ itemId, itemType, teamId }).then(() => {
+          router.refresh()
+        })
+      }}
+      disabled={isPending}
+    >
+      {isPending ? "Processing..." : "Refund"}
+    </Button>
+  )
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import { toast } from "sonner"
+import { useServerAction } from "zsa-react"
+import { Button } from "@/components/ui/button"
+import { stopImpersonatingAction } from "@/actions/impersonation.action"
+import { useSessionStore } from "@/state/session"
+
+export function StopImpersonatingButton() {
+  const { clearSession } = useSessionStore()
+
+  const { execute, isPending } = useServerAction(stopImpersonatingAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to stop impersonating")
+    },
+    onSuccess: ({ data }) => {
+      clearSession()
+      // A full navigation reloads the session of the admin everywhere
+      window.location.assign(data.isAdminSignedIn ? `/admin/users/${data.userId}` : "/sign-in")
+    },
+  })
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      className="h-7 border-black/40 bg-transparent text-black hover:bg-black/10"
+      onClick={() => execute()}
+      disabled={isPending}
+    >
+      {isPending ? "Exiting..." : "Exit impersonation"}
+    </Button>
+  )
+}
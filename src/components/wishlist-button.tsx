@@ -0,0 +1,51 @@
+"use client"
+
+import { toast } from "sonner"
+import { Heart } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useServerAction } from "zsa-react"
+import { addToWishlistAction, removeFromWishlistAction } from "@/app/(dashboard)/dashboard/marketplace/wishlist.action"
+import { useRouter } from "next/navigation"
+import { cn } from "@/lib/utils"
+
+interface WishlistButtonProps {
+  itemId: string
+  isWishlisted: boolean
+}
+
+export default function WishlistButton({ itemId, isWishlisted }: WishlistButtonProps) {
+  const router = useRouter()
+
+  const { execute: addToWishlist, isPending: isAdding } = useServerAction(addToWishlistAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to add the item to your wishlist")
+    },
+    onSuccess: () => {
+      toast.success("Added to your wishlist. We'll email you when it gets cheaper or you can afford it.")
+      router.refresh()
+    },
+  })
+
+  const { execute: removeFromWishlist, isPending: isRemoving } = useServerAction(removeFromWishlistAction, {
+    onError: (error) => {
+      toast.error(error.err?.message || "Failed to remove the item from your wishlist")
+    },
+    onSuccess: () => {
+      toast.success("Removed from your wishlist")
+      router.refresh()
+    },
+  })
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      aria-label={isWishlisted ? "Remove from wishlist" : "Add to wishlist"}
+      aria-pressed={isWishlisted}
+      onClick={() => (isWishlisted ? removeFromWishlist : addToWishlist)({ itemId })}
+      disabled={isAdding || isRemoving}
+    >
+      <Heart className={cn("h-4 w-4", isWishlisted && "fill-current text-red-500")} />
+    </Button>
+  )
+}
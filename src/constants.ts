@@ -9,11 +9,15 @@ export const SITE_DOMAIN = new URL(SITE_URL).hostname
 export const PASSWORD_RESET_TOKEN_EXPIRATION_SECONDS = 24 * 60 * 60 // 24 hours
 export const EMAIL_VERIFICATION_TOKEN_EXPIRATION_SECONDS = 24 * 60 * 60 // 24 hours
 export const MAX_SESSIONS_PER_USER = 5;
-export const MAX_TEAMS_CREATED_PER_USER = 3;
 export const MAX_TEAMS_JOINED_PER_USER = 10;
 export const SESSION_COOKIE_NAME = "session";
+// Holds the admin's own session while they are signed in as another user
+export const IMPERSONATOR_SESSION_COOKIE_NAME = "impersonator-session";
+export const IMPERSONATION_SESSION_LENGTH_MINUTES = 60;
 export const GOOGLE_OAUTH_STATE_COOKIE_NAME = "google-oauth-state";
 export const GOOGLE_OAUTH_CODE_VERIFIER_COOKIE_NAME = "google-oauth-code-verifier";
+// IDs of the announcements a signed-out visitor closed
+export const DISMISSED_ANNOUNCEMENTS_COOKIE_NAME = "dismissed-announcements";
 
 export const CREDIT_PACKAGES = [
   { id: "package-1", credits: 500, price: 5 },
@@ -22,7 +26,48 @@ export const CREDIT_PACKAGES = [
 ] as const;
 
 export const CREDITS_EXPIRATION_YEARS = 2;
+// Owners of purchased credits are emailed this many days before the credits expire
+export const CREDITS_EXPIRATION_WARNING_DAYS = 14;
+// Credit package prices include tax, receipts show the included tax at this rate
+export const RECEIPT_TAX_RATE_PERCENT = 0;
+export const MARKETPLACE_REFUND_WINDOW_DAYS = 14;
 
-export const FREE_MONTHLY_CREDITS = CREDIT_PACKAGES[0].credits * 0.1;
+export const PLANS = [
+  {
+    id: "free",
+    name: "Free",
+    price: 0,
+    monthlyCredits: CREDIT_PACKAGES[0].credits * 0.1,
+    limits: { maxTeamsCreated: 3, maxTeamMembers: 5 },
+  },
+  {
+    id: "pro",
+    name: "Pro",
+    price: 20,
+    monthlyCredits: 2500,
+    limits: { maxTeamsCreated: 10, maxTeamMembers: 25 },
+  },
+  {
+    id: "enterprise",
+    name: "Enterprise",
+    price: 100,
+    monthlyCredits: 15000,
+    limits: { maxTeamsCreated: 50, maxTeamMembers: 250 },
+  },
+] as const;
+
+export const DEFAULT_PLAN_ID = "free";
 export const MAX_TRANSACTIONS_PER_PAGE = 10;
+
+// Product features that are billed by usage, see src/utils/metering.ts
+export const USAGE_METERS = [
+  { id: "ai-generation", name: "AI generations", unit: "generation", creditsPerUnit: 10 },
+  { id: "api-request", name: "API requests", unit: "request", creditsPerUnit: 1 },
+  { id: "export", name: "Exports", unit: "export", creditsPerUnit: 5 },
+] as const;
+
+export const USAGE_RESERVATION_EXPIRATION_SECONDS = 60 * 60; // 1 hour
+// Discount promo codes are held for an unpaid payment intent this long
+export const PROMO_CODE_CLAIM_EXPIRATION_SECONDS = 60 * 60; // 1 hour
+export const USAGE_BREAKDOWN_DAYS = 30;
 export const REDIRECT_AFTER_SIGN_IN = "/dashboard" as Route;
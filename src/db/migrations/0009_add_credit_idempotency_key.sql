@@ -0,0 +1,2 @@
+ALTER TABLE `credit_transaction` ADD `idempotencyKey` text(255);--> statement-breakpoint
+CREATE UNIQUE INDEX `credit_transaction_idempotencyKey_unique` ON `credit_transaction` (`idempotencyKey`);
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `credit_transaction` ADD `relatedTransactionId` text REFERENCES credit_transaction(id);--> statement-breakpoint
+ALTER TABLE `credit_transaction` ADD `allocations` text;--> statement-breakpoint
+CREATE INDEX `credit_transaction_related_transaction_id_idx` ON `credit_transaction` (`relatedTransactionId`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `credit_transaction` ADD `teamId` text REFERENCES team(id);--> statement-breakpoint
+CREATE INDEX `credit_transaction_team_id_idx` ON `credit_transaction` (`teamId`);--> statement-breakpoint
+ALTER TABLE `purchased_item` ADD `teamId` text REFERENCES team(id);--> statement-breakpoint
+CREATE INDEX `purchased_item_team_item_idx` ON `purchased_item` (`teamId`,`itemType`,`itemId`);
\ No newline at end of file
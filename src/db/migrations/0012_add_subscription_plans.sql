@@ -0,0 +1,9 @@
+ALTER TABLE `team` ADD `stripeCustomerId` text(255);--> statement-breakpoint
+ALTER TABLE `team` ADD `stripeSubscriptionId` text(255);--> statement-breakpoint
+ALTER TABLE `team` ADD `lastCreditRefreshAt` integer;--> statement-breakpoint
+CREATE INDEX `team_stripe_customer_id_idx` ON `team` (`stripeCustomerId`);--> statement-breakpoint
+ALTER TABLE `user` ADD `planId` text(100);--> statement-breakpoint
+ALTER TABLE `user` ADD `planExpiresAt` integer;--> statement-breakpoint
+ALTER TABLE `user` ADD `stripeCustomerId` text(255);--> statement-breakpoint
+ALTER TABLE `user` ADD `stripeSubscriptionId` text(255);--> statement-breakpoint
+CREATE INDEX `user_stripe_customer_id_idx` ON `user` (`stripeCustomerId`);
\ No newline at end of file
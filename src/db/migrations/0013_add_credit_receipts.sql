@@ -0,0 +1,5 @@
+ALTER TABLE `credit_transaction` ADD `packageId` text(255);--> statement-breakpoint
+ALTER TABLE `credit_transaction` ADD `amountPaid` integer;--> statement-breakpoint
+ALTER TABLE `credit_transaction` ADD `receiptSentAt` integer;--> statement-breakpoint
+-- Receipts of earlier purchases were sent when they were credited
+UPDATE `credit_transaction` SET `receiptSentAt` = `createdAt` WHERE `type` = 'PURCHASE';
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE `usage_daily` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`walletId` text NOT NULL,
+	`meterId` text(100) NOT NULL,
+	`day` text(10) NOT NULL,
+	`units` integer DEFAULT 0 NOT NULL,
+	`credits` integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `usage_daily_wallet_meter_day_idx` ON `usage_daily` (`walletId`,`meterId`,`day`);--> statement-breakpoint
+CREATE TABLE `usage_reservation` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`teamId` text,
+	`meterId` text(100) NOT NULL,
+	`units` integer NOT NULL,
+	`credits` integer NOT NULL,
+	`committedUnits` integer,
+	`status` text DEFAULT 'PENDING' NOT NULL,
+	`expiresAt` integer NOT NULL,
+	`usageTransactionId` text,
+	`idempotencyKey` text(255),
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`teamId`) REFERENCES `team`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`usageTransactionId`) REFERENCES `credit_transaction`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `usage_reservation_idempotencyKey_unique` ON `usage_reservation` (`idempotencyKey`);--> statement-breakpoint
+CREATE INDEX `usage_reservation_user_id_idx` ON `usage_reservation` (`userId`);--> statement-breakpoint
+CREATE INDEX `usage_reservation_team_id_idx` ON `usage_reservation` (`teamId`);--> statement-breakpoint
+CREATE INDEX `usage_reservation_status_expires_at_idx` ON `usage_reservation` (`status`,`expiresAt`);
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE `team` ADD `lowBalanceThreshold` integer;--> statement-breakpoint
+ALTER TABLE `team` ADD `lowBalanceAlertSentAt` integer;--> statement-breakpoint
+ALTER TABLE `team` ADD `autoTopUpPackageId` text(100);--> statement-breakpoint
+ALTER TABLE `team` ADD `stripePaymentMethodId` text(255);--> statement-breakpoint
+ALTER TABLE `user` ADD `lowBalanceThreshold` integer;--> statement-breakpoint
+ALTER TABLE `user` ADD `lowBalanceAlertSentAt` integer;--> statement-breakpoint
+ALTER TABLE `user` ADD `autoTopUpPackageId` text(100);--> statement-breakpoint
+ALTER TABLE `user` ADD `stripePaymentMethodId` text(255);
\ No newline at end of file
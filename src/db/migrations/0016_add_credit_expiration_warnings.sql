@@ -0,0 +1 @@
+ALTER TABLE `credit_transaction` ADD `expirationWarningSentAt` integer;
\ No newline at end of file
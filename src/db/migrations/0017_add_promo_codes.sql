@@ -0,0 +1,44 @@
+CREATE TABLE `promo_code_redemption` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`promoCodeId` text NOT NULL,
+	`userId` text NOT NULL,
+	`teamId` text,
+	`creditTransactionId` text,
+	`paymentIntentId` text(255),
+	`discountAmount` integer,
+	`status` text DEFAULT 'COMPLETED' NOT NULL,
+	`claimKey` text(255),
+	`expiresAt` integer,
+	FOREIGN KEY (`promoCodeId`) REFERENCES `promo_code`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`teamId`) REFERENCES `team`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`creditTransactionId`) REFERENCES `credit_transaction`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `promo_code_redemption_paymentIntentId_unique` ON `promo_code_redemption` (`paymentIntentId`);--> statement-breakpoint
+CREATE UNIQUE INDEX `promo_code_redemption_claimKey_unique` ON `promo_code_redemption` (`claimKey`);--> statement-breakpoint
+CREATE INDEX `promo_code_redemption_promo_code_user_idx` ON `promo_code_redemption` (`promoCodeId`,`userId`);--> statement-breakpoint
+CREATE INDEX `promo_code_redemption_status_expires_at_idx` ON `promo_code_redemption` (`status`,`expiresAt`);--> statement-breakpoint
+CREATE TABLE `promo_code` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`code` text(50) NOT NULL,
+	`type` text NOT NULL,
+	`credits` integer,
+	`discountPercent` integer,
+	`maxRedemptions` integer,
+	`maxRedemptionsPerUser` integer DEFAULT 1 NOT NULL,
+	`redemptionCount` integer DEFAULT 0 NOT NULL,
+	`expiresAt` integer,
+	`isActive` integer DEFAULT 1 NOT NULL,
+	`createdBy` text,
+	FOREIGN KEY (`createdBy`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `promo_code_code_unique` ON `promo_code` (`code`);--> statement-breakpoint
+CREATE INDEX `promo_code_code_idx` ON `promo_code` (`code`);
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE `credit_transfer` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`senderUserId` text NOT NULL,
+	`senderTeamId` text,
+	`recipientUserId` text,
+	`recipientTeamId` text,
+	`amount` integer NOT NULL,
+	`note` text(255),
+	`transactionId` text NOT NULL,
+	FOREIGN KEY (`senderUserId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`senderTeamId`) REFERENCES `team`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`recipientUserId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`recipientTeamId`) REFERENCES `team`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`transactionId`) REFERENCES `credit_transaction`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `credit_transfer_sender_user_id_idx` ON `credit_transfer` (`senderUserId`);--> statement-breakpoint
+CREATE INDEX `credit_transfer_sender_team_id_idx` ON `credit_transfer` (`senderTeamId`);--> statement-breakpoint
+CREATE INDEX `credit_transfer_recipient_user_id_idx` ON `credit_transfer` (`recipientUserId`);--> statement-breakpoint
+CREATE INDEX `credit_transfer_recipient_team_id_idx` ON `credit_transfer` (`recipientTeamId`);
\ No newline at end of file
@@ -0,0 +1,41 @@
+CREATE TABLE `marketplace_item_price` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`itemId` text NOT NULL,
+	`credits` integer NOT NULL,
+	`createdBy` text,
+	FOREIGN KEY (`itemId`) REFERENCES `marketplace_item`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`createdBy`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `marketplace_item_price_item_id_idx` ON `marketplace_item_price` (`itemId`);--> statement-breakpoint
+CREATE TABLE `marketplace_item` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`slug` text(100) NOT NULL,
+	`name` text(255) NOT NULL,
+	`description` text(1000) NOT NULL,
+	`credits` integer NOT NULL,
+	`status` text DEFAULT 'DRAFT' NOT NULL,
+	`version` text(50) DEFAULT '1.0.0' NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `marketplace_item_type_slug_idx` ON `marketplace_item` (`type`,`slug`);--> statement-breakpoint
+CREATE INDEX `marketplace_item_status_idx` ON `marketplace_item` (`status`);--> statement-breakpoint
+ALTER TABLE `purchased_item` ADD `priceId` text REFERENCES marketplace_item_price(id);--> statement-breakpoint
+-- The catalog that was hard-coded in components-catalog.tsx, one second apart to keep its order
+INSERT INTO `marketplace_item` (`createdAt`, `updatedAt`, `id`, `type`, `slug`, `name`, `description`, `credits`, `status`) VALUES
+	(CAST(strftime('%s', 'now') AS INTEGER) + 0, CAST(strftime('%s', 'now') AS INTEGER) + 0, 'mitem_team_switcher', 'COMPONENT', 'team-switcher', 'Team Switcher', 'A sleek dropdown menu for switching between teams with custom logos and plans', 4, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 1, CAST(strftime('%s', 'now') AS INTEGER) + 1, 'mitem_theme_switch', 'COMPONENT', 'theme-switch', 'Theme Switch', 'An animated theme switcher with system, light, and dark mode options', 4, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 2, CAST(strftime('%s', 'now') AS INTEGER) + 2, 'mitem_separator_with_text', 'COMPONENT', 'separator-with-text', 'Separator With Text', 'A clean separator component with customizable text and styling', 3, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 3, CAST(strftime('%s', 'now') AS INTEGER) + 3, 'mitem_nav_user', 'COMPONENT', 'nav-user', 'User Navigation Dropdown', 'A professional user navigation dropdown with avatar, user info, and action items', 10, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 4, CAST(strftime('%s', 'now') AS INTEGER) + 4, 'mitem_page_header', 'COMPONENT', 'page-header', 'Page Header with Breadcrumbs', 'A responsive page header with collapsible sidebar trigger and breadcrumb navigation', 12, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 5, CAST(strftime('%s', 'now') AS INTEGER) + 5, 'mitem_button', 'COMPONENT', 'button', 'Button', 'A button component with customizable text and styling', 8, 'PUBLISHED');
+--> statement-breakpoint
+INSERT INTO `marketplace_item_price` (`createdAt`, `updatedAt`, `id`, `itemId`, `credits`)
+SELECT `createdAt`, `updatedAt`, 'mprice_' || substr(`id`, 7), `id`, `credits` FROM `marketplace_item`;
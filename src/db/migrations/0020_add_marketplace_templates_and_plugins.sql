@@ -0,0 +1,10 @@
+-- Custom SQL migration file, put your code below! --
+INSERT INTO `marketplace_item` (`createdAt`, `updatedAt`, `id`, `type`, `slug`, `name`, `description`, `credits`, `status`) VALUES
+	(CAST(strftime('%s', 'now') AS INTEGER) + 0, CAST(strftime('%s', 'now') AS INTEGER) + 0, 'mitem_landing_page', 'TEMPLATE', 'landing-page', 'SaaS Landing Page', 'A complete landing page with hero, feature grid, pricing table and call to action sections', 25, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 1, CAST(strftime('%s', 'now') AS INTEGER) + 1, 'mitem_admin_dashboard', 'TEMPLATE', 'admin-dashboard', 'Admin Dashboard', 'A dashboard layout with a collapsible sidebar, stat cards and a data table page', 30, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 2, CAST(strftime('%s', 'now') AS INTEGER) + 2, 'mitem_usage_analytics', 'PLUGIN', 'usage-analytics', 'Usage Analytics', 'Tracks page views and feature usage per team and shows them in charts', 15, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 3, CAST(strftime('%s', 'now') AS INTEGER) + 3, 'mitem_outgoing_webhooks', 'PLUGIN', 'outgoing-webhooks', 'Outgoing Webhooks', 'Lets your customers subscribe to events of your app with signed webhook deliveries and retries', 20, 'PUBLISHED');
+--> statement-breakpoint
+INSERT INTO `marketplace_item_price` (`createdAt`, `updatedAt`, `id`, `itemId`, `credits`)
+SELECT `createdAt`, `updatedAt`, 'mprice_' || substr(`id`, 7), `id`, `credits` FROM `marketplace_item`
+WHERE `type` IN ('TEMPLATE', 'PLUGIN');
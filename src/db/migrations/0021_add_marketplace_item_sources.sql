@@ -0,0 +1,5 @@
+ALTER TABLE `marketplace_item` ADD `sourceKey` text(255);--> statement-breakpoint
+ALTER TABLE `marketplace_item` ADD `sourceFileName` text(255);--> statement-breakpoint
+ALTER TABLE `marketplace_item` ADD `sourceSize` integer;--> statement-breakpoint
+ALTER TABLE `purchased_item` ADD `downloadCount` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `purchased_item` ADD `lastDownloadedAt` integer;
\ No newline at end of file
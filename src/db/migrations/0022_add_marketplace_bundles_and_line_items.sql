@@ -0,0 +1,41 @@
+CREATE TABLE `marketplace_bundle_item` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`bundleId` text NOT NULL,
+	`itemId` text NOT NULL,
+	FOREIGN KEY (`bundleId`) REFERENCES `marketplace_bundle`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`itemId`) REFERENCES `marketplace_item`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `marketplace_bundle_item_bundle_item_idx` ON `marketplace_bundle_item` (`bundleId`,`itemId`);--> statement-breakpoint
+CREATE INDEX `marketplace_bundle_item_item_id_idx` ON `marketplace_bundle_item` (`itemId`);--> statement-breakpoint
+CREATE TABLE `marketplace_bundle` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`slug` text(100) NOT NULL,
+	`name` text(255) NOT NULL,
+	`description` text(1000) NOT NULL,
+	`credits` integer NOT NULL,
+	`status` text DEFAULT 'DRAFT' NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `marketplace_bundle_slug_unique` ON `marketplace_bundle` (`slug`);--> statement-breakpoint
+CREATE INDEX `marketplace_bundle_status_idx` ON `marketplace_bundle` (`status`);--> statement-breakpoint
+ALTER TABLE `credit_transaction` ADD `lineItems` text;--> statement-breakpoint
+ALTER TABLE `purchased_item` ADD `bundleId` text REFERENCES marketplace_bundle(id);--> statement-breakpoint
+INSERT INTO `marketplace_bundle` (`createdAt`, `updatedAt`, `id`, `slug`, `name`, `description`, `credits`, `status`) VALUES
+	(CAST(strftime('%s', 'now') AS INTEGER) + 0, CAST(strftime('%s', 'now') AS INTEGER) + 0, 'mbndl_navigation_kit', 'navigation-kit', 'Navigation Kit', 'Everything you need for the navigation of your dashboard', 22, 'PUBLISHED'),
+	(CAST(strftime('%s', 'now') AS INTEGER) + 1, CAST(strftime('%s', 'now') AS INTEGER) + 1, 'mbndl_saas_starter', 'saas-starter', 'SaaS Starter Pack', 'The landing page and admin dashboard templates together with usage analytics', 50, 'PUBLISHED');
+--> statement-breakpoint
+INSERT INTO `marketplace_bundle_item` (`createdAt`, `updatedAt`, `id`, `bundleId`, `itemId`) VALUES
+	(CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER), 'mbitem_navigation_kit_team_switcher', 'mbndl_navigation_kit', 'mitem_team_switcher'),
+	(CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER), 'mbitem_navigation_kit_theme_switch', 'mbndl_navigation_kit', 'mitem_theme_switch'),
+	(CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER), 'mbitem_navigation_kit_nav_user', 'mbndl_navigation_kit', 'mitem_nav_user'),
+	(CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER), 'mbitem_navigation_kit_page_header', 'mbndl_navigation_kit', 'mitem_page_header'),
+	(CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER), 'mbitem_saas_starter_landing_page', 'mbndl_saas_starter', 'mitem_landing_page'),
+	(CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER), 'mbitem_saas_starter_admin_dashboard', 'mbndl_saas_starter', 'mitem_admin_dashboard'),
+	(CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER), 'mbitem_saas_starter_usage_analytics', 'mbndl_saas_starter', 'mitem_usage_analytics');
@@ -0,0 +1,18 @@
+CREATE TABLE `marketplace_review` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`itemId` text NOT NULL,
+	`userId` text NOT NULL,
+	`rating` integer NOT NULL,
+	`body` text(2000) NOT NULL,
+	`hiddenAt` integer,
+	`hiddenBy` text,
+	FOREIGN KEY (`itemId`) REFERENCES `marketplace_item`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`hiddenBy`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `marketplace_review_item_user_idx` ON `marketplace_review` (`itemId`,`userId`);--> statement-breakpoint
+CREATE INDEX `marketplace_review_user_id_idx` ON `marketplace_review` (`userId`);
\ No newline at end of file
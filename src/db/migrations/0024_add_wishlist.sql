@@ -0,0 +1,15 @@
+CREATE TABLE `wishlist_item` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`itemId` text NOT NULL,
+	`notifiedPrice` integer NOT NULL,
+	`affordableNotifiedAt` integer,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`itemId`) REFERENCES `marketplace_item`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `wishlist_item_user_item_idx` ON `wishlist_item` (`userId`,`itemId`);--> statement-breakpoint
+CREATE INDEX `wishlist_item_item_id_idx` ON `wishlist_item` (`itemId`);
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE `user_impersonation` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`adminUserId` text NOT NULL,
+	`userId` text NOT NULL,
+	`reason` text(255) NOT NULL,
+	`ipAddress` text(100),
+	`userAgent` text(255),
+	`endedAt` integer,
+	FOREIGN KEY (`adminUserId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `user_impersonation_admin_user_id_idx` ON `user_impersonation` (`adminUserId`);--> statement-breakpoint
+CREATE INDEX `user_impersonation_user_id_idx` ON `user_impersonation` (`userId`);
\ No newline at end of file
@@ -0,0 +1,24 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_user_impersonation` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`adminUserId` text,
+	`userId` text NOT NULL,
+	`reason` text(255) NOT NULL,
+	`ipAddress` text(100),
+	`userAgent` text(255),
+	`endedAt` integer,
+	FOREIGN KEY (`adminUserId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_user_impersonation`("createdAt", "updatedAt", "updateCounter", "id", "adminUserId", "userId", "reason", "ipAddress", "userAgent", "endedAt") SELECT "createdAt", "updatedAt", "updateCounter", "id", "adminUserId", "userId", "reason", "ipAddress", "userAgent", "endedAt" FROM `user_impersonation`;--> statement-breakpoint
+DROP TABLE `user_impersonation`;--> statement-breakpoint
+ALTER TABLE `__new_user_impersonation` RENAME TO `user_impersonation`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE INDEX `user_impersonation_admin_user_id_idx` ON `user_impersonation` (`adminUserId`);--> statement-breakpoint
+CREATE INDEX `user_impersonation_user_id_idx` ON `user_impersonation` (`userId`);--> statement-breakpoint
+ALTER TABLE `user` ADD `bannedAt` integer;--> statement-breakpoint
+ALTER TABLE `user` ADD `banReason` text(255);
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `team` ADD `limitsLiftedAt` integer;--> statement-breakpoint
+ALTER TABLE `team` ADD `deletedAt` integer;
\ No newline at end of file
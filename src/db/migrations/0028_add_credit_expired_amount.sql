@@ -0,0 +1 @@
+ALTER TABLE `credit_transaction` ADD `expiredAmount` integer;
\ No newline at end of file
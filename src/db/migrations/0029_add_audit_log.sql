@@ -0,0 +1,21 @@
+CREATE TABLE `audit_log` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`actorUserId` text,
+	`action` text NOT NULL,
+	`targetType` text,
+	`targetId` text(255),
+	`teamId` text,
+	`ipAddress` text(100),
+	`userAgent` text(255),
+	`metadata` text,
+	`idempotencyKey` text(255)
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `audit_log_idempotencyKey_unique` ON `audit_log` (`idempotencyKey`);--> statement-breakpoint
+CREATE INDEX `audit_log_created_at_idx` ON `audit_log` (`createdAt`);--> statement-breakpoint
+CREATE INDEX `audit_log_actor_user_id_idx` ON `audit_log` (`actorUserId`);--> statement-breakpoint
+CREATE INDEX `audit_log_team_id_created_at_idx` ON `audit_log` (`teamId`,`createdAt`);--> statement-breakpoint
+CREATE INDEX `audit_log_target_idx` ON `audit_log` (`targetType`,`targetId`);
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE `announcement_dismissal` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`announcementId` text NOT NULL,
+	`userId` text NOT NULL,
+	FOREIGN KEY (`announcementId`) REFERENCES `announcement`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `announcement_dismissal_announcement_user_idx` ON `announcement_dismissal` (`announcementId`,`userId`);--> statement-breakpoint
+CREATE INDEX `announcement_dismissal_user_id_idx` ON `announcement_dismissal` (`userId`);--> statement-breakpoint
+CREATE TABLE `announcement` (
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	`updateCounter` integer DEFAULT 0,
+	`id` text PRIMARY KEY NOT NULL,
+	`type` text NOT NULL,
+	`title` text(255) NOT NULL,
+	`message` text(1000),
+	`audience` text DEFAULT 'all' NOT NULL,
+	`teamIds` text,
+	`planId` text(100),
+	`startsAt` integer NOT NULL,
+	`endsAt` integer,
+	`dismissible` integer DEFAULT 1 NOT NULL,
+	`createdBy` text,
+	FOREIGN KEY (`createdBy`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE INDEX `announcement_ends_at_idx` ON `announcement` (`endsAt`);
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { sqliteTable, integer, text, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, integer, text, index, uniqueIndex, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { relations, sql } from "drizzle-orm";
 import { type InferSelectModel } from "drizzle-orm";
 
@@ -57,10 +57,43 @@ export const userTable = sqliteTable("user", {
   lastCreditRefreshAt: integer({
     mode: "timestamp",
   }),
+  // Subscription fields, kept in sync by the Stripe webhook
+  planId: text({
+    length: 100,
+  }),
+  planExpiresAt: integer({
+    mode: "timestamp",
+  }),
+  stripeCustomerId: text({
+    length: 255,
+  }),
+  stripeSubscriptionId: text({
+    length: 255,
+  }),
+  // Low balance alert and auto top-up settings, an empty threshold turns them off
+  lowBalanceThreshold: integer(),
+  lowBalanceAlertSentAt: integer({
+    mode: "timestamp",
+  }),
+  autoTopUpPackageId: text({
+    length: 100,
+  }),
+  // The card saved for auto top-ups
+  stripePaymentMethodId: text({
+    length: 255,
+  }),
+  // Banned users are signed out and can't sign in until an admin unbans them
+  bannedAt: integer({
+    mode: "timestamp",
+  }),
+  banReason: text({
+    length: 255,
+  }),
 }, (table) => ([
   index('email_idx').on(table.email),
   index('google_account_id_idx').on(table.googleAccountId),
   index('role_idx').on(table.role),
+  index('user_stripe_customer_id_idx').on(table.stripeCustomerId),
 ]));
 
 export const passKeyCredentialTable = sqliteTable("passkey_credential", {
@@ -95,19 +128,69 @@ export const passKeyCredentialTable = sqliteTable("passkey_credential", {
   index('credential_id_idx').on(table.credentialId),
 ]));
 
+// Every time an admin signed in as a user, kept for auditing
+export const userImpersonationTable = sqliteTable("user_impersonation", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `imp_${createId()}`).notNull(),
+  // Null after the admin's account was deleted
+  adminUserId: text().references(() => userTable.id),
+  userId: text().notNull().references(() => userTable.id),
+  reason: text({
+    length: 255,
+  }).notNull(),
+  ipAddress: text({
+    length: 100,
+  }),
+  userAgent: text({
+    length: 255,
+  }),
+  // When the admin exited, or the session was signed out of
+  endedAt: integer({
+    mode: "timestamp",
+  }),
+}, (table) => ([
+  index('user_impersonation_admin_user_id_idx').on(table.adminUserId),
+  index('user_impersonation_user_id_idx').on(table.userId),
+]));
+
 // Credit transaction types
 export const CREDIT_TRANSACTION_TYPE = {
   PURCHASE: 'PURCHASE',
   USAGE: 'USAGE',
   MONTHLY_REFRESH: 'MONTHLY_REFRESH',
+  // Credits returned after a USAGE transaction was undone (e.g. a refunded marketplace purchase)
+  REFUND: 'REFUND',
+  // Credits taken back after the payment of a PURCHASE transaction was refunded or disputed
+  REVERSAL: 'REVERSAL',
+  // Manual correction of a user's balance by an admin
+  ADMIN_ADJUSTMENT: 'ADMIN_ADJUSTMENT',
+  // Credits granted by redeeming a promo code
+  PROMO: 'PROMO',
+  // Credits sent to another user or team, and the bucket they were received as
+  TRANSFER_OUT: 'TRANSFER_OUT',
+  TRANSFER_IN: 'TRANSFER_IN',
 } as const;
 
 export const creditTransactionTypeTuple = Object.values(CREDIT_TRANSACTION_TYPE) as [string, ...string[]];
 
+export interface CreditAllocation {
+  transactionId: string;
+  amount: number;
+}
+
+// Part of what a USAGE transaction paid for, e.g. one of the items of a marketplace bundle
+export interface CreditLineItem {
+  description: string;
+  amount: number;
+}
+
 export const creditTransactionTable = sqliteTable("credit_transaction", {
   ...commonColumns,
   id: text().primaryKey().$defaultFn(() => `ctxn_${createId()}`).notNull(),
+  // For team transactions this is the member who initiated it
   userId: text().notNull().references(() => userTable.id),
+  // Set when the transaction belongs to the team's wallet instead of the user's
+  teamId: text().references(() => teamTable.id),
   amount: integer().notNull(),
   // Track how many credits are still available from this transaction
   remainingAmount: integer().default(0).notNull(),
@@ -123,43 +206,370 @@ export const creditTransactionTable = sqliteTable("credit_transaction", {
   expirationDateProcessedAt: integer({
     mode: "timestamp",
   }),
+  // The remaining credits that expired, null for buckets that were processed before this was recorded
+  expiredAmount: integer(),
+  // Set when the owner was warned that the remaining credits are about to expire
+  expirationWarningSentAt: integer({
+    mode: "timestamp",
+  }),
   paymentIntentId: text({
     length: 255,
   }),
+  // Set by ledger operations that must only be applied once (e.g. retried server actions)
+  idempotencyKey: text({
+    length: 255,
+  }).unique(),
+  // The transaction that a REFUND, REVERSAL, ADMIN_ADJUSTMENT or TRANSFER_IN applies to
+  relatedTransactionId: text().references((): AnySQLiteColumn => creditTransactionTable.id),
+  // For debits, the buckets the credits were taken from so that a refund can return them
+  allocations: text({ mode: 'json' }).$type<CreditAllocation[]>(),
+  // For usage that paid for several things at once, how the amount is split between them
+  lineItems: text({ mode: 'json' }).$type<CreditLineItem[]>(),
+  // For PURCHASE transactions, the credit package that was bought and the amount in cents that was charged for it
+  packageId: text({
+    length: 255,
+  }),
+  amountPaid: integer(),
+  // Set when the receipt of a PURCHASE was emailed, so it's sent once per payment
+  receiptSentAt: integer({
+    mode: "timestamp",
+  }),
 }, (table) => ([
   index('credit_transaction_user_id_idx').on(table.userId),
+  index('credit_transaction_team_id_idx').on(table.teamId),
   index('credit_transaction_type_idx').on(table.type),
   index('credit_transaction_created_at_idx').on(table.createdAt),
   index('credit_transaction_expiration_date_idx').on(table.expirationDate),
   index('credit_transaction_payment_intent_id_idx').on(table.paymentIntentId),
+  index('credit_transaction_related_transaction_id_idx').on(table.relatedTransactionId),
+]));
+
+export const USAGE_RESERVATION_STATUS = {
+  PENDING: 'PENDING',
+  COMMITTED: 'COMMITTED',
+  RELEASED: 'RELEASED',
+} as const;
+
+export const usageReservationStatusTuple = Object.values(USAGE_RESERVATION_STATUS) as [string, ...string[]];
+
+// Credits held for metered work that hasn't finished yet
+export const usageReservationTable = sqliteTable("usage_reservation", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `ures_${createId()}`).notNull(),
+  userId: text().notNull().references(() => userTable.id),
+  // Set when the credits are held from the team's wallet
+  teamId: text().references(() => teamTable.id),
+  meterId: text({
+    length: 100,
+  }).notNull(),
+  // The maximum number of units the work may use
+  units: integer().notNull(),
+  credits: integer().notNull(),
+  // The number of units that were actually used, set on commit
+  committedUnits: integer(),
+  status: text({
+    enum: usageReservationStatusTuple,
+  }).default(USAGE_RESERVATION_STATUS.PENDING).notNull(),
+  // Pending reservations are released after this date so abandoned work doesn't hold credits forever
+  expiresAt: integer({
+    mode: "timestamp",
+  }).notNull(),
+  // The USAGE transaction that holds the credits
+  usageTransactionId: text().references(() => creditTransactionTable.id),
+  idempotencyKey: text({
+    length: 255,
+  }).unique(),
+}, (table) => ([
+  index('usage_reservation_user_id_idx').on(table.userId),
+  index('usage_reservation_team_id_idx').on(table.teamId),
+  index('usage_reservation_status_expires_at_idx').on(table.status, table.expiresAt),
+]));
+
+// Metered usage aggregated per wallet, meter and day
+export const usageDailyTable = sqliteTable("usage_daily", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `uday_${createId()}`).notNull(),
+  // The ID of the user or team whose credits paid for the usage
+  walletId: text().notNull(),
+  meterId: text({
+    length: 100,
+  }).notNull(),
+  // UTC date in YYYY-MM-DD format
+  day: text({
+    length: 10,
+  }).notNull(),
+  units: integer().default(0).notNull(),
+  credits: integer().default(0).notNull(),
+}, (table) => ([
+  uniqueIndex('usage_daily_wallet_meter_day_idx').on(table.walletId, table.meterId, table.day),
+]));
+
+export const PROMO_CODE_TYPE = {
+  // Grants a fixed number of credits when redeemed
+  CREDITS: 'CREDITS',
+  // Discounts the price of a credit package
+  DISCOUNT: 'DISCOUNT',
+} as const;
+
+export const promoCodeTypeTuple = Object.values(PROMO_CODE_TYPE) as [string, ...string[]];
+
+export const promoCodeTable = sqliteTable("promo_code", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `promo_${createId()}`).notNull(),
+  // Stored in upper case, redemption is case-insensitive
+  code: text({
+    length: 50,
+  }).notNull().unique(),
+  type: text({
+    enum: promoCodeTypeTuple,
+  }).notNull(),
+  credits: integer(),
+  discountPercent: integer(),
+  // Total redemptions across all users, unlimited when empty
+  maxRedemptions: integer(),
+  maxRedemptionsPerUser: integer().default(1).notNull(),
+  redemptionCount: integer().default(0).notNull(),
+  expiresAt: integer({
+    mode: "timestamp",
+  }),
+  isActive: integer().default(1).notNull(),
+  createdBy: text().references(() => userTable.id),
+}, (table) => ([
+  index('promo_code_code_idx').on(table.code),
+]));
+
+export const PROMO_CODE_REDEMPTION_STATUS = {
+  // A DISCOUNT code held for a payment intent that hasn't been paid yet
+  PENDING: 'PENDING',
+  COMPLETED: 'COMPLETED',
+  // The payment intent was canceled or the claim expired before it was paid
+  RELEASED: 'RELEASED',
+} as const;
+
+export const promoCodeRedemptionStatusTuple = Object.values(PROMO_CODE_REDEMPTION_STATUS) as [string, ...string[]];
+
+export const promoCodeRedemptionTable = sqliteTable("promo_code_redemption", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `prdm_${createId()}`).notNull(),
+  promoCodeId: text().notNull().references(() => promoCodeTable.id),
+  userId: text().notNull().references(() => userTable.id),
+  // Set when the code was redeemed for a team's wallet
+  teamId: text().references(() => teamTable.id),
+  // The PROMO transaction of a CREDITS code
+  creditTransactionId: text().references(() => creditTransactionTable.id),
+  // The discounted purchase of a DISCOUNT code
+  paymentIntentId: text({
+    length: 255,
+  }).unique(),
+  // In cents
+  discountAmount: integer(),
+  status: text({
+    enum: promoCodeRedemptionStatusTuple,
+  }).default(PROMO_CODE_REDEMPTION_STATUS.COMPLETED).notNull(),
+  // One of the user's redemption slots of a DISCOUNT code, cleared when the claim is released
+  claimKey: text({
+    length: 255,
+  }).unique(),
+  // When a pending claim is released if its payment intent wasn't paid
+  expiresAt: integer({
+    mode: "timestamp",
+  }),
+}, (table) => ([
+  index('promo_code_redemption_promo_code_user_idx').on(table.promoCodeId, table.userId),
+  index('promo_code_redemption_status_expires_at_idx').on(table.status, table.expiresAt),
+]));
+
+export const creditTransferTable = sqliteTable("credit_transfer", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `ctrf_${createId()}`).notNull(),
+  // The user who made the transfer, also when it was sent from a team's wallet
+  senderUserId: text().notNull().references(() => userTable.id),
+  senderTeamId: text().references(() => teamTable.id),
+  // Exactly one of the recipient columns is set
+  recipientUserId: text().references(() => userTable.id),
+  recipientTeamId: text().references(() => teamTable.id),
+  amount: integer().notNull(),
+  note: text({
+    length: 255,
+  }),
+  // The TRANSFER_OUT transaction that debited the sender
+  transactionId: text().notNull().references(() => creditTransactionTable.id),
+}, (table) => ([
+  index('credit_transfer_sender_user_id_idx').on(table.senderUserId),
+  index('credit_transfer_sender_team_id_idx').on(table.senderTeamId),
+  index('credit_transfer_recipient_user_id_idx').on(table.recipientUserId),
+  index('credit_transfer_recipient_team_id_idx').on(table.recipientTeamId),
 ]));
 
 // Define item types that can be purchased
 export const PURCHASABLE_ITEM_TYPE = {
   COMPONENT: 'COMPONENT',
-  // Add more types in the future (e.g., TEMPLATE, PLUGIN, etc.)
+  TEMPLATE: 'TEMPLATE',
+  PLUGIN: 'PLUGIN',
 } as const;
 
 export const purchasableItemTypeTuple = Object.values(PURCHASABLE_ITEM_TYPE) as [string, ...string[]];
 
+export const MARKETPLACE_ITEM_STATUS = {
+  // Only visible to admins
+  DRAFT: 'DRAFT',
+  PUBLISHED: 'PUBLISHED',
+  // Can't be bought anymore, but stays available to the users who own it
+  ARCHIVED: 'ARCHIVED',
+} as const;
+
+export const marketplaceItemStatusTuple = Object.values(MARKETPLACE_ITEM_STATUS) as [string, ...string[]];
+
+export const marketplaceItemTable = sqliteTable("marketplace_item", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `mitem_${createId()}`).notNull(),
+  type: text({
+    enum: purchasableItemTypeTuple,
+  }).notNull(),
+  // Purchases reference items by their slug, so it can't be changed after the item was created
+  slug: text({
+    length: 100,
+  }).notNull(),
+  name: text({
+    length: 255,
+  }).notNull(),
+  description: text({
+    length: 1000,
+  }).notNull(),
+  // The current price, every change is also recorded in marketplace_item_price
+  credits: integer().notNull(),
+  status: text({
+    enum: marketplaceItemStatusTuple,
+  }).default(MARKETPLACE_ITEM_STATUS.DRAFT).notNull(),
+  version: text({
+    length: 50,
+  }).default("1.0.0").notNull(),
+  // Key of the source file in the MARKETPLACE_BUCKET R2 bucket, null until one was uploaded
+  sourceKey: text({
+    length: 255,
+  }),
+  // The file name the source is downloaded as
+  sourceFileName: text({
+    length: 255,
+  }),
+  sourceSize: integer(),
+}, (table) => ([
+  uniqueIndex('marketplace_item_type_slug_idx').on(table.type, table.slug),
+  index('marketplace_item_status_idx').on(table.status),
+]));
+
+export const marketplaceItemPriceTable = sqliteTable("marketplace_item_price", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `mprice_${createId()}`).notNull(),
+  itemId: text().notNull().references(() => marketplaceItemTable.id),
+  credits: integer().notNull(),
+  // The admin who set the price, null for prices from the initial catalog
+  createdBy: text().references(() => userTable.id),
+}, (table) => ([
+  index('marketplace_item_price_item_id_idx').on(table.itemId),
+]));
+
+// One review per user and item, only users who own the item can write one
+export const marketplaceReviewTable = sqliteTable("marketplace_review", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `mrev_${createId()}`).notNull(),
+  itemId: text().notNull().references(() => marketplaceItemTable.id),
+  userId: text().notNull().references(() => userTable.id),
+  // 1 to 5 stars
+  rating: integer().notNull(),
+  body: text({
+    length: 2000,
+  }).notNull(),
+  // Set when an admin hid the review, hidden reviews don't count towards the rating of the item
+  hiddenAt: integer({
+    mode: "timestamp",
+  }),
+  hiddenBy: text().references(() => userTable.id),
+}, (table) => ([
+  uniqueIndex('marketplace_review_item_user_idx').on(table.itemId, table.userId),
+  index('marketplace_review_user_id_idx').on(table.userId),
+]));
+
+// Items a user saved to buy later
+export const wishlistItemTable = sqliteTable("wishlist_item", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `wish_${createId()}`).notNull(),
+  userId: text().notNull().references(() => userTable.id),
+  itemId: text().notNull().references(() => marketplaceItemTable.id),
+  // The price when the item was saved or the user was last told about a price drop
+  notifiedPrice: integer().notNull(),
+  // Set when the user was told that their balance covers the item, cleared when it doesn't anymore
+  affordableNotifiedAt: integer({
+    mode: "timestamp",
+  }),
+}, (table) => ([
+  uniqueIndex('wishlist_item_user_item_idx').on(table.userId, table.itemId),
+  index('wishlist_item_item_id_idx').on(table.itemId),
+]));
+
+// A group of marketplace items sold together at a discounted price
+export const marketplaceBundleTable = sqliteTable("marketplace_bundle", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `mbndl_${createId()}`).notNull(),
+  slug: text({
+    length: 100,
+  }).notNull().unique(),
+  name: text({
+    length: 255,
+  }).notNull(),
+  description: text({
+    length: 1000,
+  }).notNull(),
+  // The price of the whole bundle, owners of some of the items pay a prorated part of it
+  credits: integer().notNull(),
+  status: text({
+    enum: marketplaceItemStatusTuple,
+  }).default(MARKETPLACE_ITEM_STATUS.DRAFT).notNull(),
+}, (table) => ([
+  index('marketplace_bundle_status_idx').on(table.status),
+]));
+
+export const marketplaceBundleItemTable = sqliteTable("marketplace_bundle_item", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `mbitem_${createId()}`).notNull(),
+  bundleId: text().notNull().references(() => marketplaceBundleTable.id),
+  itemId: text().notNull().references(() => marketplaceItemTable.id),
+}, (table) => ([
+  uniqueIndex('marketplace_bundle_item_bundle_item_idx').on(table.bundleId, table.itemId),
+  index('marketplace_bundle_item_item_id_idx').on(table.itemId),
+]));
+
 export const purchasedItemsTable = sqliteTable("purchased_item", {
   ...commonColumns,
   id: text().primaryKey().$defaultFn(() => `pitem_${createId()}`).notNull(),
+  // For team purchases this is the member who made the purchase
   userId: text().notNull().references(() => userTable.id),
+  // Set when the item was bought with team credits and belongs to the team
+  teamId: text().references(() => teamTable.id),
   // The type of item (e.g., COMPONENT, TEMPLATE, etc.)
   itemType: text({
     enum: purchasableItemTypeTuple,
   }).notNull(),
-  // The ID of the item within its type (e.g., componentId)
+  // The slug of the marketplace item
   itemId: text().notNull(),
+  // The price the item was bought for, null for purchases made before prices were recorded
+  priceId: text().references(() => marketplaceItemPriceTable.id),
+  // Set when the item was bought as part of a bundle
+  bundleId: text().references(() => marketplaceBundleTable.id),
   purchasedAt: integer({
     mode: "timestamp",
   }).$defaultFn(() => new Date()).notNull(),
+  // How many times the source file of the item was downloaded through this purchase
+  downloadCount: integer().default(0).notNull(),
+  lastDownloadedAt: integer({
+    mode: "timestamp",
+  }),
 }, (table) => ([
   index('purchased_item_user_id_idx').on(table.userId),
   index('purchased_item_type_idx').on(table.itemType),
   // Composite index for checking if a user owns a specific item of a specific type
   index('purchased_item_user_item_idx').on(table.userId, table.itemType, table.itemId),
+  index('purchased_item_team_item_idx').on(table.teamId, table.itemType, table.itemId),
 ]));
 
 // System-defined roles - these are always available
@@ -215,9 +625,21 @@ export const teamTable = sqliteTable("team", {
   billingEmail: text({ length: 255 }),
   planId: text({ length: 100 }),
   planExpiresAt: integer({ mode: "timestamp" }),
+  stripeCustomerId: text({ length: 255 }),
+  stripeSubscriptionId: text({ length: 255 }),
   creditBalance: integer().default(0).notNull(),
+  lastCreditRefreshAt: integer({ mode: "timestamp" }),
+  lowBalanceThreshold: integer(),
+  lowBalanceAlertSentAt: integer({ mode: "timestamp" }),
+  autoTopUpPackageId: text({ length: 100 }),
+  stripePaymentMethodId: text({ length: 255 }),
+  // Set by an admin, the team can grow past the member limit of its plan and users can join it past MAX_TEAMS_JOINED_PER_USER
+  limitsLiftedAt: integer({ mode: "timestamp" }),
+  // Soft-deleted by an admin, the team is hidden from its members until it's restored
+  deletedAt: integer({ mode: "timestamp" }),
 }, (table) => ([
   index('team_slug_idx').on(table.slug),
+  index('team_stripe_customer_id_idx').on(table.stripeCustomerId),
 ]));
 
 // Team membership table
@@ -282,10 +704,146 @@ export const teamInvitationTable = sqliteTable("team_invitation", {
   index('team_invitation_token_idx').on(table.token),
 ]));
 
+// Security and billing relevant events, see src/utils/audit-log.ts
+export const AUDIT_LOG_ACTION = {
+  TEAM_MEMBER_ROLE_UPDATED: 'team.member_role_updated',
+  TEAM_MEMBER_REMOVED: 'team.member_removed',
+  TEAM_DELETED: 'team.deleted',
+  PASSKEY_DELETED: 'passkey.deleted',
+  SESSION_REVOKED: 'session.revoked',
+  CREDITS_PURCHASED: 'credits.purchased',
+  CREDITS_TRANSFERRED: 'credits.transferred',
+  ADMIN_USER_IMPERSONATED: 'admin.user_impersonated',
+  ADMIN_USER_BANNED: 'admin.user_banned',
+  ADMIN_USER_UNBANNED: 'admin.user_unbanned',
+  ADMIN_USER_EMAIL_VERIFIED: 'admin.user_email_verified',
+  ADMIN_USER_ROLE_UPDATED: 'admin.user_role_updated',
+  ADMIN_USER_CREDITS_RESET: 'admin.user_credits_reset',
+  ADMIN_USER_DELETED: 'admin.user_deleted',
+  ADMIN_TEAM_OWNERSHIP_TRANSFERRED: 'admin.team_ownership_transferred',
+  ADMIN_TEAM_LIMITS_UPDATED: 'admin.team_limits_updated',
+  ADMIN_TEAM_DELETED: 'admin.team_deleted',
+  ADMIN_TEAM_RESTORED: 'admin.team_restored',
+} as const;
+
+export const auditLogActionTuple = Object.values(AUDIT_LOG_ACTION) as [string, ...string[]];
+
+export const AUDIT_LOG_TARGET_TYPE = {
+  USER: 'user',
+  TEAM: 'team',
+  PASSKEY: 'passkey',
+  SESSION: 'session',
+  PAYMENT_INTENT: 'payment_intent',
+} as const;
+
+export const auditLogTargetTypeTuple = Object.values(AUDIT_LOG_TARGET_TYPE) as [string, ...string[]];
+
+export type AuditLogMetadata = Record<string, string | number | boolean | null | string[]>;
+
+// The user and team columns have no foreign keys, so the log outlives deleted users and teams
+export const auditLogTable = sqliteTable("audit_log", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `audit_${createId()}`).notNull(),
+  // Null for events that no signed-in user caused, like Stripe webhooks
+  actorUserId: text(),
+  action: text({
+    enum: auditLogActionTuple,
+  }).notNull(),
+  targetType: text({
+    enum: auditLogTargetTypeTuple,
+  }),
+  targetId: text({
+    length: 255,
+  }),
+  // The team the event happened in, so its owners can see it
+  teamId: text(),
+  ipAddress: text({
+    length: 100,
+  }),
+  userAgent: text({
+    length: 255,
+  }),
+  metadata: text({ mode: 'json' }).$type<AuditLogMetadata>(),
+  // Set for events that can be recorded by several requests, like a purchase by the webhook and the confirmation
+  idempotencyKey: text({
+    length: 255,
+  }).unique(),
+}, (table) => ([
+  index('audit_log_created_at_idx').on(table.createdAt),
+  index('audit_log_actor_user_id_idx').on(table.actorUserId),
+  index('audit_log_team_id_created_at_idx').on(table.teamId, table.createdAt),
+  index('audit_log_target_idx').on(table.targetType, table.targetId),
+]));
+
+export const ANNOUNCEMENT_TYPE = {
+  INFO: 'info',
+  WARNING: 'warning',
+  MAINTENANCE: 'maintenance',
+} as const;
+
+export const announcementTypeTuple = Object.values(ANNOUNCEMENT_TYPE) as [string, ...string[]];
+
+export const ANNOUNCEMENT_AUDIENCE = {
+  ALL: 'all',
+  ADMINS: 'admins',
+  // Members of the teams in teamIds
+  TEAMS: 'teams',
+  // Users whose own plan is planId
+  PLAN: 'plan',
+} as const;
+
+export const announcementAudienceTuple = Object.values(ANNOUNCEMENT_AUDIENCE) as [string, ...string[]];
+
+// Banners shown in the dashboard and on the marketing pages, see src/utils/announcements.ts
+export const announcementTable = sqliteTable("announcement", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `ann_${createId()}`).notNull(),
+  type: text({
+    enum: announcementTypeTuple,
+  }).notNull(),
+  title: text({
+    length: 255,
+  }).notNull(),
+  message: text({
+    length: 1000,
+  }),
+  audience: text({
+    enum: announcementAudienceTuple,
+  }).default(ANNOUNCEMENT_AUDIENCE.ALL).notNull(),
+  teamIds: text({ mode: 'json' }).$type<string[]>(),
+  planId: text({
+    length: 100,
+  }),
+  startsAt: integer({
+    mode: "timestamp",
+  }).notNull(),
+  // Shown until an admin ends it when empty
+  endsAt: integer({
+    mode: "timestamp",
+  }),
+  dismissible: integer().default(1).notNull(),
+  createdBy: text().references(() => userTable.id),
+}, (table) => ([
+  index('announcement_ends_at_idx').on(table.endsAt),
+]));
+
+// Signed-in users who closed an announcement, visitors keep theirs in a cookie
+export const announcementDismissalTable = sqliteTable("announcement_dismissal", {
+  ...commonColumns,
+  id: text().primaryKey().$defaultFn(() => `annd_${createId()}`).notNull(),
+  announcementId: text().notNull().references(() => announcementTable.id),
+  userId: text().notNull().references(() => userTable.id),
+}, (table) => ([
+  uniqueIndex('announcement_dismissal_announcement_user_idx').on(table.announcementId, table.userId),
+  index('announcement_dismissal_user_id_idx').on(table.userId),
+]));
+
 export const teamRelations = relations(teamTable, ({ many }) => ({
   memberships: many(teamMembershipTable),
   invitations: many(teamInvitationTable),
   roles: many(teamRoleTable),
+  creditTransactions: many(creditTransactionTable),
+  purchasedItems: many(purchasedItemsTable),
 }));
 
 export const teamRoleRelations = relations(teamRoleTable, ({ one }) => ({
@@ -330,6 +888,10 @@ export const creditTransactionRelations = relations(creditTransactionTable, ({ o
     fields: [creditTransactionTable.userId],
     references: [userTable.id],
   }),
+  team: one(teamTable, {
+    fields: [creditTransactionTable.teamId],
+    references: [teamTable.id],
+  }),
 }));
 
 export const purchasedItemsRelations = relations(purchasedItemsTable, ({ one }) => ({
@@ -337,6 +899,106 @@ export const purchasedItemsRelations = relations(purchasedItemsTable, ({ one })
     fields: [purchasedItemsTable.userId],
     references: [userTable.id],
   }),
+  team: one(teamTable, {
+    fields: [purchasedItemsTable.teamId],
+    references: [teamTable.id],
+  }),
+  price: one(marketplaceItemPriceTable, {
+    fields: [purchasedItemsTable.priceId],
+    references: [marketplaceItemPriceTable.id],
+  }),
+  bundle: one(marketplaceBundleTable, {
+    fields: [purchasedItemsTable.bundleId],
+    references: [marketplaceBundleTable.id],
+  }),
+}));
+
+export const marketplaceItemRelations = relations(marketplaceItemTable, ({ many }) => ({
+  prices: many(marketplaceItemPriceTable),
+  bundleItems: many(marketplaceBundleItemTable),
+  reviews: many(marketplaceReviewTable),
+}));
+
+export const wishlistItemRelations = relations(wishlistItemTable, ({ one }) => ({
+  item: one(marketplaceItemTable, {
+    fields: [wishlistItemTable.itemId],
+    references: [marketplaceItemTable.id],
+  }),
+  user: one(userTable, {
+    fields: [wishlistItemTable.userId],
+    references: [userTable.id],
+  }),
+}));
+
+export const marketplaceReviewRelations = relations(marketplaceReviewTable, ({ one }) => ({
+  item: one(marketplaceItemTable, {
+    fields: [marketplaceReviewTable.itemId],
+    references: [marketplaceItemTable.id],
+  }),
+  user: one(userTable, {
+    fields: [marketplaceReviewTable.userId],
+    references: [userTable.id],
+  }),
+}));
+
+export const marketplaceBundleRelations = relations(marketplaceBundleTable, ({ many }) => ({
+  bundleItems: many(marketplaceBundleItemTable),
+}));
+
+export const marketplaceBundleItemRelations = relations(marketplaceBundleItemTable, ({ one }) => ({
+  bundle: one(marketplaceBundleTable, {
+    fields: [marketplaceBundleItemTable.bundleId],
+    references: [marketplaceBundleTable.id],
+  }),
+  item: one(marketplaceItemTable, {
+    fields: [marketplaceBundleItemTable.itemId],
+    references: [marketplaceItemTable.id],
+  }),
+}));
+
+export const marketplaceItemPriceRelations = relations(marketplaceItemPriceTable, ({ one }) => ({
+  item: one(marketplaceItemTable, {
+    fields: [marketplaceItemPriceTable.itemId],
+    references: [marketplaceItemTable.id],
+  }),
+}));
+
+export const promoCodeRelations = relations(promoCodeTable, ({ many }) => ({
+  redemptions: many(promoCodeRedemptionTable),
+}));
+
+export const promoCodeRedemptionRelations = relations(promoCodeRedemptionTable, ({ one }) => ({
+  promoCode: one(promoCodeTable, {
+    fields: [promoCodeRedemptionTable.promoCodeId],
+    references: [promoCodeTable.id],
+  }),
+  user: one(userTable, {
+    fields: [promoCodeRedemptionTable.userId],
+    references: [userTable.id],
+  }),
+}));
+
+export const creditTransferRelations = relations(creditTransferTable, ({ one }) => ({
+  senderUser: one(userTable, {
+    fields: [creditTransferTable.senderUserId],
+    references: [userTable.id],
+  }),
+  senderTeam: one(teamTable, {
+    fields: [creditTransferTable.senderTeamId],
+    references: [teamTable.id],
+  }),
+  recipientUser: one(userTable, {
+    fields: [creditTransferTable.recipientUserId],
+    references: [userTable.id],
+  }),
+  recipientTeam: one(teamTable, {
+    fields: [creditTransferTable.recipientTeamId],
+    references: [teamTable.id],
+  }),
+  transaction: one(creditTransactionTable, {
+    fields: [creditTransferTable.transactionId],
+    references: [creditTransactionTable.id],
+  }),
 }));
 
 export const userRelations = relations(userTable, ({ many }) => ({
@@ -353,11 +1015,35 @@ export const passKeyCredentialRelations = relations(passKeyCredentialTable, ({ o
   }),
 }));
 
+export const userImpersonationRelations = relations(userImpersonationTable, ({ one }) => ({
+  admin: one(userTable, {
+    fields: [userImpersonationTable.adminUserId],
+    references: [userTable.id],
+  }),
+  user: one(userTable, {
+    fields: [userImpersonationTable.userId],
+    references: [userTable.id],
+  }),
+}));
+
 export type User = InferSelectModel<typeof userTable>;
 export type PassKeyCredential = InferSelectModel<typeof passKeyCredentialTable>;
+export type UserImpersonation = InferSelectModel<typeof userImpersonationTable>;
 export type CreditTransaction = InferSelectModel<typeof creditTransactionTable>;
 export type PurchasedItem = InferSelectModel<typeof purchasedItemsTable>;
+export type MarketplaceItem = InferSelectModel<typeof marketplaceItemTable>;
+export type MarketplaceItemPrice = InferSelectModel<typeof marketplaceItemPriceTable>;
+export type MarketplaceBundle = InferSelectModel<typeof marketplaceBundleTable>;
+export type MarketplaceReview = InferSelectModel<typeof marketplaceReviewTable>;
+export type WishlistItem = InferSelectModel<typeof wishlistItemTable>;
+export type UsageReservation = InferSelectModel<typeof usageReservationTable>;
+export type UsageDaily = InferSelectModel<typeof usageDailyTable>;
+export type PromoCode = InferSelectModel<typeof promoCodeTable>;
+export type PromoCodeRedemption = InferSelectModel<typeof promoCodeRedemptionTable>;
+export type CreditTransfer = InferSelectModel<typeof creditTransferTable>;
 export type Team = InferSelectModel<typeof teamTable>;
 export type TeamMembership = InferSelectModel<typeof teamMembershipTable>;
 export type TeamRole = InferSelectModel<typeof teamRoleTable>;
 export type TeamInvitation = InferSelectModel<typeof teamInvitationTable>;
+export type AuditLog = InferSelectModel<typeof auditLogTable>;
+export type Announcement = InferSelectModel<typeof announcementTable>;
@@ -22,3 +22,29 @@ export function getStripe() {
 
   return stripeInstance;
 }
+
+/**
+ * Verifies the `stripe-signature` header of a webhook request and parses the event.
+ * Workers don't have Node's crypto module, so the signature is checked with SubtleCrypto.
+ */
+export async function constructStripeWebhookEvent({
+  payload,
+  signature,
+}: {
+  payload: string;
+  signature: string;
+}) {
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+
+  if (!webhookSecret) {
+    throw new Error("Missing STRIPE_WEBHOOK_SECRET environment variable");
+  }
+
+  return getStripe().webhooks.constructEventAsync(
+    payload,
+    signature,
+    webhookSecret,
+    undefined,
+    Stripe.createSubtleCryptoProvider()
+  );
+}
@@ -0,0 +1,145 @@
+import {
+  Body,
+  Column,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Link,
+  Row,
+  Section,
+  Text,
+} from "@react-email/components";
+import * as React from "react";
+import { SITE_DOMAIN } from "@/constants";
+
+interface CreditExpiryEmailProps {
+  billingLink?: string;
+  // The team whose credits expire, or undefined for the user's own credits
+  teamName?: string;
+  expirations?: {
+    credits: number;
+    expiresAt: Date;
+  }[];
+}
+
+export const CreditExpiryEmail = ({
+  billingLink = "https://example.com/dashboard/billing",
+  teamName,
+  expirations = [],
+}: CreditExpiryEmailProps) => {
+  const totalCredits = expirations.reduce((sum, { credits }) => sum + credits, 0);
+
+  return (
+    <Html>
+      <Head />
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={preheader}>Your credits on {SITE_DOMAIN} expire soon</Heading>
+          <Text style={paragraph}>Hello,</Text>
+          <Text style={paragraph}>
+            {totalCredits.toLocaleString("en-US")} purchased credits of {teamName ? `the "${teamName}" team` : "your account"} are
+            about to expire. Use them before they run out:
+          </Text>
+          {expirations.map(({ credits, expiresAt }, index) => (
+            <Row key={index}>
+              <Column style={value}>{credits.toLocaleString("en-US")} credits</Column>
+              <Column style={amount}>
+                expire on {new Date(expiresAt).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })}
+              </Column>
+            </Row>
+          ))}
+          <Section style={buttonContainer}>
+            <Link style={button} href={billingLink}>
+              View Credits
+            </Link>
+          </Section>
+        </Container>
+        <Text style={footer}>
+          This is an automated message from {SITE_DOMAIN}. Please do not reply to this email.
+        </Text>
+      </Body>
+    </Html>
+  )
+};
+
+CreditExpiryEmail.PreviewProps = {
+  billingLink: "https://example.com/dashboard/billing",
+  expirations: [
+    { credits: 320, expiresAt: new Date() },
+    { credits: 1200, expiresAt: new Date() },
+  ],
+} as CreditExpiryEmailProps;
+
+export default CreditExpiryEmail;
+
+const main = {
+  backgroundColor: "#f6f9fc",
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+  marginTop: "30px",
+};
+
+const container = {
+  backgroundColor: "#ffffff",
+  border: "1px solid #f0f0f0",
+  borderRadius: "5px",
+  boxShadow: "0 5px 10px rgba(20,50,70,.2)",
+  marginTop: "20px",
+  maxWidth: "600px",
+  margin: "0 auto",
+  padding: "40px",
+};
+
+const preheader = {
+  color: "#525f7f",
+  fontSize: "18px",
+  textAlign: "center" as const,
+  marginBottom: "30px",
+};
+
+const paragraph = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  textAlign: "left" as const,
+  marginBottom: "16px",
+};
+
+const value = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  margin: "0",
+};
+
+const amount = {
+  ...value,
+  textAlign: "right" as const,
+};
+
+const buttonContainer = {
+  textAlign: "center" as const,
+  margin: "30px 0",
+};
+
+const button = {
+  backgroundColor: "#000",
+  borderRadius: "5px",
+  color: "#fff",
+  display: "inline-block",
+  fontSize: "16px",
+  fontWeight: "bold",
+  textDecoration: "none",
+  textAlign: "center" as const,
+  padding: "13px 40px",
+  margin: "0 auto",
+};
+
+const footer = {
+  color: "#8898aa",
+  fontSize: "12px",
+  lineHeight: "16px",
+  textAlign: "center" as const,
+  margin: "20px 0",
+};
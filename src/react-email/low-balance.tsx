@@ -0,0 +1,144 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Link,
+  Section,
+  Text,
+} from "@react-email/components";
+import * as React from "react";
+import { SITE_DOMAIN } from "@/constants";
+
+interface LowBalanceEmailProps {
+  billingLink?: string;
+  // The team whose credits are low, or undefined for the user's own credits
+  teamName?: string;
+  balance?: number;
+  threshold?: number;
+  autoTopUp?: {
+    credits: number;
+    succeeded: boolean;
+  };
+}
+
+export const LowBalanceEmail = ({
+  billingLink = "https://example.com/dashboard/billing",
+  teamName,
+  balance = 0,
+  threshold = 100,
+  autoTopUp,
+}: LowBalanceEmailProps) => {
+  const owner = teamName ? `the "${teamName}" team's` : "your";
+
+  return (
+    <Html>
+      <Head />
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={preheader}>Your credit balance on {SITE_DOMAIN} is low</Heading>
+          <Text style={paragraph}>Hello,</Text>
+          <Text style={paragraph}>
+            {owner.charAt(0).toUpperCase() + owner.slice(1)} credit balance dropped below {threshold.toLocaleString("en-US")} credits.
+            There are {balance.toLocaleString("en-US")} credits left.
+          </Text>
+          {autoTopUp?.succeeded && (
+            <Text style={paragraph}>
+              We charged the saved card for an automatic top-up of {autoTopUp.credits.toLocaleString("en-US")} credits.
+              They will be added to {owner} balance in a moment and you will receive a receipt.
+            </Text>
+          )}
+          {autoTopUp && !autoTopUp.succeeded && (
+            <Text style={paragraph}>
+              The automatic top-up of {autoTopUp.credits.toLocaleString("en-US")} credits failed because the saved card
+              could not be charged. Please buy credits manually to keep using our services.
+            </Text>
+          )}
+          <Section style={buttonContainer}>
+            <Link style={button} href={billingLink}>
+              Manage Credits
+            </Link>
+          </Section>
+          <Text style={paragraph}>
+            You can change or turn off these alerts on the billing page.
+          </Text>
+        </Container>
+        <Text style={footer}>
+          This is an automated message from {SITE_DOMAIN}. Please do not reply to this email.
+        </Text>
+      </Body>
+    </Html>
+  )
+};
+
+LowBalanceEmail.PreviewProps = {
+  billingLink: "https://example.com/dashboard/billing",
+  balance: 42,
+  threshold: 100,
+  autoTopUp: {
+    credits: 500,
+    succeeded: true,
+  },
+} as LowBalanceEmailProps;
+
+export default LowBalanceEmail;
+
+const main = {
+  backgroundColor: "#f6f9fc",
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+  marginTop: "30px",
+};
+
+const container = {
+  backgroundColor: "#ffffff",
+  border: "1px solid #f0f0f0",
+  borderRadius: "5px",
+  boxShadow: "0 5px 10px rgba(20,50,70,.2)",
+  marginTop: "20px",
+  maxWidth: "600px",
+  margin: "0 auto",
+  padding: "40px",
+};
+
+const preheader = {
+  color: "#525f7f",
+  fontSize: "18px",
+  textAlign: "center" as const,
+  marginBottom: "30px",
+};
+
+const paragraph = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  textAlign: "left" as const,
+  marginBottom: "16px",
+};
+
+const buttonContainer = {
+  textAlign: "center" as const,
+  margin: "30px 0",
+};
+
+const button = {
+  backgroundColor: "#000",
+  borderRadius: "5px",
+  color: "#fff",
+  display: "inline-block",
+  fontSize: "16px",
+  fontWeight: "bold",
+  textDecoration: "none",
+  textAlign: "center" as const,
+  padding: "13px 40px",
+  margin: "0 auto",
+};
+
+const footer = {
+  color: "#8898aa",
+  fontSize: "12px",
+  lineHeight: "16px",
+  textAlign: "center" as const,
+  margin: "20px 0",
+};
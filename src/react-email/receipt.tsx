@@ -0,0 +1,192 @@
+import {
+  Body,
+  Column,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Link,
+  Row,
+  Section,
+  Text,
+} from "@react-email/components";
+import * as React from "react";
+import { SITE_DOMAIN } from "@/constants";
+import type { CreditPurchaseReceipt } from "@/utils/receipts";
+
+interface ReceiptEmailProps {
+  receipt: CreditPurchaseReceipt;
+  receiptLink?: string;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount / 100);
+
+export const ReceiptEmail = ({
+  receipt,
+  receiptLink = "https://example.com/dashboard/billing/receipts/123",
+}: ReceiptEmailProps) => {
+  return (
+    <Html>
+      <Head />
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={preheader}>Your receipt from {SITE_DOMAIN}</Heading>
+          <Text style={paragraph}>
+            Thank you for your purchase. Here is your receipt #{receipt.receiptNumber} from{" "}
+            {new Date(receipt.issuedAt).toLocaleDateString("en-US", { year: "numeric", month: "short", day: "numeric" })}.
+          </Text>
+          <Section>
+            <Text style={label}>Billed to</Text>
+            <Text style={value}>
+              {receipt.billedTo.name}
+              {receipt.billedTo.email ? ` (${receipt.billedTo.email})` : ""}
+            </Text>
+          </Section>
+          <Hr style={hr} />
+          {receipt.lineItems.map((item) => (
+            <Row key={item.description}>
+              <Column style={value}>{item.quantity} × {item.description}</Column>
+              <Column style={amount}>{formatAmount(item.amount, receipt.currency)}</Column>
+            </Row>
+          ))}
+          <Hr style={hr} />
+          <Row>
+            <Column style={value}>Subtotal</Column>
+            <Column style={amount}>{formatAmount(receipt.subtotal, receipt.currency)}</Column>
+          </Row>
+          <Row>
+            <Column style={value}>Tax ({receipt.taxRatePercent}%)</Column>
+            <Column style={amount}>{formatAmount(receipt.taxAmount, receipt.currency)}</Column>
+          </Row>
+          <Row>
+            <Column style={total}>Total paid</Column>
+            <Column style={{ ...amount, ...total }}>{formatAmount(receipt.total, receipt.currency)}</Column>
+          </Row>
+          <Section style={buttonContainer}>
+            <Link style={button} href={receiptLink}>
+              View Receipt
+            </Link>
+          </Section>
+          <Text style={paragraph}>
+            You can print this receipt or save it as a PDF from your billing page at any time.
+          </Text>
+        </Container>
+        <Text style={footer}>
+          This is an automated message from {SITE_DOMAIN}. Please do not reply to this email.
+        </Text>
+      </Body>
+    </Html>
+  )
+};
+
+ReceiptEmail.PreviewProps = {
+  receipt: {
+    receiptNumber: "K3J9X2M8Q1",
+    transactionId: "ctxn_k3j9x2m8q1",
+    paymentIntentId: "pi_123",
+    issuedAt: new Date(),
+    seller: { name: "SaaS Template" },
+    billedTo: { name: "Jane Doe", email: "user@example.com" },
+    lineItems: [{ description: "1,200 credits", quantity: 1, unitPrice: 1000, amount: 1000 }],
+    currency: "usd",
+    subtotal: 1000,
+    taxRatePercent: 0,
+    taxAmount: 0,
+    total: 1000,
+  },
+  receiptLink: "https://example.com/dashboard/billing/receipts/ctxn_k3j9x2m8q1",
+} as ReceiptEmailProps;
+
+export default ReceiptEmail;
+
+const main = {
+  backgroundColor: "#f6f9fc",
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+  marginTop: "30px",
+};
+
+const container = {
+  backgroundColor: "#ffffff",
+  border: "1px solid #f0f0f0",
+  borderRadius: "5px",
+  boxShadow: "0 5px 10px rgba(20,50,70,.2)",
+  marginTop: "20px",
+  maxWidth: "600px",
+  margin: "0 auto",
+  padding: "40px",
+};
+
+const preheader = {
+  color: "#525f7f",
+  fontSize: "18px",
+  textAlign: "center" as const,
+  marginBottom: "30px",
+};
+
+const paragraph = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  textAlign: "left" as const,
+  marginBottom: "16px",
+};
+
+const label = {
+  color: "#8898aa",
+  fontSize: "12px",
+  textTransform: "uppercase" as const,
+  margin: "0",
+};
+
+const value = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  margin: "0",
+};
+
+const amount = {
+  ...value,
+  textAlign: "right" as const,
+};
+
+const total = {
+  color: "#32325d",
+  fontSize: "16px",
+  fontWeight: "bold",
+  lineHeight: "24px",
+};
+
+const hr = {
+  borderColor: "#e6ebf1",
+  margin: "20px 0",
+};
+
+const buttonContainer = {
+  textAlign: "center" as const,
+  margin: "30px 0",
+};
+
+const button = {
+  backgroundColor: "#000",
+  borderRadius: "5px",
+  color: "#fff",
+  display: "inline-block",
+  fontSize: "16px",
+  fontWeight: "bold",
+  textDecoration: "none",
+  textAlign: "center" as const,
+  padding: "13px 40px",
+  margin: "0 auto",
+};
+
+const footer = {
+  color: "#8898aa",
+  fontSize: "12px",
+  lineHeight: "16px",
+  textAlign: "center" as const,
+  margin: "20px 0",
+};
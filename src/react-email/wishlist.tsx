@@ -0,0 +1,155 @@
+import {
+  Body,
+  Column,
+  Container,
+  Head,
+  Heading,
+  Html,
+  Link,
+  Row,
+  Section,
+  Text,
+} from "@react-email/components";
+import * as React from "react";
+import { SITE_DOMAIN } from "@/constants";
+
+interface WishlistEmailProps {
+  marketplaceLink?: string;
+  // A price drop of the items, or a balance that now covers them
+  reason?: "price-drop" | "affordable";
+  balance?: number;
+  items?: {
+    name: string;
+    credits: number;
+    previousCredits?: number;
+  }[];
+}
+
+export const WishlistEmail = ({
+  marketplaceLink = "https://example.com/dashboard/marketplace?view=wishlist",
+  reason = "price-drop",
+  balance = 0,
+  items = [],
+}: WishlistEmailProps) => {
+  return (
+    <Html>
+      <Head />
+      <Body style={main}>
+        <Container style={container}>
+          <Heading style={preheader}>
+            {reason === "price-drop"
+              ? `An item on your ${SITE_DOMAIN} wishlist is cheaper now`
+              : `You can afford items on your ${SITE_DOMAIN} wishlist`}
+          </Heading>
+          <Text style={paragraph}>Hello,</Text>
+          <Text style={paragraph}>
+            {reason === "price-drop"
+              ? "The price of an item you saved to your wishlist dropped:"
+              : `Your balance of ${balance.toLocaleString("en-US")} credits now covers these items on your wishlist:`}
+          </Text>
+          {items.map(({ name, credits, previousCredits }, index) => (
+            <Row key={index}>
+              <Column style={value}>{name}</Column>
+              <Column style={amount}>
+                {previousCredits !== undefined && `${previousCredits.toLocaleString("en-US")} → `}
+                {credits.toLocaleString("en-US")} credits
+              </Column>
+            </Row>
+          ))}
+          <Section style={buttonContainer}>
+            <Link style={button} href={marketplaceLink}>
+              View Wishlist
+            </Link>
+          </Section>
+          <Text style={paragraph}>
+            Remove an item from your wishlist to stop these emails about it.
+          </Text>
+        </Container>
+        <Text style={footer}>
+          This is an automated message from {SITE_DOMAIN}. Please do not reply to this email.
+        </Text>
+      </Body>
+    </Html>
+  )
+};
+
+WishlistEmail.PreviewProps = {
+  marketplaceLink: "https://example.com/dashboard/marketplace?view=wishlist",
+  reason: "price-drop",
+  items: [
+    { name: "Dashboard Template", credits: 30, previousCredits: 45 },
+  ],
+} as WishlistEmailProps;
+
+export default WishlistEmail;
+
+const main = {
+  backgroundColor: "#f6f9fc",
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+  marginTop: "30px",
+};
+
+const container = {
+  backgroundColor: "#ffffff",
+  border: "1px solid #f0f0f0",
+  borderRadius: "5px",
+  boxShadow: "0 5px 10px rgba(20,50,70,.2)",
+  marginTop: "20px",
+  maxWidth: "600px",
+  margin: "0 auto",
+  padding: "40px",
+};
+
+const preheader = {
+  color: "#525f7f",
+  fontSize: "18px",
+  textAlign: "center" as const,
+  marginBottom: "30px",
+};
+
+const paragraph = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  textAlign: "left" as const,
+  marginBottom: "16px",
+};
+
+const value = {
+  color: "#525f7f",
+  fontSize: "16px",
+  lineHeight: "24px",
+  margin: "0",
+};
+
+const amount = {
+  ...value,
+  textAlign: "right" as const,
+};
+
+const buttonContainer = {
+  textAlign: "center" as const,
+  margin: "30px 0",
+};
+
+const button = {
+  backgroundColor: "#000",
+  borderRadius: "5px",
+  color: "#fff",
+  display: "inline-block",
+  fontSize: "16px",
+  fontWeight: "bold",
+  textDecoration: "none",
+  textAlign: "center" as const,
+  padding: "13px 40px",
+  margin: "0 auto",
+};
+
+const footer = {
+  color: "#8898aa",
+  fontSize: "12px",
+  lineHeight: "16px",
+  textAlign: "center" as const,
+  margin: "20px 0",
+};
@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+const teamIdSchema = z.string().min(1, "Team ID is required");
+
+export const transferTeamOwnershipSchema = z.object({
+  teamId: teamIdSchema,
+  // The member who becomes the owner
+  userId: z.string().min(1, "Select the new owner"),
+});
+
+export const setTeamLimitsLiftedSchema = z.object({
+  teamId: teamIdSchema,
+  lifted: z.boolean(),
+});
+
+// Deleting and restoring only need the team
+export const adminTeamSchema = z.object({
+  teamId: teamIdSchema,
+});
+
+export type TransferTeamOwnershipSchema = z.infer<typeof transferTeamOwnershipSchema>;
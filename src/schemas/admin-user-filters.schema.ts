@@ -0,0 +1,47 @@
+import { z } from "zod";
+import { USER_ROLES } from "./admin-user.schema";
+
+export const USER_AUTH_METHODS = ["password", "google", "passkey"] as const;
+export const USER_AUTH_METHOD_NAMES = {
+  password: "Password",
+  google: "Google",
+  passkey: "Passkey",
+} satisfies Record<typeof USER_AUTH_METHODS[number], string>;
+export const USER_VERIFICATION_FILTERS = ["verified", "unverified"] as const;
+// The IDs of the sortable columns of the admin users table
+export const USER_SORT_COLUMNS = ["email", "name", "role", "credits", "createdAt"] as const;
+export const SORT_ORDERS = ["asc", "desc"] as const;
+
+// Empty inputs of the filter form are sent as empty strings
+const optionalCredits = z.preprocess(
+  (value) => value === "" ? undefined : value,
+  z.coerce.number().int().min(0).optional(),
+).catch(undefined);
+
+// UTC days like 2025-01-31, both ends of the range are included
+const optionalDay = z.preprocess(
+  (value) => value === "" ? undefined : value,
+  z.string().date().optional(),
+).catch(undefined);
+
+/**
+ * The filters and sorting of the admin users table. The CSV export receives them as query
+ * params, so invalid values are dropped instead of failing.
+ */
+export const userFiltersSchema = z.object({
+  emailFilter: z.string().trim().max(255).optional().catch(undefined),
+  role: z.enum(USER_ROLES).optional().catch(undefined),
+  verification: z.enum(USER_VERIFICATION_FILTERS).optional().catch(undefined),
+  // Users who can sign in with the method, whichever they signed up with
+  authMethod: z.enum(USER_AUTH_METHODS).optional().catch(undefined),
+  minCredits: optionalCredits,
+  maxCredits: optionalCredits,
+  createdFrom: optionalDay,
+  createdTo: optionalDay,
+  sortBy: z.enum(USER_SORT_COLUMNS).default("createdAt").catch("createdAt"),
+  sortOrder: z.enum(SORT_ORDERS).default("desc").catch("desc"),
+});
+
+export type UserFilters = z.infer<typeof userFiltersSchema>;
+export type UserAuthMethod = typeof USER_AUTH_METHODS[number];
+export type UserSortColumn = typeof USER_SORT_COLUMNS[number];
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+// Mirrors ROLES_ENUM, which client components can't import from the database schema
+export const USER_ROLES = ["admin", "user"] as const;
+
+const userIdSchema = z.string().min(1, "User ID is required");
+
+export const impersonateUserSchema = z.object({
+  userId: userIdSchema,
+  // Kept in the user_impersonation table for auditing
+  reason: z.string()
+    .trim()
+    .min(3, "Describe why you need to sign in as this user")
+    .max(255, "The reason is too long"),
+});
+
+export const banUserSchema = z.object({
+  userId: userIdSchema,
+  reason: z.string()
+    .trim()
+    .min(3, "Describe why the user is banned")
+    .max(255, "The reason is too long"),
+});
+
+export const setUserRoleSchema = z.object({
+  userId: userIdSchema,
+  role: z.enum(USER_ROLES),
+});
+
+// Unbanning, verifying the email, resetting the credits and deleting only need the user
+export const adminUserSchema = z.object({
+  userId: userIdSchema,
+});
+
+export type ImpersonateUserSchema = z.infer<typeof impersonateUserSchema>;
+export type BanUserSchema = z.infer<typeof banUserSchema>;
@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+// Mirror ANNOUNCEMENT_TYPE and ANNOUNCEMENT_AUDIENCE of the DB schema, which can't be imported on the client
+export const ANNOUNCEMENT_TYPES = ["info", "warning", "maintenance"] as const;
+export const ANNOUNCEMENT_AUDIENCES = ["all", "admins", "teams", "plan"] as const;
+
+export type AnnouncementType = typeof ANNOUNCEMENT_TYPES[number];
+export type AnnouncementAudience = typeof ANNOUNCEMENT_AUDIENCES[number];
+
+export const ANNOUNCEMENT_AUDIENCE_LABELS = {
+  all: "Everyone",
+  admins: "Admins",
+  teams: "Members of teams",
+  plan: "Users on a plan",
+} as const satisfies Record<AnnouncementAudience, string>;
+
+export const createAnnouncementSchema = z.object({
+  type: z.enum(ANNOUNCEMENT_TYPES),
+  title: z.string().min(1, "Title is required").max(255, "Title is too long"),
+  message: z.string().max(1000, "Message is too long").optional(),
+  audience: z.enum(ANNOUNCEMENT_AUDIENCES),
+  teamIds: z.array(z.string().min(1)).max(50, "Announcements can target at most 50 teams").optional(),
+  planId: z.string().optional(),
+  startsAt: z.date(),
+  endsAt: z.date().optional(),
+  dismissible: z.boolean().default(true),
+}).refine((data) => !data.endsAt || data.endsAt > data.startsAt, {
+  message: "The end has to be after the start",
+  path: ["endsAt"],
+}).refine((data) => data.audience !== "teams" || Boolean(data.teamIds?.length), {
+  message: "Enter at least one team ID",
+  path: ["teamIds"],
+}).refine((data) => data.audience !== "plan" || Boolean(data.planId), {
+  message: "Select a plan",
+  path: ["planId"],
+});
+
+// Ending and deleting only need the announcement
+export const announcementIdSchema = z.object({
+  announcementId: z.string().min(1, "Announcement ID is required"),
+});
+
+export type CreateAnnouncementSchema = z.infer<typeof createAnnouncementSchema>;
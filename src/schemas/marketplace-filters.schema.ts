@@ -0,0 +1,35 @@
+import { z } from "zod";
+import { MARKETPLACE_ITEM_TYPES } from "./marketplace-item.schema";
+
+export const MARKETPLACE_SORTS = ["featured", "newest", "price-asc", "price-desc", "popular"] as const;
+export const MARKETPLACE_OWNERSHIP_FILTERS = ["owned", "not-owned"] as const;
+export const MARKETPLACE_VIEWS = ["wishlist"] as const;
+
+// Empty inputs of the filter form are submitted as empty strings
+const optionalPrice = z.preprocess(
+  (value) => value === "" ? undefined : value,
+  z.coerce.number().int().min(0).optional(),
+).catch(undefined);
+
+/**
+ * The filters of the marketplace page as they appear in its query params. Invalid values are
+ * dropped instead of failing, since the params come from shared links.
+ */
+export const marketplaceFiltersSchema = z.object({
+  // Lowercase in the URL, e.g. ?type=template
+  type: z.string()
+    .transform((type) => type.toUpperCase())
+    .pipe(z.enum(MARKETPLACE_ITEM_TYPES))
+    .optional()
+    .catch(undefined),
+  q: z.string().trim().max(100).optional().catch(undefined),
+  minPrice: optionalPrice,
+  maxPrice: optionalPrice,
+  owned: z.enum(MARKETPLACE_OWNERSHIP_FILTERS).optional().catch(undefined),
+  sort: z.enum(MARKETPLACE_SORTS).default("featured").catch("featured"),
+  // Only the items on the user's wishlist
+  view: z.enum(MARKETPLACE_VIEWS).optional().catch(undefined),
+});
+
+export type MarketplaceFilters = z.infer<typeof marketplaceFiltersSchema>;
+export type MarketplaceSort = typeof MARKETPLACE_SORTS[number];
@@ -0,0 +1,72 @@
+import { z } from "zod";
+import type { MARKETPLACE_ITEM_STATUS, PURCHASABLE_ITEM_TYPE } from "@/db/schema";
+
+// The schemas are also used by client forms, which can't import the values from the database schema
+export const MARKETPLACE_ITEM_TYPES = ["COMPONENT", "TEMPLATE", "PLUGIN"] as const satisfies readonly (keyof typeof PURCHASABLE_ITEM_TYPE)[];
+export const MARKETPLACE_ITEM_STATUSES = ["DRAFT", "PUBLISHED", "ARCHIVED"] as const satisfies readonly (keyof typeof MARKETPLACE_ITEM_STATUS)[];
+
+const marketplaceItemFields = {
+  name: z.string().min(1, "Name is required").max(255, "Name is too long"),
+  description: z.string().min(1, "Description is required").max(1000, "Description is too long"),
+  credits: z.number({ invalid_type_error: "Price is required" }).int("Price must be a whole number of credits").min(1, "Price must be at least 1 credit"),
+  status: z.enum(MARKETPLACE_ITEM_STATUSES),
+  version: z.string()
+    .max(50, "Version is too long")
+    .regex(/^\d+\.\d+\.\d+$/, "Version must look like 1.0.0"),
+};
+
+export const createMarketplaceItemSchema = z.object({
+  type: z.enum(MARKETPLACE_ITEM_TYPES),
+  // The preview of the item is registered under its slug
+  slug: z.string()
+    .min(2, "Slug must be at least 2 characters")
+    .max(100, "Slug is too long")
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug can only contain lowercase letters, numbers and dashes"),
+  ...marketplaceItemFields,
+});
+
+export const updateMarketplaceItemSchema = z.object({
+  itemId: z.string().min(1, "Item ID is required"),
+  ...marketplaceItemFields,
+});
+
+export const deleteMarketplaceItemSchema = z.object({
+  itemId: z.string().min(1, "Item ID is required"),
+});
+
+const marketplaceBundleFields = {
+  name: marketplaceItemFields.name,
+  description: marketplaceItemFields.description,
+  credits: marketplaceItemFields.credits,
+  status: marketplaceItemFields.status,
+  itemIds: z.array(z.string()).min(2, "A bundle needs at least 2 items"),
+};
+
+export const createMarketplaceBundleSchema = z.object({
+  slug: z.string()
+    .min(2, "Slug must be at least 2 characters")
+    .max(100, "Slug is too long")
+    .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Slug can only contain lowercase letters, numbers and dashes"),
+  ...marketplaceBundleFields,
+});
+
+export const updateMarketplaceBundleSchema = z.object({
+  bundleId: z.string().min(1, "Bundle ID is required"),
+  ...marketplaceBundleFields,
+});
+
+export const deleteMarketplaceBundleSchema = z.object({
+  bundleId: z.string().min(1, "Bundle ID is required"),
+});
+
+export const MAX_MARKETPLACE_SOURCE_SIZE = 10 * 1024 * 1024;
+
+export const uploadMarketplaceItemSourceSchema = z.object({
+  itemId: z.string().min(1, "Item ID is required"),
+  file: z.instanceof(File, { message: "Choose a file to upload" })
+    .refine((file) => file.size > 0, "The file is empty")
+    .refine((file) => file.size <= MAX_MARKETPLACE_SOURCE_SIZE, "The file can't be larger than 10 MB"),
+});
+
+export type CreateMarketplaceItemSchema = z.infer<typeof createMarketplaceItemSchema>;
+export type CreateMarketplaceBundleSchema = z.infer<typeof createMarketplaceBundleSchema>;
@@ -0,0 +1,26 @@
+import { z } from "zod";
+
+export const MAX_MARKETPLACE_REVIEW_LENGTH = 2000;
+
+export const submitMarketplaceReviewSchema = z.object({
+  itemId: z.string().min(1, "Item ID is required"),
+  rating: z.number({ invalid_type_error: "Choose a rating" })
+    .int()
+    .min(1, "Choose a rating")
+    .max(5, "The rating can be at most 5 stars"),
+  body: z.string()
+    .trim()
+    .min(1, "Write a few words about the item")
+    .max(MAX_MARKETPLACE_REVIEW_LENGTH, "The review is too long"),
+});
+
+export const getMarketplaceReviewsSchema = z.object({
+  itemId: z.string().min(1, "Item ID is required"),
+});
+
+export const setMarketplaceReviewHiddenSchema = z.object({
+  reviewId: z.string().min(1, "Review ID is required"),
+  isHidden: z.boolean(),
+});
+
+export type SubmitMarketplaceReviewSchema = z.infer<typeof submitMarketplaceReviewSchema>;
@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+// Keeps the smallest credit package above the minimum charge of Stripe
+export const MAX_PROMO_CODE_DISCOUNT_PERCENT = 90;
+
+export const createPromoCodeSchema = z.object({
+  code: z.string()
+    .min(3, "Code must be at least 3 characters")
+    .max(50, "Code is too long")
+    .regex(/^[a-zA-Z0-9_-]+$/, "Code can only contain letters, numbers, dashes and underscores"),
+  type: z.enum(["CREDITS", "DISCOUNT"]),
+  credits: z.number().int().min(1, "Credits must be at least 1").optional(),
+  discountPercent: z.number().int()
+    .min(1, "Discount must be at least 1%")
+    .max(MAX_PROMO_CODE_DISCOUNT_PERCENT, `Discount can't be more than ${MAX_PROMO_CODE_DISCOUNT_PERCENT}%`)
+    .optional(),
+  maxRedemptions: z.number().int().min(1, "Max redemptions must be at least 1").optional(),
+  maxRedemptionsPerUser: z.number().int().min(1, "Max redemptions per user must be at least 1").default(1),
+  expiresAt: z.date().optional(),
+}).refine((data) => data.type === "CREDITS" ? Boolean(data.credits) : Boolean(data.discountPercent), {
+  message: "Credits codes need a number of credits and discount codes need a discount",
+  path: ["type"],
+});
+
+export const setPromoCodeActiveSchema = z.object({
+  promoCodeId: z.string().min(1, "Promo code ID is required"),
+  isActive: z.boolean(),
+});
@@ -0,0 +1,7 @@
+import { z } from "zod";
+
+export const wishlistItemSchema = z.object({
+  itemId: z.string().min(1, "Item ID is required"),
+});
+
+export type WishlistItemSchema = z.infer<typeof wishlistItemSchema>;
@@ -11,6 +11,36 @@ import { updateAllSessionsOfUser } from "@/utils/kv-session";
 import { canSignUp } from "@/utils/auth";
 import { MAX_TEAMS_JOINED_PER_USER } from "@/constants";
 import { sendTeamInvitationEmail } from "@/utils/email";
+import { getTeamPlan } from "@/utils/plans";
+import { logAuditEvent } from "@/utils/audit-log";
+import { AUDIT_LOG_ACTION, AUDIT_LOG_TARGET_TYPE } from "@/db/schema";
+
+/**
+ * Throws if the team already has as many members as its plan allows, unless an admin lifted its limits
+ */
+async function requireTeamMemberSlot(teamId: string) {
+  const db = getDB();
+
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.id, teamId),
+    columns: { limitsLiftedAt: true },
+  });
+
+  if (team?.limitsLiftedAt) {
+    return;
+  }
+
+  const membersCountResult = await db.select({ value: count() })
+    .from(teamMembershipTable)
+    .where(eq(teamMembershipTable.teamId, teamId));
+
+  const membersCount = membersCountResult[0]?.value || 0;
+  const { limits } = await getTeamPlan(teamId);
+
+  if (membersCount >= limits.maxTeamMembers) {
+    throw new ZSAError("FORBIDDEN", `This team has reached the limit of ${limits.maxTeamMembers} members on its plan.`);
+  }
+}
 
 /**
  * Get all members of a team
@@ -90,7 +120,7 @@ export async function updateTeamMemberRole({
   isSystemRole?: boolean;
 }) {
   // Check if user has permission to change member roles
-  await requireTeamPermission(teamId, TEAM_PERMISSIONS.CHANGE_MEMBER_ROLES);
+  const session = await requireTeamPermission(teamId, TEAM_PERMISSIONS.CHANGE_MEMBER_ROLES);
 
   const db = getDB();
 
@@ -123,6 +153,20 @@ export async function updateTeamMemberRole({
   // Update the user's session to reflect the new role
   await updateAllSessionsOfUser(userId);
 
+  await logAuditEvent({
+    action: AUDIT_LOG_ACTION.TEAM_MEMBER_ROLE_UPDATED,
+    actorUserId: session.userId,
+    targetType: AUDIT_LOG_TARGET_TYPE.USER,
+    targetId: userId,
+    teamId,
+    metadata: {
+      previousRoleId: membership.roleId,
+      previousIsSystemRole: Boolean(membership.isSystemRole),
+      roleId,
+      isSystemRole,
+    },
+  });
+
   return { success: true };
 }
 
@@ -137,7 +181,7 @@ export async function removeTeamMember({
   userId: string;
 }) {
   // Check if user has permission to remove members
-  await requireTeamPermission(teamId, TEAM_PERMISSIONS.REMOVE_MEMBERS);
+  const session = await requireTeamPermission(teamId, TEAM_PERMISSIONS.REMOVE_MEMBERS);
 
   const db = getDB();
 
@@ -170,6 +214,18 @@ export async function removeTeamMember({
   // Update the user's session to remove this team
   await updateAllSessionsOfUser(userId);
 
+  await logAuditEvent({
+    action: AUDIT_LOG_ACTION.TEAM_MEMBER_REMOVED,
+    actorUserId: session.userId,
+    targetType: AUDIT_LOG_TARGET_TYPE.USER,
+    targetId: userId,
+    teamId,
+    metadata: {
+      roleId: membership.roleId,
+      isSystemRole: Boolean(membership.isSystemRole),
+    },
+  });
+
   return { success: true };
 }
 
@@ -219,6 +275,8 @@ export async function inviteUserToTeam({
 
   const teamName = team.name as string || "Team";
 
+  await requireTeamMemberSlot(teamId);
+
   // Get inviter's name for email
   const inviter = {
     firstName: session.user.firstName || "",
@@ -250,7 +308,7 @@ export async function inviteUserToTeam({
 
     const teamsJoined = teamsCountResult[0]?.value || 0;
 
-    if (teamsJoined >= MAX_TEAMS_JOINED_PER_USER) {
+    if (!team.limitsLiftedAt && teamsJoined >= MAX_TEAMS_JOINED_PER_USER) {
       throw new ZSAError("FORBIDDEN", `This user has reached the limit of ${MAX_TEAMS_JOINED_PER_USER} teams they can join.`);
     }
 
@@ -407,6 +465,15 @@ export async function acceptTeamInvitation(token: string) {
     throw new ZSAError("CONFLICT", "You are already a member of this team");
   }
 
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.id, invitation.teamId),
+    columns: { limitsLiftedAt: true, deletedAt: true },
+  });
+
+  if (!team || team.deletedAt) {
+    throw new ZSAError("NOT_FOUND", "Team not found");
+  }
+
   // Check if user has reached their team joining limit
   const teamsCountResult = await db.select({ value: count() })
     .from(teamMembershipTable)
@@ -414,10 +481,12 @@ export async function acceptTeamInvitation(token: string) {
 
   const teamsJoined = teamsCountResult[0]?.value || 0;
 
-  if (teamsJoined >= MAX_TEAMS_JOINED_PER_USER) {
+  if (!team.limitsLiftedAt && teamsJoined >= MAX_TEAMS_JOINED_PER_USER) {
     throw new ZSAError("FORBIDDEN", `You have reached the limit of ${MAX_TEAMS_JOINED_PER_USER} teams you can join.`);
   }
 
+  await requireTeamMemberSlot(invitation.teamId);
+
   // Add user to the team
   await db.insert(teamMembershipTable).values({
     teamId: invitation.teamId,
@@ -543,6 +612,7 @@ export async function getPendingInvitationsForCurrentUser() {
           name: true,
           slug: true,
           avatarUrl: true,
+          deletedAt: true,
         }
       },
       invitedByUser: {
@@ -557,7 +627,8 @@ export async function getPendingInvitationsForCurrentUser() {
     },
   });
 
-  return invitations.map(invitation => ({
+  // Teams deleted by an admin can't be joined
+  return invitations.filter(invitation => !invitation.team.deletedAt).map(invitation => ({
     id: invitation.id,
     token: invitation.token,
     teamId: invitation.teamId,
@@ -5,10 +5,13 @@ import { requireVerifiedEmail } from "@/utils/auth";
 import { generateSlug } from "@/utils/slugify";
 import { ZSAError } from "zsa";
 import { createId } from "@paralleldrive/cuid2";
-import { eq, and, not, count } from "drizzle-orm";
-import { requireTeamPermission } from "@/utils/team-auth";
+import { eq, and, not, count, isNull } from "drizzle-orm";
+import { requireSystemRole, requireTeamPermission } from "@/utils/team-auth";
 import { updateAllSessionsOfUser } from "@/utils/kv-session";
-import { MAX_TEAMS_CREATED_PER_USER, MAX_TEAMS_JOINED_PER_USER } from "@/constants";
+import { MAX_TEAMS_JOINED_PER_USER } from "@/constants";
+import { getUserPlan } from "@/utils/plans";
+import { getAuditLogs, logAuditEvent } from "@/utils/audit-log";
+import { AUDIT_LOG_ACTION, AUDIT_LOG_TARGET_TYPE } from "@/db/schema";
 
 /**
  * Create a new team with the current user as owner
@@ -31,21 +34,24 @@ export async function createTeam({
   const userId = session.userId;
   const db = getDB();
 
-  // Check if user has reached their team creation limit
+  // Check if user has reached their team creation limit, deleted teams don't count
   const ownedTeamsCount = await db.select({ value: count() })
     .from(teamMembershipTable)
+    .innerJoin(teamTable, eq(teamTable.id, teamMembershipTable.teamId))
     .where(
       and(
         eq(teamMembershipTable.userId, userId),
         eq(teamMembershipTable.roleId, SYSTEM_ROLES_ENUM.OWNER),
-        eq(teamMembershipTable.isSystemRole, 1)
+        eq(teamMembershipTable.isSystemRole, 1),
+        isNull(teamTable.deletedAt)
       )
     );
 
   const teamsOwned = ownedTeamsCount[0]?.value || 0;
+  const { limits } = await getUserPlan(userId);
 
-  if (teamsOwned >= MAX_TEAMS_CREATED_PER_USER) {
-    throw new ZSAError("FORBIDDEN", `You have reached the limit of ${MAX_TEAMS_CREATED_PER_USER} teams you can create.`);
+  if (teamsOwned >= limits.maxTeamsCreated) {
+    throw new ZSAError("FORBIDDEN", `You have reached the limit of ${limits.maxTeamsCreated} teams you can create on your plan.`);
   }
 
   // Generate unique slug for the team
@@ -204,10 +210,16 @@ export async function updateTeam({
  */
 export async function deleteTeam(teamId: string) {
   // Check if user has permission to delete team
-  await requireTeamPermission(teamId, TEAM_PERMISSIONS.DELETE_TEAM);
+  const session = await requireTeamPermission(teamId, TEAM_PERMISSIONS.DELETE_TEAM);
 
   const db = getDB();
 
+  // Kept in the audit log, which outlives the team
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.id, teamId),
+    columns: { name: true, slug: true },
+  });
+
   // Get all user IDs from the team memberships to update their sessions later
   const memberships = await db.query.teamMembershipTable.findMany({
     where: eq(teamMembershipTable.teamId, teamId),
@@ -227,6 +239,19 @@ export async function deleteTeam(teamId: string) {
     await updateAllSessionsOfUser(userId);
   }
 
+  await logAuditEvent({
+    action: AUDIT_LOG_ACTION.TEAM_DELETED,
+    actorUserId: session.userId,
+    targetType: AUDIT_LOG_TARGET_TYPE.TEAM,
+    targetId: teamId,
+    teamId,
+    metadata: {
+      name: team?.name ?? null,
+      slug: team?.slug ?? null,
+      memberCount: userIds.length,
+    },
+  });
+
   return { success: true };
 }
 
@@ -262,12 +287,14 @@ export async function getUserTeams() {
 
   const db = getDB();
 
-  const userTeams = await db.query.teamMembershipTable.findMany({
+  const memberships = await db.query.teamMembershipTable.findMany({
     where: eq(teamMembershipTable.userId, session.userId),
     with: {
       team: true,
     },
   });
+  // Teams deleted by an admin are hidden from their members
+  const userTeams = memberships.filter((membership) => !membership.team.deletedAt);
 
   // This function doesn't enforce the MAX_TEAMS_JOINED_PER_USER limit directly
   // since it's just retrieving teams, but we use the constant here to show that
@@ -278,3 +305,20 @@ export async function getUserTeams() {
 
   return userTeams.map(membership => membership.team);
 }
+
+/**
+ * Get a page of the audit log of a team, which only its owners can see
+ */
+export async function getTeamAuditLogs({
+  teamId,
+  page,
+  pageSize,
+}: {
+  teamId: string;
+  page: number;
+  pageSize: number;
+}) {
+  await requireSystemRole(teamId, SYSTEM_ROLES_ENUM.OWNER);
+
+  return getAuditLogs({ teamId, page, pageSize });
+}
@@ -0,0 +1,51 @@
+import "server-only";
+import { and, asc, desc, eq, gte, inArray, isNotNull, isNull, like, lt, lte, type SQL } from "drizzle-orm";
+import { getDB } from "@/db";
+import { passKeyCredentialTable, userTable } from "@/db/schema";
+import type { UserFilters, UserSortColumn } from "@/schemas/admin-user-filters.schema";
+
+const SORT_COLUMNS = {
+  email: [userTable.email],
+  name: [userTable.firstName, userTable.lastName],
+  role: [userTable.role],
+  credits: [userTable.currentCredits],
+  createdAt: [userTable.createdAt],
+} satisfies Record<UserSortColumn, unknown[]>;
+
+function getNextDay(day: string) {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date;
+}
+
+/**
+ * The where clause of the users that match the filters of the admin users table
+ */
+export function getUserFiltersWhere(filters: UserFilters): SQL | undefined {
+  const usersWithPasskeys = getDB()
+    .select({ userId: passKeyCredentialTable.userId })
+    .from(passKeyCredentialTable);
+
+  return and(
+    filters.emailFilter ? like(userTable.email, `%${filters.emailFilter}%`) : undefined,
+    filters.role ? eq(userTable.role, filters.role) : undefined,
+    filters.verification === "verified" ? isNotNull(userTable.emailVerified) : undefined,
+    filters.verification === "unverified" ? isNull(userTable.emailVerified) : undefined,
+    filters.authMethod === "password" ? isNotNull(userTable.passwordHash) : undefined,
+    filters.authMethod === "google" ? isNotNull(userTable.googleAccountId) : undefined,
+    filters.authMethod === "passkey" ? inArray(userTable.id, usersWithPasskeys) : undefined,
+    filters.minCredits !== undefined ? gte(userTable.currentCredits, filters.minCredits) : undefined,
+    filters.maxCredits !== undefined ? lte(userTable.currentCredits, filters.maxCredits) : undefined,
+    filters.createdFrom ? gte(userTable.createdAt, new Date(`${filters.createdFrom}T00:00:00Z`)) : undefined,
+    filters.createdTo ? lt(userTable.createdAt, getNextDay(filters.createdTo)) : undefined,
+  );
+}
+
+/**
+ * The ordering of the admin users table. The ID breaks ties, so pages don't overlap.
+ */
+export function getUserFiltersOrderBy({ sortBy, sortOrder }: Pick<UserFilters, "sortBy" | "sortOrder">) {
+  const direction = sortOrder === "asc" ? asc : desc;
+
+  return [...SORT_COLUMNS[sortBy].map((column) => direction(column)), direction(userTable.id)];
+}
@@ -0,0 +1,187 @@
+import "server-only";
+import { and, count, desc, eq, gte, inArray, sql, sum, type SQL } from "drizzle-orm";
+import type { SQLiteColumn } from "drizzle-orm/sqlite-core";
+import { getDB } from "@/db";
+import {
+  creditTransactionTable,
+  marketplaceItemPriceTable,
+  marketplaceItemTable,
+  purchasedItemsTable,
+  teamTable,
+  userTable,
+  CREDIT_TRANSACTION_TYPE,
+} from "@/db/schema";
+import type { UserAuthMethod } from "@/schemas/admin-user-filters.schema";
+import { withKVCache, CACHE_KEYS } from "./with-kv-cache";
+
+export const ANALYTICS_RANGES = [7, 30, 90] as const;
+export type AnalyticsRange = typeof ANALYTICS_RANGES[number];
+
+// How many marketplace items are ranked
+const TOP_SELLERS_LIMIT = 10;
+
+/**
+ * Days are UTC dates like 2025-01-31, the same as the usage days in src/utils/metering.ts
+ */
+function dayOf(column: SQLiteColumn): SQL<string> {
+  return sql<string>`date(${column}, 'unixepoch')`;
+}
+
+function getSince(days: number) {
+  const today = new Date();
+
+  return new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - (days - 1)));
+}
+
+async function getSignUps(since: Date) {
+  const day = dayOf(userTable.createdAt);
+  // The sign up method itself isn't stored, so users are grouped by how they can sign in
+  const method = sql<UserAuthMethod>`CASE
+    WHEN ${userTable.passwordHash} IS NOT NULL THEN 'password'
+    WHEN ${userTable.googleAccountId} IS NOT NULL THEN 'google'
+    ELSE 'passkey'
+  END`;
+
+  return getDB()
+    .select({ day, method, count: count() })
+    .from(userTable)
+    .where(gte(userTable.createdAt, since))
+    .groupBy(day, method);
+}
+
+/**
+ * Revenue in cents of the credit packages bought each day, which is what was charged for them
+ * after promo code discounts. Refunded payments aren't subtracted.
+ */
+async function getRevenue(since: Date) {
+  const day = dayOf(creditTransactionTable.createdAt);
+
+  return getDB()
+    .select({
+      day,
+      purchases: count(),
+      revenue: sql<number>`coalesce(sum(${creditTransactionTable.amountPaid}), 0)`,
+    })
+    .from(creditTransactionTable)
+    .where(and(
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.PURCHASE),
+      gte(creditTransactionTable.createdAt, since),
+    ))
+    .groupBy(day);
+}
+
+/**
+ * Credits that entered wallets, were spent on usage (minus refunds) and expired each day.
+ * Transfers only move credits between wallets, so they are left out.
+ */
+async function getCreditFlows(since: Date) {
+  const db = getDB();
+  const day = dayOf(creditTransactionTable.createdAt);
+  const issuedTypes = [
+    CREDIT_TRANSACTION_TYPE.PURCHASE,
+    CREDIT_TRANSACTION_TYPE.MONTHLY_REFRESH,
+    CREDIT_TRANSACTION_TYPE.PROMO,
+    CREDIT_TRANSACTION_TYPE.ADMIN_ADJUSTMENT,
+  ];
+  const consumedTypes = [
+    CREDIT_TRANSACTION_TYPE.USAGE,
+    CREDIT_TRANSACTION_TYPE.REFUND,
+  ];
+
+  const flows = await db
+    .select({
+      day,
+      // Negative admin adjustments take credits away instead of issuing them
+      issued: sql<number>`coalesce(sum(CASE WHEN ${inArray(creditTransactionTable.type, issuedTypes)} AND ${creditTransactionTable.amount} > 0 THEN ${creditTransactionTable.amount} ELSE 0 END), 0)`,
+      consumed: sql<number>`coalesce(sum(CASE WHEN ${inArray(creditTransactionTable.type, consumedTypes)} THEN -${creditTransactionTable.amount} ELSE 0 END), 0)`,
+    })
+    .from(creditTransactionTable)
+    .where(and(
+      gte(creditTransactionTable.createdAt, since),
+      inArray(creditTransactionTable.type, [...issuedTypes, ...consumedTypes]),
+    ))
+    .groupBy(day);
+
+  const expiredDay = dayOf(creditTransactionTable.expirationDateProcessedAt);
+  const expirations = await db
+    .select({ day: expiredDay, expired: sum(creditTransactionTable.expiredAmount).mapWith(Number) })
+    .from(creditTransactionTable)
+    .where(gte(creditTransactionTable.expirationDateProcessedAt, since))
+    .groupBy(expiredDay);
+
+  const days = new Map<string, { day: string; issued: number; consumed: number; expired: number }>();
+
+  for (const flow of flows) {
+    days.set(flow.day, { ...flow, expired: 0 });
+  }
+
+  for (const { day: expirationDay, expired } of expirations) {
+    days.set(expirationDay, {
+      ...(days.get(expirationDay) ?? { day: expirationDay, issued: 0, consumed: 0 }),
+      expired,
+    });
+  }
+
+  return [...days.values()];
+}
+
+async function getTopSellers(since: Date) {
+  const sales = count();
+
+  return getDB()
+    .select({
+      type: purchasedItemsTable.itemType,
+      slug: purchasedItemsTable.itemId,
+      name: sql<string | null>`max(${marketplaceItemTable.name})`,
+      sales,
+      // Purchases made before prices were recorded count as free
+      credits: sql<number>`coalesce(sum(${marketplaceItemPriceTable.credits}), 0)`,
+    })
+    .from(purchasedItemsTable)
+    .leftJoin(marketplaceItemPriceTable, eq(marketplaceItemPriceTable.id, purchasedItemsTable.priceId))
+    .leftJoin(marketplaceItemTable, and(
+      eq(marketplaceItemTable.type, purchasedItemsTable.itemType),
+      eq(marketplaceItemTable.slug, purchasedItemsTable.itemId),
+    ))
+    .where(gte(purchasedItemsTable.purchasedAt, since))
+    .groupBy(purchasedItemsTable.itemType, purchasedItemsTable.itemId)
+    .orderBy(desc(sales))
+    .limit(TOP_SELLERS_LIMIT);
+}
+
+async function getTeamsCreated(since: Date) {
+  const day = dayOf(teamTable.createdAt);
+
+  return getDB()
+    .select({ day, count: count() })
+    .from(teamTable)
+    .where(gte(teamTable.createdAt, since))
+    .groupBy(day);
+}
+
+/**
+ * The numbers behind the admin analytics page for the last `days` days, including today.
+ * They are cached, so the page can lag behind by up to 15 minutes.
+ */
+export async function getAdminAnalytics(days: AnalyticsRange) {
+  return withKVCache(
+    async () => {
+      const since = getSince(days);
+
+      return {
+        since: since.toISOString().slice(0, 10),
+        signUps: await getSignUps(since),
+        revenue: await getRevenue(since),
+        creditFlows: await getCreditFlows(since),
+        topSellers: await getTopSellers(since),
+        teamsCreated: await getTeamsCreated(since),
+      };
+    },
+    {
+      key: `${CACHE_KEYS.ADMIN_ANALYTICS}:${days}`,
+      ttl: "15 minutes",
+    }
+  );
+}
+
+export type AdminAnalytics = Awaited<ReturnType<typeof getAdminAnalytics>>;
@@ -0,0 +1,145 @@
+import "server-only";
+import { cookies } from "next/headers";
+import { and, asc, eq, gt, inArray, isNull, or } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  ANNOUNCEMENT_AUDIENCE,
+  ROLES_ENUM,
+  announcementDismissalTable,
+  announcementTable,
+  type Announcement,
+} from "@/db/schema";
+import { DISMISSED_ANNOUNCEMENTS_COOKIE_NAME } from "@/constants";
+import { getSessionFromCookie } from "./auth";
+import { getUserPlan } from "./plans";
+import { CACHE_KEYS, invalidateKVCache, withKVCache } from "./with-kv-cache";
+
+// Visitors that closed more announcements than this only keep the latest ones closed
+const MAX_DISMISSED_ANNOUNCEMENTS_IN_COOKIE = 50;
+
+export type AnnouncementBanner = Pick<
+  Announcement,
+  "id" | "type" | "title" | "message" | "audience" | "teamIds" | "planId" | "startsAt" | "endsAt" | "dismissible"
+>;
+
+/**
+ * Announcements that haven't ended, including the scheduled ones, so that they show up once they
+ * start without waiting for the cache to expire. Every change of an admin invalidates the cache.
+ */
+async function getUnendedAnnouncements(): Promise<AnnouncementBanner[]> {
+  const announcements = await withKVCache(
+    async () => {
+      return getDB().query.announcementTable.findMany({
+        where: or(
+          isNull(announcementTable.endsAt),
+          gt(announcementTable.endsAt, new Date()),
+        ),
+        columns: {
+          id: true,
+          type: true,
+          title: true,
+          message: true,
+          audience: true,
+          teamIds: true,
+          planId: true,
+          startsAt: true,
+          endsAt: true,
+          dismissible: true,
+        },
+        orderBy: [asc(announcementTable.startsAt)],
+      });
+    },
+    {
+      key: CACHE_KEYS.ANNOUNCEMENTS,
+      ttl: "5 minutes",
+    }
+  );
+
+  // Dates come back as strings from the KV cache
+  return announcements.map((announcement) => ({
+    ...announcement,
+    startsAt: new Date(announcement.startsAt),
+    endsAt: announcement.endsAt ? new Date(announcement.endsAt) : null,
+  }));
+}
+
+export async function invalidateAnnouncementsCache() {
+  await invalidateKVCache(CACHE_KEYS.ANNOUNCEMENTS);
+}
+
+export function parseDismissedAnnouncementsCookie(value: string | undefined) {
+  return value ? value.split(",").filter(Boolean) : [];
+}
+
+export function serializeDismissedAnnouncementsCookie(announcementIds: string[]) {
+  return announcementIds.slice(-MAX_DISMISSED_ANNOUNCEMENTS_IN_COOKIE).join(",");
+}
+
+/**
+ * The announcements that are running and meant for the current user or visitor, without the ones they closed
+ */
+export async function getAnnouncementsForViewer(): Promise<AnnouncementBanner[]> {
+  const [announcements, session] = await Promise.all([
+    getUnendedAnnouncements(),
+    getSessionFromCookie(),
+  ]);
+  const now = new Date();
+
+  const running = announcements.filter(
+    (announcement) => announcement.startsAt <= now && (!announcement.endsAt || announcement.endsAt > now)
+  );
+
+  if (running.length === 0) {
+    return [];
+  }
+
+  const memberTeamIds = new Set(session?.teams?.map((team) => team.id));
+  // Only look up the plan when an announcement targets one
+  const plan = session && running.some((announcement) => announcement.audience === ANNOUNCEMENT_AUDIENCE.PLAN)
+    ? await getUserPlan(session.user.id)
+    : undefined;
+
+  const visible = running.filter((announcement) => {
+    switch (announcement.audience) {
+      case ANNOUNCEMENT_AUDIENCE.ALL:
+        return true;
+      case ANNOUNCEMENT_AUDIENCE.ADMINS:
+        return session?.user.role === ROLES_ENUM.ADMIN;
+      case ANNOUNCEMENT_AUDIENCE.TEAMS:
+        return Boolean(announcement.teamIds?.some((teamId) => memberTeamIds.has(teamId)));
+      case ANNOUNCEMENT_AUDIENCE.PLAN:
+        return Boolean(plan && plan.id === announcement.planId);
+    }
+
+    return false;
+  });
+
+  const dismissibleIds = visible
+    .filter((announcement) => announcement.dismissible)
+    .map((announcement) => announcement.id);
+
+  if (dismissibleIds.length === 0) {
+    return visible;
+  }
+
+  let dismissedIds: string[];
+
+  if (session) {
+    const dismissals = await getDB().query.announcementDismissalTable.findMany({
+      where: and(
+        eq(announcementDismissalTable.userId, session.user.id),
+        inArray(announcementDismissalTable.announcementId, dismissibleIds),
+      ),
+      columns: {
+        announcementId: true,
+      },
+    });
+
+    dismissedIds = dismissals.map((dismissal) => dismissal.announcementId);
+  } else {
+    const cookieStore = await cookies();
+    dismissedIds = parseDismissedAnnouncementsCookie(cookieStore.get(DISMISSED_ANNOUNCEMENTS_COOKIE_NAME)?.value);
+  }
+
+  return visible.filter((announcement) => !announcement.dismissible || !dismissedIds.includes(announcement.id));
+}
@@ -0,0 +1,214 @@
+import "server-only";
+import { and, count, desc, eq, gte, lt, sql, type SQL } from "drizzle-orm";
+import { alias, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
+import { headers } from "next/headers";
+import type Stripe from "stripe";
+import { getDB } from "@/db";
+import {
+  auditLogTable,
+  teamTable,
+  userTable,
+  AUDIT_LOG_ACTION,
+  AUDIT_LOG_TARGET_TYPE,
+  type AuditLogMetadata,
+} from "@/db/schema";
+import { getSessionFromCookie } from "./auth";
+import { getIP } from "./get-IP";
+
+export type AuditLogAction = typeof AUDIT_LOG_ACTION[keyof typeof AUDIT_LOG_ACTION];
+export type AuditLogTargetType = typeof AUDIT_LOG_TARGET_TYPE[keyof typeof AUDIT_LOG_TARGET_TYPE];
+
+interface AuditEvent {
+  action: AuditLogAction;
+  actorUserId: string | null;
+  targetType?: AuditLogTargetType;
+  targetId?: string | null;
+  teamId?: string | null;
+  metadata?: AuditLogMetadata;
+  // Webhooks aren't requested by the actor, so the IP and user agent of the request aren't theirs
+  fromWebhook?: boolean;
+  // An event with the same key is only recorded once
+  idempotencyKey?: string;
+}
+
+async function insertAuditEvent({
+  action,
+  actorUserId,
+  targetType,
+  targetId,
+  teamId,
+  metadata,
+  fromWebhook = false,
+  idempotencyKey,
+}: AuditEvent) {
+  let request: { ipAddress: string | null; userAgent: string | null; impersonatedBy?: string } = {
+    ipAddress: null,
+    userAgent: null,
+  };
+
+  if (!fromWebhook) {
+    const session = await getSessionFromCookie();
+
+    request = {
+      ipAddress: await getIP(),
+      userAgent: (await headers()).get("user-agent")?.slice(0, 255) ?? null,
+      // The actor of changes made while an admin is signed in as the user is the user, so the admin is kept too
+      impersonatedBy: session?.impersonation?.adminUserId,
+    };
+  }
+
+  await getDB().insert(auditLogTable).values({
+    actorUserId,
+    action,
+    targetType,
+    targetId,
+    teamId,
+    ipAddress: request.ipAddress,
+    userAgent: request.userAgent,
+    metadata: request.impersonatedBy
+      ? { ...metadata, impersonatedBy: request.impersonatedBy }
+      : metadata,
+    idempotencyKey,
+  }).onConflictDoNothing({ target: auditLogTable.idempotencyKey });
+}
+
+/**
+ * Records an event after it happened. Failures are logged instead of thrown, so a missing
+ * audit entry doesn't fail a change that was already made.
+ */
+export async function logAuditEvent(event: AuditEvent) {
+  try {
+    await insertAuditEvent(event);
+  } catch (error) {
+    console.error(`Failed to record the audit event ${event.action}:`, error);
+  }
+}
+
+/**
+ * Records a credit purchase once per payment intent, by the client-side confirmation or by the
+ * Stripe webhook, whichever comes first. Failures are thrown, so that the purchase is recorded
+ * by the next of them instead.
+ */
+export async function logCreditPurchase(paymentIntent: Stripe.PaymentIntent, { fromWebhook }: { fromWebhook: boolean }) {
+  const { userId, teamId, packageId, credits, autoTopUp, promoCodeId } = paymentIntent.metadata;
+
+  await insertAuditEvent({
+    action: AUDIT_LOG_ACTION.CREDITS_PURCHASED,
+    actorUserId: userId,
+    targetType: AUDIT_LOG_TARGET_TYPE.PAYMENT_INTENT,
+    targetId: paymentIntent.id,
+    teamId: teamId || null,
+    metadata: {
+      packageId,
+      credits: parseInt(credits),
+      amount: paymentIntent.amount,
+      currency: paymentIntent.currency,
+      autoTopUp: autoTopUp === "true",
+      promoCodeId: promoCodeId || null,
+    },
+    fromWebhook,
+    idempotencyKey: `${AUDIT_LOG_ACTION.CREDITS_PURCHASED}:${paymentIntent.id}`,
+  });
+}
+
+export interface AuditLogFilters {
+  teamId?: string;
+  action?: AuditLogAction;
+  actorEmail?: string;
+  // UTC days like 2025-01-31, both ends of the range are included
+  createdFrom?: string;
+  createdTo?: string;
+}
+
+function getAuditLogFiltersWhere(filters: AuditLogFilters, actorEmail: AnySQLiteColumn) {
+  const conditions: SQL[] = [];
+
+  if (filters.teamId) {
+    conditions.push(eq(auditLogTable.teamId, filters.teamId));
+  }
+
+  if (filters.action) {
+    conditions.push(eq(auditLogTable.action, filters.action));
+  }
+
+  if (filters.actorEmail) {
+    // `%` and `_` in the filter match themselves instead of any characters
+    const pattern = `%${filters.actorEmail.replace(/[\\%_]/g, "\\$&")}%`;
+    conditions.push(sql`${actorEmail} like ${pattern} escape '\\'`);
+  }
+
+  if (filters.createdFrom) {
+    conditions.push(gte(auditLogTable.createdAt, new Date(`${filters.createdFrom}T00:00:00Z`)));
+  }
+
+  if (filters.createdTo) {
+    const createdUntil = new Date(`${filters.createdTo}T00:00:00Z`);
+    createdUntil.setUTCDate(createdUntil.getUTCDate() + 1);
+    conditions.push(lt(auditLogTable.createdAt, createdUntil));
+  }
+
+  return and(...conditions);
+}
+
+/**
+ * A page of audit events, newest first, with the emails of the actors and targeted users
+ * and the names of the teams that still exist
+ */
+export async function getAuditLogs({
+  page,
+  pageSize,
+  ...filters
+}: AuditLogFilters & { page: number; pageSize: number }) {
+  const db = getDB();
+  const actor = alias(userTable, "actor");
+  const targetUser = alias(userTable, "target_user");
+  const where = getAuditLogFiltersWhere(filters, actor.email);
+
+  const [{ totalCount }] = await db
+    .select({ totalCount: count() })
+    .from(auditLogTable)
+    .leftJoin(actor, eq(actor.id, auditLogTable.actorUserId))
+    .where(where);
+
+  const events = await db
+    .select({
+      id: auditLogTable.id,
+      action: auditLogTable.action,
+      actorUserId: auditLogTable.actorUserId,
+      actorEmail: actor.email,
+      targetType: auditLogTable.targetType,
+      targetId: auditLogTable.targetId,
+      targetUserEmail: targetUser.email,
+      teamId: auditLogTable.teamId,
+      teamName: teamTable.name,
+      ipAddress: auditLogTable.ipAddress,
+      userAgent: auditLogTable.userAgent,
+      metadata: auditLogTable.metadata,
+      createdAt: auditLogTable.createdAt,
+    })
+    .from(auditLogTable)
+    .leftJoin(actor, eq(actor.id, auditLogTable.actorUserId))
+    .leftJoin(targetUser, and(
+      eq(auditLogTable.targetType, AUDIT_LOG_TARGET_TYPE.USER),
+      eq(targetUser.id, auditLogTable.targetId),
+    ))
+    .leftJoin(teamTable, eq(teamTable.id, auditLogTable.teamId))
+    .where(where)
+    .orderBy(desc(auditLogTable.createdAt), desc(auditLogTable.id))
+    .limit(pageSize)
+    .offset((page - 1) * pageSize);
+
+  return {
+    events: events.map((event) => ({
+      ...event,
+      action: event.action as AuditLogAction,
+      targetType: event.targetType as AuditLogTargetType | null,
+    })),
+    totalCount,
+    page,
+    pageSize,
+    totalPages: Math.ceil(totalCount / pageSize),
+  };
+}
+
+export type AuditLogEvent = Awaited<ReturnType<typeof getAuditLogs>>["events"][number];
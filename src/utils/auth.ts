@@ -1,12 +1,12 @@
 import "server-only";
 
-import { ROLES_ENUM, userTable, teamMembershipTable, SYSTEM_ROLES_ENUM, teamRoleTable, TEAM_PERMISSIONS } from "@/db/schema";
+import { ROLES_ENUM, userTable, teamMembershipTable, SYSTEM_ROLES_ENUM, teamRoleTable, TEAM_PERMISSIONS, userImpersonationTable } from "@/db/schema";
 import { init } from "@paralleldrive/cuid2";
 import { encodeHexLowerCase } from "@oslojs/encoding"
 import ms from "ms"
 import { getDB } from "@/db";
-import { eq } from "drizzle-orm";
-import { cookies } from "next/headers";
+import { and, eq, isNull } from "drizzle-orm";
+import { cookies, headers } from "next/headers";
 import isProd from "@/utils/is-prod";
 import {
   createKVSession,
@@ -19,10 +19,11 @@ import {
 } from "./kv-session";
 import { cache } from "react"
 import type { SessionValidationResult } from "@/types";
-import { SESSION_COOKIE_NAME } from "@/constants";
+import { IMPERSONATION_SESSION_LENGTH_MINUTES, IMPERSONATOR_SESSION_COOKIE_NAME, SESSION_COOKIE_NAME } from "@/constants";
 import { ZSAError } from "zsa";
-import { addFreeMonthlyCreditsIfNeeded } from "./credits";
+import { addMonthlyCreditsIfNeeded } from "./credits";
 import { getInitials } from "./name-initials";
+import { getIP } from "./get-IP";
 
 const getSessionLength = () => {
   return ms("30d");
@@ -75,7 +76,7 @@ function decodeSessionCookie(cookie: string): { userId: string; token: string }
   return { userId: parts[0], token: parts[1] };
 }
 
-interface CreateSessionParams extends Pick<CreateKVSessionParams, "authenticationType" | "passkeyCredentialId" | "userId"> {
+interface CreateSessionParams extends Pick<CreateKVSessionParams, "authenticationType" | "passkeyCredentialId" | "userId" | "impersonation"> {
   token: string;
 }
 
@@ -90,9 +91,9 @@ export async function getUserTeamsWithPermissions(userId: string) {
     },
   });
 
-  // Fetch permissions for each membership
+  // Fetch permissions for each membership, teams deleted by an admin are left out so they can't be accessed
   return Promise.all(
-    userTeamMemberships.map(async (membership) => {
+    userTeamMemberships.filter((membership) => !membership.team.deletedAt).map(async (membership) => {
       let roleName = '';
       let permissions: string[] = [];
 
@@ -149,10 +150,12 @@ export async function createSession({
   token,
   userId,
   authenticationType,
-  passkeyCredentialId
+  passkeyCredentialId,
+  impersonation
 }: CreateSessionParams): Promise<KVSession> {
   const sessionId = await generateSessionId(token);
-  const expiresAt = new Date(Date.now() + getSessionLength());
+  // Impersonated sessions are kept short
+  const expiresAt = new Date(Date.now() + (impersonation ? ms(`${IMPERSONATION_SESSION_LENGTH_MINUTES}m`) : getSessionLength()));
 
   const user = await getUserFromDB(userId);
 
@@ -169,6 +172,7 @@ export async function createSession({
     user,
     authenticationType,
     passkeyCredentialId,
+    impersonation,
     teams: teamsWithPermissions
   });
 }
@@ -178,6 +182,15 @@ export async function createAndStoreSession(
   authenticationType?: CreateKVSessionParams["authenticationType"],
   passkeyCredentialId?: CreateKVSessionParams["passkeyCredentialId"]
 ) {
+  const user = await getDB().query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    columns: { bannedAt: true },
+  });
+
+  if (user?.bannedAt) {
+    throw new ZSAError("FORBIDDEN", "This account has been suspended. Please contact support.");
+  }
+
   const sessionToken = generateSessionToken();
   const session = await createSession({
     token: sessionToken,
@@ -220,7 +233,7 @@ async function validateSessionToken(token: string, userId: string): Promise<Sess
   }
 
   // Check and refresh credits if needed
-  const currentCredits = await addFreeMonthlyCreditsIfNeeded(session);
+  const currentCredits = await addMonthlyCreditsIfNeeded(session);
 
   // If credits were refreshed, update the session
   if (
@@ -247,15 +260,19 @@ interface SetSessionTokenCookieParams {
   expiresAt: Date;
 }
 
-export async function setSessionTokenCookie({ token, userId, expiresAt }: SetSessionTokenCookieParams): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.set(SESSION_COOKIE_NAME, encodeSessionCookie(userId, token), {
+function getSessionCookieOptions(expiresAt: Date) {
+  return {
     httpOnly: true,
     sameSite: isProd ? "strict" : "lax",
     secure: isProd,
     expires: expiresAt,
     path: "/",
-  });
+  } as const;
+}
+
+export async function setSessionTokenCookie({ token, userId, expiresAt }: SetSessionTokenCookieParams): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, encodeSessionCookie(userId, token), getSessionCookieOptions(expiresAt));
 }
 
 export async function deleteSessionTokenCookie(): Promise<void> {
@@ -263,6 +280,98 @@ export async function deleteSessionTokenCookie(): Promise<void> {
   cookieStore.delete(SESSION_COOKIE_NAME);
 }
 
+interface ImpersonateUserParams {
+  admin: KVSession;
+  userId: string;
+  reason: string;
+}
+
+/**
+ * Signs the admin in as the user with a short session that is flagged as impersonated and
+ * records it in the user_impersonation table. The admin's own session is kept in a separate
+ * cookie, so they return to it when they stop impersonating.
+ */
+export async function impersonateUser({ admin, userId, reason }: ImpersonateUserParams) {
+  const cookieStore = await cookies();
+  const adminSessionCookie = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+
+  if (!adminSessionCookie) {
+    throw new ZSAError("NOT_AUTHORIZED", "Not authenticated");
+  }
+
+  const headersList = await headers();
+  const [impersonation] = await getDB()
+    .insert(userImpersonationTable)
+    .values({
+      adminUserId: admin.userId,
+      userId,
+      reason,
+      ipAddress: await getIP(),
+      userAgent: headersList.get("user-agent")?.slice(0, 255),
+    })
+    .returning();
+
+  const sessionToken = generateSessionToken();
+  const session = await createSession({
+    token: sessionToken,
+    userId,
+    impersonation: {
+      id: impersonation.id,
+      adminUserId: admin.userId,
+      adminEmail: admin.user.email,
+    },
+  });
+
+  cookieStore.set(IMPERSONATOR_SESSION_COOKIE_NAME, adminSessionCookie, getSessionCookieOptions(new Date(admin.expiresAt)));
+  await setSessionTokenCookie({
+    token: sessionToken,
+    userId,
+    expiresAt: new Date(session.expiresAt),
+  });
+
+  return impersonation;
+}
+
+/**
+ * Ends an impersonated session and signs the admin back in with their own session.
+ * Returns the admin's session, or null when it has expired in the meantime and they are signed out.
+ */
+export async function stopImpersonating(session: KVSession) {
+  if (!session.impersonation) {
+    throw new ZSAError("PRECONDITION_FAILED", "You are not impersonating a user");
+  }
+
+  await getDB()
+    .update(userImpersonationTable)
+    .set({ endedAt: new Date() })
+    .where(and(
+      eq(userImpersonationTable.id, session.impersonation.id),
+      isNull(userImpersonationTable.endedAt),
+    ));
+
+  await invalidateSession(session.id, session.userId);
+
+  const cookieStore = await cookies();
+  const adminSessionCookie = cookieStore.get(IMPERSONATOR_SESSION_COOKIE_NAME)?.value;
+  cookieStore.delete(IMPERSONATOR_SESSION_COOKIE_NAME);
+
+  const decoded = adminSessionCookie ? decodeSessionCookie(adminSessionCookie) : null;
+  const adminSession = decoded ? await validateSessionToken(decoded.token, decoded.userId) : null;
+
+  if (!decoded || !adminSession || adminSession.userId !== session.impersonation.adminUserId) {
+    await deleteSessionTokenCookie();
+    return null;
+  }
+
+  await setSessionTokenCookie({
+    token: decoded.token,
+    userId: decoded.userId,
+    expiresAt: new Date(adminSession.expiresAt),
+  });
+
+  return adminSession;
+}
+
 /**
  * This function can only be called in a Server Components, Server Action or Route Handler
  */
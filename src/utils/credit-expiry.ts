@@ -0,0 +1,88 @@
+import "server-only";
+import { and, eq, gt, inArray, isNull, lte } from "drizzle-orm";
+import { getDB } from "@/db";
+import { creditTransactionTable, CREDIT_TRANSACTION_TYPE } from "@/db/schema";
+import { CREDITS_EXPIRATION_WARNING_DAYS } from "@/constants";
+import { sendCreditExpiryWarningEmail } from "./email";
+
+/**
+ * Emails the owners of purchased credits that expire within CREDITS_EXPIRATION_WARNING_DAYS,
+ * one email per wallet. Each bucket is only warned about once, even when the cron job overlaps.
+ * Returns the number of emails that were sent.
+ */
+export async function sendCreditExpiryWarnings() {
+  const db = getDB();
+  const currentTime = new Date();
+  const warnUntil = new Date(currentTime.getTime() + CREDITS_EXPIRATION_WARNING_DAYS * 24 * 60 * 60 * 1000);
+
+  const expiringBuckets = await db.query.creditTransactionTable.findMany({
+    where: and(
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.PURCHASE),
+      gt(creditTransactionTable.remainingAmount, 0),
+      isNull(creditTransactionTable.expirationDateProcessedAt),
+      isNull(creditTransactionTable.expirationWarningSentAt),
+      gt(creditTransactionTable.expirationDate, currentTime),
+      lte(creditTransactionTable.expirationDate, warnUntil),
+    ),
+    with: {
+      user: {
+        columns: {
+          email: true,
+        },
+      },
+      team: {
+        columns: {
+          name: true,
+          slug: true,
+          billingEmail: true,
+        },
+      },
+    },
+  });
+
+  const bucketsByWallet = new Map<string, typeof expiringBuckets>();
+  for (const bucket of expiringBuckets) {
+    const walletId = bucket.teamId ?? bucket.userId;
+    bucketsByWallet.set(walletId, [...(bucketsByWallet.get(walletId) ?? []), bucket]);
+  }
+
+  let sentWarnings = 0;
+
+  for (const buckets of bucketsByWallet.values()) {
+    const claimedBuckets = await db
+      .update(creditTransactionTable)
+      .set({ expirationWarningSentAt: currentTime })
+      .where(and(
+        inArray(creditTransactionTable.id, buckets.map((bucket) => bucket.id)),
+        isNull(creditTransactionTable.expirationWarningSentAt),
+      ))
+      .returning({ id: creditTransactionTable.id });
+
+    const warnedBuckets = buckets.filter((bucket) => claimedBuckets.some(({ id }) => id === bucket.id));
+    const { team, user } = buckets[0];
+    // Team warnings go to the billing email, or to the member who bought the credits
+    const email = team?.billingEmail ?? user.email;
+
+    if (!warnedBuckets.length || !email) {
+      continue;
+    }
+
+    try {
+      await sendCreditExpiryWarningEmail({
+        email,
+        teamName: team?.name,
+        teamSlug: team?.slug,
+        expirations: warnedBuckets.map((bucket) => ({
+          credits: bucket.remainingAmount,
+          expiresAt: bucket.expirationDate!,
+        })),
+      });
+
+      sentWarnings++;
+    } catch (error) {
+      console.error(`Failed to send the credit expiry warning to ${email}:`, error);
+    }
+  }
+
+  return sentWarnings;
+}
@@ -0,0 +1,45 @@
+import "server-only";
+import type Stripe from "stripe";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { saveAutoTopUpPaymentMethod } from "./low-balance";
+import { recordPromoCodeDiscount } from "./promo-codes";
+import { sendCreditPurchaseReceipt } from "./receipts";
+import { logCreditPurchase } from "./audit-log";
+import { sendAffordableWishlistNotifications } from "./wishlist";
+
+/**
+ * Runs what follows a paid credit purchase. The Stripe webhook and the client-side confirmation
+ * both call this after granting the credits, also when the other one granted them first, so a
+ * step that failed is retried by the next call. Every step is idempotent per payment intent.
+ *
+ * Failures are logged instead of thrown because the credits were already granted. The failed
+ * steps are returned, so that the webhook can have Stripe deliver the event again.
+ */
+export async function completeCreditPurchase(paymentIntent: Stripe.PaymentIntent, { fromWebhook }: { fromWebhook: boolean }) {
+  // The receipt shows the discount, so it's recorded first
+  const steps: [string, () => Promise<unknown>][] = [
+    ["record the promo code discount", () => recordPromoCodeDiscount(paymentIntent)],
+    ["save the auto top-up card", () => saveAutoTopUpPaymentMethod(paymentIntent)],
+    ["send the receipt", () => sendCreditPurchaseReceipt(paymentIntent.id)],
+    ["record the audit event", () => logCreditPurchase(paymentIntent, { fromWebhook })],
+  ];
+  const failedSteps: string[] = [];
+
+  for (const [name, step] of steps) {
+    try {
+      await step();
+    } catch (error) {
+      console.error(`Failed to ${name} of payment intent ${paymentIntent.id}:`, error);
+      failedSteps.push(name);
+    }
+  }
+
+  // Sent after the response, the wishlist is personal so only the user's own credits count
+  if (!paymentIntent.metadata.teamId) {
+    getCloudflareContext().ctx.waitUntil(
+      sendAffordableWishlistNotifications({ userId: paymentIntent.metadata.userId })
+    );
+  }
+
+  return { failedSteps };
+}
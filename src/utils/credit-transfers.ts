@@ -0,0 +1,173 @@
+import "server-only";
+import { and, eq, isNull } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import { getDB } from "@/db";
+import { AUDIT_LOG_ACTION, AUDIT_LOG_TARGET_TYPE, teamMembershipTable, teamTable, userTable } from "@/db/schema";
+import { logAuditEvent } from "./audit-log";
+import { transferCredits } from "./credits";
+
+/**
+ * An error whose message can be shown to the user who made the transfer
+ */
+export class CreditTransferError extends Error {}
+
+export const MAX_CREDIT_TRANSFER_NOTE_LENGTH = 255;
+
+async function isTeamMember({ teamId, userId }: { teamId: string; userId: string }) {
+  const membership = await getDB().query.teamMembershipTable.findFirst({
+    where: and(
+      eq(teamMembershipTable.teamId, teamId),
+      eq(teamMembershipTable.userId, userId),
+      eq(teamMembershipTable.isActive, 1),
+    ),
+    columns: { id: true },
+  });
+
+  return Boolean(membership);
+}
+
+/**
+ * Whether the two users are active members of at least one common team
+ */
+async function areTeammates(userId: string, otherUserId: string) {
+  const otherMembership = alias(teamMembershipTable, "other_membership");
+
+  const [sharedTeam] = await getDB()
+    .select({ teamId: teamMembershipTable.teamId })
+    .from(teamMembershipTable)
+    .innerJoin(otherMembership, eq(otherMembership.teamId, teamMembershipTable.teamId))
+    .where(and(
+      eq(teamMembershipTable.userId, userId),
+      eq(teamMembershipTable.isActive, 1),
+      eq(otherMembership.userId, otherUserId),
+      eq(otherMembership.isActive, 1),
+    ))
+    .limit(1);
+
+  return Boolean(sharedTeam);
+}
+
+async function transfer(params: Parameters<typeof transferCredits>[0]) {
+  let result: Awaited<ReturnType<typeof transferCredits>>;
+
+  try {
+    result = await transferCredits(params);
+  } catch (error) {
+    if (error instanceof Error && error.message === "Insufficient credits") {
+      throw new CreditTransferError("You don't have enough credits for this transfer");
+    }
+
+    throw error;
+  }
+
+  const { from, to, amount, note } = params;
+
+  await logAuditEvent({
+    action: AUDIT_LOG_ACTION.CREDITS_TRANSFERRED,
+    actorUserId: from.userId,
+    targetType: to.teamId ? AUDIT_LOG_TARGET_TYPE.TEAM : AUDIT_LOG_TARGET_TYPE.USER,
+    targetId: to.teamId ?? to.userId,
+    // Transfers from a personal wallet show up in the log of the team that received them
+    teamId: from.teamId ?? to.teamId ?? null,
+    metadata: {
+      amount,
+      fromTeamId: from.teamId ?? null,
+      note: note ?? null,
+    },
+  });
+
+  return result;
+}
+
+/**
+ * Sends credits from the user's wallet, or from the team's wallet when `teamId` is set, to a
+ * teammate or to a team the user is a member of. Credits of a team can only be sent to its
+ * members. Permissions on the sending team have to be checked by the caller.
+ */
+export async function sendCredits({
+  userId,
+  teamId,
+  recipientEmail,
+  recipientTeamId,
+  amount,
+  note,
+}: {
+  userId: string;
+  teamId?: string | null;
+  recipientEmail?: string;
+  recipientTeamId?: string;
+  amount: number;
+  note?: string | null;
+}) {
+  const db = getDB();
+
+  if (!Number.isInteger(amount) || amount < 1) {
+    throw new CreditTransferError("The amount must be a positive number of credits");
+  }
+
+  if (note && note.length > MAX_CREDIT_TRANSFER_NOTE_LENGTH) {
+    throw new CreditTransferError(`The note can't be longer than ${MAX_CREDIT_TRANSFER_NOTE_LENGTH} characters`);
+  }
+
+  if (Boolean(recipientEmail) === Boolean(recipientTeamId)) {
+    throw new CreditTransferError("Choose either a teammate or a team to send the credits to");
+  }
+
+  const sender = teamId
+    ? await db.query.teamTable.findFirst({ where: eq(teamTable.id, teamId), columns: { name: true } })
+    : await db.query.userTable.findFirst({ where: eq(userTable.id, userId), columns: { email: true } });
+
+  if (!sender) {
+    throw new Error("Sender not found");
+  }
+
+  const senderName = "name" in sender ? `team ${sender.name}` : sender.email;
+
+  if (recipientTeamId) {
+    const recipientTeam = await db.query.teamTable.findFirst({
+      where: and(eq(teamTable.id, recipientTeamId), isNull(teamTable.deletedAt)),
+      columns: { id: true, name: true },
+    });
+
+    if (!recipientTeam || !await isTeamMember({ teamId: recipientTeam.id, userId })) {
+      throw new CreditTransferError("You can only send credits to teams you are a member of");
+    }
+
+    if (recipientTeam.id === teamId) {
+      throw new CreditTransferError("Credits can't be sent to the team they belong to");
+    }
+
+    return transfer({
+      from: { userId, teamId },
+      to: { userId, teamId: recipientTeam.id },
+      amount,
+      description: `Transfer to team ${recipientTeam.name}`,
+      recipientDescription: `Transfer from ${senderName}`,
+      note,
+    });
+  }
+
+  const recipient = await db.query.userTable.findFirst({
+    where: eq(userTable.email, recipientEmail!.trim().toLowerCase()),
+    columns: { id: true, email: true },
+  });
+
+  const isAllowedRecipient = recipient && (teamId
+    ? await isTeamMember({ teamId, userId: recipient.id })
+    : recipient.id !== userId && await areTeammates(userId, recipient.id));
+
+  if (!recipient || !isAllowedRecipient) {
+    throw new CreditTransferError(teamId
+      ? "There is no member of this team with that email"
+      : "You can only send credits to members of your teams");
+  }
+
+  return transfer({
+    from: { userId, teamId },
+    to: { userId: recipient.id },
+    amount,
+    description: `Transfer to ${recipient.email}`,
+    recipientDescription: `Transfer from ${senderName}`,
+    note,
+  });
+}
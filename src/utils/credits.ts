@@ -1,9 +1,24 @@
 import "server-only";
-import { eq, sql, desc, and, lt, isNull, gt, or, asc } from "drizzle-orm";
+import { eq, sql, desc, and, lt, isNull, gt, or, asc, inArray, type SQL } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
 import { getDB } from "@/db";
-import { userTable, creditTransactionTable, CREDIT_TRANSACTION_TYPE, purchasedItemsTable } from "@/db/schema";
+import {
+  userTable,
+  teamTable,
+  creditTransactionTable,
+  creditTransferTable,
+  CREDIT_TRANSACTION_TYPE,
+  purchasedItemsTable,
+  type CreditAllocation,
+  type CreditLineItem,
+  type CreditTransaction,
+} from "@/db/schema";
 import { updateAllSessionsOfUser, KVSession } from "./kv-session";
-import { CREDIT_PACKAGES, FREE_MONTHLY_CREDITS } from "@/constants";
+import { CREDIT_PACKAGES, CREDITS_EXPIRATION_YEARS, DEFAULT_PLAN_ID } from "@/constants";
+import { getActivePlan } from "./plans";
+import { handleLowBalance } from "./low-balance";
+import ms from "ms";
 
 export type CreditPackage = typeof CREDIT_PACKAGES[number];
 
@@ -11,120 +26,302 @@ export function getCreditPackage(packageId: string): CreditPackage | undefined {
   return CREDIT_PACKAGES.find((pkg) => pkg.id === packageId);
 }
 
-function shouldRefreshCredits(session: KVSession, currentTime: Date): boolean {
+/**
+ * The balance a ledger operation applies to. Credits belong to the team when `teamId` is set,
+ * otherwise to the user. For team operations `userId` is the member who initiated them.
+ */
+interface CreditWallet {
+  userId: string;
+  teamId?: string | null;
+}
+
+type NewPurchasedItem = typeof purchasedItemsTable.$inferInsert;
+
+/**
+ * SQLite can't RAISE outside of triggers, so ledger batches end with guard statements that
+ * parse invalid JSON when an invariant is broken. D1 runs a batch as a single transaction,
+ * so the failing guard rolls back every mutation before it.
+ */
+const LEDGER_GUARD_ERROR = "malformed JSON";
+const ledgerGuardFailure = sql`json('insufficient_credits')`;
+
+function getErrorMessages(error: unknown) {
+  if (!(error instanceof Error)) return String(error);
+
+  return `${error.message} ${error.cause instanceof Error ? error.cause.message : ""}`;
+}
+
+export function isLedgerGuardError(error: unknown) {
+  return getErrorMessages(error).includes(LEDGER_GUARD_ERROR);
+}
+
+function isIdempotencyKeyConflict(error: unknown) {
+  return getErrorMessages(error).includes("UNIQUE constraint failed: credit_transaction.idempotencyKey");
+}
+
+/**
+ * Matches the credit transactions of a wallet. Transactions of a team wallet also carry the
+ * member's `userId`, so they have to be excluded from the user's own wallet.
+ */
+function walletTransactions({ userId, teamId }: CreditWallet) {
+  return teamId
+    ? eq(creditTransactionTable.teamId, teamId)
+    : and(eq(creditTransactionTable.userId, userId), isNull(creditTransactionTable.teamId));
+}
+
+/**
+ * Changes the cached balance of a wallet by `amount`, which can also be a subquery
+ */
+function updateWalletBalance({ userId, teamId }: CreditWallet, amount: number | SQL) {
+  const db = getDB();
+
+  if (teamId) {
+    return db
+      .update(teamTable)
+      .set({
+        creditBalance: sql`${teamTable.creditBalance} + ${amount}`,
+      })
+      .where(eq(teamTable.id, teamId));
+  }
+
+  return db
+    .update(userTable)
+    .set({
+      currentCredits: sql`${userTable.currentCredits} + ${amount}`,
+    })
+    .where(eq(userTable.id, userId));
+}
+
+/**
+ * Aborts the batch if the cached balance of the wallet went negative
+ */
+function walletBalanceGuard({ userId, teamId }: CreditWallet) {
+  const db = getDB();
+
+  if (teamId) {
+    return db
+      .select({ guard: ledgerGuardFailure })
+      .from(teamTable)
+      .where(and(eq(teamTable.id, teamId), lt(teamTable.creditBalance, 0)));
+  }
+
+  return db
+    .select({ guard: ledgerGuardFailure })
+    .from(userTable)
+    .where(and(eq(userTable.id, userId), lt(userTable.currentCredits, 0)));
+}
+
+/**
+ * Aborts the batch if any of the given buckets was overdrawn by a concurrent operation
+ */
+function bucketsGuard(transactionIds: string[]) {
+  return getDB()
+    .select({ guard: ledgerGuardFailure })
+    .from(creditTransactionTable)
+    .where(and(inArray(creditTransactionTable.id, transactionIds), lt(creditTransactionTable.remainingAmount, 0)));
+}
+
+export async function getTransactionByIdempotencyKey(idempotencyKey: string) {
+  return getDB().query.creditTransactionTable.findFirst({
+    where: eq(creditTransactionTable.idempotencyKey, idempotencyKey),
+  });
+}
+
+async function getWalletBalance({ userId, teamId }: CreditWallet) {
+  const db = getDB();
+
+  if (teamId) {
+    const team = await db.query.teamTable.findFirst({
+      where: eq(teamTable.id, teamId),
+      columns: {
+        creditBalance: true,
+      },
+    });
+
+    return team?.creditBalance ?? 0;
+  }
+
+  const user = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    columns: {
+      currentCredits: true,
+    },
+  });
+
+  return user?.currentCredits ?? 0;
+}
+
+/**
+ * Team balances aren't stored in sessions, so only user wallets need their sessions updated
+ */
+async function updateWalletSessions({ userId, teamId }: CreditWallet) {
+  if (!teamId) {
+    await updateAllSessionsOfUser(userId);
+  }
+}
+
+function shouldRefreshCredits(lastCreditRefreshAt: Date | null, currentTime: Date): boolean {
   // Check if it's been at least a month since last refresh
-  if (!session.user.lastCreditRefreshAt) {
+  if (!lastCreditRefreshAt) {
     return true;
   }
 
   // Calculate the date exactly one month after the last refresh
-  const oneMonthAfterLastRefresh = new Date(session.user.lastCreditRefreshAt);
+  const oneMonthAfterLastRefresh = new Date(lastCreditRefreshAt);
   oneMonthAfterLastRefresh.setMonth(oneMonthAfterLastRefresh.getMonth() + 1);
 
   // Only refresh if we've passed the one month mark
   return currentTime >= oneMonthAfterLastRefresh;
 }
 
-async function processExpiredCredits(userId: string, currentTime: Date) {
+async function processExpiredCredits(wallet: CreditWallet, currentTime: Date) {
   const db = getDB();
-  // Find all expired transactions that haven't been processed and have remaining credits
-  // Order by type to process MONTHLY_REFRESH first, then by creation date
-  const expiredTransactions = await db.query.creditTransactionTable.findMany({
-    where: and(
-      eq(creditTransactionTable.userId, userId),
-      lt(creditTransactionTable.expirationDate, currentTime),
-      isNull(creditTransactionTable.expirationDateProcessedAt),
-      gt(creditTransactionTable.remainingAmount, 0),
-    ),
-    orderBy: [
-      // Process MONTHLY_REFRESH transactions first
-      desc(sql`CASE WHEN ${creditTransactionTable.type} = ${CREDIT_TRANSACTION_TYPE.MONTHLY_REFRESH} THEN 1 ELSE 0 END`),
-      // Then process by creation date (oldest first)
-      asc(creditTransactionTable.createdAt),
-    ],
-  });
+  // All expired buckets that haven't been processed and still have remaining credits
+  const expiredBuckets = and(
+    walletTransactions(wallet),
+    lt(creditTransactionTable.expirationDate, currentTime),
+    isNull(creditTransactionTable.expirationDateProcessedAt),
+    gt(creditTransactionTable.remainingAmount, 0),
+  );
 
-  // Process each expired transaction
-  for (const transaction of expiredTransactions) {
-    try {
-      // First, mark the transaction as processed to prevent double processing
-      await db
+  try {
+    // Deduct the expired credits and mark the buckets as processed in one batch, so a
+    // concurrent request can't expire the same bucket twice
+    await db.batch([
+      updateWalletBalance(
+        wallet,
+        sql`-(SELECT coalesce(sum(${creditTransactionTable.remainingAmount}), 0) FROM ${creditTransactionTable} WHERE ${expiredBuckets})`,
+      ),
+      db
         .update(creditTransactionTable)
         .set({
           expirationDateProcessedAt: currentTime,
+          // Reads the remaining amount from before this update
+          expiredAmount: sql`${creditTransactionTable.remainingAmount}`,
           remainingAmount: 0, // All remaining credits are expired
         })
-        .where(eq(creditTransactionTable.id, transaction.id));
-
-      // Then deduct the expired credits from user's balance
-      await db
-        .update(userTable)
-        .set({
-          currentCredits: sql`${userTable.currentCredits} - ${transaction.remainingAmount}`,
-        })
-        .where(eq(userTable.id, userId));
-    } catch (error) {
-      console.error(`Failed to process expired credits for transaction ${transaction.id}:`, error);
-      continue;
-    }
+        .where(expiredBuckets),
+    ]);
+  } catch (error) {
+    console.error(`Failed to process expired credits for ${wallet.teamId ? `team ${wallet.teamId}` : `user ${wallet.userId}`}:`, error);
   }
 }
 
-export async function updateUserCredits(userId: string, creditsToAdd: number) {
-  const db = getDB();
-  await db
-    .update(userTable)
-    .set({
-      currentCredits: sql`${userTable.currentCredits} + ${creditsToAdd}`,
+/**
+ * Expires the credits of every wallet that has expired buckets. Wallets are otherwise only swept
+ * when their monthly credits are refreshed, so this runs from the scheduled cron job.
+ */
+export async function processAllExpiredCredits() {
+  const currentTime = new Date();
+  const walletsWithExpiredCredits = await getDB()
+    .selectDistinct({
+      userId: creditTransactionTable.userId,
+      teamId: creditTransactionTable.teamId,
     })
-    .where(eq(userTable.id, userId));
+    .from(creditTransactionTable)
+    .where(and(
+      lt(creditTransactionTable.expirationDate, currentTime),
+      isNull(creditTransactionTable.expirationDateProcessedAt),
+      gt(creditTransactionTable.remainingAmount, 0),
+    ));
 
-  // Update all KV sessions to reflect the new credit balance
-  await updateAllSessionsOfUser(userId);
-}
+  // Team buckets are bought by different members but belong to one wallet
+  const wallets = new Map<string, CreditWallet>();
+  for (const wallet of walletsWithExpiredCredits) {
+    wallets.set(wallet.teamId ?? wallet.userId, wallet);
+  }
 
-async function updateLastRefreshDate(userId: string, date: Date) {
-  const db = getDB();
-  await db
-    .update(userTable)
-    .set({
-      lastCreditRefreshAt: date,
-    })
-    .where(eq(userTable.id, userId));
+  for (const wallet of wallets.values()) {
+    await processExpiredCredits(wallet, currentTime);
+    await updateWalletSessions(wallet);
+  }
+
+  return wallets.size;
 }
 
-export async function logTransaction({
+/**
+ * Adds a new credit bucket and increases the cached balance in a single batch.
+ * When an idempotency key is passed, the credits are only granted once for that key.
+ */
+export async function grantCredits({
   userId,
+  teamId,
   amount,
   description,
   type,
   expirationDate,
-  paymentIntentId
+  paymentIntentId,
+  packageId,
+  amountPaid,
+  idempotencyKey,
+  relatedTransactionId,
+  lastCreditRefreshAt,
 }: {
   userId: string;
+  teamId?: string | null;
   amount: number;
   description: string;
   type: keyof typeof CREDIT_TRANSACTION_TYPE;
   expirationDate?: Date;
   paymentIntentId?: string;
+  packageId?: string;
+  amountPaid?: number;
+  idempotencyKey?: string;
+  relatedTransactionId?: string;
+  lastCreditRefreshAt?: Date;
 }) {
   const db = getDB();
-  await db.insert(creditTransactionTable).values({
-    userId,
-    amount,
-    remainingAmount: amount, // Initialize remaining amount to be the same as amount
-    type,
-    description,
-    expirationDate,
-    paymentIntentId
-  });
+
+  if (idempotencyKey && await getTransactionByIdempotencyKey(idempotencyKey)) {
+    return { alreadyProcessed: true };
+  }
+
+  try {
+    await db.batch([
+      db.insert(creditTransactionTable).values({
+        userId,
+        teamId,
+        amount,
+        remainingAmount: amount,
+        type,
+        description,
+        expirationDate,
+        paymentIntentId,
+        packageId,
+        amountPaid,
+        idempotencyKey,
+        relatedTransactionId,
+      }),
+      updateWalletBalance({ userId, teamId }, amount),
+      ...(lastCreditRefreshAt
+        ? [teamId
+          ? db.update(teamTable).set({ lastCreditRefreshAt }).where(eq(teamTable.id, teamId))
+          : db.update(userTable).set({ lastCreditRefreshAt }).where(eq(userTable.id, userId))]
+        : []),
+    ]);
+  } catch (error) {
+    // A concurrent request with the same key won the race
+    if (isIdempotencyKeyConflict(error)) {
+      return { alreadyProcessed: true };
+    }
+
+    throw error;
+  }
+
+  // Update all KV sessions to reflect the new credit balance
+  await updateWalletSessions({ userId, teamId });
+
+  return { alreadyProcessed: false };
 }
 
-export async function addFreeMonthlyCreditsIfNeeded(session: KVSession): Promise<number> {
+/**
+ * Grants the monthly allowance of the user's plan once a month, with a one month expiration
+ */
+export async function addMonthlyCreditsIfNeeded(session: KVSession): Promise<number> {
   const currentTime = new Date();
 
   // Check if it's been at least a month since last refresh
-  if (shouldRefreshCredits(session, currentTime)) {
+  if (shouldRefreshCredits(session.user.lastCreditRefreshAt, currentTime)) {
     // Double check the last refresh date from the database to prevent race conditions
     const db = getDB();
     const user = await db.query.userTable.findFirst({
@@ -132,78 +329,169 @@ export async function addFreeMonthlyCreditsIfNeeded(session: KVSession): Promise
       columns: {
         lastCreditRefreshAt: true,
         currentCredits: true,
+        planId: true,
+        planExpiresAt: true,
       },
     });
 
     // This should prevent race conditions between multiple sessions
-    if (!shouldRefreshCredits({ ...session, user: { ...session.user, lastCreditRefreshAt: user?.lastCreditRefreshAt ?? null } }, currentTime)) {
+    if (!user || !shouldRefreshCredits(user.lastCreditRefreshAt, currentTime)) {
       return user?.currentCredits ?? 0;
     }
 
     // Process any expired credits first
-    await processExpiredCredits(session.userId, currentTime);
+    await processExpiredCredits({ userId: session.userId }, currentTime);
+
+    const plan = getActivePlan(user);
 
-    // Add free monthly credits with 1 month expiration
+    // Add the plan's monthly credits with 1 month expiration
     const expirationDate = new Date(currentTime);
     expirationDate.setMonth(expirationDate.getMonth() + 1);
 
-    await updateUserCredits(session.userId, FREE_MONTHLY_CREDITS);
-    await logTransaction({
+    // Requests that read the same last refresh date share the key, so only one of them grants the credits
+    await grantCredits({
       userId: session.userId,
-      amount: FREE_MONTHLY_CREDITS,
-      description: 'Free monthly credits',
+      amount: plan.monthlyCredits,
+      description: `${plan.name} plan monthly credits`,
       type: CREDIT_TRANSACTION_TYPE.MONTHLY_REFRESH,
-      expirationDate
+      expirationDate,
+      idempotencyKey: `monthly-refresh:${session.userId}:${user.lastCreditRefreshAt?.getTime() ?? "initial"}`,
+      lastCreditRefreshAt: currentTime,
     });
 
-    // Update last refresh date
-    await updateLastRefreshDate(session.userId, currentTime);
-
     // Get the updated credit balance from the database
-    const updatedUser = await db.query.userTable.findFirst({
-      where: eq(userTable.id, session.userId),
-      columns: {
-        currentCredits: true,
-      },
-    });
-
-    return updatedUser?.currentCredits ?? 0;
+    return getWalletBalance({ userId: session.userId });
   }
 
   return session.user.currentCredits;
 }
 
-export async function hasEnoughCredits({ userId, requiredCredits }: { userId: string; requiredCredits: number }) {
-  const user = await getDB().query.userTable.findFirst({
-    where: eq(userTable.id, userId),
+/**
+ * Expires the team's old credits and grants the monthly allowance of its plan when it is due.
+ * Teams on the free plan get no allowance, otherwise every new team would be a source of free credits.
+ * `userId` is the member whose request triggered the refresh.
+ */
+async function refreshTeamCredits({ teamId, userId }: { teamId: string; userId: string }) {
+  const db = getDB();
+  const currentTime = new Date();
+
+  await processExpiredCredits({ userId, teamId }, currentTime);
+
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.id, teamId),
     columns: {
-      currentCredits: true,
-    }
+      lastCreditRefreshAt: true,
+      planId: true,
+      planExpiresAt: true,
+    },
   });
-  if (!user) return false;
 
-  return user.currentCredits >= requiredCredits;
+  if (!team || !shouldRefreshCredits(team.lastCreditRefreshAt, currentTime)) {
+    return;
+  }
+
+  const plan = getActivePlan(team);
+
+  if (plan.id === DEFAULT_PLAN_ID) {
+    return;
+  }
+
+  const expirationDate = new Date(currentTime);
+  expirationDate.setMonth(expirationDate.getMonth() + 1);
+
+  await grantCredits({
+    userId,
+    teamId,
+    amount: plan.monthlyCredits,
+    description: `${plan.name} plan monthly credits`,
+    type: CREDIT_TRANSACTION_TYPE.MONTHLY_REFRESH,
+    expirationDate,
+    idempotencyKey: `monthly-refresh:${teamId}:${team.lastCreditRefreshAt?.getTime() ?? "initial"}`,
+    lastCreditRefreshAt: currentTime,
+  });
 }
 
-export async function consumeCredits({ userId, amount, description }: { userId: string; amount: number; description: string }) {
-  const db = getDB();
+export async function hasEnoughCredits({
+  userId,
+  teamId,
+  requiredCredits,
+}: {
+  userId: string;
+  teamId?: string | null;
+  requiredCredits: number;
+}) {
+  return await getWalletBalance({ userId, teamId }) >= requiredCredits;
+}
 
-  // First check if user has enough credits
-  const user = await db.query.userTable.findFirst({
-    where: eq(userTable.id, userId),
-    columns: {
-      currentCredits: true,
-    },
+/**
+ * Deducts credits from the oldest non-expired buckets first (FIFO) and logs a USAGE transaction.
+ * All mutations run in one D1 batch that is rolled back if a concurrent request overdrew the
+ * balance or one of the buckets. Retries with the same idempotency key are only charged once.
+ * When the usage pays for marketplace items, pass `purchasedItems` to add them in the same batch.
+ * `statements` of the caller are also added to the batch, so they only apply when the credits are charged.
+ * Afterwards the wallet's low balance alert and auto top-up are triggered in the background if needed.
+ */
+export async function consumeCredits({
+  userId,
+  teamId,
+  amount,
+  description,
+  idempotencyKey,
+  lineItems,
+  purchasedItems,
+  statements,
+}: {
+  userId: string;
+  teamId?: string | null;
+  amount: number;
+  description: string;
+  idempotencyKey?: string;
+  lineItems?: CreditLineItem[];
+  purchasedItems?: NewPurchasedItem[];
+  statements?: BatchItem<"sqlite">[];
+}) {
+  const balance = await debitCredits({
+    userId,
+    teamId,
+    amount,
+    description,
+    idempotencyKey,
+    lineItems,
+    purchasedItems,
+    statements,
+    type: CREDIT_TRANSACTION_TYPE.USAGE,
   });
 
-  if (!user || user.currentCredits < amount) {
+  getCloudflareContext().ctx.waitUntil(handleLowBalance({ userId, teamId, balance }));
+
+  return balance;
+}
+
+/**
+ * Picks the credits to deduct from the oldest non-expired buckets of the wallet first (FIFO).
+ * The returned bucket updates are relative, so a concurrent deduction from the same bucket
+ * is caught by `bucketsGuard` when they run.
+ */
+async function allocateCredits(wallet: CreditWallet, amount: number) {
+  const db = getDB();
+  const { userId, teamId } = wallet;
+
+  // User wallets are refreshed when their session is read, team wallets have no such hook
+  if (teamId) {
+    await refreshTeamCredits({ teamId, userId });
+  }
+
+  // First check if the wallet has enough credits
+  const currentCredits = await getWalletBalance(wallet);
+
+  if (currentCredits < amount) {
     throw new Error("Insufficient credits");
   }
 
   // Get all non-expired transactions with remaining credits, ordered by creation date
   const activeTransactionsWithBalance = await db.query.creditTransactionTable.findMany({
     where: and(
-      eq(creditTransactionTable.userId, userId),
+      walletTransactions(wallet),
       gt(creditTransactionTable.remainingAmount, 0),
       isNull(creditTransactionTable.expirationDateProcessedAt),
       or(
@@ -215,6 +503,9 @@ export async function consumeCredits({ userId, amount, description }: { userId:
   });
 
   let remainingToDeduct = amount;
+  const bucketUpdates = [];
+  const allocations: CreditAllocation[] = [];
+  const buckets: CreditTransaction[] = [];
 
   // Deduct from each transaction until we've deducted the full amount
   for (const transaction of activeTransactionsWithBalance) {
@@ -222,61 +513,570 @@ export async function consumeCredits({ userId, amount, description }: { userId:
 
     const deductFromThis = Math.min(transaction.remainingAmount, remainingToDeduct);
 
-    await db
-      .update(creditTransactionTable)
-      .set({
-        remainingAmount: transaction.remainingAmount - deductFromThis,
-      })
-      .where(eq(creditTransactionTable.id, transaction.id));
+    bucketUpdates.push(
+      db
+        .update(creditTransactionTable)
+        .set({
+          remainingAmount: sql`${creditTransactionTable.remainingAmount} - ${deductFromThis}`,
+        })
+        .where(eq(creditTransactionTable.id, transaction.id))
+    );
+    allocations.push({ transactionId: transaction.id, amount: deductFromThis });
+    buckets.push(transaction);
 
     remainingToDeduct -= deductFromThis;
   }
 
-  // Update total credits
-  await db
-    .update(userTable)
-    .set({
-      currentCredits: sql`${userTable.currentCredits} - ${amount}`,
-    })
-    .where(eq(userTable.id, userId));
+  // The cached balance says there are enough credits but the buckets don't
+  if (remainingToDeduct > 0) {
+    console.error(`Credit buckets of ${teamId ? `team ${teamId}` : `user ${userId}`} are out of sync with the cached balance`);
+    throw new Error("Insufficient credits");
+  }
+
+  return { bucketUpdates, allocations, buckets };
+}
+
+async function debitCredits({
+  userId,
+  teamId,
+  amount,
+  description,
+  type,
+  idempotencyKey,
+  relatedTransactionId,
+  lineItems,
+  purchasedItems = [],
+  statements = [],
+}: {
+  userId: string;
+  teamId?: string | null;
+  amount: number;
+  description: string;
+  type: typeof CREDIT_TRANSACTION_TYPE.USAGE | typeof CREDIT_TRANSACTION_TYPE.ADMIN_ADJUSTMENT;
+  idempotencyKey?: string;
+  relatedTransactionId?: string;
+  lineItems?: CreditLineItem[];
+  purchasedItems?: NewPurchasedItem[];
+  statements?: BatchItem<"sqlite">[];
+}) {
+  // A debit of a negative amount would add credits to the wallet
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new Error("Debits need a positive whole number of credits");
+  }
+
+  const db = getDB();
+  const wallet = { userId, teamId };
+
+  // The operation was already applied by a previous attempt
+  if (idempotencyKey && await getTransactionByIdempotencyKey(idempotencyKey)) {
+    return getWalletBalance(wallet);
+  }
+
+  const { bucketUpdates, allocations } = await allocateCredits(wallet, amount);
+
+  try {
+    await db.batch([
+      // Update total credits
+      updateWalletBalance(wallet, -amount),
+      ...bucketUpdates,
+      // Log the usage transaction
+      db.insert(creditTransactionTable).values({
+        userId,
+        teamId,
+        amount: -amount,
+        remainingAmount: 0, // Usage transactions don't have remaining amount
+        type,
+        description,
+        idempotencyKey,
+        relatedTransactionId,
+        allocations,
+        lineItems,
+      }),
+      // One statement per item keeps each insert below the bound parameter limit of D1
+      ...purchasedItems.map((purchasedItem) => db.insert(purchasedItemsTable).values(purchasedItem)),
+      ...statements,
+      walletBalanceGuard(wallet),
+      ...(allocations.length ? [bucketsGuard(allocations.map((allocation) => allocation.transactionId))] : []),
+    ]);
+  } catch (error) {
+    if (isLedgerGuardError(error)) {
+      throw new Error("Insufficient credits");
+    }
+
+    // A concurrent retry with the same key already charged the credits and applied the rest of the batch
+    if (!isIdempotencyKeyConflict(error)) {
+      throw error;
+    }
+  }
+
+  // Update all KV sessions to reflect the new credit balance
+  await updateWalletSessions(wallet);
+
+  // Get updated credit balance
+  return getWalletBalance(wallet);
+}
+
+/**
+ * Moves credits from one wallet to another and records the transfer. The credits are deducted
+ * from the sender's buckets like usage and received as TRANSFER_IN buckets that keep the
+ * expiration dates of the buckets they came from. Both sides are written in one batch.
+ * For a team recipient, `to.userId` is the member who sent the credits.
+ */
+export async function transferCredits({
+  from,
+  to,
+  amount,
+  description,
+  recipientDescription,
+  note,
+  idempotencyKey = `transfer:${crypto.randomUUID()}`,
+}: {
+  from: CreditWallet;
+  to: CreditWallet;
+  amount: number;
+  // Logged on the sender's TRANSFER_OUT transaction
+  description: string;
+  // Logged on the recipient's TRANSFER_IN buckets
+  recipientDescription: string;
+  note?: string | null;
+  idempotencyKey?: string;
+}) {
+  const db = getDB();
+
+  if (from.teamId ? from.teamId === to.teamId : !to.teamId && from.userId === to.userId) {
+    throw new Error("Credits can't be transferred to the same wallet");
+  }
+
+  if (await getTransactionByIdempotencyKey(idempotencyKey)) {
+    return getWalletBalance(from);
+  }
+
+  const { bucketUpdates, allocations, buckets } = await allocateCredits(from, amount);
+
+  // Credits that expire at the same time are received as a single bucket
+  const receivedBuckets = new Map<number | null, number>();
+
+  allocations.forEach((allocation, index) => {
+    const expiresAt = buckets[index].expirationDate?.getTime() ?? null;
+    receivedBuckets.set(expiresAt, (receivedBuckets.get(expiresAt) ?? 0) + allocation.amount);
+  });
+
+  // The transfer out gets its ID when it's inserted, so the rows after it look it up by key
+  const transferOutId = sql`(SELECT ${creditTransactionTable.id} FROM ${creditTransactionTable} WHERE ${creditTransactionTable.idempotencyKey} = ${idempotencyKey})`;
+
+  try {
+    await db.batch([
+      updateWalletBalance(from, -amount),
+      ...bucketUpdates,
+      db.insert(creditTransactionTable).values({
+        userId: from.userId,
+        teamId: from.teamId,
+        amount: -amount,
+        remainingAmount: 0,
+        type: CREDIT_TRANSACTION_TYPE.TRANSFER_OUT,
+        description,
+        idempotencyKey,
+        allocations,
+      }),
+      db.insert(creditTransactionTable).values(
+        [...receivedBuckets].map(([expiresAt, receivedAmount]) => ({
+          userId: to.userId,
+          teamId: to.teamId,
+          amount: receivedAmount,
+          remainingAmount: receivedAmount,
+          type: CREDIT_TRANSACTION_TYPE.TRANSFER_IN,
+          description: recipientDescription,
+          expirationDate: expiresAt === null ? undefined : new Date(expiresAt),
+          relatedTransactionId: transferOutId,
+        }))
+      ),
+      updateWalletBalance(to, amount),
+      db.insert(creditTransferTable).values({
+        senderUserId: from.userId,
+        senderTeamId: from.teamId,
+        recipientUserId: to.teamId ? null : to.userId,
+        recipientTeamId: to.teamId,
+        amount,
+        note,
+        transactionId: transferOutId,
+      }),
+      walletBalanceGuard(from),
+      ...(allocations.length ? [bucketsGuard(allocations.map((allocation) => allocation.transactionId))] : []),
+    ]);
+  } catch (error) {
+    if (isLedgerGuardError(error)) {
+      throw new Error("Insufficient credits");
+    }
+
+    // A concurrent retry with the same key already transferred the credits
+    if (!isIdempotencyKeyConflict(error)) {
+      throw error;
+    }
+  }
+
+  await updateWalletSessions(from);
+  await updateWalletSessions(to);
+
+  const balance = await getWalletBalance(from);
+
+  getCloudflareContext().ctx.waitUntil(handleLowBalance({ ...from, balance }));
 
-  // Log the usage transaction
-  await db.insert(creditTransactionTable).values({
+  return balance;
+}
+
+export async function getPurchaseTransaction(paymentIntentId: string) {
+  const db = getDB();
+  return db.query.creditTransactionTable.findFirst({
+    where: and(
+      eq(creditTransactionTable.paymentIntentId, paymentIntentId),
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.PURCHASE),
+    ),
+  });
+}
+
+/**
+ * Credits a paid Stripe payment intent to the user, or to the team when it was bought on
+ * behalf of one. Both the client-side confirmation and the Stripe webhook call this, so it
+ * is keyed on the payment intent ID and only grants the credits once. The package and the
+ * amount that was charged are kept on the transaction for its receipt.
+ */
+export async function addPurchasedCredits({
+  userId,
+  teamId,
+  creditPackage,
+  paymentIntentId,
+  amountPaid,
+}: {
+  userId: string;
+  teamId?: string | null;
+  creditPackage: CreditPackage;
+  paymentIntentId: string;
+  // In cents
+  amountPaid: number;
+}) {
+  return grantCredits({
     userId,
-    amount: -amount,
-    remainingAmount: 0, // Usage transactions don't have remaining amount
-    type: CREDIT_TRANSACTION_TYPE.USAGE,
-    description,
-    createdAt: new Date(),
-    updatedAt: new Date(),
+    teamId,
+    amount: creditPackage.credits,
+    description: `Purchased ${creditPackage.credits} credits`,
+    type: CREDIT_TRANSACTION_TYPE.PURCHASE,
+    expirationDate: new Date(Date.now() + ms(`${CREDITS_EXPIRATION_YEARS} years`)),
+    paymentIntentId,
+    packageId: creditPackage.id,
+    amountPaid,
+    idempotencyKey: `purchase:${paymentIntentId}`,
   });
+}
 
-  // Get updated credit balance
-  const updatedUser = await db.query.userTable.findFirst({
-    where: eq(userTable.id, userId),
-    columns: {
-      currentCredits: true,
-    },
+/**
+ * Takes back credits granted by a purchase after a refund or a dispute.
+ * `creditsToRevoke` is the total that should be revoked for the payment intent, so
+ * calling this again with the same value is a no-op. Only the unspent part of the
+ * purchase can be revoked.
+ */
+export async function revokePurchasedCredits({
+  paymentIntentId,
+  creditsToRevoke,
+  description,
+}: {
+  paymentIntentId: string;
+  creditsToRevoke: number;
+  description: string;
+}) {
+  const db = getDB();
+  const purchase = await getPurchaseTransaction(paymentIntentId);
+
+  if (!purchase) {
+    return { revokedCredits: 0 };
+  }
+
+  // Sum of the credits that previous refund or dispute events already took back
+  const [{ alreadyRevoked }] = await db
+    .select({ alreadyRevoked: sql<number>`coalesce(sum(-${creditTransactionTable.amount}), 0)` })
+    .from(creditTransactionTable)
+    .where(and(
+      eq(creditTransactionTable.relatedTransactionId, purchase.id),
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.REVERSAL),
+    ));
+
+  const revokedCredits = Math.min(
+    Math.min(creditsToRevoke, purchase.amount) - alreadyRevoked,
+    purchase.remainingAmount,
+  );
+
+  if (revokedCredits <= 0) {
+    return { revokedCredits: 0 };
+  }
+
+  try {
+    await db.batch([
+      db
+        .update(creditTransactionTable)
+        .set({
+          remainingAmount: sql`${creditTransactionTable.remainingAmount} - ${revokedCredits}`,
+        })
+        .where(eq(creditTransactionTable.id, purchase.id)),
+      updateWalletBalance(purchase, -revokedCredits),
+      db.insert(creditTransactionTable).values({
+        userId: purchase.userId,
+        teamId: purchase.teamId,
+        amount: -revokedCredits,
+        remainingAmount: 0,
+        type: CREDIT_TRANSACTION_TYPE.REVERSAL,
+        description,
+        paymentIntentId,
+        idempotencyKey: `revoke:${paymentIntentId}:${creditsToRevoke}`,
+        relatedTransactionId: purchase.id,
+        allocations: [{ transactionId: purchase.id, amount: revokedCredits }],
+      }),
+      bucketsGuard([purchase.id]),
+    ]);
+  } catch (error) {
+    // Either the same event is being handled concurrently or the bucket was spent in the meantime
+    if (isIdempotencyKeyConflict(error) || isLedgerGuardError(error)) {
+      return { revokedCredits: 0 };
+    }
+
+    throw error;
+  }
+
+  await updateWalletSessions(purchase);
+
+  return { revokedCredits };
+}
+
+/**
+ * Undoes a USAGE transaction by returning its credits to the buckets they were taken from.
+ * Credits from buckets that have expired in the meantime are not returned. Pass `credits`
+ * to only return part of the usage. When the usage paid for a marketplace item, pass
+ * `purchasedItemId` to remove the item in the same batch, `statements` of the caller are also added
+ * to it. A usage can only be refunded once.
+ */
+export async function refundCreditUsage({
+  usageTransactionId,
+  description,
+  credits,
+  purchasedItemId,
+  statements = [],
+}: {
+  usageTransactionId: string;
+  description: string;
+  credits?: number;
+  purchasedItemId?: string;
+  statements?: BatchItem<"sqlite">[];
+}) {
+  const db = getDB();
+  const usage = await db.query.creditTransactionTable.findFirst({
+    where: and(
+      eq(creditTransactionTable.id, usageTransactionId),
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.USAGE),
+    ),
   });
 
-  // Update all KV sessions to reflect the new credit balance
-  await updateAllSessionsOfUser(userId);
+  if (!usage) {
+    throw new Error("Transaction not found");
+  }
+
+  const idempotencyKey = `refund:${usage.id}`;
+
+  if (await getTransactionByIdempotencyKey(idempotencyKey)) {
+    return { refundedCredits: 0, alreadyProcessed: true };
+  }
+
+  const currentTime = new Date();
+  const creditsToRefund = Math.min(credits ?? Math.abs(usage.amount), Math.abs(usage.amount));
+  const bucketUpdates = [];
+  let refundedCredits = 0;
+  // Usages logged before allocations were tracked get their credits back as a new bucket
+  let refundBucketAmount = 0;
+
+  if (usage.allocations) {
+    const sourceBuckets = usage.allocations.length
+      ? await db.query.creditTransactionTable.findMany({
+        where: inArray(creditTransactionTable.id, usage.allocations.map((allocation) => allocation.transactionId)),
+      })
+      : [];
+
+    // Return credits to the newest buckets first, so a partial refund keeps the oldest credits spent
+    for (const allocation of [...usage.allocations].reverse()) {
+      const bucket = sourceBuckets.find((sourceBucket) => sourceBucket.id === allocation.transactionId);
+      const amount = Math.min(allocation.amount, creditsToRefund - refundedCredits);
+
+      if (
+        amount <= 0 ||
+        !bucket ||
+        bucket.expirationDateProcessedAt ||
+        (bucket.expirationDate && bucket.expirationDate <= currentTime)
+      ) {
+        continue;
+      }
+
+      bucketUpdates.push(
+        db
+          .update(creditTransactionTable)
+          .set({
+            remainingAmount: sql`${creditTransactionTable.remainingAmount} + ${amount}`,
+          })
+          .where(and(
+            eq(creditTransactionTable.id, allocation.transactionId),
+            isNull(creditTransactionTable.expirationDateProcessedAt),
+          ))
+      );
+      refundedCredits += amount;
+    }
+  } else {
+    refundedCredits = creditsToRefund;
+    refundBucketAmount = refundedCredits;
+  }
+
+  // Nothing is left to return, e.g. because the buckets expired
+  if (refundedCredits === 0 && !purchasedItemId && !statements.length) {
+    return { refundedCredits: 0, alreadyProcessed: false };
+  }
 
-  return updatedUser?.currentCredits ?? 0;
+  try {
+    await db.batch([
+      // Release the key of the refunded usage so the same operation can be charged again later
+      db
+        .update(creditTransactionTable)
+        .set({ idempotencyKey: null })
+        .where(eq(creditTransactionTable.id, usage.id)),
+      ...(refundedCredits > 0 ? [
+        db.insert(creditTransactionTable).values({
+          userId: usage.userId,
+          teamId: usage.teamId,
+          amount: refundedCredits,
+          remainingAmount: refundBucketAmount,
+          type: CREDIT_TRANSACTION_TYPE.REFUND,
+          description,
+          expirationDate: refundBucketAmount
+            ? new Date(Date.now() + ms(`${CREDITS_EXPIRATION_YEARS} years`))
+            : undefined,
+          idempotencyKey,
+          relatedTransactionId: usage.id,
+        }),
+        updateWalletBalance(usage, refundedCredits),
+      ] : []),
+      ...bucketUpdates,
+      ...(purchasedItemId ? [db.delete(purchasedItemsTable).where(eq(purchasedItemsTable.id, purchasedItemId))] : []),
+      ...statements,
+    ]);
+  } catch (error) {
+    if (isIdempotencyKeyConflict(error)) {
+      return { refundedCredits: 0, alreadyProcessed: true };
+    }
+
+    throw error;
+  }
+
+  await updateWalletSessions(usage);
+
+  return { refundedCredits, alreadyProcessed: false };
+}
+
+/**
+ * Manually corrects the balance of a user or a team. Positive amounts add a non-expiring
+ * bucket, negative amounts are deducted from the wallet's buckets like regular usage.
+ */
+export async function adjustCredits({
+  userId,
+  teamId,
+  amount,
+  description,
+  relatedTransactionId,
+}: {
+  userId: string;
+  teamId?: string | null;
+  amount: number;
+  description: string;
+  relatedTransactionId?: string;
+}) {
+  if (amount < 0) {
+    return debitCredits({
+      userId,
+      teamId,
+      amount: Math.abs(amount),
+      description,
+      type: CREDIT_TRANSACTION_TYPE.ADMIN_ADJUSTMENT,
+      relatedTransactionId,
+    });
+  }
+
+  await grantCredits({
+    userId,
+    teamId,
+    amount,
+    description,
+    type: CREDIT_TRANSACTION_TYPE.ADMIN_ADJUSTMENT,
+    relatedTransactionId,
+  });
+
+  return getWalletBalance({ userId, teamId });
+}
+
+/**
+ * Recomputes the cached `currentCredits` of a user from the remaining amounts of their
+ * unprocessed credit buckets and reports the drift between the two.
+ * The cached balance is only overwritten when `applyFix` is set.
+ */
+export async function reconcileUserCredits({
+  userId,
+  applyFix = false,
+}: {
+  userId: string;
+  applyFix?: boolean;
+}) {
+  const db = getDB();
+  // Expired buckets count until processExpiredCredits removes them from the cached balance too
+  const unprocessedBuckets = and(
+    walletTransactions({ userId }),
+    isNull(creditTransactionTable.expirationDateProcessedAt),
+    gt(creditTransactionTable.remainingAmount, 0),
+  );
+
+  const [{ ledgerCredits }] = await db
+    .select({ ledgerCredits: sql<number>`coalesce(sum(${creditTransactionTable.remainingAmount}), 0)` })
+    .from(creditTransactionTable)
+    .where(unprocessedBuckets);
+
+  const cachedCredits = await getWalletBalance({ userId });
+  const drift = cachedCredits - ledgerCredits;
+
+  if (drift !== 0 && applyFix) {
+    // Recompute inside the UPDATE so ledger changes since the read above are taken into account
+    await db
+      .update(userTable)
+      .set({
+        currentCredits: sql`(SELECT coalesce(sum(${creditTransactionTable.remainingAmount}), 0) FROM ${creditTransactionTable} WHERE ${unprocessedBuckets})`,
+      })
+      .where(eq(userTable.id, userId));
+
+    await updateAllSessionsOfUser(userId);
+  }
+
+  return {
+    userId,
+    cachedCredits,
+    ledgerCredits,
+    drift,
+    isFixed: drift !== 0 && applyFix,
+  };
 }
 
 export async function getCreditTransactions({
   userId,
+  teamId,
   page = 1,
   limit = 10
 }: {
   userId: string;
+  teamId?: string | null;
   page?: number;
   limit?: number;
 }) {
   const db = getDB();
   const transactions = await db.query.creditTransactionTable.findMany({
-    where: eq(creditTransactionTable.userId, userId),
+    where: walletTransactions({ userId, teamId }),
     orderBy: [desc(creditTransactionTable.createdAt)],
     limit,
     offset: (page - 1) * limit,
@@ -284,13 +1084,16 @@ export async function getCreditTransactions({
       expirationDateProcessedAt: false,
       remainingAmount: false,
       userId: false,
+      teamId: false,
+      idempotencyKey: false,
+      allocations: false,
     }
   });
 
   const total = await db
     .select({ count: sql<number>`count(*)` })
     .from(creditTransactionTable)
-    .where(eq(creditTransactionTable.userId, userId))
+    .where(walletTransactions({ userId, teamId }))
     .then((result) => result[0].count);
 
   return {
@@ -303,10 +1106,45 @@ export async function getCreditTransactions({
   };
 }
 
+/**
+ * The buckets of a wallet that still have credits and will expire, soonest first
+ */
+export async function getUpcomingCreditExpirations({ userId, teamId }: CreditWallet) {
+  return getDB().query.creditTransactionTable.findMany({
+    where: and(
+      walletTransactions({ userId, teamId }),
+      gt(creditTransactionTable.remainingAmount, 0),
+      isNull(creditTransactionTable.expirationDateProcessedAt),
+      gt(creditTransactionTable.expirationDate, new Date()),
+    ),
+    orderBy: [asc(creditTransactionTable.expirationDate)],
+    columns: {
+      id: true,
+      type: true,
+      description: true,
+      amount: true,
+      remainingAmount: true,
+      expirationDate: true,
+      createdAt: true,
+    },
+  });
+}
+
+/**
+ * Returns the balance of a team after removing its expired credits and granting the
+ * monthly allowance of its plan. `userId` is the member who is viewing the balance.
+ */
+export async function getTeamCredits({ teamId, userId }: { teamId: string; userId: string }) {
+  await refreshTeamCredits({ teamId, userId });
+
+  return getWalletBalance({ userId, teamId });
+}
+
 export async function getUserPurchasedItems(userId: string) {
   const db = getDB();
+  // Items bought with team credits belong to the team
   const purchasedItems = await db.query.purchasedItemsTable.findMany({
-    where: eq(purchasedItemsTable.userId, userId),
+    where: and(eq(purchasedItemsTable.userId, userId), isNull(purchasedItemsTable.teamId)),
   });
 
   // Create a map of purchased items for easy lookup
@@ -314,3 +1152,14 @@ export async function getUserPurchasedItems(userId: string) {
     purchasedItems.map(item => `${item.itemType}:${item.itemId}`)
   );
 }
+
+export async function getTeamPurchasedItems(teamId: string) {
+  const db = getDB();
+  const purchasedItems = await db.query.purchasedItemsTable.findMany({
+    where: eq(purchasedItemsTable.teamId, teamId),
+  });
+
+  return new Set(
+    purchasedItems.map(item => `${item.itemType}:${item.itemId}`)
+  );
+}
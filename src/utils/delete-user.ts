@@ -0,0 +1,131 @@
+import "server-only";
+import { and, eq, gt, inArray, isNotNull, ne, or } from "drizzle-orm";
+import { ZSAError } from "zsa";
+import { getDB } from "@/db";
+import {
+  announcementDismissalTable,
+  announcementTable,
+  creditTransactionTable,
+  creditTransferTable,
+  marketplaceItemPriceTable,
+  marketplaceReviewTable,
+  passKeyCredentialTable,
+  promoCodeRedemptionTable,
+  promoCodeTable,
+  purchasedItemsTable,
+  teamInvitationTable,
+  teamMembershipTable,
+  usageDailyTable,
+  usageReservationTable,
+  userImpersonationTable,
+  userTable,
+  wishlistItemTable,
+  SYSTEM_ROLES_ENUM,
+} from "@/db/schema";
+import { deleteAllSessionsOfUser } from "./kv-session";
+
+/**
+ * Throws when deleting the user would break data that belongs to someone else
+ */
+async function assertUserCanBeDeleted(userId: string) {
+  const db = getDB();
+
+  const ownedTeam = await db.query.teamMembershipTable.findFirst({
+    where: and(
+      eq(teamMembershipTable.userId, userId),
+      eq(teamMembershipTable.roleId, SYSTEM_ROLES_ENUM.OWNER),
+      eq(teamMembershipTable.isSystemRole, 1),
+    ),
+    columns: { id: true },
+  });
+
+  if (ownedTeam) {
+    throw new ZSAError("CONFLICT", "The user owns a team. Transfer the ownership or delete the team first.");
+  }
+
+  // Team ledgers keep the member who spent, bought or sent their credits
+  const teamTransaction = await db.query.creditTransactionTable.findFirst({
+    where: and(
+      eq(creditTransactionTable.userId, userId),
+      isNotNull(creditTransactionTable.teamId),
+    ),
+    columns: { id: true },
+  });
+  const teamPurchase = await db.query.purchasedItemsTable.findFirst({
+    where: and(
+      eq(purchasedItemsTable.userId, userId),
+      isNotNull(purchasedItemsTable.teamId),
+    ),
+    columns: { id: true },
+  });
+
+  if (teamTransaction || teamPurchase) {
+    throw new ZSAError("CONFLICT", "The user has credit activity in a team's wallet that would be lost. Ban the user instead.");
+  }
+
+  const subscribedUser = await db.query.userTable.findFirst({
+    where: and(
+      eq(userTable.id, userId),
+      isNotNull(userTable.stripeSubscriptionId),
+      gt(userTable.planExpiresAt, new Date()),
+    ),
+    columns: { id: true },
+  });
+
+  if (subscribedUser) {
+    throw new ZSAError("CONFLICT", "The user has an active subscription. Cancel it in Stripe first.");
+  }
+}
+
+/**
+ * Permanently deletes the user with their passkeys, team memberships, personal credit ledger,
+ * purchases and everything else that references them, and signs them out everywhere.
+ * References that are only kept for history, like who created a promo code, are cleared instead.
+ */
+export async function deleteUser(userId: string) {
+  await assertUserCanBeDeleted(userId);
+
+  const db = getDB();
+  const userTransactionIds = db
+    .select({ id: creditTransactionTable.id })
+    .from(creditTransactionTable)
+    .where(eq(creditTransactionTable.userId, userId));
+
+  // Rows that reference others come first, the foreign keys are checked after every statement
+  await db.batch([
+    db.delete(creditTransferTable).where(or(
+      eq(creditTransferTable.senderUserId, userId),
+      eq(creditTransferTable.recipientUserId, userId),
+    )),
+    // Buckets that other users received from the user's transfers
+    db.update(creditTransactionTable)
+      .set({ relatedTransactionId: null })
+      .where(and(
+        ne(creditTransactionTable.userId, userId),
+        inArray(creditTransactionTable.relatedTransactionId, userTransactionIds),
+      )),
+    db.delete(usageReservationTable).where(eq(usageReservationTable.userId, userId)),
+    db.delete(promoCodeRedemptionTable).where(eq(promoCodeRedemptionTable.userId, userId)),
+    db.delete(creditTransactionTable).where(eq(creditTransactionTable.userId, userId)),
+    db.delete(usageDailyTable).where(eq(usageDailyTable.walletId, userId)),
+    db.delete(purchasedItemsTable).where(eq(purchasedItemsTable.userId, userId)),
+    db.delete(marketplaceReviewTable).where(eq(marketplaceReviewTable.userId, userId)),
+    db.update(marketplaceReviewTable).set({ hiddenBy: null }).where(eq(marketplaceReviewTable.hiddenBy, userId)),
+    db.delete(wishlistItemTable).where(eq(wishlistItemTable.userId, userId)),
+    db.update(marketplaceItemPriceTable).set({ createdBy: null }).where(eq(marketplaceItemPriceTable.createdBy, userId)),
+    db.update(promoCodeTable).set({ createdBy: null }).where(eq(promoCodeTable.createdBy, userId)),
+    db.update(announcementTable).set({ createdBy: null }).where(eq(announcementTable.createdBy, userId)),
+    db.delete(announcementDismissalTable).where(eq(announcementDismissalTable.userId, userId)),
+    db.delete(userImpersonationTable).where(eq(userImpersonationTable.userId, userId)),
+    // The impersonations of a deleted admin stay in the history of the users they impersonated
+    db.update(userImpersonationTable).set({ adminUserId: null }).where(eq(userImpersonationTable.adminUserId, userId)),
+    db.delete(teamInvitationTable).where(eq(teamInvitationTable.invitedBy, userId)),
+    db.update(teamInvitationTable).set({ acceptedBy: null }).where(eq(teamInvitationTable.acceptedBy, userId)),
+    db.update(teamMembershipTable).set({ invitedBy: null }).where(eq(teamMembershipTable.invitedBy, userId)),
+    db.delete(teamMembershipTable).where(eq(teamMembershipTable.userId, userId)),
+    db.delete(passKeyCredentialTable).where(eq(passKeyCredentialTable.userId, userId)),
+    db.delete(userTable).where(eq(userTable.id, userId)),
+  ]);
+
+  await deleteAllSessionsOfUser(userId);
+}
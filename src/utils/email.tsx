@@ -5,6 +5,11 @@ import { render } from '@react-email/render'
 import { ResetPasswordEmail } from "@/react-email/reset-password";
 import { VerifyEmail } from "@/react-email/verify-email";
 import { TeamInviteEmail } from "@/react-email/team-invite";
+import { ReceiptEmail } from "@/react-email/receipt";
+import { LowBalanceEmail } from "@/react-email/low-balance";
+import { CreditExpiryEmail } from "@/react-email/credit-expiry";
+import { WishlistEmail } from "@/react-email/wishlist";
+import type { CreditPurchaseReceipt } from "./receipts";
 import isProd from "./is-prod";
 
 interface BrevoEmailOptions {
@@ -270,3 +275,204 @@ export async function sendTeamInvitationEmail({
     });
   }
 }
+
+export async function sendCreditPurchaseReceiptEmail({
+  email,
+  receipt,
+}: {
+  email: string;
+  receipt: CreditPurchaseReceipt;
+}) {
+  const receiptUrl = `${SITE_URL}/dashboard/billing/receipts/${receipt.transactionId}`;
+
+  if (!isProd) {
+    console.warn('\n\n\nReceipt url: ', receiptUrl)
+    return
+  }
+
+  const html = await render(ReceiptEmail({ receipt, receiptLink: receiptUrl }));
+  const provider = await getEmailProvider();
+
+  if (!provider && isProd) {
+    throw new Error("No email provider configured. Set either RESEND_API_KEY or BREVO_API_KEY in your environment.");
+  }
+
+  if (provider === "resend") {
+    await sendResendEmail({
+      to: [email],
+      subject: `Your receipt from ${SITE_DOMAIN}`,
+      html,
+      tags: [{ name: "type", value: "receipt" }],
+    });
+  } else {
+    await sendBrevoEmail({
+      to: [{ email, name: receipt.billedTo.name }],
+      subject: `Your receipt from ${SITE_DOMAIN}`,
+      htmlContent: html,
+      tags: ["receipt"],
+    });
+  }
+}
+
+export async function sendLowBalanceEmail({
+  email,
+  teamName,
+  teamSlug,
+  balance,
+  threshold,
+  autoTopUp,
+}: {
+  email: string;
+  teamName?: string;
+  teamSlug?: string;
+  balance: number;
+  threshold: number;
+  autoTopUp?: {
+    credits: number;
+    succeeded: boolean;
+  };
+}) {
+  const billingUrl = teamSlug
+    ? `${SITE_URL}/dashboard/teams/${teamSlug}/billing`
+    : `${SITE_URL}/dashboard/billing`;
+
+  if (!isProd) {
+    console.warn('\n\n\nLow balance billing url: ', billingUrl)
+    return
+  }
+
+  const html = await render(LowBalanceEmail({
+    billingLink: billingUrl,
+    teamName,
+    balance,
+    threshold,
+    autoTopUp,
+  }));
+  const provider = await getEmailProvider();
+
+  if (!provider && isProd) {
+    throw new Error("No email provider configured. Set either RESEND_API_KEY or BREVO_API_KEY in your environment.");
+  }
+
+  if (provider === "resend") {
+    await sendResendEmail({
+      to: [email],
+      subject: `Your credit balance on ${SITE_DOMAIN} is low`,
+      html,
+      tags: [{ name: "type", value: "low-balance" }],
+    });
+  } else {
+    await sendBrevoEmail({
+      to: [{ email }],
+      subject: `Your credit balance on ${SITE_DOMAIN} is low`,
+      htmlContent: html,
+      tags: ["low-balance"],
+    });
+  }
+}
+
+export async function sendCreditExpiryWarningEmail({
+  email,
+  teamName,
+  teamSlug,
+  expirations,
+}: {
+  email: string;
+  teamName?: string;
+  teamSlug?: string;
+  expirations: {
+    credits: number;
+    expiresAt: Date;
+  }[];
+}) {
+  const billingUrl = teamSlug
+    ? `${SITE_URL}/dashboard/teams/${teamSlug}/billing`
+    : `${SITE_URL}/dashboard/billing`;
+
+  if (!isProd) {
+    console.warn('\n\n\nCredit expiry billing url: ', billingUrl)
+    return
+  }
+
+  const html = await render(CreditExpiryEmail({
+    billingLink: billingUrl,
+    teamName,
+    expirations,
+  }));
+  const provider = await getEmailProvider();
+
+  if (!provider && isProd) {
+    throw new Error("No email provider configured. Set either RESEND_API_KEY or BREVO_API_KEY in your environment.");
+  }
+
+  if (provider === "resend") {
+    await sendResendEmail({
+      to: [email],
+      subject: `Your credits on ${SITE_DOMAIN} expire soon`,
+      html,
+      tags: [{ name: "type", value: "credit-expiry" }],
+    });
+  } else {
+    await sendBrevoEmail({
+      to: [{ email }],
+      subject: `Your credits on ${SITE_DOMAIN} expire soon`,
+      htmlContent: html,
+      tags: ["credit-expiry"],
+    });
+  }
+}
+
+export async function sendWishlistEmail({
+  email,
+  reason,
+  balance,
+  items,
+}: {
+  email: string;
+  reason: "price-drop" | "affordable";
+  // The user's balance, for the affordable items
+  balance?: number;
+  items: {
+    name: string;
+    credits: number;
+    previousCredits?: number;
+  }[];
+}) {
+  const marketplaceUrl = `${SITE_URL}/dashboard/marketplace?view=wishlist`;
+  const subject = reason === "price-drop"
+    ? `An item on your ${SITE_DOMAIN} wishlist is cheaper now`
+    : `You can afford items on your ${SITE_DOMAIN} wishlist`;
+
+  if (!isProd) {
+    console.warn('\n\n\nWishlist marketplace url: ', marketplaceUrl)
+    return
+  }
+
+  const html = await render(WishlistEmail({
+    marketplaceLink: marketplaceUrl,
+    reason,
+    balance,
+    items,
+  }));
+  const provider = await getEmailProvider();
+
+  if (!provider && isProd) {
+    throw new Error("No email provider configured. Set either RESEND_API_KEY or BREVO_API_KEY in your environment.");
+  }
+
+  if (provider === "resend") {
+    await sendResendEmail({
+      to: [email],
+      subject,
+      html,
+      tags: [{ name: "type", value: `wishlist-${reason}` }],
+    });
+  } else {
+    await sendBrevoEmail({
+      to: [{ email }],
+      subject,
+      htmlContent: html,
+      tags: [`wishlist-${reason}`],
+    });
+  }
+}
@@ -29,6 +29,14 @@ export interface KVSession {
   userAgent?: string | null;
   authenticationType?: "passkey" | "password" | "google-oauth";
   passkeyCredentialId?: string;
+  /**
+   * Set when an admin is signed in as the user, with the record in the user_impersonation table
+   */
+  impersonation?: {
+    id: string;
+    adminUserId: string;
+    adminEmail: string | null;
+  };
   /**
    * Teams data - contains list of teams the user is a member of
    * along with role and permissions data
@@ -63,7 +71,7 @@ export interface KVSession {
  * IF YOU MAKE ANY CHANGES TO THE KVSESSION TYPE ABOVE, YOU NEED TO INCREMENT THIS VERSION.
  * THIS IS HOW WE TRACK WHEN WE NEED TO UPDATE THE SESSIONS IN THE KV STORE.
  */
-export const CURRENT_SESSION_VERSION = 2;
+export const CURRENT_SESSION_VERSION = 3;
 
 export async function getKV() {
   const { env } = getCloudflareContext();
@@ -82,6 +90,7 @@ export async function createKVSession({
   user,
   authenticationType,
   passkeyCredentialId,
+  impersonation,
   teams
 }: CreateKVSessionParams): Promise<KVSession> {
   const { cf } = getCloudflareContext();
@@ -105,6 +114,7 @@ export async function createKVSession({
     user,
     authenticationType,
     passkeyCredentialId,
+    impersonation,
     teams,
     version: CURRENT_SESSION_VERSION
   };
@@ -112,8 +122,9 @@ export async function createKVSession({
   // Check if user has reached the session limit
   const existingSessions = await getAllSessionIdsOfUser(userId);
 
-  // If user has MAX_SESSIONS_PER_USER or more sessions, delete the oldest one
-  if (existingSessions.length >= MAX_SESSIONS_PER_USER) {
+  // If user has MAX_SESSIONS_PER_USER or more sessions, delete the oldest one.
+  // Impersonating the user doesn't sign them out of their own sessions.
+  if (!impersonation && existingSessions.length >= MAX_SESSIONS_PER_USER) {
     // Sort sessions by expiration time (oldest first)
     const sortedSessions = [...existingSessions].sort((a, b) => {
       // If a session has no expiration, treat it as oldest
@@ -237,6 +248,34 @@ export async function getAllSessionIdsOfUser(userId: string) {
   }))
 }
 
+/**
+ * Signs the user out everywhere
+ */
+export async function deleteAllSessionsOfUser(userId: string) {
+  const sessions = await getAllSessionIdsOfUser(userId);
+  const kv = await getKV();
+
+  if (!kv) {
+    throw new Error("Can't connect to KV store");
+  }
+
+  await Promise.all(sessions.map(({ key }) => kv.delete(key)));
+}
+
+/**
+ * The sessions of a user that haven't expired yet, newest first
+ */
+export async function getAllSessionsOfUser(userId: string) {
+  const sessionIds = await getAllSessionIdsOfUser(userId);
+  const sessions = await Promise.all(
+    sessionIds.map(({ key }) => getKVSession(key.split(":")[2], userId))
+  );
+
+  return sessions
+    .filter((session): session is KVSession => Boolean(session && session.expiresAt > Date.now()))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
 /**
  * Update all sessions of a user. It can only be called in a server actions and api routes.
  * @param userId
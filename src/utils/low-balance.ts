@@ -0,0 +1,262 @@
+import "server-only";
+import type Stripe from "stripe";
+import { and, eq, isNull, isNotNull } from "drizzle-orm";
+import { getDB } from "@/db";
+import { teamTable, userTable } from "@/db/schema";
+import { CREDIT_PACKAGES } from "@/constants";
+import { getStripe } from "@/lib/stripe";
+import { sendLowBalanceEmail } from "./email";
+
+/**
+ * The low balance settings of the user's wallet, or of the team's wallet when `teamId` is set
+ */
+async function getWalletSettings({ userId, teamId }: { userId: string; teamId?: string | null }) {
+  const db = getDB();
+  const user = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+  });
+
+  if (!user) {
+    return undefined;
+  }
+
+  if (!teamId) {
+    return { ...user, teamName: undefined, teamSlug: undefined };
+  }
+
+  const team = await db.query.teamTable.findFirst({
+    where: eq(teamTable.id, teamId),
+  });
+
+  if (!team) {
+    return undefined;
+  }
+
+  // Team alerts go to the billing email, or to the member whose usage crossed the threshold
+  return { ...team, email: team.billingEmail ?? user.email, teamName: team.name, teamSlug: team.slug };
+}
+
+/**
+ * Purchases of wallets with auto top-up enabled save the card so it can be charged later
+ */
+export async function shouldSavePaymentMethod({ userId, teamId }: { userId: string; teamId?: string | null }) {
+  const wallet = await getWalletSettings({ userId, teamId });
+
+  return Boolean(wallet?.autoTopUpPackageId);
+}
+
+/**
+ * Stores the card of a successful purchase that was made with `savePaymentMethod`
+ * as the card that auto top-ups are charged to. Storing the same card again changes
+ * nothing, so retries of the purchase can call this again.
+ */
+export async function saveAutoTopUpPaymentMethod(paymentIntent: Stripe.PaymentIntent) {
+  const { userId, teamId, savePaymentMethod } = paymentIntent.metadata;
+  const paymentMethodId = typeof paymentIntent.payment_method === "string"
+    ? paymentIntent.payment_method
+    : paymentIntent.payment_method?.id;
+
+  if (savePaymentMethod !== "true" || !userId || !paymentMethodId) {
+    return;
+  }
+
+  const db = getDB();
+
+  if (teamId) {
+    await db
+      .update(teamTable)
+      .set({ stripePaymentMethodId: paymentMethodId })
+      .where(eq(teamTable.id, teamId));
+  } else {
+    await db
+      .update(userTable)
+      .set({ stripePaymentMethodId: paymentMethodId })
+      .where(eq(userTable.id, userId));
+  }
+}
+
+/**
+ * Marks the alert of a wallet as sent. Only the first of several concurrent
+ * requests that cross the threshold gets the time back and sends the alert.
+ */
+async function claimLowBalanceAlert({ userId, teamId }: { userId: string; teamId?: string | null }) {
+  const db = getDB();
+  const alertSentAt = new Date();
+
+  const claimed = teamId
+    ? await db
+      .update(teamTable)
+      .set({ lowBalanceAlertSentAt: alertSentAt })
+      .where(and(eq(teamTable.id, teamId), isNull(teamTable.lowBalanceAlertSentAt)))
+      .returning({ id: teamTable.id })
+    : await db
+      .update(userTable)
+      .set({ lowBalanceAlertSentAt: alertSentAt })
+      .where(and(eq(userTable.id, userId), isNull(userTable.lowBalanceAlertSentAt)))
+      .returning({ id: userTable.id });
+
+  return claimed.length ? alertSentAt : undefined;
+}
+
+/**
+ * Rearms the alert once the balance is back above the threshold
+ */
+async function resetLowBalanceAlert({ userId, teamId }: { userId: string; teamId?: string | null }) {
+  const db = getDB();
+
+  if (teamId) {
+    await db
+      .update(teamTable)
+      .set({ lowBalanceAlertSentAt: null })
+      .where(and(eq(teamTable.id, teamId), isNotNull(teamTable.lowBalanceAlertSentAt)));
+  } else {
+    await db
+      .update(userTable)
+      .set({ lowBalanceAlertSentAt: null })
+      .where(and(eq(userTable.id, userId), isNotNull(userTable.lowBalanceAlertSentAt)));
+  }
+}
+
+/**
+ * Charges the saved card off-session for the auto top-up package. The purchase is
+ * credited by the `payment_intent.succeeded` webhook like any other purchase.
+ */
+async function chargeAutoTopUp({
+  userId,
+  teamId,
+  stripeCustomerId,
+  stripePaymentMethodId,
+  creditPackage,
+  alertSentAt,
+}: {
+  userId: string;
+  teamId?: string | null;
+  stripeCustomerId: string;
+  stripePaymentMethodId: string;
+  creditPackage: typeof CREDIT_PACKAGES[number];
+  alertSentAt: Date;
+}) {
+  try {
+    const paymentIntent = await getStripe().paymentIntents.create({
+      amount: creditPackage.price * 100,
+      currency: 'usd',
+      customer: stripeCustomerId,
+      payment_method: stripePaymentMethodId,
+      off_session: true,
+      confirm: true,
+      metadata: {
+        userId,
+        packageId: creditPackage.id,
+        credits: creditPackage.credits.toString(),
+        autoTopUp: "true",
+        ...(teamId ? { teamId } : {}),
+      },
+    }, {
+      // One top-up per alert, even if the request is retried
+      idempotencyKey: `auto-top-up:${teamId ?? userId}:${alertSentAt.getTime()}`,
+    });
+
+    return paymentIntent.status === "succeeded" || paymentIntent.status === "processing";
+  } catch (error) {
+    // Declined cards and cards that require authentication can't be charged off-session
+    console.error(`Auto top-up of ${teamId ? `team ${teamId}` : `user ${userId}`} failed:`, error);
+    return false;
+  }
+}
+
+/**
+ * Runs after credits were consumed. When the balance drops below the wallet's threshold, it
+ * emails an alert and charges the auto top-up, once until the balance recovers. Failures
+ * are logged and don't affect the usage that was charged.
+ */
+export async function handleLowBalance({
+  userId,
+  teamId,
+  balance,
+}: {
+  userId: string;
+  teamId?: string | null;
+  balance: number;
+}) {
+  try {
+    const wallet = await getWalletSettings({ userId, teamId });
+
+    if (wallet?.lowBalanceThreshold == null) {
+      return;
+    }
+
+    if (balance >= wallet.lowBalanceThreshold) {
+      if (wallet.lowBalanceAlertSentAt) {
+        await resetLowBalanceAlert({ userId, teamId });
+      }
+
+      return;
+    }
+
+    const alertSentAt = await claimLowBalanceAlert({ userId, teamId });
+
+    if (!alertSentAt) {
+      return;
+    }
+
+    const creditPackage = CREDIT_PACKAGES.find((pkg) => pkg.id === wallet.autoTopUpPackageId);
+    let autoTopUp: { credits: number; succeeded: boolean } | undefined;
+
+    if (creditPackage && wallet.stripeCustomerId && wallet.stripePaymentMethodId) {
+      autoTopUp = {
+        credits: creditPackage.credits,
+        succeeded: await chargeAutoTopUp({
+          userId,
+          teamId,
+          stripeCustomerId: wallet.stripeCustomerId,
+          stripePaymentMethodId: wallet.stripePaymentMethodId,
+          creditPackage,
+          alertSentAt,
+        }),
+      };
+    }
+
+    if (wallet.email) {
+      await sendLowBalanceEmail({
+        email: wallet.email,
+        teamName: wallet.teamName,
+        teamSlug: wallet.teamSlug,
+        balance,
+        threshold: wallet.lowBalanceThreshold,
+        autoTopUp,
+      });
+    }
+  } catch (error) {
+    console.error(`Failed to handle the low balance of ${teamId ? `team ${teamId}` : `user ${userId}`}:`, error);
+  }
+}
+
+/**
+ * Updates the low balance settings of a wallet. The alert is rearmed so that a
+ * new threshold takes effect with the next usage.
+ */
+export async function setLowBalanceSettings({
+  userId,
+  teamId,
+  lowBalanceThreshold,
+  autoTopUpPackageId,
+}: {
+  userId: string;
+  teamId?: string | null;
+  lowBalanceThreshold: number | null;
+  autoTopUpPackageId: string | null;
+}) {
+  const db = getDB();
+  const settings = {
+    lowBalanceThreshold,
+    // Auto top-ups are charged when the balance drops below the threshold
+    autoTopUpPackageId: lowBalanceThreshold === null ? null : autoTopUpPackageId,
+    lowBalanceAlertSentAt: null,
+  };
+
+  if (teamId) {
+    await db.update(teamTable).set(settings).where(eq(teamTable.id, teamId));
+  } else {
+    await db.update(userTable).set(settings).where(eq(userTable.id, userId));
+  }
+}
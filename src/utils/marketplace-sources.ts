@@ -0,0 +1,71 @@
+import "server-only";
+import { getCloudflareContext } from "@opennextjs/cloudflare";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import { marketplaceItemTable, type MarketplaceItem } from "@/db/schema";
+import { MAX_MARKETPLACE_SOURCE_SIZE } from "@/schemas/marketplace-item.schema";
+
+type SourceItem = Pick<MarketplaceItem, "id" | "type" | "slug" | "version" | "sourceKey">;
+
+/**
+ * The R2 bucket with the source files of the marketplace items. In development it's the
+ * local Miniflare bucket in .wrangler/state.
+ */
+function getMarketplaceBucket() {
+  return getCloudflareContext().env.MARKETPLACE_BUCKET;
+}
+
+function getSourceKey(item: SourceItem, fileName: string) {
+  const extension = fileName.match(/\.[a-z0-9.]+$/i)?.[0]?.toLowerCase() ?? "";
+
+  // Every upload gets a new key, so the item points at a complete file until the upload is saved
+  return `sources/${item.type.toLowerCase()}/${item.slug}/${item.version}-${Date.now()}${extension}`;
+}
+
+/**
+ * Stores the file as the item's source and deletes the one it replaces once the item points at the new one
+ */
+export async function uploadMarketplaceItemSource(item: SourceItem, file: File) {
+  if (file.size > MAX_MARKETPLACE_SOURCE_SIZE) {
+    throw new Error("Source file is too large");
+  }
+
+  const bucket = getMarketplaceBucket();
+  const key = getSourceKey(item, file.name);
+
+  await bucket.put(key, await file.arrayBuffer(), {
+    httpMetadata: {
+      contentType: file.type || "application/octet-stream",
+    },
+  });
+
+  await getDB()
+    .update(marketplaceItemTable)
+    .set({
+      sourceKey: key,
+      sourceFileName: file.name,
+      sourceSize: file.size,
+    })
+    .where(eq(marketplaceItemTable.id, item.id));
+
+  if (item.sourceKey) {
+    await bucket.delete(item.sourceKey);
+  }
+}
+
+export async function deleteMarketplaceItemSource(item: Pick<MarketplaceItem, "sourceKey">) {
+  if (item.sourceKey) {
+    await getMarketplaceBucket().delete(item.sourceKey);
+  }
+}
+
+/**
+ * The source file object with its body, null when the item has none or it's missing from the bucket
+ */
+export async function getMarketplaceItemSource(item: Pick<MarketplaceItem, "sourceKey">) {
+  if (!item.sourceKey) {
+    return null;
+  }
+
+  return getMarketplaceBucket().get(item.sourceKey);
+}
@@ -0,0 +1,260 @@
+import "server-only";
+import { cache } from "react";
+import { and, asc, avg, count, desc, eq, gte, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  marketplaceBundleTable,
+  marketplaceItemTable,
+  marketplaceItemPriceTable,
+  marketplaceReviewTable,
+  purchasedItemsTable,
+  teamMembershipTable,
+  MARKETPLACE_ITEM_STATUS,
+  type PURCHASABLE_ITEM_TYPE,
+  type MarketplaceBundle,
+  type MarketplaceItem,
+} from "@/db/schema";
+import type { MarketplaceFilters } from "@/schemas/marketplace-filters.schema";
+
+export type PurchasableItemType = keyof typeof PURCHASABLE_ITEM_TYPE;
+
+/**
+ * The items shown in the marketplace, in catalog order unless sorted otherwise. Archived items are
+ * only shown to their owners, `purchasedItems` holds the `${type}:${slug}` keys of the items the
+ * user or the team owns, which the `owned` filter also uses. The wishlist view is limited to the
+ * IDs in `wishlistItemIds`.
+ */
+export async function getMarketplaceItems({
+  purchasedItems,
+  wishlistItemIds = new Set(),
+  filters = {},
+}: {
+  purchasedItems: Set<string>;
+  wishlistItemIds?: Set<string>;
+  filters?: Partial<MarketplaceFilters>;
+}) {
+  const { type, q: search, minPrice, maxPrice, owned, sort, view } = filters;
+
+  // How many users and teams bought the item
+  const purchaseCount = sql<number>`(SELECT count(*) FROM ${purchasedItemsTable} WHERE ${purchasedItemsTable.itemType} = ${marketplaceItemTable.type} AND ${purchasedItemsTable.itemId} = ${marketplaceItemTable.slug})`;
+
+  const orderBy = {
+    featured: [asc(marketplaceItemTable.createdAt)],
+    newest: [desc(marketplaceItemTable.createdAt)],
+    "price-asc": [asc(marketplaceItemTable.credits), asc(marketplaceItemTable.createdAt)],
+    "price-desc": [desc(marketplaceItemTable.credits), asc(marketplaceItemTable.createdAt)],
+    popular: [desc(purchaseCount), asc(marketplaceItemTable.createdAt)],
+  }[sort ?? "featured"];
+
+  const items = await getDB()
+    .select()
+    .from(marketplaceItemTable)
+    .where(and(
+      inArray(marketplaceItemTable.status, [MARKETPLACE_ITEM_STATUS.PUBLISHED, MARKETPLACE_ITEM_STATUS.ARCHIVED]),
+      type ? eq(marketplaceItemTable.type, type) : undefined,
+      search
+        ? or(
+          sql`${marketplaceItemTable.name} LIKE ${`%${search}%`}`,
+          sql`${marketplaceItemTable.description} LIKE ${`%${search}%`}`,
+        )
+        : undefined,
+      minPrice !== undefined ? gte(marketplaceItemTable.credits, minPrice) : undefined,
+      maxPrice !== undefined ? lte(marketplaceItemTable.credits, maxPrice) : undefined,
+    ))
+    .orderBy(...orderBy);
+
+  return items.filter((item) => {
+    const isOwned = purchasedItems.has(`${item.type}:${item.slug}`);
+
+    if (owned === "owned" && !isOwned) return false;
+    if (owned === "not-owned" && isOwned) return false;
+    if (view === "wishlist" && !wishlistItemIds.has(item.id)) return false;
+
+    return item.status === MARKETPLACE_ITEM_STATUS.PUBLISHED || isOwned;
+  });
+}
+
+export async function getMarketplaceItem({ type, slug }: { type: PurchasableItemType; slug: string }) {
+  return getDB().query.marketplaceItemTable.findFirst({
+    where: and(
+      eq(marketplaceItemTable.type, type),
+      eq(marketplaceItemTable.slug, slug),
+    ),
+  });
+}
+
+/**
+ * The entry of the item's price history that matches its current price, which purchases
+ * are recorded with
+ */
+export async function getCurrentMarketplaceItemPrice(item: Pick<MarketplaceItem, "id" | "credits">) {
+  return getDB().query.marketplaceItemPriceTable.findFirst({
+    where: and(
+      eq(marketplaceItemPriceTable.itemId, item.id),
+      eq(marketplaceItemPriceTable.credits, item.credits),
+    ),
+    orderBy: [desc(marketplaceItemPriceTable.createdAt)],
+  });
+}
+
+type BundleWithItems = MarketplaceBundle & { bundleItems: { item: MarketplaceItem }[] };
+
+/**
+ * Splits the price of the bundle between its published items in proportion to their own prices
+ * and leaves out the items in `purchasedItems`, so owners of some of the items only pay for the
+ * rest. The shares are rounded so that they add up to the whole price when nothing is owned.
+ */
+export function getMarketplaceBundlePrice(bundle: BundleWithItems, purchasedItems: Set<string>) {
+  const items = bundle.bundleItems
+    .map(({ item }) => item)
+    .filter((item) => item.status === MARKETPLACE_ITEM_STATUS.PUBLISHED)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  const fullPrice = items.reduce((total, item) => total + item.credits, 0);
+
+  const shares = items
+    .filter((item) => !purchasedItems.has(`${item.type}:${item.slug}`))
+    .map((item) => {
+      const exactCredits = fullPrice ? item.credits * bundle.credits / fullPrice : 0;
+      return { item, exactCredits, credits: Math.floor(exactCredits) };
+    });
+
+  const credits = Math.round(shares.reduce((total, share) => total + share.exactCredits, 0));
+  let remainder = credits - shares.reduce((total, share) => total + share.credits, 0);
+
+  // Largest remainder first
+  for (const share of [...shares].sort((a, b) => (b.exactCredits - b.credits) - (a.exactCredits - a.credits))) {
+    if (remainder <= 0) break;
+
+    share.credits += 1;
+    remainder -= 1;
+  }
+
+  return {
+    items,
+    credits,
+    // What the charged items would cost when bought one by one
+    regularPrice: shares.reduce((total, share) => total + share.item.credits, 0),
+    lineItems: shares.map(({ item, credits }) => ({ item, credits })),
+  };
+}
+
+/**
+ * The published bundles with their price for the caller, `purchasedItems` holds the
+ * `${type}:${slug}` keys of the items the user or the team owns
+ */
+export async function getMarketplaceBundles({ purchasedItems }: { purchasedItems: Set<string> }) {
+  const bundles = await getDB().query.marketplaceBundleTable.findMany({
+    where: eq(marketplaceBundleTable.status, MARKETPLACE_ITEM_STATUS.PUBLISHED),
+    with: {
+      bundleItems: {
+        with: { item: true },
+      },
+    },
+    orderBy: [asc(marketplaceBundleTable.createdAt)],
+  });
+
+  return bundles
+    .map((bundle) => ({ ...bundle, price: getMarketplaceBundlePrice(bundle, purchasedItems) }))
+    .filter((bundle) => bundle.price.items.length > 0);
+}
+
+export async function getMarketplaceBundle(bundleId: string) {
+  return getDB().query.marketplaceBundleTable.findFirst({
+    where: eq(marketplaceBundleTable.id, bundleId),
+    with: {
+      bundleItems: {
+        with: { item: true },
+      },
+    },
+  });
+}
+
+/**
+ * The purchase through which the user owns the item, either their own or one of a team they
+ * are an active member of
+ */
+export async function getEntitledPurchase(userId: string, type: PurchasableItemType, itemId: string) {
+  const db = getDB();
+  const userTeamIds = db
+    .select({ teamId: teamMembershipTable.teamId })
+    .from(teamMembershipTable)
+    .where(and(
+      eq(teamMembershipTable.userId, userId),
+      eq(teamMembershipTable.isActive, 1),
+    ));
+
+  return db.query.purchasedItemsTable.findFirst({
+    where: and(
+      eq(purchasedItemsTable.itemType, type),
+      eq(purchasedItemsTable.itemId, itemId),
+      or(
+        and(eq(purchasedItemsTable.userId, userId), isNull(purchasedItemsTable.teamId)),
+        inArray(purchasedItemsTable.teamId, userTeamIds),
+      ),
+    ),
+    // Personal purchases first
+    orderBy: [sql`${purchasedItemsTable.teamId} IS NOT NULL`, asc(purchasedItemsTable.purchasedAt)],
+    columns: { id: true, teamId: true },
+  });
+}
+
+/**
+ * Whether the user owns the item, either themselves or through a team they are an active member of.
+ * Server components and route handlers use it to gate the content of an item.
+ */
+export const hasEntitlement = cache(async (userId: string, type: PurchasableItemType, itemId: string) => {
+  return Boolean(await getEntitledPurchase(userId, type, itemId));
+});
+
+export async function recordMarketplaceItemDownload(purchaseId: string) {
+  await getDB()
+    .update(purchasedItemsTable)
+    .set({
+      downloadCount: sql`${purchasedItemsTable.downloadCount} + 1`,
+      lastDownloadedAt: new Date(),
+    })
+    .where(eq(purchasedItemsTable.id, purchaseId));
+}
+
+/**
+ * The average rating and the number of reviews of every reviewed item by item ID, without the
+ * reviews that were hidden by an admin
+ */
+export async function getMarketplaceItemRatings() {
+  const ratings = await getDB()
+    .select({
+      itemId: marketplaceReviewTable.itemId,
+      average: avg(marketplaceReviewTable.rating).mapWith(Number),
+      count: count(),
+    })
+    .from(marketplaceReviewTable)
+    .where(isNull(marketplaceReviewTable.hiddenAt))
+    .groupBy(marketplaceReviewTable.itemId);
+
+  return new Map(ratings.map(({ itemId, average, count }) => [itemId, { average, count }]));
+}
+
+/**
+ * The visible reviews of an item, newest first. Reviewers are only shown with their first name
+ * and the initial of their last name.
+ */
+export async function getMarketplaceItemReviews(itemId: string) {
+  const reviews = await getDB().query.marketplaceReviewTable.findMany({
+    where: and(
+      eq(marketplaceReviewTable.itemId, itemId),
+      isNull(marketplaceReviewTable.hiddenAt),
+    ),
+    orderBy: [desc(marketplaceReviewTable.createdAt)],
+    columns: { id: true, userId: true, rating: true, body: true, createdAt: true },
+    with: {
+      user: {
+        columns: { firstName: true, lastName: true },
+      },
+    },
+  });
+
+  return reviews.map(({ user, ...review }) => ({
+    ...review,
+    reviewerName: [user.firstName, user.lastName ? `${user.lastName[0]}.` : null].filter(Boolean).join(" ") || "Anonymous",
+  }));
+}
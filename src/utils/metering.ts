@@ -0,0 +1,437 @@
+import "server-only";
+import { and, asc, eq, gt, gte, lt, sql } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { getDB } from "@/db";
+import {
+  usageDailyTable,
+  usageReservationTable,
+  USAGE_RESERVATION_STATUS,
+  type UsageReservation,
+} from "@/db/schema";
+import { USAGE_METERS, USAGE_RESERVATION_EXPIRATION_SECONDS } from "@/constants";
+import { consumeCredits, getTransactionByIdempotencyKey, isLedgerGuardError, refundCreditUsage } from "./credits";
+
+/*
+ * Metering bills product features by usage. Short operations call `recordUsage` once they are
+ * done. Long-running work calls `reserveUsage` before it starts, which holds the credits for the
+ * maximum number of units it may use, and then either `commitReservation` with the units it
+ * actually used or `releaseReservation` if it failed. Credits are taken from the team's wallet
+ * when `teamId` is set.
+ */
+
+export type UsageMeter = typeof USAGE_METERS[number];
+
+export function getUsageMeter(meterId: string): UsageMeter | undefined {
+  return USAGE_METERS.find((meter) => meter.id === meterId);
+}
+
+function requireUsageMeter(meterId: string) {
+  const meter = getUsageMeter(meterId);
+
+  if (!meter) {
+    throw new Error(`Unknown usage meter: ${meterId}`);
+  }
+
+  return meter;
+}
+
+function getUsageDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function formatUnits(meter: UsageMeter, units: number) {
+  return `${units} ${meter.unit}${units === 1 ? "" : "s"}`;
+}
+
+/**
+ * Adds usage to the daily row of the wallet and meter, creating the row on first use. Returns the
+ * statement, so that it's applied in the same batch as the credits it counts.
+ */
+function incrementDailyUsage({
+  walletId,
+  meterId,
+  units,
+  credits,
+}: {
+  walletId: string;
+  meterId: string;
+  units: number;
+  credits: number;
+}) {
+  return getDB()
+    .insert(usageDailyTable)
+    .values({
+      walletId,
+      meterId,
+      day: getUsageDay(new Date()),
+      units,
+      credits,
+    })
+    .onConflictDoUpdate({
+      target: [usageDailyTable.walletId, usageDailyTable.meterId, usageDailyTable.day],
+      set: {
+        units: sql`${usageDailyTable.units} + ${units}`,
+        credits: sql`${usageDailyTable.credits} + ${credits}`,
+        updatedAt: new Date(),
+      },
+    });
+}
+
+/**
+ * Charges the credits for usage that already happened
+ */
+export async function recordUsage({
+  userId,
+  teamId,
+  meterId,
+  units,
+  idempotencyKey,
+}: {
+  userId: string;
+  teamId?: string | null;
+  meterId: string;
+  units: number;
+  idempotencyKey?: string;
+}) {
+  const meter = requireUsageMeter(meterId);
+
+  if (!Number.isInteger(units) || units < 1) {
+    throw new Error("Usage needs at least one unit");
+  }
+
+  const credits = units * meter.creditsPerUnit;
+
+  // A retry of usage that was already charged is neither charged nor counted again
+  await consumeCredits({
+    userId,
+    teamId,
+    amount: credits,
+    description: `${meter.name}: ${formatUnits(meter, units)}`,
+    idempotencyKey: idempotencyKey ? `usage:${meterId}:${idempotencyKey}` : undefined,
+    statements: [incrementDailyUsage({ walletId: teamId ?? userId, meterId, units, credits })],
+  });
+}
+
+/**
+ * Holds the credits for up to `units` units of long-running work. The reservation is released
+ * automatically when it isn't committed within `expiresInSeconds`.
+ */
+export async function reserveUsage({
+  userId,
+  teamId,
+  meterId,
+  units,
+  idempotencyKey,
+  expiresInSeconds = USAGE_RESERVATION_EXPIRATION_SECONDS,
+}: {
+  userId: string;
+  teamId?: string | null;
+  meterId: string;
+  units: number;
+  idempotencyKey?: string;
+  expiresInSeconds?: number;
+}): Promise<UsageReservation> {
+  const db = getDB();
+  const meter = requireUsageMeter(meterId);
+
+  if (!Number.isInteger(units) || units < 1) {
+    throw new Error("A reservation needs at least one unit");
+  }
+
+  if (idempotencyKey) {
+    const existingReservation = await db.query.usageReservationTable.findFirst({
+      where: eq(usageReservationTable.idempotencyKey, idempotencyKey),
+    });
+
+    if (existingReservation) {
+      return existingReservation;
+    }
+  }
+
+  // Abandoned work of the same wallet shouldn't keep its credits from being used
+  await releaseExpiredReservations({ userId, teamId });
+
+  const [reservation] = await db
+    .insert(usageReservationTable)
+    .values({
+      userId,
+      teamId,
+      meterId,
+      units,
+      credits: units * meter.creditsPerUnit,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+      idempotencyKey,
+    })
+    .returning();
+
+  const usageIdempotencyKey = `usage-reservation:${reservation.id}`;
+
+  try {
+    await consumeCredits({
+      userId,
+      teamId,
+      amount: reservation.credits,
+      description: `${meter.name}: up to ${formatUnits(meter, units)}`,
+      idempotencyKey: usageIdempotencyKey,
+    });
+  } catch (error) {
+    await db
+      .update(usageReservationTable)
+      .set({ status: USAGE_RESERVATION_STATUS.RELEASED })
+      .where(eq(usageReservationTable.id, reservation.id));
+
+    throw error;
+  }
+
+  const usage = await getTransactionByIdempotencyKey(usageIdempotencyKey);
+
+  const [updatedReservation] = await db
+    .update(usageReservationTable)
+    .set({ usageTransactionId: usage?.id })
+    .where(eq(usageReservationTable.id, reservation.id))
+    .returning();
+
+  return updatedReservation;
+}
+
+async function getReservationUsageTransactionId(reservation: UsageReservation) {
+  if (reservation.usageTransactionId) {
+    return reservation.usageTransactionId;
+  }
+
+  const usage = await getTransactionByIdempotencyKey(`usage-reservation:${reservation.id}`);
+
+  return usage?.id;
+}
+
+/**
+ * Moves a pending reservation to its final status. Only one caller can do this, the statement
+ * changes no row when the reservation was already committed or released.
+ */
+function claimReservation({
+  reservationId,
+  status,
+  committedUnits,
+}: {
+  reservationId: string;
+  status: typeof USAGE_RESERVATION_STATUS.COMMITTED | typeof USAGE_RESERVATION_STATUS.RELEASED;
+  committedUnits?: number;
+}) {
+  return getDB()
+    .update(usageReservationTable)
+    .set({ status, committedUnits })
+    .where(and(
+      eq(usageReservationTable.id, reservationId),
+      eq(usageReservationTable.status, USAGE_RESERVATION_STATUS.PENDING),
+      // Expired reservations can only be released
+      ...(status === USAGE_RESERVATION_STATUS.COMMITTED ? [gt(usageReservationTable.expiresAt, new Date())] : []),
+    ));
+}
+
+/**
+ * Aborts the batch when the claim right before it changed no row, so a concurrent call that
+ * claimed the reservation first isn't followed by a second refund or count of its usage
+ */
+function reservationClaimGuard(reservationId: string) {
+  return getDB()
+    .select({ guard: sql`json('reservation_already_claimed')` })
+    .from(usageReservationTable)
+    .where(and(eq(usageReservationTable.id, reservationId), sql`changes() = 0`));
+}
+
+/**
+ * Applies the claim of a reservation together with the refund of its unused credits and the
+ * other statements in one batch. Returns false when another call claimed the reservation first.
+ */
+async function settleReservation({
+  reservation,
+  claim,
+  refund,
+  statements = [],
+}: {
+  reservation: UsageReservation;
+  claim: BatchItem<"sqlite">;
+  refund?: { credits?: number; description: string };
+  statements?: BatchItem<"sqlite">[];
+}) {
+  const usageTransactionId = refund ? await getReservationUsageTransactionId(reservation) : undefined;
+  const batch: [BatchItem<"sqlite">, ...BatchItem<"sqlite">[]] = [
+    claim,
+    reservationClaimGuard(reservation.id),
+    ...statements,
+  ];
+
+  try {
+    if (refund && usageTransactionId) {
+      const { alreadyProcessed } = await refundCreditUsage({
+        usageTransactionId,
+        credits: refund.credits,
+        description: refund.description,
+        statements: batch,
+      });
+
+      return !alreadyProcessed;
+    }
+
+    await getDB().batch(batch);
+
+    return true;
+  } catch (error) {
+    if (isLedgerGuardError(error)) {
+      return false;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Charges the units that the work actually used and returns the rest of the held credits.
+ * Reservations that expired can't be committed anymore.
+ */
+export async function commitReservation({
+  reservationId,
+  units,
+}: {
+  reservationId: string;
+  units: number;
+}) {
+  const db = getDB();
+  const reservation = await db.query.usageReservationTable.findFirst({
+    where: eq(usageReservationTable.id, reservationId),
+  });
+
+  if (!reservation) {
+    throw new Error("Reservation not found");
+  }
+
+  if (!Number.isInteger(units) || units < 0 || units > reservation.units) {
+    throw new Error(`Committed units must be between 0 and the ${reservation.units} reserved units`);
+  }
+
+  if (reservation.status === USAGE_RESERVATION_STATUS.PENDING) {
+    if (reservation.expiresAt <= new Date()) {
+      throw new Error("Reservation has expired");
+    }
+
+    const meter = requireUsageMeter(reservation.meterId);
+    // Charged at the price the credits were reserved at
+    const chargedCredits = Math.round(reservation.credits * units / reservation.units);
+    const unusedCredits = reservation.credits - chargedCredits;
+
+    await settleReservation({
+      reservation,
+      claim: claimReservation({
+        reservationId,
+        status: USAGE_RESERVATION_STATUS.COMMITTED,
+        committedUnits: units,
+      }),
+      refund: unusedCredits > 0
+        ? {
+          credits: unusedCredits,
+          description: `${meter.name}: ${formatUnits(meter, reservation.units - units)} not used`,
+        }
+        : undefined,
+      statements: units > 0
+        ? [incrementDailyUsage({
+          walletId: reservation.teamId ?? reservation.userId,
+          meterId: reservation.meterId,
+          units,
+          credits: chargedCredits,
+        })]
+        : [],
+    });
+  }
+
+  // Also returns a reservation that was committed by an earlier or a concurrent call
+  const committedReservation = await db.query.usageReservationTable.findFirst({
+    where: eq(usageReservationTable.id, reservationId),
+  });
+
+  if (committedReservation?.status === USAGE_RESERVATION_STATUS.RELEASED) {
+    throw new Error("Reservation was already released");
+  }
+
+  if (committedReservation?.status !== USAGE_RESERVATION_STATUS.COMMITTED) {
+    throw new Error("Reservation has expired");
+  }
+
+  return committedReservation;
+}
+
+/**
+ * Returns all held credits of a reservation whose work failed or was canceled
+ */
+export async function releaseReservation({ reservationId }: { reservationId: string }) {
+  const reservation = await getDB().query.usageReservationTable.findFirst({
+    where: eq(usageReservationTable.id, reservationId),
+  });
+
+  if (reservation?.status !== USAGE_RESERVATION_STATUS.PENDING) {
+    return;
+  }
+
+  const meter = getUsageMeter(reservation.meterId);
+
+  await settleReservation({
+    reservation,
+    claim: claimReservation({
+      reservationId,
+      status: USAGE_RESERVATION_STATUS.RELEASED,
+    }),
+    refund: {
+      description: `${meter?.name ?? reservation.meterId}: reservation released`,
+    },
+  });
+}
+
+/**
+ * Releases pending reservations that were not committed in time,
+ * either of one wallet or of all wallets when none is given
+ */
+export async function releaseExpiredReservations(wallet?: { userId: string; teamId?: string | null }) {
+  const expiredReservations = await getDB().query.usageReservationTable.findMany({
+    where: and(
+      eq(usageReservationTable.status, USAGE_RESERVATION_STATUS.PENDING),
+      lt(usageReservationTable.expiresAt, new Date()),
+      ...(wallet
+        ? [wallet.teamId
+          ? eq(usageReservationTable.teamId, wallet.teamId)
+          : eq(usageReservationTable.userId, wallet.userId)]
+        : []),
+    ),
+    columns: {
+      id: true,
+      teamId: true,
+    },
+  });
+
+  for (const reservation of expiredReservations) {
+    // A user's own wallet doesn't include the reservations they made for their teams
+    if (wallet && !wallet.teamId && reservation.teamId) continue;
+
+    await releaseReservation({ reservationId: reservation.id });
+  }
+}
+
+/**
+ * Returns the daily usage of a user or team wallet for the last `days` days, oldest first
+ */
+export async function getDailyUsage({ walletId, days }: { walletId: string; days: number }) {
+  const since = new Date();
+  since.setUTCDate(since.getUTCDate() - (days - 1));
+
+  return getDB().query.usageDailyTable.findMany({
+    where: and(
+      eq(usageDailyTable.walletId, walletId),
+      gte(usageDailyTable.day, getUsageDay(since)),
+    ),
+    orderBy: [asc(usageDailyTable.day)],
+    columns: {
+      day: true,
+      meterId: true,
+      units: true,
+      credits: true,
+    },
+  });
+}
@@ -0,0 +1,81 @@
+import "server-only";
+import { eq } from "drizzle-orm";
+import { getDB } from "@/db";
+import { teamTable, userTable } from "@/db/schema";
+import { DEFAULT_PLAN_ID, PLANS } from "@/constants";
+
+export type Plan = typeof PLANS[number];
+
+export function getPlan(planId: string): Plan | undefined {
+  return PLANS.find((plan) => plan.id === planId);
+}
+
+/**
+ * Stripe price IDs differ between test and live mode, so they are configured per environment.
+ * Plans without a price can't be subscribed to.
+ */
+export function getPlanStripePriceId(planId: string) {
+  switch (planId) {
+    case "pro":
+      return process.env.STRIPE_PRO_PRICE_ID;
+    case "enterprise":
+      return process.env.STRIPE_ENTERPRISE_PRICE_ID;
+  }
+
+  return undefined;
+}
+
+export function getPlanByStripePriceId(priceId: string) {
+  return PLANS.find((plan) => getPlanStripePriceId(plan.id) === priceId);
+}
+
+/**
+ * Resolves the plan of a user or team from their `planId` and `planExpiresAt` columns.
+ * Falls back to the free plan when there is no subscription or it lapsed without being renewed.
+ */
+export function getActivePlan({
+  planId,
+  planExpiresAt,
+}: {
+  planId: string | null;
+  planExpiresAt: Date | null;
+}): Plan {
+  const plan = planId ? getPlan(planId) : undefined;
+  const defaultPlan = getPlan(DEFAULT_PLAN_ID) ?? PLANS[0];
+
+  if (!plan || (planExpiresAt && planExpiresAt < new Date())) {
+    return defaultPlan;
+  }
+
+  return plan;
+}
+
+export async function getUserPlan(userId: string) {
+  const user = await getDB().query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    columns: {
+      planId: true,
+      planExpiresAt: true,
+    },
+  });
+
+  return getActivePlan({
+    planId: user?.planId ?? null,
+    planExpiresAt: user?.planExpiresAt ?? null,
+  });
+}
+
+export async function getTeamPlan(teamId: string) {
+  const team = await getDB().query.teamTable.findFirst({
+    where: eq(teamTable.id, teamId),
+    columns: {
+      planId: true,
+      planExpiresAt: true,
+    },
+  });
+
+  return getActivePlan({
+    planId: team?.planId ?? null,
+    planExpiresAt: team?.planExpiresAt ?? null,
+  });
+}
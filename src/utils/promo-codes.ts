@@ -0,0 +1,405 @@
+import "server-only";
+import type Stripe from "stripe";
+import { and, eq, isNotNull, isNull, lt, ne, or, sql } from "drizzle-orm";
+import ms from "ms";
+import { getDB } from "@/db";
+import {
+  promoCodeTable,
+  promoCodeRedemptionTable,
+  CREDIT_TRANSACTION_TYPE,
+  PROMO_CODE_TYPE,
+  PROMO_CODE_REDEMPTION_STATUS,
+  type PromoCode,
+} from "@/db/schema";
+import { getStripe } from "@/lib/stripe";
+import { CREDITS_EXPIRATION_YEARS, PROMO_CODE_CLAIM_EXPIRATION_SECONDS } from "@/constants";
+import { grantCredits, getTransactionByIdempotencyKey, type CreditPackage } from "./credits";
+
+/**
+ * An error whose message can be shown to the user who entered the code
+ */
+export class PromoCodeError extends Error {}
+
+export function normalizePromoCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * The price of a credit package in cents after the discount of a promo code
+ */
+export function getDiscountedPrice(creditPackage: CreditPackage, discountPercent: number) {
+  return Math.round(creditPackage.price * (100 - discountPercent));
+}
+
+/**
+ * Returns the promo code if the user can still redeem it, otherwise throws a PromoCodeError
+ */
+export async function getRedeemablePromoCode({ code, userId }: { code: string; userId: string }) {
+  const db = getDB();
+  const promoCode = await db.query.promoCodeTable.findFirst({
+    where: eq(promoCodeTable.code, normalizePromoCode(code)),
+  });
+
+  if (!promoCode || !promoCode.isActive) {
+    throw new PromoCodeError("Invalid promo code");
+  }
+
+  if (promoCode.expiresAt && promoCode.expiresAt < new Date()) {
+    throw new PromoCodeError("This promo code has expired");
+  }
+
+  if (promoCode.maxRedemptions !== null && promoCode.redemptionCount >= promoCode.maxRedemptions) {
+    throw new PromoCodeError("This promo code has been fully redeemed");
+  }
+
+  const [{ count: userRedemptions }] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(promoCodeRedemptionTable)
+    .where(and(
+      eq(promoCodeRedemptionTable.promoCodeId, promoCode.id),
+      eq(promoCodeRedemptionTable.userId, userId),
+      ne(promoCodeRedemptionTable.status, PROMO_CODE_REDEMPTION_STATUS.RELEASED),
+    ));
+
+  if (userRedemptions >= promoCode.maxRedemptionsPerUser) {
+    throw new PromoCodeError("You have already redeemed this promo code");
+  }
+
+  return { promoCode, userRedemptions };
+}
+
+/**
+ * Counts a redemption against the code's total limit. Fails when a concurrent request
+ * took the last redemption.
+ */
+async function claimRedemption(promoCode: PromoCode) {
+  const claimed = await getDB()
+    .update(promoCodeTable)
+    .set({ redemptionCount: sql`${promoCodeTable.redemptionCount} + 1` })
+    .where(and(
+      eq(promoCodeTable.id, promoCode.id),
+      or(
+        isNull(promoCodeTable.maxRedemptions),
+        lt(promoCodeTable.redemptionCount, promoCodeTable.maxRedemptions),
+      ),
+    ))
+    .returning({ id: promoCodeTable.id });
+
+  if (!claimed.length) {
+    throw new PromoCodeError("This promo code has been fully redeemed");
+  }
+}
+
+async function releaseRedemption(promoCode: PromoCode) {
+  await getDB()
+    .update(promoCodeTable)
+    .set({ redemptionCount: sql`${promoCodeTable.redemptionCount} - 1` })
+    .where(eq(promoCodeTable.id, promoCode.id));
+}
+
+/**
+ * Redeems a CREDITS promo code and logs a PROMO transaction, for the team's wallet when `teamId` is set
+ */
+export async function redeemCreditsPromoCode({
+  userId,
+  teamId,
+  code,
+}: {
+  userId: string;
+  teamId?: string | null;
+  code: string;
+}) {
+  const { promoCode, userRedemptions } = await getRedeemablePromoCode({ code, userId });
+
+  if (promoCode.type !== PROMO_CODE_TYPE.CREDITS || !promoCode.credits) {
+    throw new PromoCodeError("This promo code can only be used when buying credits");
+  }
+
+  await claimRedemption(promoCode);
+
+  // Each redemption of the user has its own key, so concurrent requests can't exceed the per-user limit
+  const idempotencyKey = `promo-code:${promoCode.id}:${userId}:${userRedemptions}`;
+  let alreadyProcessed: boolean;
+
+  try {
+    ({ alreadyProcessed } = await grantCredits({
+      userId,
+      teamId,
+      amount: promoCode.credits,
+      description: `Promo code ${promoCode.code}`,
+      type: CREDIT_TRANSACTION_TYPE.PROMO,
+      expirationDate: new Date(Date.now() + ms(`${CREDITS_EXPIRATION_YEARS} years`)),
+      idempotencyKey,
+    }));
+  } catch (error) {
+    await releaseRedemption(promoCode);
+    throw error;
+  }
+
+  if (alreadyProcessed) {
+    await releaseRedemption(promoCode);
+    throw new PromoCodeError("You have already redeemed this promo code");
+  }
+
+  const transaction = await getTransactionByIdempotencyKey(idempotencyKey);
+
+  await getDB().insert(promoCodeRedemptionTable).values({
+    promoCodeId: promoCode.id,
+    userId,
+    teamId,
+    creditTransactionId: transaction?.id,
+  });
+
+  return promoCode;
+}
+
+/**
+ * Holds a redemption of a DISCOUNT promo code for a purchase that is about to be paid, so that the
+ * limits of the code can't be exceeded by concurrent payment intents. The claim counts against the
+ * limits right away, it is completed by recordPromoCodeDiscount or released when the payment intent
+ * is canceled or isn't paid in time.
+ */
+export async function claimDiscountPromoCode({
+  code,
+  userId,
+  teamId,
+}: {
+  code: string;
+  userId: string;
+  teamId?: string | null;
+}) {
+  const existingPromoCode = await getDB().query.promoCodeTable.findFirst({
+    where: eq(promoCodeTable.code, normalizePromoCode(code)),
+    columns: { id: true },
+  });
+
+  // Claims of earlier checkouts of the user that were closed without paying
+  if (existingPromoCode) {
+    await releasePendingClaims({ promoCodeId: existingPromoCode.id, userId });
+  }
+
+  const { promoCode } = await getRedeemablePromoCode({ code, userId });
+
+  if (promoCode.type !== PROMO_CODE_TYPE.DISCOUNT || !promoCode.discountPercent) {
+    throw new PromoCodeError("This promo code can't be applied to a purchase");
+  }
+
+  const db = getDB();
+  const claims = await db.query.promoCodeRedemptionTable.findMany({
+    where: and(
+      eq(promoCodeRedemptionTable.promoCodeId, promoCode.id),
+      eq(promoCodeRedemptionTable.userId, userId),
+      isNotNull(promoCodeRedemptionTable.claimKey),
+    ),
+    columns: { claimKey: true },
+  });
+
+  // Each redemption of the user takes one of their slots, so concurrent claims can't exceed the per-user limit
+  const takenKeys = new Set(claims.map((claim) => claim.claimKey));
+  const slot = Array.from({ length: promoCode.maxRedemptionsPerUser }, (_, index) => index)
+    .find((index) => !takenKeys.has(getClaimKey(promoCode.id, userId, index)));
+
+  if (slot === undefined) {
+    throw new PromoCodeError("You have already redeemed this promo code");
+  }
+
+  await claimRedemption(promoCode);
+
+  try {
+    const [redemption] = await db.insert(promoCodeRedemptionTable).values({
+      promoCodeId: promoCode.id,
+      userId,
+      teamId: teamId || null,
+      status: PROMO_CODE_REDEMPTION_STATUS.PENDING,
+      claimKey: getClaimKey(promoCode.id, userId, slot),
+      expiresAt: new Date(Date.now() + PROMO_CODE_CLAIM_EXPIRATION_SECONDS * 1000),
+    }).returning({ id: promoCodeRedemptionTable.id });
+
+    return { promoCode, redemptionId: redemption.id };
+  } catch (error) {
+    await releaseRedemption(promoCode);
+
+    if (isUniqueConstraintError(error, "promo_code_redemption.claimKey")) {
+      throw new PromoCodeError("You have already redeemed this promo code");
+    }
+
+    throw error;
+  }
+}
+
+function getClaimKey(promoCodeId: string, userId: string, slot: number) {
+  return `promo-code:${promoCodeId}:${userId}:${slot}`;
+}
+
+function isUniqueConstraintError(error: unknown, column: string) {
+  const message = error instanceof Error ? `${error.message} ${error.cause instanceof Error ? error.cause.message : ""}` : String(error);
+
+  return message.includes(`UNIQUE constraint failed: ${column}`);
+}
+
+/**
+ * Links a claim to the payment intent it was made for, once Stripe created it
+ */
+export async function attachPromoCodeClaim({
+  redemptionId,
+  paymentIntentId,
+  discountAmount,
+}: {
+  redemptionId: string;
+  paymentIntentId: string;
+  discountAmount: number;
+}) {
+  await getDB()
+    .update(promoCodeRedemptionTable)
+    .set({ paymentIntentId, discountAmount })
+    .where(eq(promoCodeRedemptionTable.id, redemptionId));
+}
+
+/**
+ * Gives the redemption of a claim back to the promo code. Does nothing when the claim was already
+ * completed or released.
+ */
+export async function releasePromoCodeClaim(redemptionId: string) {
+  const db = getDB();
+  const [released] = await db
+    .update(promoCodeRedemptionTable)
+    .set({
+      status: PROMO_CODE_REDEMPTION_STATUS.RELEASED,
+      claimKey: null,
+      expiresAt: null,
+    })
+    .where(and(
+      eq(promoCodeRedemptionTable.id, redemptionId),
+      eq(promoCodeRedemptionTable.status, PROMO_CODE_REDEMPTION_STATUS.PENDING),
+    ))
+    .returning({ promoCodeId: promoCodeRedemptionTable.promoCodeId });
+
+  if (released) {
+    await db
+      .update(promoCodeTable)
+      .set({ redemptionCount: sql`${promoCodeTable.redemptionCount} - 1` })
+      .where(eq(promoCodeTable.id, released.promoCodeId));
+  }
+}
+
+/**
+ * Releases the claim of a payment intent that was canceled
+ */
+export async function releasePromoCodeClaimOfPaymentIntent(paymentIntentId: string) {
+  const redemption = await getDB().query.promoCodeRedemptionTable.findFirst({
+    where: eq(promoCodeRedemptionTable.paymentIntentId, paymentIntentId),
+    columns: { id: true },
+  });
+
+  if (redemption) {
+    await releasePromoCodeClaim(redemption.id);
+  }
+}
+
+/**
+ * Cancels the payment intent of a pending claim and releases the claim. Claims whose payment
+ * is already being processed are kept, they are completed when the payment succeeds.
+ */
+async function cancelPendingClaim(claim: { id: string; paymentIntentId: string | null }) {
+  if (claim.paymentIntentId) {
+    const stripe = getStripe();
+    const paymentIntent = await stripe.paymentIntents.retrieve(claim.paymentIntentId);
+
+    if (paymentIntent.status === "succeeded" || paymentIntent.status === "processing") {
+      return;
+    }
+
+    if (paymentIntent.status !== "canceled") {
+      await stripe.paymentIntents.cancel(claim.paymentIntentId);
+    }
+  }
+
+  await releasePromoCodeClaim(claim.id);
+}
+
+async function releasePendingClaims({ promoCodeId, userId }: { promoCodeId: string; userId: string }) {
+  const claims = await getDB().query.promoCodeRedemptionTable.findMany({
+    where: and(
+      eq(promoCodeRedemptionTable.promoCodeId, promoCodeId),
+      eq(promoCodeRedemptionTable.userId, userId),
+      eq(promoCodeRedemptionTable.status, PROMO_CODE_REDEMPTION_STATUS.PENDING),
+    ),
+    columns: { id: true, paymentIntentId: true },
+  });
+
+  for (const claim of claims) {
+    await cancelPendingClaim(claim);
+  }
+}
+
+/**
+ * Releases the claims whose payment intent wasn't paid in time, called by the daily cron job
+ */
+export async function releaseExpiredPromoCodeClaims() {
+  const claims = await getDB().query.promoCodeRedemptionTable.findMany({
+    where: and(
+      eq(promoCodeRedemptionTable.status, PROMO_CODE_REDEMPTION_STATUS.PENDING),
+      lt(promoCodeRedemptionTable.expiresAt, new Date()),
+    ),
+    columns: { id: true, paymentIntentId: true },
+  });
+
+  let released = 0;
+
+  for (const claim of claims) {
+    try {
+      await cancelPendingClaim(claim);
+      released++;
+    } catch (error) {
+      console.error(`Failed to release the promo code claim ${claim.id}:`, error);
+    }
+  }
+
+  return released;
+}
+
+/**
+ * Completes the claim of the promo code that discounted a successful purchase. The payment
+ * can't be refused anymore, so a claim that was released in the meantime is counted again
+ * even if that exceeds the limits of the code.
+ */
+export async function recordPromoCodeDiscount(paymentIntent: Stripe.PaymentIntent) {
+  const { promoCodeId } = paymentIntent.metadata;
+
+  if (!promoCodeId) {
+    return;
+  }
+
+  const db = getDB();
+  const redemption = await db.query.promoCodeRedemptionTable.findFirst({
+    where: eq(promoCodeRedemptionTable.paymentIntentId, paymentIntent.id),
+    columns: { id: true, status: true },
+  });
+
+  if (redemption?.status === PROMO_CODE_REDEMPTION_STATUS.PENDING) {
+    await db
+      .update(promoCodeRedemptionTable)
+      .set({ status: PROMO_CODE_REDEMPTION_STATUS.COMPLETED, expiresAt: null })
+      .where(eq(promoCodeRedemptionTable.id, redemption.id));
+    return;
+  }
+
+  if (redemption?.status === PROMO_CODE_REDEMPTION_STATUS.RELEASED) {
+    const [restored] = await db
+      .update(promoCodeRedemptionTable)
+      .set({ status: PROMO_CODE_REDEMPTION_STATUS.COMPLETED })
+      .where(and(
+        eq(promoCodeRedemptionTable.id, redemption.id),
+        eq(promoCodeRedemptionTable.status, PROMO_CODE_REDEMPTION_STATUS.RELEASED),
+      ))
+      .returning({ id: promoCodeRedemptionTable.id });
+
+    // Only one of the webhook and the confirmation counts it
+    if (restored) {
+      await db
+        .update(promoCodeTable)
+        .set({ redemptionCount: sql`${promoCodeTable.redemptionCount} + 1` })
+        .where(eq(promoCodeTable.id, promoCodeId));
+    }
+  }
+}
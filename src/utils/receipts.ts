@@ -0,0 +1,183 @@
+import "server-only";
+import { and, eq, isNull } from "drizzle-orm";
+import { getDB } from "@/db";
+import { creditTransactionTable, promoCodeRedemptionTable, CREDIT_TRANSACTION_TYPE } from "@/db/schema";
+import { RECEIPT_TAX_RATE_PERCENT, SITE_NAME } from "@/constants";
+import { getCreditPackage } from "./credits";
+import { sendCreditPurchaseReceiptEmail } from "./email";
+
+export interface ReceiptLineItem {
+  description: string;
+  quantity: number;
+  // Amounts are in cents, discounts are negative
+  unitPrice: number;
+  amount: number;
+}
+
+export interface CreditPurchaseReceipt {
+  receiptNumber: string;
+  transactionId: string;
+  paymentIntentId: string | null;
+  issuedAt: Date;
+  seller: {
+    name: string;
+    taxId?: string;
+  };
+  billedTo: {
+    name: string;
+    email: string | null;
+  };
+  lineItems: ReceiptLineItem[];
+  currency: string;
+  // Prices include tax, so the total is what was charged and the tax is the part of it that is tax
+  subtotal: number;
+  taxRatePercent: number;
+  taxAmount: number;
+  total: number;
+}
+
+export function formatReceiptAmount(amount: number, currency: string) {
+  return new Intl.NumberFormat("en-US", { style: "currency", currency }).format(amount / 100);
+}
+
+/**
+ * Builds the receipt of a PURCHASE transaction from the credit package and the amount that were
+ * recorded with it, showing the discount of a promo code when one was used. The receipt is
+ * addressed to the team's billing email for team purchases.
+ */
+export async function getCreditPurchaseReceipt(transactionId: string): Promise<CreditPurchaseReceipt | undefined> {
+  const db = getDB();
+  const transaction = await db.query.creditTransactionTable.findFirst({
+    where: and(
+      eq(creditTransactionTable.id, transactionId),
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.PURCHASE),
+    ),
+    with: {
+      user: {
+        columns: {
+          firstName: true,
+          lastName: true,
+          email: true,
+        },
+      },
+      team: {
+        columns: {
+          name: true,
+          billingEmail: true,
+        },
+      },
+    },
+  });
+
+  if (!transaction) {
+    return undefined;
+  }
+
+  const creditPackage = transaction.packageId ? getCreditPackage(transaction.packageId) : undefined;
+
+  if (!creditPackage || transaction.amountPaid == null) {
+    console.error(`Purchase transaction ${transaction.id} has no credit package or amount paid`);
+    return undefined;
+  }
+
+  const promoCodeRedemption = transaction.paymentIntentId
+    ? await db.query.promoCodeRedemptionTable.findFirst({
+      where: eq(promoCodeRedemptionTable.paymentIntentId, transaction.paymentIntentId),
+      with: {
+        promoCode: {
+          columns: {
+            code: true,
+            discountPercent: true,
+          },
+        },
+      },
+    })
+    : undefined;
+  const discount = promoCodeRedemption?.discountAmount ?? 0;
+  const total = transaction.amountPaid;
+  // The price before the discount, which may differ from the package's current price
+  const price = total + discount;
+  const taxAmount = Math.round(total * RECEIPT_TAX_RATE_PERCENT / (100 + RECEIPT_TAX_RATE_PERCENT));
+  const userName = [transaction.user.firstName, transaction.user.lastName].filter(Boolean).join(" ");
+
+  return {
+    receiptNumber: transaction.id.replace(/^ctxn_/, "").toUpperCase(),
+    transactionId: transaction.id,
+    paymentIntentId: transaction.paymentIntentId,
+    issuedAt: transaction.createdAt,
+    seller: {
+      name: SITE_NAME,
+      taxId: process.env.RECEIPT_TAX_ID || undefined,
+    },
+    billedTo: transaction.team
+      ? {
+        name: transaction.team.name,
+        email: transaction.team.billingEmail ?? transaction.user.email,
+      }
+      : {
+        name: userName || transaction.user.email || "",
+        email: transaction.user.email,
+      },
+    lineItems: [
+      {
+        description: `${creditPackage.credits.toLocaleString("en-US")} credits`,
+        quantity: 1,
+        unitPrice: price,
+        amount: price,
+      },
+      ...(promoCodeRedemption && discount ? [{
+        description: `Promo code ${promoCodeRedemption.promoCode.code} (${promoCodeRedemption.promoCode.discountPercent}% off)`,
+        quantity: 1,
+        unitPrice: -discount,
+        amount: -discount,
+      }] : []),
+    ],
+    currency: "usd",
+    subtotal: total - taxAmount,
+    taxRatePercent: RECEIPT_TAX_RATE_PERCENT,
+    taxAmount,
+    total,
+  };
+}
+
+/**
+ * Emails the receipt of a credit purchase once per payment. The webhook and the client-side
+ * confirmation can both call this, only the first one claims the receipt and sends it. A failed
+ * email gives the claim back, so the next call sends it again.
+ */
+export async function sendCreditPurchaseReceipt(paymentIntentId: string) {
+  const db = getDB();
+  const [transaction] = await db
+    .update(creditTransactionTable)
+    .set({ receiptSentAt: new Date() })
+    .where(and(
+      eq(creditTransactionTable.paymentIntentId, paymentIntentId),
+      eq(creditTransactionTable.type, CREDIT_TRANSACTION_TYPE.PURCHASE),
+      isNull(creditTransactionTable.receiptSentAt),
+    ))
+    .returning({ id: creditTransactionTable.id });
+
+  if (!transaction) {
+    return;
+  }
+
+  try {
+    const receipt = await getCreditPurchaseReceipt(transaction.id);
+
+    if (!receipt?.billedTo.email) {
+      return;
+    }
+
+    await sendCreditPurchaseReceiptEmail({
+      email: receipt.billedTo.email,
+      receipt,
+    });
+  } catch (error) {
+    await db
+      .update(creditTransactionTable)
+      .set({ receiptSentAt: null })
+      .where(eq(creditTransactionTable.id, transaction.id));
+
+    throw error;
+  }
+}
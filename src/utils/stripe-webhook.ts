@@ -0,0 +1,114 @@
+import "server-only";
+import type Stripe from "stripe";
+import {
+  addPurchasedCredits,
+  getCreditPackage,
+  getPurchaseTransaction,
+  revokePurchasedCredits,
+} from "./credits";
+import { syncSubscription } from "./subscriptions";
+import { releasePromoCodeClaimOfPaymentIntent } from "./promo-codes";
+import { completeCreditPurchase } from "./credit-purchases";
+
+function getPaymentIntentId(paymentIntent: string | Stripe.PaymentIntent | null) {
+  if (!paymentIntent) return null;
+
+  return typeof paymentIntent === "string" ? paymentIntent : paymentIntent.id;
+}
+
+async function handlePaymentIntentSucceeded(paymentIntent: Stripe.PaymentIntent) {
+  const { userId, teamId, packageId, credits } = paymentIntent.metadata;
+
+  // Payment intents that were not created by createPaymentIntent are not ours to handle
+  if (!userId || !packageId) {
+    return;
+  }
+
+  const creditPackage = getCreditPackage(packageId);
+
+  if (!creditPackage || parseInt(credits) !== creditPackage.credits) {
+    throw new Error(`Invalid credit package in payment intent ${paymentIntent.id}`);
+  }
+
+  // Purchases made on behalf of a team are credited to the team's wallet
+  await addPurchasedCredits({
+    userId,
+    teamId,
+    creditPackage,
+    paymentIntentId: paymentIntent.id,
+    amountPaid: paymentIntent.amount_received,
+  });
+
+  // Also when the confirmation credited the purchase first, in case one of its steps failed
+  const { failedSteps } = await completeCreditPurchase(paymentIntent, { fromWebhook: true });
+
+  // Stripe delivers the event again, which retries the failed steps
+  if (failedSteps.length) {
+    throw new Error(`Failed to ${failedSteps.join(" and ")} of payment intent ${paymentIntent.id}`);
+  }
+}
+
+// Frees the promo code that was held for the purchase
+async function handlePaymentIntentCanceled(paymentIntent: Stripe.PaymentIntent) {
+  if (!paymentIntent.metadata.promoCodeId) return;
+
+  await releasePromoCodeClaimOfPaymentIntent(paymentIntent.id);
+}
+
+async function handleChargeRefunded(charge: Stripe.Charge) {
+  const paymentIntentId = getPaymentIntentId(charge.payment_intent);
+  if (!paymentIntentId || !charge.amount) return;
+
+  const purchase = await getPurchaseTransaction(paymentIntentId);
+  if (!purchase) return;
+
+  // amount_refunded is cumulative, so partial refunds revoke a proportional share of the credits
+  await revokePurchasedCredits({
+    paymentIntentId,
+    creditsToRevoke: Math.floor(purchase.amount * (charge.amount_refunded / charge.amount)),
+    description: "Credits revoked after payment refund",
+  });
+}
+
+async function handleChargeDisputeCreated(dispute: Stripe.Dispute) {
+  const paymentIntentId = getPaymentIntentId(dispute.payment_intent);
+  if (!paymentIntentId) return;
+
+  const purchase = await getPurchaseTransaction(paymentIntentId);
+  if (!purchase) return;
+
+  await revokePurchasedCredits({
+    paymentIntentId,
+    creditsToRevoke: purchase.amount,
+    description: "Credits revoked after payment dispute",
+  });
+}
+
+/**
+ * Applies a verified Stripe event to the credit ledger.
+ * Every handler is idempotent because Stripe retries deliveries until it gets a 2xx response.
+ */
+export async function handleStripeWebhookEvent(event: Stripe.Event) {
+  switch (event.type) {
+    case "payment_intent.succeeded":
+      await handlePaymentIntentSucceeded(event.data.object);
+      break;
+    case "payment_intent.canceled":
+      await handlePaymentIntentCanceled(event.data.object);
+      break;
+    case "charge.refunded":
+      await handleChargeRefunded(event.data.object);
+      break;
+    case "charge.dispute.created":
+      await handleChargeDisputeCreated(event.data.object);
+      break;
+    case "customer.subscription.created":
+    case "customer.subscription.updated":
+    case "customer.subscription.deleted":
+      await syncSubscription(event.data.object);
+      break;
+    default:
+      // Ignore events we don't subscribe to
+      break;
+  }
+}
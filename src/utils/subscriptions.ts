@@ -0,0 +1,134 @@
+import "server-only";
+import type Stripe from "stripe";
+import { and, eq, isNull } from "drizzle-orm";
+import { getDB } from "@/db";
+import { teamTable, userTable } from "@/db/schema";
+import { getStripe } from "@/lib/stripe";
+import { getPlanByStripePriceId } from "./plans";
+
+// Subscriptions in these states keep their plan until the end of the paid period
+const ACTIVE_SUBSCRIPTION_STATUSES: Stripe.Subscription.Status[] = ["active", "trialing", "past_due"];
+
+/**
+ * Returns the Stripe customer of a user, or of the team when `teamId` is set,
+ * creating it on first use. Each user and team has its own customer so that
+ * their subscriptions and invoices are kept apart.
+ */
+export async function getOrCreateStripeCustomer({
+  userId,
+  teamId,
+}: {
+  userId: string;
+  teamId?: string | null;
+}) {
+  const db = getDB();
+
+  if (teamId) {
+    const team = await db.query.teamTable.findFirst({
+      where: eq(teamTable.id, teamId),
+    });
+
+    if (!team) {
+      throw new Error("Team not found");
+    }
+
+    if (team.stripeCustomerId) {
+      return team.stripeCustomerId;
+    }
+
+    const customer = await getStripe().customers.create({
+      name: team.name,
+      email: team.billingEmail ?? undefined,
+      metadata: { teamId },
+    });
+
+    // Only the first concurrent request stores its customer
+    await db
+      .update(teamTable)
+      .set({ stripeCustomerId: customer.id })
+      .where(and(eq(teamTable.id, teamId), isNull(teamTable.stripeCustomerId)));
+
+    const updatedTeam = await db.query.teamTable.findFirst({
+      where: eq(teamTable.id, teamId),
+      columns: { stripeCustomerId: true },
+    });
+
+    return updatedTeam?.stripeCustomerId ?? customer.id;
+  }
+
+  const user = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+  });
+
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (user.stripeCustomerId) {
+    return user.stripeCustomerId;
+  }
+
+  const customer = await getStripe().customers.create({
+    name: [user.firstName, user.lastName].filter(Boolean).join(" ") || undefined,
+    email: user.email ?? undefined,
+    metadata: { userId },
+  });
+
+  await db
+    .update(userTable)
+    .set({ stripeCustomerId: customer.id })
+    .where(and(eq(userTable.id, userId), isNull(userTable.stripeCustomerId)));
+
+  const updatedUser = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    columns: { stripeCustomerId: true },
+  });
+
+  return updatedUser?.stripeCustomerId ?? customer.id;
+}
+
+/**
+ * Mirrors a Stripe subscription onto the `planId` and `planExpiresAt` of the user or team
+ * that owns its customer. Plan changes made in the Customer Portal arrive as updates of the
+ * same subscription, so the plan is always derived from its current price.
+ */
+export async function syncSubscription(subscription: Stripe.Subscription) {
+  const db = getDB();
+  const customerId = typeof subscription.customer === "string" ? subscription.customer : subscription.customer.id;
+  const priceId = subscription.items.data[0]?.price.id;
+  const plan = priceId ? getPlanByStripePriceId(priceId) : undefined;
+
+  if (plan && ACTIVE_SUBSCRIPTION_STATUSES.includes(subscription.status)) {
+    const values = {
+      planId: plan.id,
+      planExpiresAt: new Date(subscription.current_period_end * 1000),
+      stripeSubscriptionId: subscription.id,
+    };
+
+    await db.batch([
+      db.update(teamTable).set(values).where(eq(teamTable.stripeCustomerId, customerId)),
+      db.update(userTable).set(values).where(eq(userTable.stripeCustomerId, customerId)),
+    ]);
+
+    return;
+  }
+
+  // Only reset the plan if it still comes from this subscription, so that ending an
+  // old subscription doesn't downgrade a newer one
+  const values = {
+    planId: null,
+    planExpiresAt: null,
+    stripeSubscriptionId: null,
+  };
+
+  await db.batch([
+    db
+      .update(teamTable)
+      .set(values)
+      .where(and(eq(teamTable.stripeCustomerId, customerId), eq(teamTable.stripeSubscriptionId, subscription.id))),
+    db
+      .update(userTable)
+      .set(values)
+      .where(and(eq(userTable.stripeCustomerId, customerId), eq(userTable.stripeSubscriptionId, subscription.id))),
+  ]);
+}
@@ -0,0 +1,220 @@
+import "server-only";
+import { and, eq, gt, gte, inArray, isNotNull, isNull, lt } from "drizzle-orm";
+import { getDB } from "@/db";
+import {
+  marketplaceItemTable,
+  userTable,
+  wishlistItemTable,
+  MARKETPLACE_ITEM_STATUS,
+  type MarketplaceItem,
+} from "@/db/schema";
+import { getEntitledPurchase, type PurchasableItemType } from "./marketplace";
+import { sendWishlistEmail } from "./email";
+
+/**
+ * The IDs of the marketplace items on the user's wishlist
+ */
+export async function getWishlistItemIds(userId: string) {
+  const wishlistItems = await getDB().query.wishlistItemTable.findMany({
+    where: eq(wishlistItemTable.userId, userId),
+    columns: { itemId: true },
+  });
+
+  return new Set(wishlistItems.map(({ itemId }) => itemId));
+}
+
+/**
+ * Saves the item at its current price. An item the user can already afford is not announced
+ * as affordable until their balance drops below its price and recovers.
+ */
+export async function addToWishlist({ userId, item }: { userId: string; item: Pick<MarketplaceItem, "id" | "credits"> }) {
+  const db = getDB();
+  const user = await db.query.userTable.findFirst({
+    where: eq(userTable.id, userId),
+    columns: { currentCredits: true },
+  });
+
+  await db
+    .insert(wishlistItemTable)
+    .values({
+      userId,
+      itemId: item.id,
+      notifiedPrice: item.credits,
+      affordableNotifiedAt: user && user.currentCredits >= item.credits ? new Date() : null,
+    })
+    .onConflictDoNothing();
+}
+
+export async function removeFromWishlist({ userId, itemIds }: { userId: string; itemIds: string[] }) {
+  await getDB()
+    .delete(wishlistItemTable)
+    .where(and(
+      eq(wishlistItemTable.userId, userId),
+      inArray(wishlistItemTable.itemId, itemIds),
+    ));
+}
+
+/**
+ * Runs after the price of an item was changed. Emails the users who saved the item at a higher
+ * price than it has now, unless they already own it. Each user is told about a price once,
+ * later drops below it are announced again. Returns the number of emails that were sent.
+ */
+export async function notifyWishlistPriceDrop(item: MarketplaceItem) {
+  if (item.status !== MARKETPLACE_ITEM_STATUS.PUBLISHED) {
+    return 0;
+  }
+
+  const db = getDB();
+  const wishlistItems = await db.query.wishlistItemTable.findMany({
+    where: and(
+      eq(wishlistItemTable.itemId, item.id),
+      gt(wishlistItemTable.notifiedPrice, item.credits),
+    ),
+    with: {
+      user: {
+        columns: { email: true },
+      },
+    },
+  });
+
+  let sentEmails = 0;
+
+  for (const wishlistItem of wishlistItems) {
+    const [claimed] = await db
+      .update(wishlistItemTable)
+      .set({ notifiedPrice: item.credits })
+      .where(and(
+        eq(wishlistItemTable.id, wishlistItem.id),
+        gt(wishlistItemTable.notifiedPrice, item.credits),
+      ))
+      .returning({ id: wishlistItemTable.id });
+
+    if (!claimed || !wishlistItem.user.email) {
+      continue;
+    }
+
+    if (await getEntitledPurchase(wishlistItem.userId, item.type as PurchasableItemType, item.slug)) {
+      continue;
+    }
+
+    try {
+      await sendWishlistEmail({
+        email: wishlistItem.user.email,
+        reason: "price-drop",
+        items: [{ name: item.name, credits: item.credits, previousCredits: wishlistItem.notifiedPrice }],
+      });
+
+      sentEmails++;
+    } catch (error) {
+      console.error(`Failed to send the wishlist price drop email to ${wishlistItem.user.email}:`, error);
+    }
+  }
+
+  return sentEmails;
+}
+
+/**
+ * Emails users whose personal balance covers items on their wishlist, one email per user with
+ * all the new items. Each item is announced once until the balance drops below its price again.
+ * Runs for every user from the cron job, or for one user after they bought credits. Failures
+ * are logged. Returns the number of emails that were sent.
+ */
+export async function sendAffordableWishlistNotifications({ userId }: { userId?: string } = {}) {
+  const db = getDB();
+
+  try {
+    // Rearm the items whose price the balance doesn't cover anymore
+    await db
+      .update(wishlistItemTable)
+      .set({ affordableNotifiedAt: null })
+      .where(and(
+        isNotNull(wishlistItemTable.affordableNotifiedAt),
+        inArray(
+          wishlistItemTable.id,
+          db
+            .select({ id: wishlistItemTable.id })
+            .from(wishlistItemTable)
+            .innerJoin(userTable, eq(userTable.id, wishlistItemTable.userId))
+            .innerJoin(marketplaceItemTable, eq(marketplaceItemTable.id, wishlistItemTable.itemId))
+            .where(and(
+              userId ? eq(wishlistItemTable.userId, userId) : undefined,
+              lt(userTable.currentCredits, marketplaceItemTable.credits),
+            )),
+        ),
+      ));
+
+    const affordableItems = await db
+      .select({
+        id: wishlistItemTable.id,
+        userId: wishlistItemTable.userId,
+        email: userTable.email,
+        balance: userTable.currentCredits,
+        item: {
+          type: marketplaceItemTable.type,
+          slug: marketplaceItemTable.slug,
+          name: marketplaceItemTable.name,
+          credits: marketplaceItemTable.credits,
+        },
+      })
+      .from(wishlistItemTable)
+      .innerJoin(userTable, eq(userTable.id, wishlistItemTable.userId))
+      .innerJoin(marketplaceItemTable, eq(marketplaceItemTable.id, wishlistItemTable.itemId))
+      .where(and(
+        userId ? eq(wishlistItemTable.userId, userId) : undefined,
+        isNull(wishlistItemTable.affordableNotifiedAt),
+        eq(marketplaceItemTable.status, MARKETPLACE_ITEM_STATUS.PUBLISHED),
+        gte(userTable.currentCredits, marketplaceItemTable.credits),
+      ));
+
+    const itemsByUser = new Map<string, typeof affordableItems>();
+    for (const affordableItem of affordableItems) {
+      itemsByUser.set(affordableItem.userId, [...(itemsByUser.get(affordableItem.userId) ?? []), affordableItem]);
+    }
+
+    let sentEmails = 0;
+
+    for (const [wishlistUserId, items] of itemsByUser) {
+      const claimedItems = await db
+        .update(wishlistItemTable)
+        .set({ affordableNotifiedAt: new Date() })
+        .where(and(
+          inArray(wishlistItemTable.id, items.map(({ id }) => id)),
+          isNull(wishlistItemTable.affordableNotifiedAt),
+        ))
+        .returning({ id: wishlistItemTable.id });
+
+      const { email, balance } = items[0];
+      const notOwnedItems = [];
+
+      for (const { id, item } of items) {
+        if (!claimedItems.some((claimed) => claimed.id === id)) continue;
+        if (await getEntitledPurchase(wishlistUserId, item.type as PurchasableItemType, item.slug)) continue;
+
+        notOwnedItems.push({ name: item.name, credits: item.credits });
+      }
+
+      if (!notOwnedItems.length || !email) {
+        continue;
+      }
+
+      try {
+        await sendWishlistEmail({
+          email,
+          reason: "affordable",
+          balance,
+          items: notOwnedItems,
+        });
+
+        sentEmails++;
+      } catch (error) {
+        console.error(`Failed to send the affordable wishlist email to ${email}:`, error);
+      }
+    }
+
+    return sentEmails;
+  } catch (error) {
+    console.error(`Failed to send the affordable wishlist notifications${userId ? ` of user ${userId}` : ""}:`, error);
+
+    return 0;
+  }
+}
@@ -42,9 +42,29 @@ export async function withKVCache<T>(
   return result;
 }
 
+/**
+ * Drops a cached value, so the next read computes it again instead of waiting for the TTL
+ */
+export async function invalidateKVCache(key: string) {
+  if (!isProd) {
+    return;
+  }
+
+  const { env } = await getCloudflareContext({ async: true });
+  const kv = env.NEXT_INC_CACHE_KV;
+
+  if (!kv) {
+    throw new Error("Can't connect to KV store");
+  }
+
+  await kv.delete(key);
+}
+
 export const STATS_PREFIX = "stats";
 
 export const CACHE_KEYS = {
   TOTAL_USERS: `${STATS_PREFIX}:total-users`,
   GITHUB_STARS: `${STATS_PREFIX}:github-stars`,
+  ADMIN_ANALYTICS: `${STATS_PREFIX}:admin-analytics`,
+  ANNOUNCEMENTS: "announcements",
 } as const;
@@ -112,9 +112,29 @@ export const RATE_LIMITS = {
     limit: 25,
     windowInSeconds: Math.floor(ms("5 minutes") / 1000),
   },
+  MARKETPLACE_REVIEW: {
+    identifier: "marketplace-review",
+    limit: 10,
+    windowInSeconds: Math.floor(ms("1 hour") / 1000),
+  },
+  MARKETPLACE_WISHLIST: {
+    identifier: "marketplace-wishlist",
+    limit: 30,
+    windowInSeconds: Math.floor(ms("5 minutes") / 1000),
+  },
+  CREDIT_TRANSFER: {
+    identifier: "credit-transfer",
+    limit: 10,
+    windowInSeconds: Math.floor(ms("1 hour") / 1000),
+  },
   TEAM_INVITE: {
     identifier: "team-invite",
     limit: 5,
     windowInSeconds: Math.floor(ms("1 hour") / 1000),
   },
+  DISMISS_ANNOUNCEMENT: {
+    identifier: "dismiss-announcement",
+    limit: 30,
+    windowInSeconds: Math.floor(ms("5 minutes") / 1000),
+  },
 } as const;